@@ -0,0 +1,45 @@
+/**
+ * Format-specific Conversion Helper Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { convertToWEBP } from "./format-specific.js"
+
+const { converter } = vi.hoisted(() => ({
+  converter: { convert: vi.fn(), dispose: vi.fn() },
+}))
+
+vi.mock("./html-converter-factory.js", () => ({
+  createHTMLConverter: () => converter,
+}))
+
+describe("format-specific helpers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    converter.convert.mockImplementation(async (_input, format) => ({
+      content: Buffer.from("RIFF"),
+      mimeType: `image/${format}`,
+      format,
+    }))
+  })
+
+  describe("convertToWEBP", () => {
+    it("should convert to WebP with the given image options", async () => {
+      const result = await convertToWEBP("<p>Hi</p>", { quality: 75, fullPage: true })
+
+      expect(converter.convert).toHaveBeenCalledWith("<p>Hi</p>", "webp", { quality: 75, fullPage: true })
+      expect(result.mimeType).toBe("image/webp")
+      expect(converter.dispose).toHaveBeenCalledTimes(1)
+    })
+
+    it("should dispose the converter when the conversion fails", async () => {
+      converter.convert.mockRejectedValueOnce(new Error("Renderer crashed"))
+
+      await expect(convertToWEBP("<p>Hi</p>")).rejects.toThrow("Renderer crashed")
+      expect(converter.dispose).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -12,7 +12,10 @@ import type {
   ConversionInput,
   DOCXOptions,
   EnhancedConversionResult,
+  EPUBOptions,
+  HTMLOptions,
   ImageOptions,
+  JSONOptions,
   MarkdownOptions,
   MHTMLOptions,
   PDFOptions,
@@ -144,6 +147,36 @@ export async function convertToJPEG(
   }
 }
 
+/**
+ * Convert HTML to WebP format
+ *
+ * @param input - Input source (URL, file path, or content)
+ * @param options - Image-specific conversion options
+ * @returns Promise resolving to WebP conversion result
+ *
+ * @example
+ * ```typescript
+ * import { convertToWEBP } from 'html-converter-cdt'
+ *
+ * const result = await convertToWEBP('https://example.com', {
+ *   quality: 75,
+ *   dimensions: { width: 400, height: 300 }
+ * })
+ * console.log(result.content) // WebP binary content
+ * ```
+ */
+export async function convertToWEBP(
+  input: ConversionInput,
+  options: ImageOptions = {},
+): Promise<EnhancedConversionResult> {
+  const converter = createHTMLConverter()
+  try {
+    return await converter.convert(input, "webp", options)
+  } finally {
+    converter.dispose()
+  }
+}
+
 /**
  * Convert HTML to Markdown format
  *
@@ -208,6 +241,96 @@ export async function convertToDOCX(
   }
 }
 
+/**
+ * Convert HTML to EPUB format
+ *
+ * @param input - Input source (URL, file path, or content)
+ * @param options - EPUB-specific conversion options
+ * @returns Promise resolving to EPUB conversion result
+ *
+ * @example
+ * ```typescript
+ * import { convertToEPUB } from 'html-converter-cdt'
+ *
+ * const result = await convertToEPUB('https://example.com/article', {
+ *   author: 'Jane Doe',
+ *   language: 'en',
+ *   tocDepth: 2
+ * })
+ * console.log(result.content) // EPUB binary content
+ * ```
+ */
+export async function convertToEPUB(
+  input: ConversionInput,
+  options: EPUBOptions = {},
+): Promise<EnhancedConversionResult> {
+  const converter = createHTMLConverter()
+  try {
+    return await converter.convert(input, "epub", options)
+  } finally {
+    converter.dispose()
+  }
+}
+
+/**
+ * Convert HTML to a self-contained HTML file
+ *
+ * @param input - Input source (URL, file path, or content)
+ * @param options - Self-contained HTML conversion options
+ * @returns Promise resolving to HTML conversion result
+ *
+ * @example
+ * ```typescript
+ * import { convertToHTML } from 'html-converter-cdt'
+ *
+ * const result = await convertToHTML('https://example.com', {
+ *   maxResourceSize: 5 * 1024 * 1024,
+ *   timeoutPerResource: 15000
+ * })
+ * console.log(result.content) // HTML with stylesheets, images and fonts as data URIs
+ * ```
+ */
+export async function convertToHTML(
+  input: ConversionInput,
+  options: HTMLOptions = {},
+): Promise<EnhancedConversionResult> {
+  const converter = createHTMLConverter()
+  try {
+    return await converter.convert(input, "html", options)
+  } finally {
+    converter.dispose()
+  }
+}
+
+/**
+ * Extract the structured document model of HTML as JSON
+ *
+ * @param input - Input source (URL, file path, or content)
+ * @param options - JSON extraction options
+ * @returns Promise resolving to JSON conversion result
+ *
+ * @example
+ * ```typescript
+ * import { convertToJSON } from 'html-converter-cdt'
+ * import type { ExtractedDocument } from 'html-converter-cdt'
+ *
+ * const result = await convertToJSON('https://example.com', { indent: 0 })
+ * const document: ExtractedDocument = JSON.parse(result.content as string)
+ * console.log(document.metadata.title, document.outline.length)
+ * ```
+ */
+export async function convertToJSON(
+  input: ConversionInput,
+  options: JSONOptions = {},
+): Promise<EnhancedConversionResult> {
+  const converter = createHTMLConverter()
+  try {
+    return await converter.convert(input, "json", options)
+  } finally {
+    converter.dispose()
+  }
+}
+
 /**
  * Type guard to check if result is a conversion error
  *
@@ -286,8 +409,12 @@ function getFileExtension(format: string): string {
     pdf: "pdf",
     png: "png",
     jpeg: "jpg",
+    webp: "webp",
     markdown: "md",
     docx: "docx",
+    epub: "epub",
+    html: "html",
+    json: "json",
   }
   return extensions[format] || "txt"
 }
@@ -297,9 +424,10 @@ function getFileExtension(format: string): string {
  *
  * @param inputs - Array of input sources
  * @param format - Target format
- * @param options - Conversion options (applied to all conversions)
+ * @param options - Conversion options (applied to all conversions); `mergeInto: "single-pdf"` combines
+ *   the PDF results into one PDF with a table of contents
  * @param progressCallback - Optional progress callback
- * @returns Promise resolving to array of conversion results
+ * @returns Promise resolving to array of conversion results, or to the combined PDF alone when merged
  *
  * @example
  * ```typescript
@@ -321,7 +449,7 @@ function getFileExtension(format: string): string {
  * console.log(`Converted ${results.length} documents`)
  * ```
  */
-export async function batchConvertToFormat<T extends "mhtml" | "pdf" | "png" | "jpeg" | "markdown" | "docx">(
+export async function batchConvertToFormat<T extends "mhtml" | "pdf" | "png" | "jpeg" | "webp" | "markdown" | "docx" | "epub" | "html" | "json">(
   inputs: ConversionInput[],
   format: T,
   options: any = {},
@@ -330,6 +458,28 @@ export async function batchConvertToFormat<T extends "mhtml" | "pdf" | "png" | "
   const converter = createHTMLConverter()
 
   try {
+    if (options.mergeInto) {
+      const { mergeInto, ...conversionOptions } = options
+      const batchResult = await converter.convertBatch(inputs.map((input, index) => ({
+        id: `conversion-${index + 1}`,
+        input,
+        format,
+        options: conversionOptions,
+      })), {
+        maxConcurrency: 1,
+        mergeInto,
+        onProgress: progressCallback && (progress => progressCallback({
+          current: progress.currentStepNumber,
+          total: inputs.length,
+          percentage: progress.percentage,
+        })),
+      })
+      if (batchResult.mergeError) {
+        throw batchResult.mergeError
+      }
+      return [batchResult.merged!]
+    }
+
     const results: EnhancedConversionResult[] = []
 
     for (let i = 0; i < inputs.length; i++) {
@@ -0,0 +1,581 @@
+/**
+ * HTMLConverter Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+import { existsSync } from "node:fs"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { basename, dirname, join } from "node:path"
+import { fileURLToPath, pathToFileURL } from "node:url"
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import type { ConversionResult } from "../architecture/strategies/types.js"
+import { resolveDocument } from "../core/engine/deferred-document.js"
+import { ConversionError, ErrorCategory, ErrorCode } from "../core/errors/conversion-error.js"
+import { createPDFFile, PDFFile } from "../core/pdf/pdf-file.js"
+import { mergePDFs } from "../core/pdf/pdf-merge.js"
+import type { UserFeedback } from "../core/ProgressiveEnhancementManager.js"
+
+import { HTMLConverter } from "./html-converter.js"
+
+const { tierConvert, feedbackCallbacks } = vi.hoisted(() => ({
+  tierConvert: vi.fn(),
+  feedbackCallbacks: [] as Array<(feedback: UserFeedback) => void>,
+}))
+
+// The tier pipeline needs Chrome; conversions through it return what the test provides
+vi.mock("../core/ProgressiveEnhancementManager.js", () => ({
+  ProgressiveEnhancementManager: vi.fn().mockImplementation(() => ({
+    addUserFeedbackCallback: (callback: (feedback: UserFeedback) => void) => feedbackCallbacks.push(callback),
+    convert: tierConvert,
+  })),
+}))
+
+// Batch merges use the real implementation unless a test makes it fail
+vi.mock("../core/pdf/pdf-merge.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../core/pdf/pdf-merge.js")>()
+  return { ...actual, mergePDFs: vi.fn(actual.mergePDFs) }
+})
+
+// 1x1 transparent PNG
+const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+
+/**
+ * Archive in the shape Chrome writes with Page.captureSnapshot
+ */
+const createArchive = (head = "<title>Saved</title>", body = "<p>Archived</p><img src=\"images/logo.png\">"): string => [
+  "From: <Saved by Blink>",
+  "Snapshot-Content-Location: https://example.com/articles/page.html",
+  "MIME-Version: 1.0",
+  "Content-Type: multipart/related;",
+  "\ttype=\"text/html\";",
+  "\tboundary=\"----MultipartBoundary--abc123----\"",
+  "",
+  "------MultipartBoundary--abc123----",
+  "Content-Type: text/html",
+  "Content-Location: https://example.com/articles/page.html",
+  "",
+  `<html><head>${head}</head><body>${body}</body></html>`,
+  "------MultipartBoundary--abc123----",
+  "Content-Type: image/png",
+  "Content-Transfer-Encoding: base64",
+  "Content-Location: https://example.com/articles/images/logo.png",
+  "",
+  PNG_BASE64,
+  "------MultipartBoundary--abc123------",
+  "",
+].join("\r\n")
+
+const tierResult = (format: string, mimeType: string, content: string): ConversionResult => ({
+  content: Buffer.from(content).toString("base64"),
+  mimeType,
+  metadata: {
+    sourceType: "text/html",
+    targetFormat: format,
+    timestamp: new Date(),
+    size: content.length,
+    tier: 1,
+    conversionMethod: "chrome-cdp",
+  },
+})
+
+describe("hTMLConverter", () => {
+  let converter: HTMLConverter
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    feedbackCallbacks.length = 0
+    tierConvert.mockImplementation(async (_document, request) => tierResult(request.format, "application/pdf", "%PDF-1.7"))
+    converter = new HTMLConverter({ enableAutoDiscovery: false })
+  })
+
+  afterEach(() => {
+    converter.dispose()
+    vi.unstubAllGlobals()
+  })
+
+  describe("performConversion", () => {
+    it("should decode the tier result into the conversion result", async () => {
+      const result = await converter.convert("<html><head><title>Report</title></head><body><p>Hi</p></body></html>", "pdf")
+
+      expect(result.content).toEqual(Buffer.from("%PDF-1.7"))
+      expect(result.mimeType).toBe("application/pdf")
+      expect(result.format).toBe("pdf")
+      expect(result.suggestedFileName).toMatch(/\.pdf$/)
+      expect(result.conversionTier).toBe("chrome-cdp")
+      expect(result.usedFallback).toBe(false)
+      expect(result.metadata.size).toBe(8)
+    })
+
+    it("should pass the request options to the tiers", async () => {
+      await converter.convert("<p>Hi</p>", "pdf", { userAgent: "IndexBot/1.0" })
+
+      expect(tierConvert).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ format: "pdf", options: expect.objectContaining({ userAgent: "IndexBot/1.0" }) }),
+      )
+    })
+
+    it("should return WebP screenshots as binary image/webp content", async () => {
+      tierConvert.mockResolvedValueOnce(tierResult("webp", "image/webp", "RIFF....WEBP"))
+
+      const result = await converter.convert("<p>Hi</p>", "webp", { quality: 75 })
+
+      expect(result.content).toEqual(Buffer.from("RIFF....WEBP"))
+      expect(result.mimeType).toBe("image/webp")
+      expect(result.suggestedFileName).toMatch(/\.webp$/)
+      expect(tierConvert).toHaveBeenCalledWith(expect.anything(), { format: "webp", options: expect.objectContaining({ quality: 75 }) })
+    })
+
+    it("should reject tier output of another type", async () => {
+      tierConvert.mockResolvedValueOnce(tierResult("pdf", "text/html", "<p>Hi</p>"))
+
+      await expect(converter.convert("<p>Hi</p>", "pdf")).rejects.toMatchObject({
+        code: ErrorCode.FORMAT_CONVERSION_FAILED,
+      })
+    })
+  })
+
+  describe("input loading", () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "html-converter-test-"))
+    })
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    it("should load HTML strings as a blank page", async () => {
+      await converter.convert("<p>Inline</p>", "pdf")
+
+      expect(tierConvert.mock.calls[0][0].URL).toBe("about:blank")
+    })
+
+    it("should load HTML buffers as a blank page", async () => {
+      await converter.convert(Buffer.from("<p>Inline</p>"), "pdf")
+
+      expect(tierConvert.mock.calls[0][0].URL).toBe("about:blank")
+    })
+
+    it("should load files with their file URL", async () => {
+      const filePath = join(directory, "page.html")
+      await writeFile(filePath, "<html><body><p>From disk</p></body></html>")
+
+      await converter.convert(filePath, "pdf")
+
+      const document = tierConvert.mock.calls[0][0]
+      expect(document.URL).toBe(pathToFileURL(filePath).href)
+      expect(document.documentElement.outerHTML).toContain("From disk")
+    })
+
+    it("should report files that cannot be read", async () => {
+      await expect(converter.convert(join(directory, "missing.html"), "pdf")).rejects.toMatchObject({
+        code: ErrorCode.FILE_NOT_FOUND,
+      })
+      expect(tierConvert).not.toHaveBeenCalled()
+    })
+
+    describe("mHTML archives", () => {
+      /**
+       * Record whether the archive file Chrome opens exists during the conversion
+       */
+      const trackArchiveFile = (): { path?: string, existed?: boolean } => {
+        const archive: { path?: string, existed?: boolean } = {}
+        tierConvert.mockImplementationOnce(async (document) => {
+          archive.path = fileURLToPath(document.URL)
+          archive.existed = existsSync(archive.path)
+          return tierResult("pdf", "application/pdf", "%PDF-1.7")
+        })
+        return archive
+      }
+
+      it.each([".mhtml", ".mht", ".MHTML"])("should open %s files in place", async (extension) => {
+        const filePath = join(directory, `saved${extension}`)
+        await writeFile(filePath, createArchive())
+
+        await converter.convert(filePath, "pdf")
+
+        const document = tierConvert.mock.calls[0][0]
+        expect(document.URL).toBe(pathToFileURL(filePath).href)
+        expect(document.documentElement.outerHTML).toContain("<p>Archived</p>")
+        expect(existsSync(filePath)).toBe(true)
+      })
+
+      it("should sniff archives saved under another extension", async () => {
+        const filePath = join(directory, "saved.txt")
+        await writeFile(filePath, createArchive())
+        const archive = trackArchiveFile()
+
+        await converter.convert(filePath, "pdf")
+
+        expect(basename(archive.path!)).toBe("archive.mhtml")
+        expect(archive.existed).toBe(true)
+        expect(existsSync(dirname(archive.path!))).toBe(false)
+      })
+
+      it("should sniff archives passed as a buffer and remove the temporary file", async () => {
+        const archive = trackArchiveFile()
+
+        await converter.convert(Buffer.from(createArchive()), "pdf")
+
+        expect(dirname(archive.path!)).toContain("html-converter-mhtml-")
+        expect(archive.existed).toBe(true)
+        expect(existsSync(dirname(archive.path!))).toBe(false)
+      })
+
+      it("should remove the temporary file when the conversion fails", async () => {
+        let archivePath = ""
+        tierConvert.mockImplementationOnce(async (document) => {
+          archivePath = fileURLToPath(document.URL)
+          throw new Error("Renderer crashed")
+        })
+
+        await expect(converter.convert(createArchive(), "pdf")).rejects.toThrow("Renderer crashed")
+        expect(archivePath).not.toBe("")
+        expect(existsSync(archivePath)).toBe(false)
+      })
+
+      it("should resolve relative links against the captured page", async () => {
+        await converter.convert(Buffer.from(createArchive()), "pdf")
+
+        expect(tierConvert.mock.calls[0][0].documentElement.outerHTML)
+          .toContain("<head><base href=\"https://example.com/articles/page.html\"><title>Saved</title>")
+      })
+
+      it("should keep the base element of the archived page", async () => {
+        await converter.convert(Buffer.from(createArchive("<base href=\"https://cdn.example.com/\">")), "pdf")
+
+        const html = tierConvert.mock.calls[0][0].documentElement.outerHTML
+        expect(html).toContain("<base href=\"https://cdn.example.com/\">")
+        expect(html).not.toContain("https://example.com/articles/page.html")
+      })
+
+      it("should embed resources from the archive parts", async () => {
+        const fetchMock = vi.fn().mockRejectedValue(new Error("offline"))
+        vi.stubGlobal("fetch", fetchMock)
+
+        const result = await converter.convert(Buffer.from(createArchive()), "html")
+
+        expect(result.content).toContain(`data:image/png;base64,${PNG_BASE64}`)
+        expect(fetchMock).not.toHaveBeenCalled()
+      })
+
+      it("should not embed local files referenced by an archive", async () => {
+        const filePath = join(directory, "saved.mhtml")
+        await writeFile(filePath, createArchive(
+          "<title>Saved</title>",
+          "<div style=\"background: url(file:///etc/passwd)\">Archived</div>",
+        ))
+
+        const result = await converter.convert(filePath, "html")
+
+        expect(result.content).toContain("url(&quot;file:///etc/passwd&quot;)")
+        expect(result.metadata.failedResources).toBe(1)
+        expect(result.metadata.inlinedResources).toBe(0)
+      })
+
+      it("should report archives that cannot be parsed", async () => {
+        const filePath = join(directory, "broken.mhtml")
+        await writeFile(filePath, "not an archive")
+
+        await expect(converter.convert(filePath, "pdf")).rejects.toMatchObject({ code: ErrorCode.MALFORMED_INPUT })
+      })
+    })
+
+    describe("uRLs", () => {
+      it("should leave URLs for Chrome to load without fetching them", async () => {
+        const fetchMock = vi.fn()
+        vi.stubGlobal("fetch", fetchMock)
+
+        await converter.convert("https://example.com/private", "pdf")
+
+        expect(fetchMock).not.toHaveBeenCalled()
+        expect(tierConvert.mock.calls[0][0].URL).toBe("https://example.com/private")
+      })
+
+      it("should fetch URLs once with the request headers when a tier needs the page content", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(new Response("<html><body><p>Remote</p></body></html>"))
+        vi.stubGlobal("fetch", fetchMock)
+        const contents: string[] = []
+        tierConvert.mockImplementation(async (document, request) => {
+          await resolveDocument(document)
+          contents.push((await resolveDocument(document)).documentElement.outerHTML)
+          return tierResult(request.format, "application/pdf", "%PDF-1.7")
+        })
+
+        await converter.convert("https://example.com/private", "pdf", {
+          headers: { "X-Tenant": "acme" },
+          auth: { token: "abc" },
+          userAgent: "IndexBot/1.0",
+        })
+
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+        expect(fetchMock).toHaveBeenCalledWith("https://example.com/private", expect.objectContaining({
+          headers: { "X-Tenant": "acme", "Authorization": "Bearer abc", "User-Agent": "IndexBot/1.0" },
+        }))
+        expect(contents).toEqual(["<html><body><p>Remote</p></body></html>"])
+      })
+
+      it("should fetch URLs for converters walking the input DOM", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(new Response("<html><head><title>Remote</title></head><body><p>Remote</p></body></html>"))
+        vi.stubGlobal("fetch", fetchMock)
+
+        const result = await converter.convert("https://example.com/page", "html")
+
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+        expect(result.content.toString()).toContain("<p>Remote</p>")
+        expect(tierConvert).not.toHaveBeenCalled()
+      })
+
+      it("should report URLs that fail to load", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("Forbidden", { status: 403, statusText: "Forbidden" })))
+        tierConvert.mockImplementation(async document => resolveDocument(document))
+
+        await expect(converter.convert("https://example.com/private", "pdf")).rejects.toMatchObject({
+          code: ErrorCode.NETWORK_CONNECTION_FAILED,
+          message: expect.stringContaining("HTTP 403 Forbidden"),
+        })
+      })
+    })
+  })
+
+  describe("progress events", () => {
+    it("should report progress from start to completion", async () => {
+      const events: string[] = []
+      const percentages: number[] = []
+      converter.on("conversion-start", () => events.push("start"))
+      converter.on("conversion-progress", (event) => {
+        events.push("progress")
+        percentages.push(event.data.progress.percentage)
+      })
+      converter.on("conversion-complete", () => events.push("complete"))
+
+      await converter.convert("<p>Hi</p>", "pdf")
+
+      expect(events[0]).toBe("start")
+      expect(events[events.length - 1]).toBe("complete")
+      expect(percentages).toEqual([10, 20, 95])
+    })
+
+    it("should relay tier feedback as conversion progress", async () => {
+      const percentages: number[] = []
+      converter.on("conversion-progress", event => percentages.push(event.data.progress.percentage))
+      tierConvert.mockImplementationOnce(async () => {
+        for (const callback of feedbackCallbacks) {
+          callback({ currentTier: 1, capabilityLimitations: [], progress: { percentage: 50, operation: "Printing" } })
+          callback({ currentTier: 1, capabilityLimitations: [], progress: { percentage: 10, operation: "Retrying" } })
+        }
+        return tierResult("pdf", "application/pdf", "%PDF-1.7")
+      })
+
+      await converter.convert("<p>Hi</p>", "pdf")
+
+      // Progress never moves backwards, even when a tier restarts
+      expect(percentages).toEqual([10, 20, 60, 60, 95])
+    })
+
+    it("should emit an error event when the conversion fails", async () => {
+      const errors: unknown[] = []
+      converter.on("conversion-error", event => errors.push(event.data.error))
+      tierConvert.mockRejectedValueOnce(new Error("Renderer crashed"))
+
+      await expect(converter.convert("<p>Hi</p>", "pdf")).rejects.toThrow("Renderer crashed")
+      expect(errors).toHaveLength(1)
+    })
+  })
+
+  describe("batch merge", () => {
+    const pdfResult = (title: string): ConversionResult => ({
+      ...tierResult("pdf", "application/pdf", ""),
+      content: createPDFFile([
+        { num: 1, source: "<</Type /Catalog /Pages 2 0 R>>" },
+        { num: 2, source: "<</Type /Pages /Count 1 /Kids [3 0 R]>>" },
+        { num: 3, source: "<</Type /Page /Parent 2 0 R /MediaBox [0 0 612 792]>>" },
+        { num: 4, source: `<</Title (${title})>>` },
+      ], new Map([["Root", "1 0 R"], ["Info", "4 0 R"]])).toString("base64"),
+    })
+
+    it("should combine the PDF results in item order with failed items listed", async () => {
+      tierConvert
+        .mockResolvedValueOnce(pdfResult("Summary"))
+        .mockRejectedValueOnce(new ConversionError("Navigation timed out", ErrorCode.NETWORK_TIMEOUT, ErrorCategory.TIMEOUT))
+        .mockResolvedValueOnce(pdfResult("Details"))
+
+      const batch = await converter.convertBatch([
+        { id: "summary", input: "<p>Summary</p>", format: "pdf" },
+        { id: "remote", input: "<p>Remote</p>", format: "pdf", title: "Remote" },
+        { id: "details", input: "<p>Details</p>", format: "pdf", title: "Appendix" },
+      ], { mergeInto: "single-pdf" })
+
+      expect(batch.merged!.mimeType).toBe("application/pdf")
+      expect(batch.merged!.metadata.pageCount).toBe(3)
+      expect(batch.merged!.metadata.mergedItems).toEqual([
+        { id: "summary", title: "Summary", firstPage: 1, pageCount: 1 },
+        { id: "remote", title: "Remote", pageCount: 0, errorCode: ErrorCode.NETWORK_TIMEOUT },
+        { id: "details", title: "Appendix", firstPage: 2, pageCount: 1 },
+      ])
+      expect(PDFFile.parse(batch.merged!.content as Buffer).getPageRefs()).toHaveLength(3)
+    })
+
+    it("should list items whose PDF cannot be read as corrupted", async () => {
+      tierConvert
+        .mockResolvedValueOnce(pdfResult("Summary"))
+        .mockResolvedValueOnce(tierResult("pdf", "application/pdf", "%PDF-1.7\nnot a PDF"))
+
+      const batch = await converter.convertBatch([
+        { id: "summary", input: "<p>Summary</p>", format: "pdf" },
+        { id: "broken", input: "<p>Broken</p>", format: "pdf", title: "Broken" },
+      ], { mergeInto: "single-pdf" })
+
+      expect(batch.results.map(entry => entry.success)).toEqual([true, true])
+      expect(batch.merged!.metadata.mergedItems[1]).toEqual({
+        id: "broken",
+        title: "Broken",
+        pageCount: 0,
+        errorCode: ErrorCode.CONVERSION_CORRUPTED,
+      })
+      expect(batch.mergeError).toBeUndefined()
+    })
+
+    it("should report a failed merge and keep the item results", async () => {
+      tierConvert.mockResolvedValue(pdfResult("Summary"))
+      vi.mocked(mergePDFs).mockImplementationOnce(() => {
+        throw new Error("Unsupported cross-reference stream")
+      })
+
+      const batch = await converter.convertBatch([
+        { id: "summary", input: "<p>Summary</p>", format: "pdf" },
+        { id: "details", input: "<p>Details</p>", format: "pdf" },
+      ], { mergeInto: "single-pdf" })
+
+      expect(batch.merged).toBeUndefined()
+      expect(batch.mergeError).toMatchObject({
+        code: ErrorCode.EXPORT_FAILED,
+        message: expect.stringContaining("Unsupported cross-reference stream"),
+      })
+      expect(batch.results.map(entry => entry.id)).toEqual(["summary", "details"])
+      expect(batch.statistics.successful).toBe(2)
+    })
+
+    it("should only merge batches converting to PDF", async () => {
+      await expect(converter.convertBatch([
+        { id: "page", input: "<p>Page</p>", format: "png" },
+      ], { mergeInto: "single-pdf" })).rejects.toMatchObject({ code: ErrorCode.INVALID_OPTIONS })
+      expect(tierConvert).not.toHaveBeenCalled()
+    })
+
+    it("should not merge without a merge mode", async () => {
+      tierConvert.mockResolvedValue(pdfResult("Summary"))
+
+      const batch = await converter.convertBatch([{ id: "summary", input: "<p>Summary</p>", format: "pdf" }])
+
+      expect(batch.merged).toBeUndefined()
+    })
+  })
+
+  describe("chrome tab sharing", () => {
+    it("should run conversions that render in Chrome one at a time", async () => {
+      let active = 0
+      let maxActive = 0
+      tierConvert.mockImplementation(async () => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        active--
+        return tierResult("pdf", "application/pdf", "%PDF-1.7")
+      })
+
+      const batch = await converter.convertBatch(
+        ["<p>One</p>", "<p>Two</p>", "<p>Three</p>"].map((input, index) => ({ id: `page-${index}`, input, format: "pdf" as const })),
+        { maxConcurrency: 3 },
+      )
+
+      expect(batch.statistics.successful).toBe(3)
+      expect(tierConvert).toHaveBeenCalledTimes(3)
+      expect(maxActive).toBe(1)
+    })
+
+    it("should release the tab when a conversion fails", async () => {
+      tierConvert.mockRejectedValueOnce(new Error("Renderer crashed"))
+
+      await expect(converter.convert("<p>One</p>", "pdf")).rejects.toThrow("Renderer crashed")
+      const result = await converter.convert("<p>Two</p>", "pdf")
+
+      expect(result.content).toEqual(Buffer.from("%PDF-1.7"))
+    })
+
+    describe("cancellation", () => {
+      let finishRunning: () => void
+      let conversionIds: string[]
+
+      beforeEach(() => {
+        conversionIds = []
+        converter.on("conversion-start", event => conversionIds.push(event.data.conversionId))
+        // The first conversion holds the tab until the test lets it finish
+        tierConvert.mockImplementationOnce(() => new Promise((resolve) => {
+          finishRunning = () => resolve(tierResult("pdf", "application/pdf", "%PDF-1.7"))
+        }))
+      })
+
+      const waitForQueue = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 20))
+
+      it("should keep the tab from the next conversion until a cancelled one leaves Chrome", async () => {
+        const running = converter.convert("<p>One</p>", "pdf")
+        const waiting = converter.convert("<p>Two</p>", "pdf")
+        await waitForQueue()
+        expect(tierConvert).toHaveBeenCalledTimes(1)
+
+        converter.cancelConversion(conversionIds[0]!)
+
+        // The caller stops waiting at once, but Chrome is still busy with the first page
+        await expect(running).rejects.toThrow("Conversion cancelled")
+        await waitForQueue()
+        expect(tierConvert).toHaveBeenCalledTimes(1)
+
+        finishRunning()
+        await expect(waiting).resolves.toMatchObject({ content: Buffer.from("%PDF-1.7") })
+        expect(tierConvert).toHaveBeenCalledTimes(2)
+      })
+
+      it("should stop listening for cancellation once a waiting conversion gets the tab", async () => {
+        const added = vi.spyOn(AbortSignal.prototype, "addEventListener")
+        const removed = vi.spyOn(AbortSignal.prototype, "removeEventListener")
+        const running = converter.convert("<p>One</p>", "pdf")
+        const waiting = converter.convert("<p>Two</p>", "pdf")
+        await waitForQueue()
+
+        finishRunning()
+        await Promise.all([running, waiting])
+
+        const listeners = added.mock.calls.map(([, listener]) => listener)
+        expect(listeners.length).toBeGreaterThan(2)
+        expect(removed.mock.calls.map(([, listener]) => listener)).toEqual(expect.arrayContaining(listeners))
+        added.mockRestore()
+        removed.mockRestore()
+      })
+
+      it("should drop a waiting conversion that is cancelled", async () => {
+        const running = converter.convert("<p>One</p>", "pdf")
+        const waiting = converter.convert("<p>Two</p>", "pdf")
+        await waitForQueue()
+
+        converter.cancelConversion(conversionIds[1]!)
+        await expect(waiting).rejects.toThrow("Conversion cancelled")
+
+        finishRunning()
+        await running
+        await converter.convert("<p>Three</p>", "pdf")
+
+        expect(tierConvert).toHaveBeenCalledTimes(2)
+        expect(tierConvert.mock.calls.map(([document]) => document.documentElement.outerHTML)).toEqual([
+          expect.stringContaining("One"),
+          expect.stringContaining("Three"),
+        ])
+      })
+    })
+  })
+})
@@ -7,17 +7,40 @@
  */
 
 import { Buffer } from "node:buffer"
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { extname, join, resolve as resolvePath } from "node:path"
+import { fileURLToPath, pathToFileURL } from "node:url"
 
 import { v4 as uuidv4 } from "uuid"
 
-import type { ConversionError } from "../core/errors/conversion-error.js"
+import { StrategyRegistry } from "../architecture/strategies/StrategyRegistry.js"
+import type { ConversionResult, ConverterStrategy, Logger } from "../architecture/strategies/types.js"
+import { DOCXConverter } from "../converters/docx/index.js"
+import { EPUBConverter } from "../converters/epub/index.js"
+import { SelfContainedHTMLConverter } from "../converters/html/index.js"
+import { JSONConverter } from "../converters/json/index.js"
+import { MarkdownConverter } from "../converters/markdown/index.js"
+import { isMHTMLArchive, MHTMLParser } from "../converters/mhtml/index.js"
+import type { ParsedMHTML } from "../converters/mhtml/index.js"
+import { RenderedDOMConverter } from "../converters/rendered-dom-converter.js"
+import { setDocumentArchive } from "../converters/resource-loader.js"
+import { BrowserCapabilityDetector } from "../core/capability/BrowserCapabilityDetector.js"
+import { ChromeCDPManager } from "../core/engine/chrome-cdp-manager.js"
+import { deferDocument, resolveDocument } from "../core/engine/deferred-document.js"
+import { createRequestHeaders } from "../core/engine/request-headers.js"
+import { ConversionError, ErrorCategory, ErrorCode, ErrorSeverity } from "../core/errors/conversion-error.js"
 import { defaultErrorHandler } from "../core/errors/error-handler.js"
+import { mergePDFs } from "../core/pdf/pdf-merge.js"
 import { ProgressiveEnhancementManager } from "../core/ProgressiveEnhancementManager.js"
-// Import tier implementations
+import type { UserFeedback } from "../core/ProgressiveEnhancementManager.js"
 import type {
+  AdditionalOutputFile,
   BatchCompleteEventData,
   BatchConversionItem,
+  BatchConversionOptions,
   BatchConversionResult,
+  ConversionAsset,
   ConversionCompleteEventData,
   ConversionErrorEventData,
   ConversionFormat,
@@ -35,6 +58,29 @@ import type {
   ValidationResult,
 } from "../types/public-api.js"
 
+/**
+ * Logger used when no custom logger is supplied
+ */
+const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+}
+
+/**
+ * File extensions recognized as MHTML archives
+ */
+const MHTML_EXTENSIONS = new Set([".mhtml", ".mht"])
+
+/**
+ * Input document together with the cleanup of any temporary files it needs
+ */
+interface LoadedInputDocument {
+  document: HTMLDocument
+  dispose?: () => Promise<void>
+}
+
 /**
  * Main HTML Converter class implementing the IHTMLConverter interface
  *
@@ -67,9 +113,14 @@ import type {
  */
 export class HTMLConverter implements IHTMLConverter {
   private config: HTMLConverterConfig
-  private progressiveEnhancementManager: ProgressiveEnhancementManager
+  private logger: Logger
+  private capabilityDetector: BrowserCapabilityDetector
+  private chromeManager: ChromeCDPManager
+  private converters: StrategyRegistry
   private eventListeners: Map<ConverterEventType, Set<EventListener>> = new Map()
   private activeConversions: Map<string, { cancel: () => void }> = new Map()
+  // The CDP manager drives a single Chrome tab, so conversions that render take turns on it
+  private chromeTab = new Semaphore(1)
   private statistics = {
     totalConversions: 0,
     successfulConversions: 0,
@@ -106,13 +157,24 @@ export class HTMLConverter implements IHTMLConverter {
       ...options.config,
     }
 
-    // Initialize progressive enhancement manager
-    // TODO: Properly initialize with required dependencies
-    this.progressiveEnhancementManager = new ProgressiveEnhancementManager(
-      (options as any).logger as any,
-      (options as any).capabilityDetector as any,
-      (options as any).chromeManager as any,
-    )
+    // Initialize shared conversion dependencies; a progressive enhancement
+    // manager is created per conversion so feedback never crosses conversions
+    this.logger = options.logger ?? silentLogger
+    this.capabilityDetector = new BrowserCapabilityDetector(this.logger)
+    this.chromeManager = new ChromeCDPManager(this.logger, {
+      headless: this.config.chromeCDP?.headless ?? true,
+      chromeArgs: this.config.chromeCDP?.chromeArgs,
+      pageTimeout: this.config.defaultTimeout,
+    })
+
+    // Formats with a dedicated converter bypass the tier pipeline
+    const cdpManager = this.config.chromeCDP?.enabled === false ? undefined : this.chromeManager
+    this.converters = new StrategyRegistry(this.logger)
+    this.converters.register(new MarkdownConverter(this.logger, {}, cdpManager))
+    this.converters.register(new DOCXConverter(this.logger, {}, cdpManager))
+    this.converters.register(new EPUBConverter(this.logger, {}, cdpManager))
+    this.converters.register(new SelfContainedHTMLConverter(this.logger))
+    this.converters.register(new JSONConverter(this.logger, {}, cdpManager))
 
     // Initialize event listeners map
     this.initializeEventListeners()
@@ -139,8 +201,12 @@ export class HTMLConverter implements IHTMLConverter {
       this.emitEvent("conversion-start", { conversionId })
 
       // Create cancellation function
+      const cancellation = new AbortController()
       const cancelPromise = new Promise<never>((_, reject) => {
-        cancelFn = () => reject(new Error("Conversion cancelled"))
+        cancelFn = () => {
+          cancellation.abort()
+          reject(new Error("Conversion cancelled"))
+        }
       })
       this.activeConversions.set(conversionId, { cancel: cancelFn })
 
@@ -153,13 +219,10 @@ export class HTMLConverter implements IHTMLConverter {
       // Merge options with defaults
       const mergedOptions = this.mergeOptions(options)
 
-      // Get the appropriate conversion strategy
-      const strategy = "progressive-enhancement"
-
       // Emit progress
       this.emitProgressEvent(conversionId, {
         percentage: 10,
-        message: `Converting to ${format.toUpperCase()} using ${strategy}`,
+        message: `Converting to ${format.toUpperCase()} using progressive enhancement`,
         currentStep: "Strategy Selection",
         totalSteps: 4,
         currentStepNumber: 1,
@@ -167,7 +230,7 @@ export class HTMLConverter implements IHTMLConverter {
 
       // Perform conversion with race against cancellation
       const result = await Promise.race([
-        this.performConversion(input, format, mergedOptions, conversionId),
+        this.performConversion(input, format, mergedOptions, conversionId, cancellation.signal),
         cancelPromise,
       ])
 
@@ -176,12 +239,13 @@ export class HTMLConverter implements IHTMLConverter {
       const conversionTime = endTime - startTime
 
       // Create enhanced result
+      const tier = this.getTierName(result.metadata.tier)
       const enhancedResult: EnhancedConversionResult = {
         ...result,
         format,
         suggestedFileName: this.generateFileName(input, format),
-        usedFallback: false,
-        conversionTier: strategy,
+        usedFallback: (result.metadata.fallbackAttempts ?? 0) > 0,
+        conversionTier: tier,
         performance: {
           conversionTime,
           memoryUsage: this.getMemoryUsage(),
@@ -190,7 +254,7 @@ export class HTMLConverter implements IHTMLConverter {
       }
 
       // Update statistics
-      this.updateStatistics(format, strategy, conversionTime, true)
+      this.updateStatistics(format, tier, conversionTime, true)
 
       // Emit completion event
       this.emitEvent("conversion-complete", {
@@ -270,12 +334,18 @@ export class HTMLConverter implements IHTMLConverter {
    */
   async convertBatch(
     items: BatchConversionItem[],
-    options: {
-      maxConcurrency?: number
-      continueOnError?: boolean
-      onProgress?: (progress: ConversionProgress) => void
-    } = {},
+    options: BatchConversionOptions = {},
   ): Promise<BatchConversionResult> {
+    if (options.mergeInto === "single-pdf" && items.some(item => item.format !== "pdf")) {
+      throw new ConversionError(
+        "Merging a batch into a single PDF requires every item to convert to PDF",
+        ErrorCode.INVALID_OPTIONS,
+        ErrorCategory.VALIDATION_ERROR,
+        ErrorSeverity.MEDIUM,
+        { operation: "batch convert", metadata: { formats: [...new Set(items.map(item => item.format))] } },
+      )
+    }
+
     const batchId = uuidv4()
     const startTime = performance.now()
 
@@ -288,6 +358,8 @@ export class HTMLConverter implements IHTMLConverter {
     } = options
 
     const results: BatchConversionResult["results"] = []
+    // Results are collected as conversions finish; merging follows the item order
+    const ordered: BatchConversionResult["results"] = []
     const semaphore = new Semaphore(maxConcurrency ?? 3)
 
     try {
@@ -298,11 +370,12 @@ export class HTMLConverter implements IHTMLConverter {
         try {
           const result = await this.convert(item.input, item.format, item.options)
 
-          results.push({
+          ordered[index] = {
             id: item.id || `item-${index}`,
             result,
             success: true,
-          })
+          }
+          results.push(ordered[index])
 
           // Report progress
           if (onProgress) {
@@ -317,11 +390,12 @@ export class HTMLConverter implements IHTMLConverter {
         } catch (error) {
           const conversionError = error as ConversionError
 
-          results.push({
+          ordered[index] = {
             id: item.id || `item-${index}`,
             result: conversionError,
             success: false,
-          })
+          }
+          results.push(ordered[index])
 
           if (!continueOnError) {
             throw conversionError
@@ -345,6 +419,7 @@ export class HTMLConverter implements IHTMLConverter {
           totalTime,
           averageTime: totalTime / items.length,
         },
+        ...(options.mergeInto === "single-pdf" && this.mergeBatchResults(items, ordered)),
       }
 
       this.emitEvent("batch-complete", { result: batchResult, batchId } as BatchCompleteEventData)
@@ -380,7 +455,7 @@ export class HTMLConverter implements IHTMLConverter {
    * Get supported formats
    */
   getSupportedFormats(): ConversionFormat[] {
-    return ["mhtml", "pdf", "png", "jpeg", "markdown", "docx"]
+    return ["mhtml", "pdf", "png", "jpeg", "webp", "markdown", "docx", "epub", "html", "json"]
   }
 
   /**
@@ -447,10 +522,10 @@ export class HTMLConverter implements IHTMLConverter {
     // Clear event listeners
     this.eventListeners.clear()
 
-    // Dispose of progressive enhancement manager
-    if (this.progressiveEnhancementManager) {
-      (this.progressiveEnhancementManager as any).dispose?.()
-    }
+    // Shut down Chrome instances launched for conversions
+    this.chromeManager.cleanup().catch((error) => {
+      this.logger.error("Failed to clean up Chrome CDP manager", error as Error)
+    })
   }
 
   // Private helper methods
@@ -473,7 +548,7 @@ export class HTMLConverter implements IHTMLConverter {
 
   private async initializeCapabilities(): Promise<void> {
     try {
-      await (this.progressiveEnhancementManager as any).initializeCapabilities?.()
+      await this.capabilityDetector.getCompleteAssessment({ cache: true })
     } catch (error) {
       console.warn("Failed to initialize capabilities:", error)
     }
@@ -496,54 +571,433 @@ export class HTMLConverter implements IHTMLConverter {
     format: ConversionFormat,
     options: ConversionOptions,
     conversionId: string,
-  ): Promise<any> {
-    // This would integrate with the actual conversion strategies
-    // For now, we'll simulate the conversion process
-
+    signal: AbortSignal,
+  ): Promise<Omit<EnhancedConversionResult, "format" | "suggestedFileName" | "usedFallback" | "conversionTier" | "performance">> {
     this.emitProgressEvent(conversionId, {
-      percentage: 30,
-      message: `Loading content...`,
+      percentage: 20,
+      message: "Loading content...",
       currentStep: "Content Loading",
       totalSteps: 4,
       currentStepNumber: 2,
     })
 
-    // Simulate content loading
-    await this.delay(100)
+    const { document, dispose } = await this.loadInputDocument(input, options)
 
-    this.emitProgressEvent(conversionId, {
-      percentage: 60,
-      message: `Converting to ${format.toUpperCase()}...`,
-      currentStep: "Conversion",
-      totalSteps: 4,
-      currentStepNumber: 3,
-    })
+    const strategy = this.converters.getStrategy(format)
+    const usesChrome = !strategy || strategy instanceof RenderedDOMConverter
+    if (usesChrome) {
+      try {
+        await this.chromeTab.acquire(signal)
+      } catch (error) {
+        await dispose?.()
+        throw error
+      }
+    }
 
-    // Simulate conversion
-    await this.delay(200)
+    // The tab and the input files stay held until Chrome has finished, even when
+    // a cancelled caller stops waiting, so the next conversion gets an idle page
+    const conversion = (strategy
+      ? this.convertWithStrategy(strategy, document, format, options, conversionId)
+      : this.convertWithTiers(document, format, options, conversionId)
+    ).finally(async () => {
+      if (usesChrome) {
+        this.chromeTab.release()
+      }
+      await dispose?.()
+    })
+    const result = await untilCancelled(conversion, signal)
 
     this.emitProgressEvent(conversionId, {
-      percentage: 90,
+      percentage: 95,
       message: `Finalizing ${format.toUpperCase()} output...`,
       currentStep: "Finalization",
       totalSteps: 4,
       currentStepNumber: 4,
     })
 
-    // Simulate finalization
-    await this.delay(100)
+    const content = this.decodeContent(result, format)
+    const { additionalImages, additionalPDFs, assets: encodedAssets, warnings, ...metadata } = result.metadata
+    const additionalFiles = this.decodeAdditionalFiles(additionalImages ?? additionalPDFs, this.generateFileName(input, format))
+    const assets = this.decodeAssets(encodedAssets)
+    const validationWarnings = Array.isArray(warnings) && warnings.length > 0 ? warnings as string[] : undefined
+
+    return {
+      ...result,
+      content,
+      metadata: {
+        ...metadata,
+        size: typeof content === "string" ? Buffer.byteLength(content, "utf8") : content.length,
+      },
+      ...(additionalFiles && { additionalFiles }),
+      ...(assets && { assets }),
+      ...(validationWarnings && { validationWarnings }),
+    }
+  }
+
+  private async convertWithStrategy(
+    strategy: ConverterStrategy,
+    document: HTMLDocument,
+    format: ConversionFormat,
+    options: ConversionOptions,
+    conversionId: string,
+  ): Promise<ConversionResult> {
+    this.emitProgressEvent(conversionId, {
+      percentage: 30,
+      message: `Converting to ${format.toUpperCase()} using ${strategy.getName()} converter`,
+      currentStep: "Conversion",
+      totalSteps: 4,
+      currentStepNumber: 3,
+    })
+
+    try {
+      const input = strategy instanceof RenderedDOMConverter ? document : await resolveDocument(document)
+      return await strategy.convert(input, { format, options })
+    } catch (error) {
+      throw new ConversionError(
+        `${format.toUpperCase()} conversion failed: ${(error as Error).message}`,
+        ErrorCode.CONVERSION_FAILED,
+        ErrorCategory.CONVERSION_FAILED,
+        ErrorSeverity.HIGH,
+        { operation: "convert", metadata: { format, converter: strategy.getName() } },
+        error as Error,
+      )
+    }
+  }
+
+  private async convertWithTiers(
+    document: HTMLDocument,
+    format: ConversionFormat,
+    options: ConversionOptions,
+    conversionId: string,
+  ): Promise<ConversionResult> {
+    // Relay tier selection, fallback and progress feedback as conversion progress
+    const manager = new ProgressiveEnhancementManager(this.logger, this.capabilityDetector, this.chromeManager)
+    const fallbackReasons: string[] = []
+    let lastPercentage = 20
+    manager.addUserFeedbackCallback((feedback: UserFeedback) => {
+      if (feedback.fallbackTransition) {
+        fallbackReasons.push(feedback.fallbackTransition.reason)
+      }
+
+      const progress = this.mapFeedbackToProgress(feedback, format)
+      lastPercentage = Math.max(lastPercentage, progress.percentage)
+      this.emitProgressEvent(conversionId, { ...progress, percentage: lastPercentage })
+    })
+
+    const result = await manager.convert(document, { format, options })
+
+    // Lower tiers may only manage a different output type (e.g. basic HTML export)
+    const expectedMimeType = this.getMimeType(format)
+    if (result.mimeType !== expectedMimeType) {
+      throw new ConversionError(
+        [
+          `No conversion tier could produce ${format.toUpperCase()} output (best available tier returned ${result.mimeType})`,
+          ...fallbackReasons,
+        ].join(": "),
+        ErrorCode.FORMAT_CONVERSION_FAILED,
+        ErrorCategory.INVALID_FORMAT,
+        ErrorSeverity.HIGH,
+        {
+          operation: "convert",
+          metadata: { format, tier: result.metadata.tier, mimeType: result.mimeType, fallbackReasons },
+          suggestions: ["Ensure Chrome or Chromium is installed and can be launched"],
+        },
+      )
+    }
+
+    return result
+  }
+
+  private async loadInputDocument(input: ConversionInput, options: ConversionOptions): Promise<LoadedInputDocument> {
+    if (typeof input !== "string") {
+      if (Buffer.isBuffer(input) || input instanceof ArrayBuffer) {
+        const content = Buffer.from(input as ArrayBuffer)
+        if (isMHTMLArchive(content)) {
+          return this.loadMHTMLDocument(content)
+        }
+        return { document: this.createDocument(content.toString("utf8"), "about:blank") }
+      }
+      return { document: input }
+    }
+
+    if (input.trim().startsWith("<")) {
+      return { document: this.createDocument(input, "about:blank") }
+    }
+
+    if (isMHTMLArchive(input)) {
+      return this.loadMHTMLDocument(Buffer.from(input, "utf8"))
+    }
+
+    if (/^https?:\/\//i.test(input)) {
+      // Chrome navigates to the URL itself, so the page is only fetched here for converters that need its content
+      const document = this.createDocument("<html><head></head><body></body></html>", input)
+      deferDocument(document, async () => this.createDocument(await this.fetchURL(input, options), input))
+      return { document }
+    }
+
+    let filePath: string
+    let content: Buffer
+    try {
+      filePath = input.startsWith("file:") ? fileURLToPath(input) : resolvePath(input)
+      content = await readFile(filePath)
+    } catch (error) {
+      throw new ConversionError(
+        `Unable to read input file: ${input}`,
+        ErrorCode.FILE_NOT_FOUND,
+        ErrorCategory.FILE_SYSTEM_ERROR,
+        ErrorSeverity.HIGH,
+        { operation: "load input", resource: input },
+        error as Error,
+      )
+    }
+
+    if (this.isMHTMLPath(filePath) || isMHTMLArchive(content)) {
+      return this.loadMHTMLDocument(content, filePath)
+    }
+    return { document: this.createDocument(content.toString("utf8"), pathToFileURL(filePath).href) }
+  }
+
+  /**
+   * Load an MHTML archive so Chrome renders the archived page instead of fetching it again
+   *
+   * The document carries the root HTML part and the file URL of the archive: Chrome only
+   * opens MHTML from local files with an .mhtml extension, so archives read from memory or
+   * saved under another name are written to a temporary file for the conversion. Converters
+   * load the resources of the page from the archive parts.
+   */
+  private async loadMHTMLDocument(content: Buffer, filePath?: string): Promise<LoadedInputDocument> {
+    let archive: ParsedMHTML
+    try {
+      archive = new MHTMLParser().parse(content)
+    } catch (error) {
+      throw new ConversionError(
+        `Unable to read MHTML archive: ${(error as Error).message}`,
+        ErrorCode.MALFORMED_INPUT,
+        ErrorCategory.INVALID_INPUT,
+        ErrorSeverity.HIGH,
+        { operation: "load input", resource: filePath },
+        error as Error,
+      )
+    }
+
+    // Resolve relative links against the page the archive was captured from
+    const baseURL = archive.url && /^https?:/i.test(archive.url) ? archive.url : undefined
+    const html = baseURL && !/<base\s[^>]*href/i.test(archive.document.html)
+      ? archive.document.html.replace(
+          /<head(?:\s[^>]*)?>/i,
+          match => `${match}<base href="${baseURL.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}">`,
+        )
+      : archive.document.html
+
+    if (filePath && this.isMHTMLPath(filePath)) {
+      return { document: this.createArchiveDocument(html, pathToFileURL(filePath).href, archive) }
+    }
 
-    // Return mock result
+    const directory = await mkdtemp(join(tmpdir(), "html-converter-mhtml-"))
+    const archivePath = join(directory, "archive.mhtml")
+    await writeFile(archivePath, content)
     return {
-      content: format === "pdf" ? Buffer.from("mock-pdf-content") : "mock-content",
-      mimeType: this.getMimeType(format),
+      document: this.createArchiveDocument(html, pathToFileURL(archivePath).href, archive),
+      dispose: () => rm(directory, { recursive: true, force: true }),
+    }
+  }
+
+  private createArchiveDocument(html: string, url: string, archive: ParsedMHTML): HTMLDocument {
+    const document = this.createDocument(html, url)
+    setDocumentArchive(document, archive)
+    return document
+  }
+
+  private isMHTMLPath(filePath: string): boolean {
+    return MHTML_EXTENSIONS.has(extname(filePath).toLowerCase())
+  }
+
+  private async fetchURL(url: string, options: ConversionOptions): Promise<string> {
+    const headers = createRequestHeaders(options)
+    if (options.userAgent) {
+      headers["User-Agent"] = options.userAgent
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), options.timeout ?? this.config.defaultTimeout)
+
+    try {
+      const response = await fetch(url, { headers, signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`)
+      }
+      return await response.text()
+    } catch (error) {
+      throw new ConversionError(
+        `Failed to load ${url}: ${(error as Error).message}`,
+        ErrorCode.NETWORK_CONNECTION_FAILED,
+        ErrorCategory.NETWORK_ERROR,
+        ErrorSeverity.HIGH,
+        { operation: "load input", resource: url, retryInfo: { canRetry: true } },
+        error as Error,
+      )
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private createDocument(html: string, url: string): HTMLDocument {
+    const parsed = typeof DOMParser !== "undefined" ? new DOMParser().parseFromString(html, "text/html") : undefined
+    if (parsed?.documentElement) {
+      Object.defineProperty(parsed, "URL", { value: url })
+      return parsed
+    }
+
+    // Minimal document shape consumed by the conversion tiers outside a DOM environment
+    const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1]?.trim() ?? ""
+    const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html
+    return {
+      nodeType: 9,
+      URL: url,
+      title,
+      doctype: null,
+      documentElement: { outerHTML: html },
+      body: { innerHTML: body },
+    } as unknown as HTMLDocument
+  }
+
+  private mapFeedbackToProgress(feedback: UserFeedback, format: ConversionFormat): ConversionProgress {
+    if (feedback.progress) {
+      return {
+        percentage: 30 + Math.round(feedback.progress.percentage * 0.6),
+        message: feedback.progress.operation,
+        currentStep: "Conversion",
+        totalSteps: 4,
+        currentStepNumber: 3,
+      }
+    }
+
+    const tierName = this.getTierName(feedback.currentTier)
+    return {
+      percentage: 30,
+      message: feedback.fallbackTransition
+        ? `Falling back to ${tierName} tier: ${feedback.fallbackTransition.reason}`
+        : `Converting to ${format.toUpperCase()} using ${tierName} tier`,
+      currentStep: "Conversion",
+      totalSteps: 4,
+      currentStepNumber: 3,
+    }
+  }
+
+  private decodeContent(result: ConversionResult, format: ConversionFormat): string | Buffer {
+    const isBinary = format !== "mhtml" && format !== "markdown" && format !== "html" && format !== "json"
+    if (isBinary) {
+      return Buffer.from(result.content, "base64")
+    }
+
+    return result.metadata.encoding === "base64"
+      ? Buffer.from(result.content, "base64").toString("utf8")
+      : result.content
+  }
+
+  /**
+   * Combine the PDF results of a batch into one PDF, listing failed items with their error code
+   *
+   * A merge failure is reported next to the item results instead of failing the batch.
+   */
+  private mergeBatchResults(
+    items: BatchConversionItem[],
+    results: BatchConversionResult["results"],
+  ): Pick<BatchConversionResult, "merged" | "mergeError"> {
+    const startTime = performance.now()
+    const converted = results.filter(entry => entry?.success).map(entry => entry.result as EnhancedConversionResult)
+
+    let merged: ReturnType<typeof mergePDFs>
+    try {
+      merged = mergePDFs(items.map((item, index) => {
+        const entry = results[index]
+        if (entry?.success) {
+          return { title: item.title, pdf: (entry.result as EnhancedConversionResult).content as Buffer }
+        }
+
+        // Failed items have no document title; URLs and file paths identify them instead
+        const source = typeof item.input === "string" && !/[<>\n]/.test(item.input) ? item.input : undefined
+        return {
+          title: item.title ?? source,
+          errorCode: (entry?.result as ConversionError | undefined)?.code ?? ErrorCode.CONVERSION_FAILED,
+        }
+      }))
+    } catch (error) {
+      this.logger.warn("Failed to merge the batch results", { error: (error as Error).message })
+      return {
+        mergeError: new ConversionError(
+          `Failed to merge the batch into a single PDF: ${(error as Error).message}`,
+          ErrorCode.EXPORT_FAILED,
+          ErrorCategory.EXPORT_ERROR,
+          ErrorSeverity.MEDIUM,
+          { operation: "merge", metadata: { items: items.length } },
+          error as Error,
+        ),
+      }
+    }
+
+    const combined: EnhancedConversionResult = {
+      content: merged.pdf,
+      mimeType: "application/pdf",
       metadata: {
         sourceType: "text/html",
-        targetFormat: format,
+        targetFormat: "pdf",
         timestamp: new Date(),
-        size: 1000,
+        size: merged.pdf.length,
+        pageCount: merged.pageCount,
+        mergedItems: merged.items.map((placed, index) => ({ id: results[index]?.id ?? items[index]!.id, ...placed })),
+      },
+      format: "pdf",
+      suggestedFileName: "merged.pdf",
+      usedFallback: converted.some(result => result.usedFallback),
+      conversionTier: converted[0]?.conversionTier ?? "chrome-cdp",
+      performance: {
+        conversionTime: converted.reduce((total, result) => total + result.performance.conversionTime, performance.now() - startTime),
+        memoryUsage: this.getMemoryUsage(),
+        resourcesProcessed: converted.reduce((total, result) => total + result.performance.resourcesProcessed, 0),
       },
     }
+    return { merged: combined }
+  }
+
+  /**
+   * Decode extra base64 outputs (e.g. split screenshots or further selector matches) into files numbered after the main result
+   */
+  private decodeAdditionalFiles(files: unknown, fileName: string): AdditionalOutputFile[] | undefined {
+    if (!Array.isArray(files) || files.length === 0) {
+      return undefined
+    }
+
+    const extension = fileName.lastIndexOf(".")
+    const stem = extension > 0 ? fileName.slice(0, extension) : fileName
+    const suffix = extension > 0 ? fileName.slice(extension) : ""
+
+    return files.map((file: string, index) => ({
+      content: Buffer.from(file, "base64"),
+      suggestedFileName: `${stem}-${index + 2}${suffix}`,
+    }))
+  }
+
+  /**
+   * Decode the base64 asset files (e.g. images extracted from Markdown) returned by a converter
+   */
+  private decodeAssets(assets: unknown): ConversionAsset[] | undefined {
+    if (!Array.isArray(assets) || assets.length === 0) {
+      return undefined
+    }
+
+    return assets.map(({ content, ...asset }) => ({ ...asset, content: Buffer.from(content, "base64") }))
+  }
+
+  private getTierName(tierId: number): EnhancedConversionResult["conversionTier"] {
+    const tierNames: Record<number, EnhancedConversionResult["conversionTier"]> = {
+      1: "chrome-cdp",
+      2: "canvas",
+      3: "server-side",
+      4: "basic-html",
+    }
+
+    return tierNames[tierId] ?? "basic-html"
   }
 
   private emitEvent<T = any>(eventType: ConverterEventType, data: T): void {
@@ -620,6 +1074,10 @@ export class HTMLConverter implements IHTMLConverter {
 
   private detectContentType(input: ConversionInput): string {
     if (typeof input === "string") {
+      const isLocalPath = !input.trim().startsWith("<") && !/^https?:/i.test(input)
+      if (isMHTMLArchive(input) || (isLocalPath && this.isMHTMLPath(input))) {
+        return "multipart/related"
+      }
       if (this.isURL(input)) {
         return "text/html" // Assume HTML for URLs
       }
@@ -627,7 +1085,7 @@ export class HTMLConverter implements IHTMLConverter {
         return "text/html"
       }
     } else if (Buffer.isBuffer(input) || input instanceof ArrayBuffer) {
-      return "application/octet-stream"
+      return isMHTMLArchive(Buffer.from(input as ArrayBuffer)) ? "multipart/related" : "application/octet-stream"
     } else if (input && input.nodeType === 9) { // Document node
       return "text/html"
     }
@@ -655,8 +1113,12 @@ export class HTMLConverter implements IHTMLConverter {
       pdf: "application/pdf",
       png: "image/png",
       jpeg: "image/jpeg",
+      webp: "image/webp",
       markdown: "text/markdown",
       docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      epub: "application/epub+zip",
+      html: "text/html",
+      json: "application/json",
     }
 
     return mimeTypes[format] || "application/octet-stream"
@@ -674,10 +1136,6 @@ export class HTMLConverter implements IHTMLConverter {
     // Simplified resource count calculation
     return 1
   }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-  }
 }
 
 /**
@@ -691,14 +1149,30 @@ class Semaphore {
     this.permits = permits
   }
 
-  async acquire(): Promise<void> {
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new Error("Conversion cancelled")
+    }
     if (this.permits > 0) {
       this.permits--
       return
     }
 
-    return new Promise<void>((resolve) => {
-      this.waitQueue.push(resolve)
+    return new Promise<void>((resolve, reject) => {
+      // A waiter cancelled before its turn leaves the queue; once granted, cancelling changes nothing
+      let onAbort: (() => void) | undefined
+      const grant = (): void => {
+        if (onAbort) {
+          signal?.removeEventListener("abort", onAbort)
+        }
+        resolve()
+      }
+      this.waitQueue.push(grant)
+      onAbort = () => {
+        this.waitQueue = this.waitQueue.filter(waiter => waiter !== grant)
+        reject(new Error("Conversion cancelled"))
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
     })
   }
 
@@ -711,3 +1185,17 @@ class Semaphore {
     }
   }
 }
+
+/**
+ * Settle with the given promise, or reject as soon as the conversion is cancelled
+ */
+function untilCancelled<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(new Error("Conversion cancelled"))
+    if (signal.aborted) {
+      onAbort()
+    }
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
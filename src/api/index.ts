@@ -40,10 +40,12 @@ export { ServerSideTier } from "../tiers/ServerSideTier.js"
 
 // Core types and interfaces
 export type {
+  AdditionalOutputFile,
   BaseConversionOptions,
   BatchCompleteEventData,
   BatchConversionItem,
   BatchConversionResult,
+  ConversionAsset,
   ConversionCompleteEventData,
   ConversionErrorEventData,
   // Conversion types
@@ -55,20 +57,36 @@ export type {
   ConverterEvent,
   // Event types
   ConverterEventType,
+  DeviceDescriptor,
+  DOCXHeaderFooterOptions,
   DOCXOptions,
   // Result types
   EnhancedConversionResult,
+  EPUBOptions,
 
   EventListener,
+  ExtractedDocument,
+  ExtractedHeading,
+  ExtractedImage,
+  ExtractedLink,
+  ExtractedMetadata,
+  ExtractedTable,
   // Configuration types
   HTMLConverterConfig,
-
   HTMLConverterFactoryOptions,
+
+  HTMLOptions,
   // Interface types
   IHTMLConverter,
   ImageOptions,
+  JSONOptions,
+  MarkdownCustomRule,
+  MarkdownFrontmatterOptions,
   MarkdownOptions,
+  MarkdownRuleElement,
   MHTMLOptions,
+  PageBreakMarkers,
+  PDFMetadataOptions,
   PDFOptions,
   ProgressEventData,
 
@@ -78,11 +96,15 @@ export type {
 export {
   batchConvertToFormat,
   convertToDOCX,
+  convertToEPUB,
+  convertToHTML,
   convertToJPEG,
+  convertToJSON,
   convertToMarkdown,
   convertToMHTML,
   convertToPDF,
   convertToPNG,
+  convertToWEBP,
   isConversionError,
   prepareForFileSave,
 } from "./format-specific.js"
@@ -0,0 +1,46 @@
+/**
+ * Unified Convert API Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { convert } from "./unified-convert.js"
+
+const { converter } = vi.hoisted(() => ({
+  converter: {
+    convert: vi.fn(),
+    dispose: vi.fn(),
+    getSupportedFormats: vi.fn(),
+  },
+}))
+
+vi.mock("./html-converter-factory.js", () => ({
+  createHTMLConverter: () => converter,
+}))
+
+describe("unified convert", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    converter.getSupportedFormats.mockReturnValue(["pdf", "png", "jpeg", "webp"])
+    converter.convert.mockImplementation(async (_input, format) => ({
+      content: Buffer.from("content"),
+      mimeType: `image/${format}`,
+      format,
+      suggestedFileName: `document.${format}`,
+    }))
+  })
+
+  it("should infer WebP from the output path", async () => {
+    const result = await convert("<p>Hi</p>", "shots/page.webp", { quality: 75 })
+
+    expect(converter.convert).toHaveBeenCalledWith("<p>Hi</p>", "webp", { quality: 75 })
+    expect(result.suggestedFileName).toBe("shots/page.webp")
+  })
+
+  it("should reject output paths without a known extension", async () => {
+    await expect(convert("<p>Hi</p>", "page.gif")).rejects.toThrow("Cannot determine format from path: page.gif")
+    expect(converter.dispose).toHaveBeenCalledTimes(1)
+  })
+})
@@ -169,7 +169,8 @@ export async function convertToFile(
  * @param options.maxConcurrency - Maximum number of concurrent conversions
  * @param options.continueOnError - Whether to continue processing if one conversion fails
  * @param options.onProgress - Progress callback function
- * @returns Promise resolving to array of conversion results
+ * @param options.mergeInto - "single-pdf" to combine the PDF results into one PDF with a table of contents
+ * @returns Promise resolving to array of conversion results, or to the combined PDF alone when merged
  *
  * @example
  * ```typescript
@@ -180,6 +181,12 @@ export async function convertToFile(
  *   { input: 'https://example2.com', format: 'mhtml' },
  *   { input: '<h1>Test</h1>', format: 'png', outputPath: 'test.png' }
  * ])
+ *
+ * // One report with a table of contents
+ * const [report] = await convertBatch([
+ *   { input: 'https://example.com/summary', format: 'pdf', title: 'Summary' },
+ *   { input: 'https://example.com/details', format: 'pdf', title: 'Details' }
+ * ], { mergeInto: 'single-pdf' })
  * ```
  */
 export async function convertBatch(
@@ -188,11 +195,13 @@ export async function convertBatch(
     format?: ConversionFormat
     outputPath?: string
     options?: ConversionOptions
+    title?: string
   }>,
   options?: {
     maxConcurrency?: number
     continueOnError?: boolean
     onProgress?: (progress: { current: number, total: number, percentage: number }) => void
+    mergeInto?: "single-pdf"
   },
 ): Promise<EnhancedConversionResult[]> {
   const converter = createHTMLConverter()
@@ -216,12 +225,20 @@ export async function convertBatch(
         format,
         options: conv.options,
         outputPath: conv.outputPath,
+        title: conv.title,
       }
     })
 
     // Perform batch conversion
     const batchResult = await converter.convertBatch(batchItems, options as any)
 
+    if (batchResult.merged) {
+      return [batchResult.merged]
+    }
+    if (batchResult.mergeError) {
+      throw batchResult.mergeError
+    }
+
     // Extract results and update file paths if specified
     return batchResult.results.map((item, index) => {
       if (item.success) {
@@ -275,9 +292,14 @@ function extractFormatFromPath(path: string): ConversionFormat {
     png: "png",
     jpg: "jpeg",
     jpeg: "jpeg",
+    webp: "webp",
     md: "markdown",
     markdown: "markdown",
     docx: "docx",
+    epub: "epub",
+    html: "html",
+    htm: "html",
+    json: "json",
   }
 
   if (extension && formatMap[extension]) {
@@ -222,6 +222,7 @@ export class ServiceHelpers {
     switch (converterType) {
       case "markdown":
       case "html":
+      case "json":
         return baseDependencies
       case "pdf":
       case "docx":
@@ -21,6 +21,16 @@ export interface ConversionResult {
   }
 }
 
+/**
+ * Conversion request describing the desired output
+ */
+export interface ConversionRequest {
+  /** Target output format (e.g. "pdf", "png", "mhtml") */
+  format: string
+  /** Format-specific options such as PDFOptions or ImageOptions */
+  options?: Record<string, any>
+}
+
 /**
  * Validation result for input checking
  */
@@ -59,9 +69,10 @@ export interface IConverter {
   /**
    * Convert HTML document to the target format
    * @param input - HTML document to convert
+   * @param request - Requested output format and options, when the converter supports several
    * @returns Promise resolving to conversion result
    */
-  convert(input: HTMLDocument): Promise<ConversionResult>
+  convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult>
 
   /**
    * Validate input before conversion
@@ -6,17 +6,19 @@
  */
 
 import { Buffer } from "node:buffer"
+import { dirname, join, parse, resolve } from "node:path"
+import process from "node:process"
 
 import chalk from "chalk"
 import { Command } from "commander"
 import type { Ora } from "ora"
 import ora from "ora"
 
-import type { ConversionFormat } from "../../api/index.js"
+import type { ConversionAsset, ConversionFormat } from "../../api/index.js"
 import { convert, convertWithProgress } from "../../api/index.js"
 import { loadConfig } from "../../config/loader.js"
 import { buildConversionOptions, parseOutputFormat } from "../options.js"
-import { formatOutput, showInfo, showSuccess } from "../output.js"
+import { formatOutput, showInfo, showSuccess, showWarning } from "../output.js"
 import { readFromStdin, writeToStdout } from "../stream-handlers.js"
 import { handleCliError, showValidationError } from "../utils/error-handler.js"
 
@@ -25,9 +27,9 @@ import { handleCliError, showValidationError } from "../utils/error-handler.js"
  */
 export const convertCommand = new Command("convert")
   .description("Convert HTML to various formats")
-  .argument("<input>", "Input HTML file, URL, or \"-\" for stdin")
+  .argument("<input>", "Input HTML or MHTML file, URL, or \"-\" for stdin")
   .argument("[output]", "Output file (format inferred from extension)")
-  .option("-f, --format <format>", "Output format (pdf, png, jpeg, md, docx, mhtml)")
+  .option("-f, --format <format>", "Output format (pdf, png, jpeg, webp, md, docx, epub, html, json, mhtml)")
   .option("--stdout", "Output to stdout instead of file")
   .option("--dry-run", "Show configuration without converting")
   .option("-v, --verbose", "Enable verbose logging")
@@ -37,30 +39,61 @@ export const convertCommand = new Command("convert")
   .option("--timeout <ms>", "Timeout in milliseconds", "30000")
 
   // PDF-specific options
-  .option("--layout <mode>", "Layout mode (standard, single-page)", "standard")
+  .option("--layout <mode>", "Layout mode (standard, single-page, auto-page)")
+  .option("--page-break-selector <selector>", "CSS selector of elements that start a new page (auto-page layout)")
   .option("--page-size <size>", "Page size (A4, Letter, Legal, etc.)", "A4")
   .option("--margin <value>", "Margin (e.g., 20px, 1cm)", "20px")
   .option("--scale <factor>", "Scale factor (e.g., 0.9)", "1.0")
   .option("--no-background", "Disable background graphics")
   .option("--header-template <template>", "Custom header template")
   .option("--footer-template <template>", "Custom footer template")
+  .option("--tagged-pdf", "Generate a tagged (accessible) PDF")
+  .option("--outline", "Add PDF bookmarks built from the document headings")
+  .option("--subject <text>", "PDF document subject")
+  .option("--keywords <list>", "Comma-separated PDF document keywords")
+  .option("--no-metadata", "Keep the PDF metadata written by Chrome")
 
   // Image-specific options
   .option("--quality <n>", "Image quality (1-100)", "90")
   .option("--viewport <WxH>", "Viewport size (e.g., 1920x1080)", "1920x1080")
   .option("--omit-background", "Omit background (PNG only)")
   .option("--clip <x,y,width,height>", "Clip region")
+  .option("--max-height <px>", "Maximum height for full-page captures and single-page PDFs")
+  .option("--split", "Split tall pages into numbered images instead of cropping")
+  .option("--selector <css>", "Capture each element matching a CSS selector as its own image or PDF")
+  .option("--selector-padding <px>", "Space around elements captured by selector in pixels")
+  .option("--devices <list>", "Capture on each device: phone, tablet, desktop or WIDTHxHEIGHT[@scale] (comma-separated)")
+  .option("--contact-sheet", "Add an image of all device captures side by side (PNG and JPEG)")
 
   // Markdown-specific options
-  .option("--flavor <type>", "Markdown flavor (gfm, commonmark)", "gfm")
-  .option("--no-embed-images", "Don't embed images as base64")
+  .option("--flavor <type>", "Markdown flavor (gfm, commonmark, original)", "gfm")
+  .option("--heading-style <style>", "Heading style (atx, setext)")
+  .option("--bullet-marker <marker>", "Bullet list marker (-, *, +)")
+  .option("--code-block-style <style>", "Code block style (fenced, indented)")
+  .option("--link-style <style>", "Link style (inlined, referenced)")
+  .option("--no-embed-images", "Save images as asset files linked by relative path")
   .option("--image-asset-path <path>", "Directory for saved images")
+  .option("--front-matter [format]", "Prepend front matter from page metadata (yaml, toml)")
+  .option("--front-matter-fields <list>", "Comma-separated front matter fields")
 
   // DOCX-specific options
   .option("--preserve-style", "Preserve HTML styling")
   .option("--font-family <font>", "Default font family", "Arial")
   .option("--font-size <size>", "Default font size in points", "11")
 
+  // EPUB-specific options
+  .option("--title <title>", "Publication or PDF document title")
+  .option("--author <name>", "Publication or PDF document author")
+  .option("--language <tag>", "Publication language (e.g., en, de)")
+  .option("--toc-depth <n>", "Deepest heading level in the table of contents (1-6)")
+
+  // Self-contained HTML options
+  .option("--max-resource-size <bytes>", "Maximum size of an embedded resource in bytes")
+  .option("--resource-timeout <ms>", "Timeout for loading a single resource in milliseconds")
+
+  // JSON extraction options
+  .option("--indent <n>", "Spaces of indentation in JSON output, 0 for compact output")
+
   .action(async (input: string, output: string | undefined, options, command) => {
     try {
       await executeConvert(input, output, options, command)
@@ -173,13 +206,26 @@ async function executeConvert(
 
     if (mergedOptions.stdout) {
       await writeToStdout(outputBuffer)
+      if (result.additionalFiles?.length) {
+        showWarning(`Only the first of ${result.additionalFiles.length + 1} ${format.toUpperCase()} outputs was written to stdout`)
+      }
       if (mergedOptions.verbose) {
         showInfo(`Output ${format.toUpperCase()} data to stdout (${formatOutput(outputBuffer.byteLength)})`)
       }
+      // Assets are linked relative to the document, which is the working directory for stdout
+      await writeAssetFiles(result.assets ?? [], process.cwd(), mergedOptions.verbose)
     } else {
       const outputPath = output || result.suggestedFileName
       await writeOutputFile(outputPath, outputBuffer)
       showSuccess(`Successfully converted to ${outputPath}`)
+
+      for (const [index, file] of (result.additionalFiles ?? []).entries()) {
+        const filePath = output ? getNumberedPath(output, index + 2) : file.suggestedFileName
+        await writeOutputFile(filePath, file.content)
+        showSuccess(`Successfully converted to ${filePath}`)
+      }
+
+      await writeAssetFiles(result.assets ?? [], dirname(outputPath), mergedOptions.verbose)
     }
 
     // Show metadata in verbose mode
@@ -238,11 +284,39 @@ function showDryRunOutput(input: string, output: string | undefined, format: Con
 /**
  * Write output file
  */
-async function writeOutputFile(filePath: string, buffer: ArrayBuffer): Promise<void> {
+async function writeOutputFile(filePath: string, buffer: ArrayBuffer | Uint8Array): Promise<void> {
   const { writeFile } = await import("node:fs/promises")
   await writeFile(filePath, new Uint8Array(buffer))
 }
 
+/**
+ * Write the asset files linked from the converted document, relative to its directory
+ */
+async function writeAssetFiles(assets: ConversionAsset[], directory: string, verbose?: boolean): Promise<void> {
+  if (assets.length === 0) {
+    return
+  }
+
+  const { mkdir } = await import("node:fs/promises")
+  for (const asset of assets) {
+    const filePath = resolve(directory, asset.path)
+    await mkdir(dirname(filePath), { recursive: true })
+    await writeOutputFile(filePath, asset.content)
+    if (verbose) {
+      showInfo(`Saved ${filePath} (${asset.mediaType}, ${formatOutput(asset.content.length)})`)
+    }
+  }
+  showSuccess(`Saved ${assets.length} asset ${assets.length === 1 ? "file" : "files"} to ${resolve(directory, dirname(assets[0]!.path))}`)
+}
+
+/**
+ * Insert a sequence number before the extension of an output path
+ */
+function getNumberedPath(filePath: string, number: number): string {
+  const { dir, name, ext } = parse(filePath)
+  return join(dir, `${name}-${number}${ext}`)
+}
+
 /**
  * Show conversion metadata
  */
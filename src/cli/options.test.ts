@@ -0,0 +1,70 @@
+/**
+ * CLI Options Unit Tests
+ */
+
+import { describe, expect, it } from "vitest"
+
+import { DEFAULT_CONFIG } from "../config/defaults"
+
+import { convertCommand } from "./commands/convert"
+import { buildConversionOptions, parseOutputFormat } from "./options"
+
+describe("cli options", () => {
+  describe("parseOutputFormat", () => {
+    it("should infer WebP from the output file extension", () => {
+      expect(parseOutputFormat(undefined, "shots/page.webp")).toBe("webp")
+      expect(parseOutputFormat(undefined, "PAGE.WEBP")).toBe("webp")
+    })
+
+    it("should prefer an explicit format over the output file extension", () => {
+      expect(parseOutputFormat("png", "page.webp")).toBe("png")
+    })
+  })
+
+  describe("image options", () => {
+    it("should build WebP screenshot options with the requested quality", () => {
+      const options = buildConversionOptions("webp", { quality: "75" }, DEFAULT_CONFIG)
+
+      expect(options.type).toBe("WEBP")
+      expect(options.quality).toBe(75)
+    })
+
+    it("should keep the WebP quality between 1 and 100", () => {
+      expect(buildConversionOptions("webp", { quality: "150" }, DEFAULT_CONFIG).quality).toBe(100)
+      expect(buildConversionOptions("webp", { quality: "-5" }, DEFAULT_CONFIG).quality).toBe(1)
+    })
+
+    it("should capture elements matching the selector with padding", () => {
+      const options = buildConversionOptions("png", { selector: ".chart", selectorPadding: "12" }, DEFAULT_CONFIG)
+
+      expect(options.selector).toBe(".chart")
+      expect(options.selectorPadding).toBe(12)
+      expect(() => buildConversionOptions("png", { selectorPadding: "wide" }, DEFAULT_CONFIG)).toThrow("Invalid selector padding")
+    })
+
+    it("should capture on the listed devices", () => {
+      const options = buildConversionOptions("jpeg", { devices: "phone, 1280x800@2", contactSheet: true }, DEFAULT_CONFIG)
+
+      expect(options.devices).toEqual(["phone", "1280x800@2"])
+      expect(options.contactSheet).toBe(true)
+      expect(() => buildConversionOptions("png", { devices: "phone,watch" }, DEFAULT_CONFIG)).toThrow("Unknown device: watch")
+    })
+  })
+
+  describe("markdown options", () => {
+    it("should save images as asset files with --no-embed-images", () => {
+      convertCommand.parseOptions(["--no-embed-images"])
+
+      expect(buildConversionOptions("markdown", convertCommand.opts(), DEFAULT_CONFIG).embedImages).toBe(false)
+      expect(buildConversionOptions("markdown", {}, DEFAULT_CONFIG).embedImages).toBe(true)
+    })
+  })
+
+  describe("json options", () => {
+    it("should infer JSON from the output file extension and keep a zero indent", () => {
+      expect(parseOutputFormat(undefined, "index/page.json")).toBe("json")
+      expect(buildConversionOptions("json", {}, DEFAULT_CONFIG).indent).toBe(2)
+      expect(buildConversionOptions("json", { indent: "0" }, DEFAULT_CONFIG).indent).toBe(0)
+    })
+  })
+})
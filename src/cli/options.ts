@@ -10,7 +10,10 @@ import chalk from "chalk"
 import type { ConversionFormat } from "../api/index.js"
 import {
   DEFAULT_DOCX_CONFIG,
+  DEFAULT_EPUB_CONFIG,
+  DEFAULT_HTML_CONFIG,
   DEFAULT_IMAGE_CONFIG,
+  DEFAULT_JSON_CONFIG,
   DEFAULT_MARKDOWN_CONFIG,
   DEFAULT_MHTML_CONFIG,
   DEFAULT_PDF_CONFIG,
@@ -18,11 +21,26 @@ import {
 import type {
   Config,
   DOCXConfig,
+  EPUBConfig,
+  HTMLConfig,
   ImageConfig,
+  JSONConfig,
   MarkdownConfig,
   MHTMLConfig,
   PDFConfig,
 } from "../config/schema.js"
+import { resolveDevices } from "../core/engine/device-presets.js"
+
+/**
+ * Margin units accepted on the command line, expressed in inches
+ */
+const INCHES_PER_UNIT: Record<string, number> = {
+  in: 1,
+  cm: 1 / 2.54,
+  mm: 1 / 25.4,
+  pt: 1 / 72,
+  px: 1 / 96,
+}
 
 /**
  * Parse output format from options or file extension
@@ -79,11 +97,18 @@ export function buildConversionOptions(
       return buildPDFOptions(cliOptions, config.pdf || DEFAULT_PDF_CONFIG, baseOptions)
     case "png":
     case "jpeg":
+    case "webp":
       return buildImageOptions(format, cliOptions, config.image || DEFAULT_IMAGE_CONFIG, baseOptions)
     case "markdown":
       return buildMarkdownOptions(cliOptions, config.markdown || DEFAULT_MARKDOWN_CONFIG, baseOptions)
     case "docx":
       return buildDOCXOptions(cliOptions, config.docx || DEFAULT_DOCX_CONFIG, baseOptions)
+    case "epub":
+      return buildEPUBOptions(cliOptions, config.epub || DEFAULT_EPUB_CONFIG, baseOptions)
+    case "html":
+      return buildHTMLOptions(cliOptions, config.html || DEFAULT_HTML_CONFIG, baseOptions)
+    case "json":
+      return buildJSONOptions(cliOptions, config.json || DEFAULT_JSON_CONFIG, baseOptions)
     case "mhtml":
       return buildMHTMLOptions(cliOptions, config.mhtml || DEFAULT_MHTML_CONFIG, baseOptions)
     default:
@@ -98,14 +123,42 @@ function buildPDFOptions(cliOptions: any, config: PDFConfig, baseOptions: any):
   return {
     ...baseOptions,
     format: cliOptions.pageSize || config.pageSize || "A4",
-    landscape: cliOptions.landscape || (config.layout === "single-page") || false,
+    orientation: cliOptions.landscape ? "landscape" : "portrait",
+    layout: cliOptions.layout || config.layout || "standard",
+    maxHeight: Number.parseInt(cliOptions.maxHeight) || config.maxHeight,
+    pageBreaks: buildPageBreakMarkers(cliOptions, config.pageBreaks),
     printBackground: !cliOptions.noBackground && (config.printBackground !== false),
     scale: Number.parseFloat(cliOptions.scale) || config.scale || 1.0,
-    margin: parseMargin(cliOptions.margin || "20px"),
+    margin: parsePDFMargin(cliOptions.margin || "20px"),
     pageRanges: cliOptions.pageRanges,
+    // Templates given on the command line are meant to be shown
+    displayHeaderFooter: Boolean(cliOptions.headerTemplate || cliOptions.footerTemplate) || config.displayHeaderFooter || false,
     headerTemplate: cliOptions.headerTemplate || config.headerTemplate,
     footerTemplate: cliOptions.footerTemplate || config.footerTemplate,
     preferCSSPageSize: cliOptions.preferCSSPageSize || config.preferCSSPageSize || false,
+    generateTaggedPDF: cliOptions.taggedPdf || config.generateTaggedPDF || false,
+    generateDocumentOutline: cliOptions.outline || config.generateDocumentOutline || false,
+    metadata: buildPDFMetadata(cliOptions, config.metadata),
+    selector: cliOptions.selector,
+  }
+}
+
+/**
+ * Build the PDF document metadata from command line options and configuration
+ */
+function buildPDFMetadata(cliOptions: any, config?: PDFConfig["metadata"]): any {
+  if (cliOptions.metadata === false || config?.enabled === false) {
+    return false
+  }
+
+  return {
+    fromPage: config?.fromPage !== false,
+    title: cliOptions.title,
+    author: cliOptions.author || config?.author,
+    subject: cliOptions.subject || config?.subject,
+    keywords: cliOptions.keywords ? parseList(cliOptions.keywords) : config?.keywords,
+    creator: config?.creator,
+    producer: config?.producer,
   }
 }
 
@@ -119,11 +172,17 @@ function buildImageOptions(format: ConversionFormat, cliOptions: any, config: Im
   return {
     ...baseOptions,
     quality: Math.min(100, Math.max(1, Number.parseInt(cliOptions.quality) || config.quality || 90)),
-    type: format.toUpperCase() as "PNG" | "JPEG",
+    type: format.toUpperCase() as "PNG" | "JPEG" | "WEBP",
     omitBackground: cliOptions.omitBackground || config.omitBackground || false,
     clip: parseClip(cliOptions.clip),
     viewport: { width, height },
     fullPage: cliOptions.fullPage || config.captureBeyondViewport !== false,
+    maxHeight: Number.parseInt(cliOptions.maxHeight) || config.maxHeight,
+    split: cliOptions.split || config.split || false,
+    selector: cliOptions.selector,
+    selectorPadding: parsePadding(cliOptions.selectorPadding),
+    devices: parseDevices(cliOptions.devices),
+    contactSheet: cliOptions.contactSheet || false,
   }
 }
 
@@ -134,10 +193,32 @@ function buildMarkdownOptions(cliOptions: any, config: MarkdownConfig, baseOptio
   return {
     ...baseOptions,
     flavor: cliOptions.flavor || config.flavor || "gfm",
-    embedImages: !cliOptions.noEmbedImages && (config.embedImages !== false),
+    embedImages: cliOptions.embedImages !== false && config.embedImages !== false,
     imageAssetPath: cliOptions.imageAssetPath || config.imageAssetPath,
+    headingStyle: cliOptions.headingStyle || config.headingStyle || "atx",
+    bulletMarker: cliOptions.bulletMarker || config.bulletMarker || "-",
     codeBlockStyle: cliOptions.codeBlockStyle || config.codeBlockStyle || "fenced",
     fence: cliOptions.fence || config.fence || "```",
+    emDelimiter: config.emDelimiter || "*",
+    strongDelimiter: config.strongDelimiter || "**",
+    linkStyle: cliOptions.linkStyle || config.linkStyle || "inlined",
+    preserveWhitespace: config.preserveWhitespace || false,
+    strikethrough: config.strikethrough !== false,
+    tables: config.tables !== false,
+    tasklists: config.tasklists !== false,
+    includeFrontmatter: !!cliOptions.frontMatter || config.frontmatter?.enabled === true,
+    frontmatter: buildMarkdownFrontmatter(cliOptions, config.frontmatter),
+  }
+}
+
+/**
+ * Build the Markdown front matter settings from command line options and configuration
+ */
+function buildMarkdownFrontmatter(cliOptions: any, config?: MarkdownConfig["frontmatter"]): any {
+  return {
+    format: typeof cliOptions.frontMatter === "string" ? cliOptions.frontMatter : config?.format,
+    fields: cliOptions.frontMatterFields ? parseList(cliOptions.frontMatterFields) : config?.fields,
+    static: config?.static,
   }
 }
 
@@ -147,12 +228,70 @@ function buildMarkdownOptions(cliOptions: any, config: MarkdownConfig, baseOptio
 function buildDOCXOptions(cliOptions: any, config: DOCXConfig, baseOptions: any): any {
   return {
     ...baseOptions,
+    layout: cliOptions.layout || config.layout || "standard",
+    pageBreaks: buildPageBreakMarkers(cliOptions, config.pageBreaks),
     preserveStyle: cliOptions.preserveStyle || config.preserveStyle || false,
     fontFamily: cliOptions.fontFamily || config.fontFamily || "Arial",
     fontSize: Number.parseInt(cliOptions.fontSize) || config.fontSize || 11,
     orientation: cliOptions.orientation || config.pageLayout.orientation || "portrait",
     pageSize: cliOptions.pageSize || config.pageLayout.size || "A4",
-    margins: parseMargin(cliOptions.margins || "20px"),
+    margins: cliOptions.margins ? parseMargin(cliOptions.margins) : config.pageLayout.margins,
+    lineSpacing: config.lineSpacing,
+    paragraphSpacing: config.paragraphSpacing,
+    embedImages: config.embedImages,
+    convertTables: config.convertTables,
+    convertLists: config.convertLists,
+    preserveLinks: config.preserveLinks,
+    header: cliOptions.headerTemplate || config.header,
+    footer: cliOptions.footerTemplate || config.footer,
+  }
+}
+
+/**
+ * Build the page break markers of the auto-page layout
+ */
+function buildPageBreakMarkers(cliOptions: any, config: PDFConfig["pageBreaks"] = { hr: true, comment: true }): any {
+  return {
+    ...config,
+    selector: cliOptions.pageBreakSelector || config.selector,
+  }
+}
+
+/**
+ * Build EPUB-specific options
+ */
+function buildEPUBOptions(cliOptions: any, config: EPUBConfig, baseOptions: any): any {
+  return {
+    ...baseOptions,
+    title: cliOptions.title,
+    author: cliOptions.author || config.author,
+    language: cliOptions.language,
+    tocDepth: Math.min(6, Math.max(1, Number.parseInt(cliOptions.tocDepth) || config.tocDepth || 3)),
+    includeImages: config.includeImages,
+    includeStyles: config.includeStyles,
+    timeoutPerResource: config.timeoutPerResource,
+  }
+}
+
+/**
+ * Build self-contained HTML options
+ */
+function buildHTMLOptions(cliOptions: any, config: HTMLConfig, baseOptions: any): any {
+  return {
+    ...baseOptions,
+    maxResourceSize: Number.parseInt(cliOptions.maxResourceSize) || config.maxResourceSize,
+    timeoutPerResource: Number.parseInt(cliOptions.resourceTimeout) || config.timeoutPerResource,
+  }
+}
+
+/**
+ * Build JSON extraction options
+ */
+function buildJSONOptions(cliOptions: any, config: JSONConfig, baseOptions: any): any {
+  return {
+    ...baseOptions,
+    // 0 is a valid indent, for compact output
+    indent: cliOptions.indent === undefined ? config.indent : Math.min(8, Math.max(0, Number.parseInt(cliOptions.indent) || 0)),
   }
 }
 
@@ -193,6 +332,18 @@ function parseMargin(margin: string): any {
   }
 }
 
+/**
+ * Parse margin value into inches, the unit of PDF margins
+ */
+function parsePDFMargin(margin: string): Record<"top" | "right" | "bottom" | "left", number> {
+  const toInches = (length: string): number => {
+    const [, value, unit] = length.match(/^(\d+(?:\.\d+)?)([a-z]+)$/)!
+    return Number.parseFloat(value!) * INCHES_PER_UNIT[unit!]!
+  }
+  const { top, right, bottom, left } = parseMargin(margin)
+  return { top: toInches(top), right: toInches(right), bottom: toInches(bottom), left: toInches(left) }
+}
+
 /**
  * Parse viewport size (e.g., "1920x1080")
  */
@@ -233,6 +384,42 @@ function parseClip(clip?: string): any {
   return { x, y, width, height }
 }
 
+/**
+ * Parse the padding around captured elements in CSS pixels
+ */
+function parsePadding(padding?: string): number | undefined {
+  if (padding === undefined) {
+    return undefined
+  }
+
+  const value = Number.parseFloat(padding)
+  if (Number.isNaN(value) || value < 0) {
+    throw new Error(`Invalid selector padding: ${padding}. Use a number of pixels, e.g. 8.`)
+  }
+  return value
+}
+
+/**
+ * Parse the devices of a responsive capture (e.g., "phone,tablet,1280x800@2")
+ */
+function parseDevices(devices?: string): string[] | undefined {
+  if (!devices) {
+    return undefined
+  }
+
+  const list = parseList(devices)
+  // Fail before the browser starts on unknown names and malformed sizes
+  resolveDevices(list)
+  return list
+}
+
+/**
+ * Parse a comma-separated list (e.g., "finance, report")
+ */
+function parseList(list: string): string[] {
+  return list.split(",").map(item => item.trim()).filter(Boolean)
+}
+
 /**
  * Convert file extension to format
  */
@@ -242,9 +429,14 @@ function extensionToFormat(extension: string): ConversionFormat | null {
     png: "png",
     jpg: "jpeg",
     jpeg: "jpeg",
+    webp: "webp",
     md: "markdown",
     markdown: "markdown",
     docx: "docx",
+    epub: "epub",
+    html: "html",
+    htm: "html",
+    json: "json",
     mhtml: "mhtml",
     mht: "mhtml",
   }
@@ -263,7 +455,7 @@ function isValidFormat(format: string): format is ConversionFormat {
  * Get list of valid formats
  */
 function getValidFormats(): ConversionFormat[] {
-  return ["pdf", "png", "jpeg", "markdown", "docx", "mhtml"]
+  return ["pdf", "png", "jpeg", "webp", "markdown", "docx", "epub", "html", "json", "mhtml"]
 }
 
 /**
@@ -273,38 +465,96 @@ export function generateFormatHelp(format: ConversionFormat): string {
   const helps: Record<ConversionFormat, string> = {
     pdf: `
 ${chalk.cyan("PDF Options:")}
-  --layout <mode>         Layout mode (standard, single-page) [default: standard]
+  --layout <mode>         Layout mode (standard, single-page, auto-page) [default: standard]
+  --max-height <px>       Maximum height of a single-page PDF before paginating
+  --page-break-selector <s> CSS selector of elements starting a new page (auto-page)
   --page-size <size>      Page size (A4, Letter, Legal, etc.) [default: A4]
   --margin <value>        Margin (e.g., 20px, 1cm) [default: 20px]
   --scale <factor>        Scale factor (e.g., 0.9) [default: 1.0]
   --no-background         Disable background graphics
   --header-template <t>   Custom header template
-  --footer-template <t>   Custom footer template`,
+  --footer-template <t>   Custom footer template
+  --tagged-pdf            Generate a tagged (accessible) PDF
+  --outline               Add bookmarks from the document headings
+  --title <title>         Document title [default: page title]
+  --author <name>         Document author [default: author meta tag]
+  --subject <text>        Document subject [default: description meta tag]
+  --keywords <list>       Comma-separated keywords [default: keywords meta tag]
+  --no-metadata           Keep the metadata written by Chrome
+  --selector <css>        Print each matching element as its own PDF`,
 
     png: `
 ${chalk.cyan("PNG Options:")}
   --quality <n>           Image quality (1-100) [default: 90]
   --viewport <WxH>        Viewport size (e.g., 1920x1080) [default: 1920x1080]
   --omit-background       Omit background
-  --clip <x,y,w,h>        Clip region`,
+  --clip <x,y,w,h>        Clip region
+  --selector <css>        Capture each matching element as its own image
+  --selector-padding <px> Space around captured elements
+  --devices <list>        Capture on each device (phone, tablet, desktop, WxH[@scale])
+  --contact-sheet         Add an image of all devices side by side
+  --max-height <px>       Maximum height of full-page captures
+  --split                 Split tall pages into numbered images`,
 
     jpeg: `
 ${chalk.cyan("JPEG Options:")}
   --quality <n>           Image quality (1-100) [default: 90]
   --viewport <WxH>        Viewport size (e.g., 1920x1080) [default: 1920x1080]
-  --clip <x,y,w,h>        Clip region`,
+  --clip <x,y,w,h>        Clip region
+  --selector <css>        Capture each matching element as its own image
+  --selector-padding <px> Space around captured elements
+  --devices <list>        Capture on each device (phone, tablet, desktop, WxH[@scale])
+  --contact-sheet         Add an image of all devices side by side
+  --max-height <px>       Maximum height of full-page captures
+  --split                 Split tall pages into numbered images`,
+
+    webp: `
+${chalk.cyan("WebP Options:")}
+  --quality <n>           Image quality (1-100) [default: 90]
+  --viewport <WxH>        Viewport size (e.g., 1920x1080) [default: 1920x1080]
+  --omit-background       Omit background
+  --clip <x,y,w,h>        Clip region
+  --selector <css>        Capture each matching element as its own image
+  --selector-padding <px> Space around captured elements
+  --devices <list>        Capture on each device (phone, tablet, desktop, WxH[@scale])`,
 
     markdown: `
 ${chalk.cyan("Markdown Options:")}
-  --flavor <type>         Markdown flavor (gfm, commonmark) [default: gfm]
-  --no-embed-images       Don't embed images as base64
-  --image-asset-path <p>  Directory for saved images`,
+  --flavor <type>         Markdown flavor (gfm, commonmark, original) [default: gfm]
+  --heading-style <s>     Heading style (atx, setext) [default: atx]
+  --bullet-marker <c>     Bullet list marker (-, *, +) [default: -]
+  --code-block-style <s>  Code block style (fenced, indented) [default: fenced]
+  --link-style <s>        Link style (inlined, referenced) [default: inlined]
+  --no-embed-images       Save images as asset files linked by relative path
+  --image-asset-path <p>  Directory for saved images [default: ./assets]
+  --front-matter [fmt]    Prepend front matter from page metadata (yaml, toml) [default: yaml]
+  --front-matter-fields <list> Comma-separated fields (title, url, description, author, date, headline, og, captured)`,
 
     docx: `
 ${chalk.cyan("DOCX Options:")}
+  --layout <mode>         Layout mode (standard, auto-page) [default: standard]
+  --page-break-selector <s> CSS selector of elements starting a new page (auto-page)
   --preserve-style        Preserve HTML styling
   --font-family <font>    Default font family [default: Arial]
-  --font-size <size>      Default font size in points [default: 11]`,
+  --font-size <size>      Default font size in points [default: 11]
+  --header-template <t>   Page header; {title}, {url}, {date}, {page} and {pages} are filled in
+  --footer-template <t>   Page footer, with the same placeholders as the header`,
+
+    epub: `
+${chalk.cyan("EPUB Options:")}
+  --title <title>         Publication title [default: document title]
+  --author <name>         Publication author [default: author meta tag]
+  --language <tag>        Publication language [default: document language or en]
+  --toc-depth <n>         Deepest heading level in the table of contents [default: 3]`,
+
+    html: `
+${chalk.cyan("HTML Options:")}
+  --max-resource-size <n> Max size of an embedded resource in bytes [default: 10MB]
+  --resource-timeout <ms> Timeout for loading a single resource [default: 10000]`,
+
+    json: `
+${chalk.cyan("JSON Options:")}
+  --indent <n>            Spaces of indentation, 0 for compact output [default: 2]`,
 
     mhtml: `
 ${chalk.cyan("MHTML Options:")}
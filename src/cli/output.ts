@@ -232,8 +232,12 @@ export function showAvailableFormats(): void {
     { name: "PDF", ext: ".pdf", desc: "Portable Document Format" },
     { name: "PNG", ext: ".png", desc: "Portable Network Graphics" },
     { name: "JPEG", ext: ".jpg", desc: "Joint Photographic Experts Group" },
+    { name: "WebP", ext: ".webp", desc: "WebP image with lossy compression" },
     { name: "Markdown", ext: ".md", desc: "Markdown markup language" },
     { name: "DOCX", ext: ".docx", desc: "Microsoft Word document" },
+    { name: "EPUB", ext: ".epub", desc: "EPUB 3 e-book" },
+    { name: "HTML", ext: ".html", desc: "Self-contained HTML with embedded resources" },
+    { name: "JSON", ext: ".json", desc: "Structured document model for indexing" },
     { name: "MHTML", ext: ".mhtml", desc: "MIME HTML archive format" },
   ]
 
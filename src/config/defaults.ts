@@ -7,7 +7,7 @@
 
 import process from "node:process"
 
-import type { BaseConfig, Config, DOCXConfig, ImageConfig, MarkdownConfig, MHTMLConfig, PDFConfig } from "./schema"
+import type { BaseConfig, Config, DOCXConfig, EPUBConfig, HTMLConfig, ImageConfig, JSONConfig, MarkdownConfig, MHTMLConfig, PDFConfig } from "./schema"
 
 /**
  * Default base configuration with security and performance settings
@@ -46,6 +46,7 @@ export const DEFAULT_BASE_CONFIG: BaseConfig = {
 export const DEFAULT_PDF_CONFIG: PDFConfig = {
   // Standard document layout
   layout: "standard",
+  pageBreaks: { hr: true, comment: true }, // Markers honored by the auto-page layout
   pageSize: "A4", // Most common page size
   scale: 1.0,
 
@@ -66,6 +67,14 @@ export const DEFAULT_PDF_CONFIG: PDFConfig = {
   // Advanced PDF settings
   preferCSSPageSize: false, // Use our pageSize setting
   generateTaggedPDF: false, // Only enable when accessibility is needed
+  generateDocumentOutline: false, // Bookmarks from the heading hierarchy
+
+  // Document metadata for indexing (title and description default to the page's)
+  metadata: {
+    enabled: true,
+    fromPage: true,
+    producer: "html-converter-cdt",
+  },
 }
 
 /**
@@ -89,6 +98,9 @@ export const DEFAULT_IMAGE_CONFIG: ImageConfig = {
   // Rendering options
   omitBackground: false, // Include backgrounds for accurate representation
   captureBeyondViewport: false, // Only capture visible content
+
+  // Tall page handling
+  split: false, // Crop at maxHeight instead of producing numbered images
 }
 
 /**
@@ -99,7 +111,7 @@ export const DEFAULT_MARKDOWN_CONFIG: MarkdownConfig = {
   flavor: "gfm",
 
   // Content handling
-  embedImages: true, // Include images in markdown
+  embedImages: true, // Keep image URLs instead of extracting asset files
   preserveWhitespace: false, // Clean output
 
   // Style preferences
@@ -118,12 +130,26 @@ export const DEFAULT_MARKDOWN_CONFIG: MarkdownConfig = {
   strikethrough: true, // Support ~strikethrough~
   tables: true, // Support table syntax
   tasklists: true, // Support - [x] task lists
+
+  // Front matter for static site generators (off to keep plain Markdown output)
+  frontmatter: {
+    enabled: false,
+    format: "yaml",
+    fields: ["title", "url", "description", "author", "date", "headline", "og", "captured"],
+  },
+
+  // Site-specific element rules (callouts, tabs, admonitions)
+  customRules: [],
 }
 
 /**
  * Default DOCX configuration optimized for business documents
  */
 export const DEFAULT_DOCX_CONFIG: DOCXConfig = {
+  // Standard document layout
+  layout: "standard",
+  pageBreaks: { hr: true, comment: true }, // Markers honored by the auto-page layout
+
   // Document formatting
   preserveStyle: true, // Preserve original styling
   fontFamily: "Arial", // Widely compatible font
@@ -152,6 +178,39 @@ export const DEFAULT_DOCX_CONFIG: DOCXConfig = {
   preserveLinks: true, // Keep hyperlinks active
 }
 
+/**
+ * Default EPUB configuration optimized for e-readers
+ */
+export const DEFAULT_EPUB_CONFIG: EPUBConfig = {
+  // Publication metadata
+  language: "en", // Publication language (BCP 47)
+  author: undefined, // Falls back to the document author meta tag
+
+  // Navigation
+  tocDepth: 3, // Headings h1-h3 appear in the table of contents
+
+  // Content handling
+  includeImages: true, // Package images with the publication
+  includeStyles: true, // Package document stylesheets
+  timeoutPerResource: 10000, // 10 seconds per resource
+}
+
+/**
+ * Default self-contained HTML configuration optimized for offline viewing
+ */
+export const DEFAULT_HTML_CONFIG: HTMLConfig = {
+  // Resource handling
+  maxResourceSize: 10485760, // 10MB per inlined resource
+  timeoutPerResource: 10000, // 10 seconds per resource
+}
+
+/**
+ * Default JSON extraction configuration producing readable output
+ */
+export const DEFAULT_JSON_CONFIG: JSONConfig = {
+  indent: 2,
+}
+
 /**
  * Default MHTML configuration optimized for archive completeness
  */
@@ -182,6 +241,9 @@ export const DEFAULT_CONFIG: Config = {
   image: DEFAULT_IMAGE_CONFIG,
   markdown: DEFAULT_MARKDOWN_CONFIG,
   docx: DEFAULT_DOCX_CONFIG,
+  epub: DEFAULT_EPUB_CONFIG,
+  html: DEFAULT_HTML_CONFIG,
+  json: DEFAULT_JSON_CONFIG,
   mhtml: DEFAULT_MHTML_CONFIG,
 
   // Global settings
@@ -318,12 +380,15 @@ export function getDefaults(environment: "development" | "production" | "testing
 /**
  * Function to get format-specific defaults
  */
-export function getFormatDefaults<T>(format: "pdf" | "image" | "markdown" | "docx" | "mhtml"): T {
+export function getFormatDefaults<T>(format: "pdf" | "image" | "markdown" | "docx" | "epub" | "html" | "json" | "mhtml"): T {
   const formatDefaults = {
     pdf: DEFAULT_PDF_CONFIG,
     image: DEFAULT_IMAGE_CONFIG,
     markdown: DEFAULT_MARKDOWN_CONFIG,
     docx: DEFAULT_DOCX_CONFIG,
+    epub: DEFAULT_EPUB_CONFIG,
+    html: DEFAULT_HTML_CONFIG,
+    json: DEFAULT_JSON_CONFIG,
     mhtml: DEFAULT_MHTML_CONFIG,
   }[format]
 
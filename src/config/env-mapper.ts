@@ -138,7 +138,7 @@ export class EnvironmentMapper {
       configPath: "pdf.layout",
       type: "string",
       defaultValue: "standard",
-      validator: (value: string) => ["standard", "single-page"].includes(value),
+      validator: (value: string) => ["standard", "single-page", "auto-page"].includes(value),
     })
 
     this.addMapping({
@@ -288,6 +288,14 @@ export class EnvironmentMapper {
     })
 
     // DOCX configuration mappings
+    this.addMapping({
+      envVar: "HTML_CONVERTER_DOCX_LAYOUT",
+      configPath: "docx.layout",
+      type: "string",
+      defaultValue: "standard",
+      validator: (value: string) => ["standard", "auto-page"].includes(value),
+    })
+
     this.addMapping({
       envVar: "HTML_CONVERTER_DOCX_PRESERVE_STYLE",
       configPath: "docx.preserveStyle",
@@ -355,7 +363,7 @@ export class EnvironmentMapper {
       configPath: "defaultFormat",
       type: "string",
       defaultValue: "pdf",
-      validator: (value: string) => ["pdf", "image", "markdown", "docx", "mhtml"].includes(value),
+      validator: (value: string) => ["pdf", "image", "markdown", "docx", "epub", "html", "json", "mhtml"].includes(value),
     })
 
     this.addMapping({
@@ -25,4 +25,4 @@ export { mergeConfigs, mergeConfigsWithPriority } from "./merger"
 // Core configuration types and validation
 export * from "./schema"
 // Re-export commonly used types and functions
-export type { BaseConfig, Config, DOCXConfig, ImageConfig, MarkdownConfig, MHTMLConfig, PDFConfig } from "./schema"
+export type { BaseConfig, Config, DOCXConfig, EPUBConfig, HTMLConfig, ImageConfig, JSONConfig, MarkdownConfig, MHTMLConfig, PDFConfig } from "./schema"
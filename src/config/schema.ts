@@ -30,11 +30,35 @@ export const BaseConfigSchema = z.object({
   memoryLimit: z.number().int().min(128).max(2048).default(512), // MB
 })
 
+/**
+ * Page break markers recognized by the auto-page layout
+ */
+export const PageBreakMarkersSchema = z.object({
+  selector: z.string().min(1).optional(),
+  hr: z.boolean().default(true),
+  comment: z.boolean().default(true),
+})
+
+/**
+ * Document metadata written into generated PDFs
+ */
+export const PDFMetadataSchema = z.object({
+  enabled: z.boolean().default(true),
+  fromPage: z.boolean().default(true),
+  author: z.string().optional(),
+  subject: z.string().optional(),
+  keywords: z.array(z.string()).optional(),
+  creator: z.string().optional(),
+  producer: z.string().default("html-converter-cdt"),
+})
+
 /**
  * PDF-specific configuration options
  */
 export const PDFConfigSchema = z.object({
-  layout: z.enum(["standard", "single-page"]).default("standard"),
+  layout: z.enum(["standard", "single-page", "auto-page"]).default("standard"),
+  maxHeight: z.number().int().min(1).max(19200).optional(),
+  pageBreaks: PageBreakMarkersSchema.default({ hr: true, comment: true }),
   pageSize: z.enum(["A4", "A3", "A5", "Letter", "Legal", "Tabloid"]).default("A4"),
   margins: z.object({
     top: z.string().default("1cm"),
@@ -54,6 +78,8 @@ export const PDFConfigSchema = z.object({
   footerTemplate: z.string().default("<div></div>"),
   preferCSSPageSize: z.boolean().default(false),
   generateTaggedPDF: z.boolean().default(false),
+  generateDocumentOutline: z.boolean().default(false),
+  metadata: PDFMetadataSchema.default({ enabled: true, fromPage: true, producer: "html-converter-cdt" }),
 })
 
 /**
@@ -80,6 +106,32 @@ export const ImageConfigSchema = z.object({
   }).optional(),
   omitBackground: z.boolean().default(false),
   captureBeyondViewport: z.boolean().default(false),
+  maxHeight: z.number().int().min(1).optional(),
+  split: z.boolean().default(false),
+})
+
+/**
+ * Page metadata fields written into Markdown front matter
+ */
+export const MarkdownFrontmatterFieldSchema = z.enum(["title", "url", "description", "author", "date", "headline", "og", "captured"])
+
+/**
+ * Front matter prepended to generated Markdown
+ */
+export const MarkdownFrontmatterSchema = z.object({
+  enabled: z.boolean().default(false),
+  format: z.enum(["yaml", "toml"]).default("yaml"),
+  fields: z.array(MarkdownFrontmatterFieldSchema).default(["title", "url", "description", "author", "date", "headline", "og", "captured"]),
+  static: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional(),
+})
+
+/**
+ * Rule overriding the Markdown of elements matched by a CSS selector
+ */
+export const MarkdownCustomRuleSchema = z.object({
+  selector: z.string().min(1),
+  action: z.enum(["replace", "remove", "keep"]).default("replace"),
+  replacement: z.string().optional(),
 })
 
 /**
@@ -100,12 +152,31 @@ export const MarkdownConfigSchema = z.object({
   strikethrough: z.boolean().default(true),
   tables: z.boolean().default(true),
   tasklists: z.boolean().default(true),
+  frontmatter: MarkdownFrontmatterSchema.default({
+    enabled: false,
+    format: "yaml",
+    fields: ["title", "url", "description", "author", "date", "headline", "og", "captured"],
+  }),
+  customRules: z.array(MarkdownCustomRuleSchema).default([]),
+})
+
+/**
+ * DOCX header or footer templates (HTML or plain text with {title}, {url},
+ * {date}, {page} and {pages} placeholders). A first page template turns on a
+ * different first page, an even page template different odd and even pages.
+ */
+export const DOCXHeaderFooterSchema = z.object({
+  default: z.string().optional(),
+  first: z.string().optional(),
+  even: z.string().optional(),
 })
 
 /**
  * DOCX-specific configuration options
  */
 export const DOCXConfigSchema = z.object({
+  layout: z.enum(["standard", "auto-page"]).default("standard"),
+  pageBreaks: PageBreakMarkersSchema.default({ hr: true, comment: true }),
   preserveStyle: z.boolean().default(true),
   fontFamily: z.string().default("Arial"),
   fontSize: z.number().int().min(8).max(72).default(12),
@@ -139,6 +210,35 @@ export const DOCXConfigSchema = z.object({
   convertTables: z.boolean().default(true),
   convertLists: z.boolean().default(true),
   preserveLinks: z.boolean().default(true),
+  header: DOCXHeaderFooterSchema.optional(),
+  footer: DOCXHeaderFooterSchema.optional(),
+})
+
+/**
+ * EPUB-specific configuration options
+ */
+export const EPUBConfigSchema = z.object({
+  language: z.string().min(1).default("en"),
+  author: z.string().optional(),
+  tocDepth: z.number().int().min(1).max(6).default(3),
+  includeImages: z.boolean().default(true),
+  includeStyles: z.boolean().default(true),
+  timeoutPerResource: z.number().int().min(1000).max(60000).default(10000),
+})
+
+/**
+ * Self-contained HTML configuration options
+ */
+export const HTMLConfigSchema = z.object({
+  maxResourceSize: z.number().int().min(1024).max(52428800).default(10485760), // 10MB
+  timeoutPerResource: z.number().int().min(1000).max(60000).default(10000),
+})
+
+/**
+ * JSON extraction configuration options
+ */
+export const JSONConfigSchema = z.object({
+  indent: z.number().int().min(0).max(8).default(2),
 })
 
 /**
@@ -166,10 +266,13 @@ export const ConfigSchema = z.object({
   image: ImageConfigSchema.optional(),
   markdown: MarkdownConfigSchema.optional(),
   docx: DOCXConfigSchema.optional(),
+  epub: EPUBConfigSchema.optional(),
+  html: HTMLConfigSchema.optional(),
+  json: JSONConfigSchema.optional(),
   mhtml: MHTMLConfigSchema.optional(),
 
   // Global settings
-  defaultFormat: z.enum(["pdf", "image", "markdown", "docx", "mhtml"]).default("pdf"),
+  defaultFormat: z.enum(["pdf", "image", "markdown", "docx", "epub", "html", "json", "mhtml"]).default("pdf"),
   outputPath: z.string().optional(),
   outputFilename: z.string().optional(),
 
@@ -184,10 +287,43 @@ export type BaseConfig = z.infer<typeof BaseConfigSchema>
 export type PDFConfig = z.infer<typeof PDFConfigSchema>
 export type ImageConfig = z.infer<typeof ImageConfigSchema>
 export type MarkdownConfig = z.infer<typeof MarkdownConfigSchema>
+export type MarkdownFrontmatterConfig = z.infer<typeof MarkdownFrontmatterSchema>
+export type MarkdownFrontmatterField = z.infer<typeof MarkdownFrontmatterFieldSchema>
 export type DOCXConfig = z.infer<typeof DOCXConfigSchema>
+export type DOCXHeaderFooterConfig = z.infer<typeof DOCXHeaderFooterSchema>
+export type EPUBConfig = z.infer<typeof EPUBConfigSchema>
+export type HTMLConfig = z.infer<typeof HTMLConfigSchema>
+export type JSONConfig = z.infer<typeof JSONConfigSchema>
 export type MHTMLConfig = z.infer<typeof MHTMLConfigSchema>
 export type Config = z.infer<typeof ConfigSchema>
 
+/**
+ * JSON Schema of the page break markers
+ */
+const PageBreakMarkersJSONSchema = {
+  type: "object",
+  description: "Page break markers recognized by the auto-page layout",
+  properties: {
+    selector: { type: "string", minLength: 1, description: "CSS selector of elements that start a new page" },
+    hr: { type: "boolean", default: true, description: "Break at <hr class=\"page-break\"> elements" },
+    comment: { type: "boolean", default: true, description: "Break at <!-- pagebreak --> comments" },
+  },
+  default: { hr: true, comment: true },
+}
+
+/**
+ * JSON Schema of DOCX header or footer templates
+ */
+const DOCXHeaderFooterJSONSchema = {
+  type: "object",
+  description: "Templates with {title}, {url}, {date}, {page} and {pages} placeholders",
+  properties: {
+    default: { type: "string", description: "Template used on every page without a variant of its own" },
+    first: { type: "string", description: "First page template; enables a different first page" },
+    even: { type: "string", description: "Even page template; enables different odd and even pages" },
+  },
+}
+
 /**
  * JSON Schema for validation
  */
@@ -267,7 +403,9 @@ export const ConfigJSONSchema = {
       type: "object",
       description: "PDF conversion settings",
       properties: {
-        layout: { enum: ["standard", "single-page"], default: "standard" },
+        layout: { enum: ["standard", "single-page", "auto-page"], default: "standard" },
+        maxHeight: { type: "integer", minimum: 1, maximum: 19200 },
+        pageBreaks: PageBreakMarkersJSONSchema,
         pageSize: { enum: ["A4", "A3", "A5", "Letter", "Legal", "Tabloid"], default: "A4" },
         scale: { type: "number", minimum: 0.1, maximum: 3.0, default: 1.0 },
         printBackground: { type: "boolean", default: true },
@@ -276,6 +414,21 @@ export const ConfigJSONSchema = {
         footerTemplate: { type: "string", default: "<div></div>" },
         preferCSSPageSize: { type: "boolean", default: false },
         generateTaggedPDF: { type: "boolean", default: false },
+        generateDocumentOutline: { type: "boolean", default: false },
+        metadata: {
+          type: "object",
+          description: "Document information and XMP metadata written into the PDF",
+          properties: {
+            enabled: { type: "boolean", default: true, description: "Replace the metadata Chrome writes" },
+            fromPage: { type: "boolean", default: true, description: "Take title, description, author and keywords from the page" },
+            author: { type: "string" },
+            subject: { type: "string" },
+            keywords: { type: "array", items: { type: "string" } },
+            creator: { type: "string" },
+            producer: { type: "string", default: "html-converter-cdt" },
+          },
+          default: { enabled: true, fromPage: true, producer: "html-converter-cdt" },
+        },
         margins: {
           type: "object",
           properties: {
@@ -303,6 +456,8 @@ export const ConfigJSONSchema = {
         layout: { enum: ["standard", "single-page"], default: "standard" },
         omitBackground: { type: "boolean", default: false },
         captureBeyondViewport: { type: "boolean", default: false },
+        maxHeight: { type: "integer", minimum: 1 },
+        split: { type: "boolean", default: false },
         viewport: {
           type: "object",
           properties: {
@@ -337,6 +492,44 @@ export const ConfigJSONSchema = {
         strikethrough: { type: "boolean", default: true },
         tables: { type: "boolean", default: true },
         tasklists: { type: "boolean", default: true },
+        frontmatter: {
+          type: "object",
+          description: "Front matter generated from page metadata",
+          properties: {
+            enabled: { type: "boolean", default: false },
+            format: { enum: ["yaml", "toml"], default: "yaml" },
+            fields: {
+              type: "array",
+              items: { enum: ["title", "url", "description", "author", "date", "headline", "og", "captured"] },
+              description: "Page metadata fields to include, in output order",
+            },
+            static: {
+              type: "object",
+              description: "Custom keys added after the page metadata",
+              additionalProperties: {
+                oneOf: [{ type: "string" }, { type: "number" }, { type: "boolean" }, { type: "array", items: { type: "string" } }],
+              },
+            },
+          },
+          default: { enabled: false, format: "yaml" },
+        },
+        customRules: {
+          type: "array",
+          description: "Rules overriding the Markdown of elements matched by CSS selectors; the first matching rule applies",
+          items: {
+            type: "object",
+            properties: {
+              selector: { type: "string", minLength: 1 },
+              action: { enum: ["replace", "remove", "keep"], default: "replace" },
+              replacement: {
+                type: "string",
+                description: "Template with {{content}}, {{text}}, {{tag}} and {{attr.<name>}} placeholders",
+              },
+            },
+            required: ["selector"],
+          },
+          default: [],
+        },
       },
     },
 
@@ -344,6 +537,8 @@ export const ConfigJSONSchema = {
       type: "object",
       description: "DOCX conversion settings",
       properties: {
+        layout: { enum: ["standard", "auto-page"], default: "standard" },
+        pageBreaks: PageBreakMarkersJSONSchema,
         preserveStyle: { type: "boolean", default: true },
         fontFamily: { type: "string", default: "Arial" },
         fontSize: { type: "integer", minimum: 8, maximum: 72, default: 12 },
@@ -353,6 +548,8 @@ export const ConfigJSONSchema = {
         preserveLinks: { type: "boolean", default: true },
         lineSpacing: { type: "number", minimum: 1.0, maximum: 3.0, default: 1.15 },
         paragraphSpacing: { type: "integer", minimum: 0, maximum: 72, default: 6 },
+        header: DOCXHeaderFooterJSONSchema,
+        footer: DOCXHeaderFooterJSONSchema,
         pageLayout: {
           type: "object",
           properties: {
@@ -378,6 +575,36 @@ export const ConfigJSONSchema = {
       },
     },
 
+    epub: {
+      type: "object",
+      description: "EPUB conversion settings",
+      properties: {
+        language: { type: "string", minLength: 1, default: "en" },
+        author: { type: "string" },
+        tocDepth: { type: "integer", minimum: 1, maximum: 6, default: 3 },
+        includeImages: { type: "boolean", default: true },
+        includeStyles: { type: "boolean", default: true },
+        timeoutPerResource: { type: "integer", minimum: 1000, maximum: 60000, default: 10000 },
+      },
+    },
+
+    html: {
+      type: "object",
+      description: "Self-contained HTML conversion settings",
+      properties: {
+        maxResourceSize: { type: "integer", minimum: 1024, maximum: 52428800, default: 10485760 },
+        timeoutPerResource: { type: "integer", minimum: 1000, maximum: 60000, default: 10000 },
+      },
+    },
+
+    json: {
+      type: "object",
+      description: "Structured JSON extraction settings",
+      properties: {
+        indent: { type: "integer", minimum: 0, maximum: 8, default: 2 },
+      },
+    },
+
     mhtml: {
       type: "object",
       description: "MHTML conversion settings",
@@ -393,7 +620,7 @@ export const ConfigJSONSchema = {
     },
 
     defaultFormat: {
-      enum: ["pdf", "image", "markdown", "docx", "mhtml"],
+      enum: ["pdf", "image", "markdown", "docx", "epub", "html", "json", "mhtml"],
       default: "pdf",
       description: "Default output format when not specified",
     },
@@ -555,7 +782,7 @@ export function createDefaultConfig(): Config {
  * Utility function to validate individual format configurations
  */
 export function validateFormatConfig<T>(
-  format: "pdf" | "image" | "markdown" | "docx" | "mhtml",
+  format: "pdf" | "image" | "markdown" | "docx" | "epub" | "html" | "json" | "mhtml",
   config: unknown,
   schema: z.ZodSchema<T>,
 ): { isValid: boolean, errors: string[], config?: T } {
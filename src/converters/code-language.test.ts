@@ -0,0 +1,123 @@
+/**
+ * Code Language Detection Unit Tests
+ */
+
+import { describe, expect, it } from "vitest"
+
+import { DOMSnapshotNodeType } from "../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../core/engine/dom-snapshot.js"
+
+import { detectCodeLanguage, guessCodeLanguage, tokenizeCode } from "./code-language.js"
+
+/**
+ * Build a pre > code snapshot
+ */
+function codeBlock(code: string, preAttributes: Record<string, string> = {}, codeAttributes: Record<string, string> = {}): DOMSnapshotNode {
+  return {
+    type: DOMSnapshotNodeType.ELEMENT,
+    tag: "pre",
+    attributes: preAttributes,
+    children: [{
+      type: DOMSnapshotNodeType.ELEMENT,
+      tag: "code",
+      attributes: codeAttributes,
+      children: [{ type: DOMSnapshotNodeType.TEXT, text: code }],
+    }],
+  }
+}
+
+describe("code language", () => {
+  describe("detectCodeLanguage", () => {
+    it("should read the language from classes and data attributes", () => {
+      expect(detectCodeLanguage(codeBlock("x", {}, { class: "language-ts" }))).toBe("ts")
+      expect(detectCodeLanguage(codeBlock("x", { class: "lang-rust" }))).toBe("rust")
+      expect(detectCodeLanguage(codeBlock("x", {}, { class: "hljs python" }))).toBe("python")
+      expect(detectCodeLanguage(codeBlock("x", { "data-language": "sql" }))).toBe("sql")
+    })
+
+    it("should prefer the code element over the pre element", () => {
+      expect(detectCodeLanguage(codeBlock("x", { class: "language-js" }, { "data-lang": "ts" }))).toBe("ts")
+    })
+
+    it("should not guess the language of code marked as plain text", () => {
+      expect(detectCodeLanguage(codeBlock("console.log(1)", { class: "language-plaintext" }))).toBeUndefined()
+      expect(detectCodeLanguage(codeBlock("console.log(1)"))).toBe("javascript")
+    })
+  })
+
+  describe("guessCodeLanguage", () => {
+    it.each([
+      ["def main():\n    return 1", "python"],
+      ["const add = (a, b) => a + b\nconsole.log(add(1, 2))", "javascript"],
+      ["interface User {\n  name: string\n}\nconst user: User = { name: \"a\" }", "typescript"],
+      ["{ \"name\": \"demo\", \"private\": true }", "json"],
+      ["#!/bin/bash\nif [ -f x ]; then\n  echo yes\nfi", "bash"],
+      ["SELECT id, name FROM users WHERE active = 1", "sql"],
+      ["<!DOCTYPE html>\n<html><body><p>Hi</p></body></html>", "html"],
+      ["package main\n\nfunc main() {\n  fmt.Println(\"hi\")\n}", "go"],
+      ["fn main() {\n    let mut x = 1;\n    println!(\"{}\", x);\n}", "rust"],
+      [".card > h2 {\n  color: red;\n}", "css"],
+      ["#include <iostream>\nint main() { std::cout << 1; }", "cpp"],
+    ])("should recognize %j", (code, language) => {
+      expect(guessCodeLanguage(code)).toBe(language)
+    })
+
+    it("should leave short or ambiguous text unclassified", () => {
+      expect(guessCodeLanguage("hello world")).toBeUndefined()
+      expect(guessCodeLanguage("x = 1")).toBeUndefined()
+      expect(guessCodeLanguage("")).toBeUndefined()
+    })
+  })
+
+  describe("tokenizeCode", () => {
+    it("should split code into keywords, strings, numbers and comments", () => {
+      expect(tokenizeCode("const s = 'a\\'b' /* note */ + 0x1F // end\nreturn s.return", "js")).toEqual([
+        { kind: "keyword", text: "const" },
+        { kind: "plain", text: " s = " },
+        { kind: "string", text: "'a\\'b'" },
+        { kind: "plain", text: " " },
+        { kind: "comment", text: "/* note */" },
+        { kind: "plain", text: " + " },
+        { kind: "number", text: "0x1F" },
+        { kind: "plain", text: " " },
+        { kind: "comment", text: "// end" },
+        { kind: "plain", text: "\n" },
+        { kind: "keyword", text: "return" },
+        { kind: "plain", text: " s.return" },
+      ])
+    })
+
+    it("should only start hash comments at word boundaries", () => {
+      expect(tokenizeCode("echo $# # count", "bash")).toEqual([
+        { kind: "keyword", text: "echo" },
+        { kind: "plain", text: " $# " },
+        { kind: "comment", text: "# count" },
+      ])
+    })
+
+    it("should match SQL keywords in any case", () => {
+      expect(tokenizeCode("select 1", "sql")).toEqual([
+        { kind: "keyword", text: "select" },
+        { kind: "plain", text: " " },
+        { kind: "number", text: "1" },
+      ])
+    })
+
+    it("should highlight tags and attribute values of markup", () => {
+      expect(tokenizeCode("<a href=\"/\">\"Home\"</a><!-- nav -->", "html")).toEqual([
+        { kind: "keyword", text: "<a" },
+        { kind: "plain", text: " href=" },
+        { kind: "string", text: "\"/\"" },
+        { kind: "keyword", text: ">" },
+        { kind: "plain", text: "\"Home\"" },
+        { kind: "keyword", text: "</a>" },
+        { kind: "comment", text: "<!-- nav -->" },
+      ])
+    })
+
+    it("should keep code in unknown languages as plain text", () => {
+      expect(tokenizeCode("x = 1", "cobol")).toEqual([{ kind: "plain", text: "x = 1" }])
+      expect(tokenizeCode("x = 1")).toEqual([{ kind: "plain", text: "x = 1" }])
+    })
+  })
+})
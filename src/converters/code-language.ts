@@ -0,0 +1,558 @@
+/**
+ * Code Language Detection - Identifies and tokenizes the language of code blocks
+ * Reads the language from the markup when it is given and guesses it from the code otherwise
+ */
+
+import { DOMSnapshotNodeType, getSnapshotText } from "../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../core/engine/dom-snapshot.js"
+
+/**
+ * Kind of a highlighted code token
+ */
+export type CodeTokenKind = "plain" | "keyword" | "string" | "number" | "comment"
+
+/**
+ * Piece of code of a single token kind
+ */
+export interface CodeToken {
+  kind: CodeTokenKind
+  text: string
+}
+
+/**
+ * Tokenizing rules of a language
+ */
+interface LanguageSyntax {
+  keywords: Set<string>
+  lineComments?: string[]
+  blockComment?: [string, string]
+  quotes: string
+  caseInsensitive?: boolean
+  markup?: boolean
+}
+
+/**
+ * Scoring rules used to guess the language of unmarked code
+ */
+interface LanguageRules {
+  language: string
+  /** Language whose score is added once the code shows any feature of this one */
+  base?: string
+  patterns: Array<[RegExp, number]>
+}
+
+/**
+ * Language names marking code as not being in any language
+ */
+const NO_LANGUAGE = new Set(["none", "nohighlight", "plain", "plaintext", "text", "txt"])
+
+/**
+ * Minimum score of a guessed language
+ */
+const GUESS_THRESHOLD = 3
+
+/**
+ * Alternative names of the languages that have tokenizing rules
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  "js": "javascript",
+  "jsx": "javascript",
+  "mjs": "javascript",
+  "cjs": "javascript",
+  "node": "javascript",
+  "ts": "typescript",
+  "tsx": "typescript",
+  "py": "python",
+  "python3": "python",
+  "sh": "bash",
+  "shell": "bash",
+  "zsh": "bash",
+  "console": "bash",
+  "shell-session": "bash",
+  "htm": "html",
+  "xhtml": "html",
+  "svg": "xml",
+  "yml": "yaml",
+  "c++": "cpp",
+  "cc": "cpp",
+  "cxx": "cpp",
+  "hpp": "cpp",
+  "h": "c",
+  "cs": "csharp",
+  "c#": "csharp",
+  "rb": "ruby",
+  "golang": "go",
+  "rs": "rust",
+  "postgresql": "sql",
+  "mysql": "sql",
+  "sqlite": "sql",
+  "plsql": "sql",
+  "jsonc": "json",
+  "json5": "json",
+  "scss": "css",
+  "less": "css",
+}
+
+const words = (list: string): Set<string> => new Set(list.split(" "))
+
+const JAVASCRIPT_KEYWORDS = "async await break case catch class const continue debugger default delete do else export extends false finally for from function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while with yield"
+const C_KEYWORDS = "auto break case char const continue default do double else enum extern float for goto if int long register return short signed sizeof static struct switch typedef union unsigned void volatile while NULL"
+
+const C_LIKE = { lineComments: ["//"], blockComment: ["/*", "*/"] as [string, string], quotes: "\"'" }
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  javascript: { ...C_LIKE, quotes: "\"'`", keywords: words(JAVASCRIPT_KEYWORDS) },
+  typescript: {
+    ...C_LIKE,
+    quotes: "\"'`",
+    keywords: words(`${JAVASCRIPT_KEYWORDS} abstract any as boolean declare enum implements interface is keyof namespace never number private protected public readonly string type unknown`),
+  },
+  java: {
+    ...C_LIKE,
+    keywords: words("abstract boolean break byte case catch char class continue default do double else enum extends false final finally float for if implements import instanceof int interface long new null package private protected public record return short static super switch this throw throws true try var void volatile while"),
+  },
+  c: { ...C_LIKE, keywords: words(C_KEYWORDS) },
+  cpp: {
+    ...C_LIKE,
+    keywords: words(`${C_KEYWORDS} bool class delete explicit false friend inline namespace new nullptr operator private protected public template this throw true try typename using virtual`),
+  },
+  csharp: {
+    ...C_LIKE,
+    keywords: words("abstract as async await base bool break case catch class const continue decimal default delegate do double else enum event false finally float for foreach if in int interface internal is lock long namespace new null object out override params private protected public readonly ref return sealed static string struct switch this throw true try typeof using var virtual void while"),
+  },
+  go: {
+    ...C_LIKE,
+    quotes: "\"'`",
+    keywords: words("break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var"),
+  },
+  rust: {
+    ...C_LIKE,
+    quotes: "\"",
+    keywords: words("as async await break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while"),
+  },
+  php: {
+    ...C_LIKE,
+    lineComments: ["//", "#"],
+    keywords: words("abstract and array as break case catch class clone const continue declare default do echo else elseif empty extends false final finally fn for foreach function global if implements include interface isset list namespace new null or print private protected public require return static switch throw trait true try unset use var while"),
+  },
+  python: {
+    lineComments: ["#"],
+    quotes: "\"'",
+    keywords: words("and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield"),
+  },
+  ruby: {
+    lineComments: ["#"],
+    quotes: "\"'",
+    keywords: words("alias and begin break case class def do else elsif end ensure false for if in module next nil not or redo require rescue retry return self super then true undef unless until when while yield"),
+  },
+  bash: {
+    lineComments: ["#"],
+    quotes: "\"'",
+    keywords: words("case do done echo elif else esac exit export fi for function if in local return then until while"),
+  },
+  sql: {
+    lineComments: ["--"],
+    blockComment: ["/*", "*/"],
+    quotes: "'\"",
+    caseInsensitive: true,
+    keywords: words("all alter and as asc between by create default delete desc distinct drop foreign from group having in index inner insert into is join key left like limit not null on or order outer primary references right select set table union update values where"),
+  },
+  css: { blockComment: ["/*", "*/"], quotes: "\"'", keywords: words("important inherit initial none") },
+  json: { quotes: "\"", keywords: words("false null true") },
+  yaml: { lineComments: ["#"], quotes: "\"'", keywords: words("false no null true yes") },
+  html: { blockComment: ["<!--", "-->"], quotes: "\"'", keywords: new Set(), markup: true },
+  xml: { blockComment: ["<!--", "-->"], quotes: "\"'", keywords: new Set(), markup: true },
+}
+
+/**
+ * Features of each language, scored to guess the language of unmarked code
+ */
+const LANGUAGE_RULES: LanguageRules[] = [
+  {
+    language: "typescript",
+    base: "javascript",
+    patterns: [
+      [/^\s*(?:export\s+)?interface\s+\w+/m, 3],
+      [/^\s*(?:export\s+)?type\s+\w+(?:<[^>]*>)?\s*=/m, 3],
+      [/[\w)]\s*:\s*(?:string|number|boolean|void|any|unknown|never)\b/, 3],
+      [/\bimport\s+type\b/, 3],
+      [/\bas\s+const\b/, 3],
+    ],
+  },
+  {
+    language: "javascript",
+    patterns: [
+      [/\b(?:const|let|var)\s+[\w$]+\s*=/, 2],
+      [/\bfunction\b[\w$\s]*\(/, 2],
+      [/=>/, 1],
+      [/\bconsole\.\w+\(/, 3],
+      [/\brequire\(\s*["']/, 2],
+      [/^import\s[^;\n]*\sfrom\s*["']/m, 3],
+      [/^\s*export\s+(?:default|const|function|class|async)\b/m, 2],
+      [/===|!==/, 2],
+      [/\b(?:document|window)\.\w+/, 2],
+    ],
+  },
+  {
+    language: "python",
+    patterns: [
+      [/^[ \t]*def \w+\([^)]*\)[^:\n]*:[ \t]*$/m, 4],
+      [/^\s*class\s+\w+(?:\([^)]*\))?:\s*$/m, 3],
+      [/^\s*(?:if|elif|for|while|with|try|except)\b[^\n]*:\s*$/m, 2],
+      [/^\s*from\s+[\w.]+\s+import\s/m, 3],
+      [/^\s*import\s+[\w.]+(?:\s+as\s+\w+)?\s*$/m, 1],
+      [/\bprint\(/, 1],
+      [/\bself\./, 2],
+      [/\b(?:None|True|False)\b/, 1],
+    ],
+  },
+  {
+    language: "bash",
+    patterns: [
+      [/^#!.*\b(?:ba|z)?sh\b/, 5],
+      [/^\s*\$\s+\w/m, 3],
+      [/^\s*(?:sudo|apt-get|apt|npm|npx|pnpm|yarn|pip3?|brew|git|cd|ls|mkdir|rm|cp|mv|chmod|export|echo|curl|wget|docker|kubectl|cat)\s/m, 2],
+      [/^\s*(?:fi|done|esac)\s*$/m, 3],
+      [/\$\{?\w+\}?/, 1],
+    ],
+  },
+  {
+    language: "sql",
+    patterns: [
+      [/^[ \t]*(?:SELECT|select)\s[\s\S]*?\s(?:FROM|from)\s/m, 4],
+      [/\bINSERT\s+INTO\b/i, 4],
+      [/\bCREATE\s+(?:TABLE|INDEX|VIEW|DATABASE)\b/i, 4],
+      [/\bUPDATE\s+\w+\s+SET\b/i, 4],
+      [/\bDELETE\s+FROM\b/i, 4],
+      [/\b(?:WHERE|JOIN|GROUP BY|ORDER BY)\b/, 1],
+    ],
+  },
+  {
+    language: "css",
+    patterns: [
+      [/^[ \t]*[#.][a-z][^{};()=\n]*\{[ \t]*$/im, 2],
+      [/^[ \t]*[a-z][\w, \t-]*\{[ \t]*\n[ \t]*[a-z-]+:/m, 3],
+      [/^[ \t]*[a-z-]+:[^;{}\n]+;[ \t]*$/m, 2],
+      [/@(?:media|import|keyframes|font-face)\b/, 3],
+    ],
+  },
+  {
+    language: "html",
+    patterns: [
+      [/^\s*<!DOCTYPE html/i, 5],
+      [/<\/?(?:html|head|body|div|span|p|a|ul|ol|li|table|tr|td|script|style|section|img|meta|link|form|input|button)\b[^>]*>/i, 3],
+      [/<\/[a-z][\w-]*>/i, 1],
+    ],
+  },
+  {
+    language: "xml",
+    patterns: [[/^\s*<\?xml\b/, 5]],
+  },
+  {
+    language: "java",
+    patterns: [
+      [/\bpublic\s+(?:static\s+)?(?:final\s+)?(?:class|interface|enum|void)\b/, 3],
+      [/\bSystem\.(?:out|err)\.print/, 4],
+      [/^\s*package\s+[\w.]+;/m, 3],
+      [/^\s*import\s+[\w.]+(?:\.\*)?;/m, 3],
+      [/@Override\b/, 3],
+    ],
+  },
+  {
+    language: "csharp",
+    patterns: [
+      [/^\s*using\s+System(?:\.[\w.]+)?;/m, 5],
+      [/\bnamespace\s+[\w.]+/, 2],
+      [/\bConsole\.Write(?:Line)?\(/, 4],
+      [/\{\s*get;\s*(?:set;\s*)?\}/, 4],
+    ],
+  },
+  {
+    language: "cpp",
+    base: "c",
+    patterns: [
+      [/\bstd::/, 4],
+      [/\b(?:cout|cin|endl)\b/, 3],
+      [/^\s*#include\s*<(?:iostream|vector|string|map|memory)>/m, 3],
+      [/\btemplate\s*</, 3],
+    ],
+  },
+  {
+    language: "c",
+    patterns: [
+      [/^\s*#include\s*[<"]/m, 4],
+      [/\bint\s+main\s*\(/, 3],
+      [/\bprintf\s*\(/, 2],
+      [/\b(?:malloc|sizeof)\s*\(/, 2],
+    ],
+  },
+  {
+    language: "go",
+    patterns: [
+      [/^\s*package\s+\w+\s*$/m, 3],
+      [/\bfunc\s+(?:\([^)]*\)\s*)?\w+\s*\(/, 3],
+      [/:=/, 2],
+      [/\bfmt\.\w+\(/, 4],
+    ],
+  },
+  {
+    language: "rust",
+    patterns: [
+      [/\bfn \w+(?:<[^>]*>)?\(/, 3],
+      [/\blet\s+mut\b/, 4],
+      [/\b(?:println|format|vec|panic)!\s*[([]/, 4],
+      [/^\s*use\s+\w+(?:::[\w{}, ]+)+;/m, 3],
+      [/&(?:mut\s+)?self\b/, 3],
+    ],
+  },
+  {
+    language: "php",
+    patterns: [
+      [/<\?php/, 6],
+      [/\$this->/, 4],
+      [/\$\w+\s*=[^=]/, 2],
+    ],
+  },
+  {
+    language: "ruby",
+    patterns: [
+      [/^\s*def\s+\w+[?!]?(?:\s*\([^)]*\))?\s*$/m, 3],
+      [/^\s*end\s*$/m, 2],
+      [/\bputs\s/, 3],
+      [/\bdo\s*\|[^|]*\|/, 4],
+      [/\battr_(?:reader|writer|accessor)\b/, 4],
+    ],
+  },
+  {
+    language: "yaml",
+    patterns: [
+      [/^---\s*$/m, 2],
+      [/^\s*-\s+[\w-]+:\s/m, 2],
+      [/^[\w-]+:\n[ \t]+[\w-]+:[ \t]/m, 2],
+    ],
+  },
+]
+
+/**
+ * Detect the language of a code block
+ *
+ * The language is read from `language-*` and `lang-*` classes (Prism,
+ * highlight.js, GitHub Flavored Markdown renderers), bare highlight.js language
+ * classes and `data-lang` / `data-language` attributes of the `<code>` element
+ * and the `<pre>` element, in that order. Code without such markup is classified
+ * from its content; a block marked as plain text is not.
+ *
+ * @param block - Snapshot of the `<pre>` element
+ * @returns Language name, or undefined when it is not known
+ */
+export function detectCodeLanguage(block: DOMSnapshotNode): string | undefined {
+  const code = (block.children ?? []).find(child => child.type === DOMSnapshotNodeType.ELEMENT && child.tag === "code")
+  const marked = getMarkupLanguage(code) ?? getMarkupLanguage(block)
+  if (marked !== undefined) {
+    return NO_LANGUAGE.has(marked.toLowerCase()) ? undefined : marked
+  }
+  return guessCodeLanguage(getSnapshotText(block))
+}
+
+/**
+ * Guess the language of code from its content
+ *
+ * Every language scores the features found in the code; the best score wins
+ * when it reaches a minimum, so short or ambiguous snippets stay unclassified.
+ *
+ * @param code - Source code
+ * @returns Language name, or undefined when no language is likely
+ */
+export function guessCodeLanguage(code: string): string | undefined {
+  const trimmed = code.trim()
+  if (!trimmed) {
+    return undefined
+  }
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed)
+      return "json"
+    } catch {
+      // Not JSON; classify as other code
+    }
+  }
+
+  const scores = new Map(LANGUAGE_RULES.map(rules => [
+    rules.language,
+    rules.patterns.reduce((score, [pattern, weight]) => score + (pattern.test(trimmed) ? weight : 0), 0),
+  ]))
+
+  let best: string | undefined
+  let bestScore = GUESS_THRESHOLD - 1
+  for (const rules of LANGUAGE_RULES) {
+    const own = scores.get(rules.language)!
+    const score = own > 0 && rules.base ? own + scores.get(rules.base)! : own
+    if (score > bestScore) {
+      best = rules.language
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/**
+ * Split code into highlighted tokens
+ *
+ * @param code - Source code
+ * @param language - Language name or alias; code in other languages is a single plain token
+ * @returns Tokens covering the whole code, adjacent tokens of the same kind merged
+ */
+export function tokenizeCode(code: string, language?: string): CodeToken[] {
+  const name = language?.toLowerCase()
+  const syntax = name ? LANGUAGE_SYNTAX[LANGUAGE_ALIASES[name] ?? name] : undefined
+  if (!syntax) {
+    return code ? [{ kind: "plain", text: code }] : []
+  }
+
+  const tokens: CodeToken[] = []
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last?.kind === kind) {
+      last.text += text
+    } else if (text) {
+      tokens.push({ kind, text })
+    }
+  }
+
+  if (syntax.markup) {
+    tokenizeMarkup(code, push)
+    return tokens
+  }
+
+  let index = 0
+  while (index < code.length) {
+    const rest = code.slice(index)
+    const char = code[index]!
+
+    const [open, close] = syntax.blockComment ?? []
+    if (open && rest.startsWith(open)) {
+      const end = code.indexOf(close!, index + open.length)
+      const stop = end < 0 ? code.length : end + close!.length
+      push("comment", code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    // A hash only starts a comment at the start of a word (not in $# or a#b)
+    const lineComment = syntax.lineComments?.find(marker =>
+      rest.startsWith(marker) && (marker !== "#" || index === 0 || /\s/.test(code[index - 1]!)))
+    if (lineComment) {
+      const end = code.indexOf("\n", index)
+      const stop = end < 0 ? code.length : end
+      push("comment", code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    if (syntax.quotes.includes(char)) {
+      const stop = findStringEnd(code, index)
+      push("string", code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    const previous = index > 0 ? code[index - 1]! : ""
+    const number = /^(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i.exec(rest)
+    if (number && !/[\w$]/.test(previous)) {
+      push("number", number[0])
+      index += number[0].length
+      continue
+    }
+
+    const word = /^[a-z_$][\w$]*/i.exec(rest)
+    if (word) {
+      const keyword = syntax.keywords.has(syntax.caseInsensitive ? word[0].toLowerCase() : word[0])
+      push(keyword && previous !== "." ? "keyword" : "plain", word[0])
+      index += word[0].length
+      continue
+    }
+
+    push("plain", char)
+    index++
+  }
+
+  return tokens
+}
+
+// Private helper functions
+
+/**
+ * Get the language named by the classes or data attributes of an element
+ */
+function getMarkupLanguage(node?: DOMSnapshotNode): string | undefined {
+  const attributes = node?.attributes ?? {}
+  const classes = (attributes.class ?? "").split(/\s+/).filter(Boolean)
+
+  for (const name of classes) {
+    const match = /^(?:language|lang)-([\w+#.-]+)$/.exec(name)
+    if (match) {
+      return match[1]
+    }
+  }
+
+  // highlight.js before version 10 adds the bare language name next to the hljs class
+  if (classes.includes("hljs")) {
+    const language = classes.find(name => LANGUAGE_SYNTAX[name] || LANGUAGE_ALIASES[name])
+    if (language) {
+      return language
+    }
+  }
+
+  const data = (attributes["data-lang"] ?? attributes["data-language"])?.trim()
+  return data && /^[\w+#.-]+$/.test(data) ? data : undefined
+}
+
+/**
+ * Find the end of a string literal starting at a quote, stopping at the end of the line for unterminated strings
+ */
+function findStringEnd(code: string, start: number): number {
+  const quote = code[start]!
+  let index = start + 1
+  while (index < code.length) {
+    const char = code[index]!
+    if (char === "\\") {
+      index += 2
+      continue
+    }
+    if (char === quote) {
+      return index + 1
+    }
+    if (char === "\n" && quote !== "`") {
+      return index
+    }
+    index++
+  }
+  return code.length
+}
+
+/**
+ * Tokenize HTML or XML: comments, tag names and quoted attribute values
+ */
+function tokenizeMarkup(code: string, push: (kind: CodeTokenKind, text: string) => void): void {
+  const pattern = /(<!--[\s\S]*?(?:-->|$))|(<\/?[\w:.-]+)|(\/?>)|("[^"]*"|'[^']*')/g
+  let inTag = false
+  let index = 0
+
+  for (const match of code.matchAll(pattern)) {
+    push("plain", code.slice(index, match.index))
+    const [text, comment, tagOpen, tagClose] = match
+    if (comment) {
+      push("comment", text)
+    } else if (tagOpen) {
+      inTag = true
+      push("keyword", text)
+    } else if (tagClose && inTag) {
+      inTag = false
+      push("keyword", text)
+    } else {
+      push(inTag && !tagClose ? "string" : "plain", text)
+    }
+    index = match.index + text.length
+  }
+  push("plain", code.slice(index))
+}
@@ -0,0 +1,281 @@
+/**
+ * CSS Formatting - Maps CSS property values onto WordprocessingML formatting
+ */
+
+/**
+ * Paragraph border side
+ */
+export type BorderSide = "top" | "right" | "bottom" | "left"
+
+/**
+ * Paragraph border derived from CSS border longhands
+ */
+export interface CSSBorder {
+  /** Word border type */
+  type: "single" | "dashed" | "dotted" | "double"
+  /** Width in eighths of a point */
+  size: number
+  /** Hex RGB color, or "auto" */
+  color: string
+}
+
+/**
+ * Word formatting derived from an element's CSS
+ */
+export interface CSSFormatting {
+  /** Font family */
+  font?: string
+  /** Font size in half-points */
+  size?: number
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  /** Text color as a hex RGB value */
+  color?: string
+  /** Background color as a hex RGB value */
+  background?: string
+  align?: "left" | "center" | "right" | "both"
+  /** Left indentation from margin and padding (twips) */
+  indent?: number
+  /** First line indentation, negative for a hanging indent (twips) */
+  firstLine?: number
+  borders?: Partial<Record<BorderSide, CSSBorder>>
+}
+
+/**
+ * Twips per CSS pixel (96 pixels per inch)
+ */
+const TWIPS_PER_PIXEL = 15
+
+/**
+ * Pixels per unit of the CSS lengths accepted in style attributes
+ */
+const PIXELS_PER_UNIT: Record<string, number> = {
+  px: 1,
+  pt: 4 / 3,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  em: 16,
+  rem: 16,
+}
+
+/**
+ * Fonts substituted for generic CSS font families
+ */
+const GENERIC_FONTS: Record<string, string | undefined> = {
+  "serif": "Times New Roman",
+  "sans-serif": "Arial",
+  "monospace": "Courier New",
+  "cursive": undefined,
+  "fantasy": undefined,
+  "system-ui": undefined,
+  "ui-serif": "Times New Roman",
+  "ui-sans-serif": "Arial",
+  "ui-monospace": "Courier New",
+  "-apple-system": undefined,
+  "blinkmacsystemfont": undefined,
+}
+
+/**
+ * Basic CSS color keywords
+ */
+const NAMED_COLORS: Record<string, string> = {
+  black: "000000",
+  silver: "C0C0C0",
+  gray: "808080",
+  grey: "808080",
+  white: "FFFFFF",
+  maroon: "800000",
+  red: "FF0000",
+  purple: "800080",
+  fuchsia: "FF00FF",
+  green: "008000",
+  lime: "00FF00",
+  olive: "808000",
+  yellow: "FFFF00",
+  navy: "000080",
+  blue: "0000FF",
+  teal: "008080",
+  aqua: "00FFFF",
+  orange: "FFA500",
+}
+
+const BORDER_TYPES: Record<string, CSSBorder["type"]> = {
+  solid: "single",
+  groove: "single",
+  ridge: "single",
+  inset: "single",
+  outset: "single",
+  dashed: "dashed",
+  dotted: "dotted",
+  double: "double",
+}
+
+/**
+ * Map CSS property values onto Word formatting
+ *
+ * @param style - Property values keyed by lower-case property name
+ * @returns Formatting for the properties Word can express
+ */
+export function mapCSSFormatting(style: Record<string, string>): CSSFormatting {
+  const formatting: CSSFormatting = {}
+
+  if (style["font-family"]) {
+    formatting.font = parseFontFamily(style["font-family"])
+  }
+  const fontSize = parseLength(style["font-size"])
+  if (fontSize !== undefined && fontSize > 0) {
+    formatting.size = Math.max(2, Math.round(fontSize * 1.5))
+  }
+  if (style["font-weight"]) {
+    const weight = style["font-weight"].trim().toLowerCase()
+    formatting.bold = weight === "bold" || weight === "bolder" || Number(weight) >= 600
+  }
+  if (style["font-style"]) {
+    formatting.italic = /^(?:italic|oblique)/i.test(style["font-style"].trim())
+  }
+
+  const decoration = style["text-decoration-line"]?.toLowerCase() ?? ""
+  if (decoration.includes("underline")) {
+    formatting.underline = true
+  }
+  if (decoration.includes("line-through")) {
+    formatting.strike = true
+  }
+
+  formatting.color = parseCSSColor(style.color)
+  formatting.background = parseCSSColor(style["background-color"])
+  formatting.align = parseAlignment(style["text-align"])
+
+  const indent = Math.max(0, parseLength(style["margin-left"]) ?? 0) + Math.max(0, parseLength(style["padding-left"]) ?? 0)
+  if (indent > 0) {
+    formatting.indent = Math.round(indent * TWIPS_PER_PIXEL)
+  }
+  const firstLine = parseLength(style["text-indent"])
+  if (firstLine !== undefined) {
+    formatting.firstLine = Math.round(firstLine * TWIPS_PER_PIXEL)
+  }
+
+  for (const side of ["top", "right", "bottom", "left"] as const) {
+    const border = parseBorder(style[`border-${side}-style`], style[`border-${side}-width`], style[`border-${side}-color`])
+    if (border) {
+      formatting.borders = { ...formatting.borders, [side]: border }
+    }
+  }
+
+  // Drop properties the style does not set
+  for (const key of Object.keys(formatting) as Array<keyof CSSFormatting>) {
+    if (formatting[key] === undefined) {
+      delete formatting[key]
+    }
+  }
+  return formatting
+}
+
+/**
+ * Convert a CSS color to a hex RGB value
+ *
+ * @param value - CSS color (hex, rgb(), rgba() or a basic keyword)
+ * @returns Hex RGB value, or undefined for transparent and unsupported colors
+ */
+export function parseCSSColor(value: string | undefined): string | undefined {
+  const color = value?.trim().toLowerCase()
+  if (!color) {
+    return undefined
+  }
+
+  const hex = color.match(/^#([\da-f]{3,8})$/)?.[1]
+  if (hex) {
+    if (hex.length === 3 || hex.length === 4) {
+      return hex.length === 4 && hex[3] === "0" ? undefined : hex.slice(0, 3).replace(/./g, digit => digit + digit).toUpperCase()
+    }
+    if (hex.length === 6 || hex.length === 8) {
+      return hex.length === 8 && hex.slice(6) === "00" ? undefined : hex.slice(0, 6).toUpperCase()
+    }
+    return undefined
+  }
+
+  const rgb = color.match(/^rgba?\(([^)]*)\)$/)?.[1]
+  if (rgb) {
+    const parts = rgb.split(/[\s,/]+/).filter(Boolean)
+    const alpha = parts[3] === undefined ? 1 : Number.parseFloat(parts[3]) / (parts[3].endsWith("%") ? 100 : 1)
+    if (parts.length < 3 || alpha === 0) {
+      return undefined
+    }
+    return parts.slice(0, 3)
+      .map(part => Math.max(0, Math.min(255, Math.round(Number.parseFloat(part) * (part.endsWith("%") ? 2.55 : 1)))) || 0)
+      .map(channel => channel.toString(16).padStart(2, "0"))
+      .join("")
+      .toUpperCase()
+  }
+
+  return NAMED_COLORS[color]
+}
+
+// Private helpers
+
+/**
+ * Convert a CSS length to pixels (font-relative units use the 16px default font size)
+ */
+function parseLength(value: string | undefined): number | undefined {
+  const match = value?.trim().toLowerCase().match(/^(-?(?:\d+(?:\.\d+)?|\.\d+))(px|pt|pc|in|cm|mm|em|rem|%)?$/)
+  if (!match) {
+    return undefined
+  }
+  const number = Number.parseFloat(match[1]!)
+  if (match[2] === "%") {
+    return number * 0.16
+  }
+  return match[2] ? number * PIXELS_PER_UNIT[match[2]]! : number === 0 ? 0 : undefined
+}
+
+/**
+ * Take the first family of a font list, substituting generic families
+ */
+function parseFontFamily(value: string): string | undefined {
+  const family = value.split(",")[0]?.trim().replace(/^["']|["']$/g, "")
+  if (!family) {
+    return undefined
+  }
+  const key = family.toLowerCase()
+  return key in GENERIC_FONTS ? GENERIC_FONTS[key] : family
+}
+
+function parseAlignment(value: string | undefined): CSSFormatting["align"] {
+  switch (value?.trim().toLowerCase()) {
+    case "left":
+    case "start":
+      return "left"
+    case "center":
+      return "center"
+    case "right":
+    case "end":
+      return "right"
+    case "justify":
+      return "both"
+    default:
+      return undefined
+  }
+}
+
+function parseBorder(style: string | undefined, width: string | undefined, color: string | undefined): CSSBorder | undefined {
+  const type = style ? BORDER_TYPES[style.trim().toLowerCase()] : undefined
+  if (!type) {
+    return undefined
+  }
+
+  const keywords: Record<string, number> = { thin: 1, medium: 3, thick: 5 }
+  const pixels = width ? keywords[width.trim().toLowerCase()] ?? parseLength(width) : 3
+  if (!pixels || pixels <= 0) {
+    return undefined
+  }
+
+  return {
+    type,
+    size: Math.max(2, Math.min(96, Math.round(pixels * 6))),
+    color: parseCSSColor(color) ?? "auto",
+  }
+}
@@ -0,0 +1,532 @@
+/**
+ * DOCX Converter Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+
+import { JSDOM } from "jsdom"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createMockLogger, createTestDocument, PNG_DATA_URI, unzip } from "../../../tests/utils/converter-fixtures.js"
+
+import { DOCX_MIME_TYPE, DOCXConverter } from "./docx-converter.js"
+import type { DOCXConversionOptions } from "./types.js"
+
+const mockLogger = createMockLogger()
+
+const MONOSPACE = "<w:rPr><w:rFonts w:ascii=\"Courier New\" w:hAnsi=\"Courier New\" w:cs=\"Courier New\"/></w:rPr>"
+
+describe("dOCXConverter", () => {
+  let converter: DOCXConverter
+
+  const toPackage = async (body: string, options: DOCXConversionOptions = {}): Promise<Map<string, Buffer>> => {
+    const result = await converter.convert(createTestDocument(body), { format: "docx", options })
+    return new Map(Array.from(unzip(Buffer.from(result.content, "base64")), ([name, entry]) => [name, entry.data]))
+  }
+
+  const toDocumentXML = async (body: string, options: DOCXConversionOptions = {}): Promise<string> =>
+    (await toPackage(body, options)).get("word/document.xml")!.toString("utf8")
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    converter = new DOCXConverter(mockLogger)
+  })
+
+  describe("strategy interface", () => {
+    it("should expose docx strategy information", () => {
+      expect(converter.getName()).toBe("docx")
+      expect(converter.getOutputFormat()).toBe(DOCX_MIME_TYPE)
+      expect(converter.canHandle("text/html")).toBe(true)
+      expect(converter.canHandle("application/pdf")).toBe(false)
+    })
+
+    it("should return a base64 encoded docx result", async () => {
+      const result = await converter.convert(createTestDocument("<p>Hello</p>"))
+
+      expect(result.mimeType).toBe(DOCX_MIME_TYPE)
+      expect(result.metadata.targetFormat).toBe("docx")
+      expect(result.metadata.encoding).toBe("base64")
+      expect(result.metadata.title).toBe("Test Page")
+      expect(result.metadata.tier).toBe(4)
+      expect(Buffer.from(result.content, "base64").subarray(0, 4).toString("latin1")).toBe("PK\x03\x04")
+    })
+
+    it("should reject documents without a DOM when Chrome is unavailable", async () => {
+      const shim = { URL: "about:blank", documentElement: { outerHTML: "<p>x</p>" } } as unknown as HTMLDocument
+
+      await expect(converter.convert(shim)).rejects.toThrow("DOCX conversion requires a parsed DOM document")
+    })
+  })
+
+  describe("package structure", () => {
+    it("should contain the WordprocessingML parts", async () => {
+      const files = await toPackage("<p>Hello</p>")
+
+      expect(Array.from(files.keys())).toEqual(expect.arrayContaining([
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "docProps/core.xml",
+        "docProps/app.xml",
+        "word/document.xml",
+        "word/_rels/document.xml.rels",
+        "word/styles.xml",
+        "word/numbering.xml",
+        "word/settings.xml",
+      ]))
+      expect(files.get("docProps/core.xml")!.toString()).toContain("<dc:title>Test Page</dc:title>")
+    })
+
+    it("should produce well-formed XML parts", async () => {
+      const files = await toPackage(`
+        <h1 id="top">Title &amp; "quotes"</h1>
+        <ul><li>One</li></ul>
+        <table><tr><td>Cell</td></tr></table>
+        <p><a href="https://example.com/?a=1&b=2">Link</a> <img src="${PNG_DATA_URI}" alt="<pixel>"></p>
+      `)
+      const parser = new new JSDOM("").window.DOMParser()
+
+      for (const [name, data] of files) {
+        if (name.endsWith(".xml") || name.endsWith(".rels")) {
+          const parsed = parser.parseFromString(data.toString("utf8"), "application/xml")
+          expect(parsed.getElementsByTagName("parsererror"), name).toHaveLength(0)
+        }
+      }
+    })
+
+    it("should apply the page layout and typography configuration", async () => {
+      converter = new DOCXConverter(mockLogger, { fontFamily: "Georgia", fontSize: 11, lineSpacing: 1.5, paragraphSpacing: 10 })
+      const files = await toPackage("<p>Text</p>", { pageSize: "Letter", orientation: "landscape", margins: 0.5 })
+
+      const documentXML = files.get("word/document.xml")!.toString()
+      expect(documentXML).toContain("<w:pgSz w:w=\"15840\" w:h=\"12240\" w:orient=\"landscape\"/>")
+      expect(documentXML).toContain("w:top=\"720\" w:right=\"720\" w:bottom=\"720\" w:left=\"720\"")
+
+      const stylesXML = files.get("word/styles.xml")!.toString()
+      expect(stylesXML).toContain("w:ascii=\"Georgia\"")
+      expect(stylesXML).toContain("<w:sz w:val=\"22\"/>")
+      expect(stylesXML).toContain("<w:spacing w:after=\"200\" w:line=\"360\" w:lineRule=\"auto\"/>")
+    })
+
+    it("should accept margins given as CSS lengths", async () => {
+      const documentXML = await toDocumentXML("<p>Text</p>", { margins: { top: "20px", left: "2.54cm" } })
+
+      expect(documentXML).toContain("w:top=\"300\" w:right=\"1440\" w:bottom=\"1440\" w:left=\"1440\"")
+    })
+  })
+
+  describe("document content", () => {
+    it("should map headings to Word heading styles", async () => {
+      const documentXML = await toDocumentXML("<h1>Title</h1><h3>Detail</h3>")
+
+      expect(documentXML).toContain("<w:p><w:pPr><w:pStyle w:val=\"Heading1\"/></w:pPr><w:r><w:t xml:space=\"preserve\">Title</w:t></w:r></w:p>")
+      expect(documentXML).toContain("<w:pStyle w:val=\"Heading3\"/>")
+    })
+
+    it("should convert inline formatting and collapse whitespace", async () => {
+      const documentXML = await toDocumentXML("<p>  Some\n <strong>bold</strong>, <em>italic</em> and <code>code</code>.<br>Next </p>")
+
+      expect(documentXML).toContain("<w:t xml:space=\"preserve\">Some </w:t>")
+      expect(documentXML).toContain("<w:r><w:rPr><w:b/><w:bCs/></w:rPr><w:t xml:space=\"preserve\">bold</w:t></w:r>")
+      expect(documentXML).toContain("<w:r><w:rPr><w:i/><w:iCs/></w:rPr><w:t xml:space=\"preserve\">italic</w:t></w:r>")
+      expect(documentXML).toContain("<w:rFonts w:ascii=\"Courier New\"")
+      expect(documentXML).toContain("<w:t xml:space=\"preserve\">.</w:t></w:r><w:r><w:br/></w:r><w:r><w:t xml:space=\"preserve\">Next</w:t>")
+    })
+
+    it("should keep line breaks in preformatted code", async () => {
+      const documentXML = await toDocumentXML("<pre><code>const a = 1\n  return a\n</code></pre>")
+
+      expect(documentXML).toContain("<w:pStyle w:val=\"SourceCode\"/>")
+      expect(documentXML).toContain(`<w:t xml:space="preserve">const a = 1</w:t></w:r><w:r><w:br/></w:r><w:r>${MONOSPACE}<w:t xml:space="preserve">  return a</w:t>`)
+    })
+
+    it("should color the tokens of code in a known language", async () => {
+      const documentXML = await toDocumentXML("<pre><code class=\"language-js\">let s = \"hi\" // greet\nreturn 42</code></pre>")
+      const run = (color: string, text: string) =>
+        `<w:r><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:color w:val="${color}"/></w:rPr><w:t xml:space="preserve">${text}</w:t></w:r>`
+
+      expect(documentXML).toContain(run("0000FF", "let"))
+      expect(documentXML).toContain(`${MONOSPACE}<w:t xml:space="preserve"> s = </w:t></w:r>${run("A31515", "&quot;hi&quot;")}`)
+      expect(documentXML).toContain(`${run("008000", "// greet")}<w:r><w:br/></w:r>${run("0000FF", "return")}`)
+      expect(documentXML).toContain(run("098658", "42"))
+    })
+
+    it("should convert bulleted, numbered and nested lists to Word numbering", async () => {
+      const files = await toPackage("<ul><li>One<ul><li>Nested</li></ul></li></ul><ol start=\"3\"><li><p>Three</p></li></ol>")
+      const documentXML = files.get("word/document.xml")!.toString()
+      const numberingXML = files.get("word/numbering.xml")!.toString()
+
+      expect(documentXML).toContain("<w:numPr><w:ilvl w:val=\"0\"/><w:numId w:val=\"1\"/></w:numPr>")
+      expect(documentXML).toContain("<w:numPr><w:ilvl w:val=\"1\"/><w:numId w:val=\"2\"/></w:numPr>")
+      expect(documentXML).toContain("<w:numPr><w:ilvl w:val=\"0\"/><w:numId w:val=\"3\"/></w:numPr>")
+      expect(documentXML.match(/<w:p>/g)).toHaveLength(3)
+      expect(numberingXML).toContain("<w:num w:numId=\"1\"><w:abstractNumId w:val=\"0\"/>")
+      expect(numberingXML).toContain("<w:num w:numId=\"3\"><w:abstractNumId w:val=\"1\"/><w:lvlOverride w:ilvl=\"0\"><w:startOverride w:val=\"3\"/>")
+    })
+
+    it("should use text markers when lists are not converted", async () => {
+      const documentXML = await toDocumentXML("<ol><li>First</li><li>Second</li></ol>", { convertLists: false })
+
+      expect(documentXML).not.toContain("<w:numPr>")
+      expect(documentXML).toContain("<w:t xml:space=\"preserve\">1. </w:t>")
+      expect(documentXML).toContain("<w:t xml:space=\"preserve\">2. </w:t>")
+    })
+
+    it("should convert tables with header rows and column spans", async () => {
+      const documentXML = await toDocumentXML(`<table>
+        <thead><tr><th>Name</th><th>Size</th></tr></thead>
+        <tbody><tr><td>a</td><td align="right">1</td></tr><tr><td colspan="2">wide</td></tr></tbody>
+      </table>`)
+
+      expect(documentXML).toContain("<w:tblStyle w:val=\"TableGrid\"/>")
+      expect(documentXML.match(/<w:gridCol /g)).toHaveLength(2)
+      expect(documentXML).toContain("<w:trPr><w:tblHeader/></w:trPr>")
+      expect(documentXML).toContain("<w:gridSpan w:val=\"2\"/>")
+      expect(documentXML).toContain("<w:jc w:val=\"right\"/>")
+      expect(documentXML).toContain("<w:rPr><w:b/><w:bCs/></w:rPr><w:t xml:space=\"preserve\">Name</w:t>")
+    })
+
+    it("should render tables as tab separated paragraphs when tables are not converted", async () => {
+      const documentXML = await toDocumentXML("<table><tr><td>a</td><td>b</td></tr></table>", { includeTables: false })
+
+      expect(documentXML).not.toContain("<w:tbl>")
+      expect(documentXML).toContain("<w:t xml:space=\"preserve\">a</w:t></w:r><w:r><w:tab/></w:r><w:r><w:t xml:space=\"preserve\">b</w:t>")
+    })
+
+    it("should convert hyperlinks to external relationships and bookmarks", async () => {
+      const files = await toPackage("<h2 id=\"intro\">Intro</h2><p><a href=\"../guide.html\">the guide</a> and <a href=\"#intro\">back</a></p>")
+      const documentXML = files.get("word/document.xml")!.toString()
+      const relationshipsXML = files.get("word/_rels/document.xml.rels")!.toString()
+
+      expect(relationshipsXML).toContain("Id=\"rIdLink1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink\" Target=\"https://example.com/guide.html\" TargetMode=\"External\"")
+      expect(documentXML).toContain("<w:hyperlink r:id=\"rIdLink1\" w:history=\"1\"><w:r><w:rPr><w:rStyle w:val=\"Hyperlink\"/></w:rPr><w:t xml:space=\"preserve\">the guide</w:t></w:r></w:hyperlink>")
+      expect(documentXML).toContain("<w:bookmarkStart w:id=\"0\" w:name=\"intro\"/><w:bookmarkEnd w:id=\"0\"/>")
+      expect(documentXML).toContain("<w:hyperlink w:anchor=\"intro\" w:history=\"1\">")
+    })
+
+    it("should keep link text only when links are not preserved", async () => {
+      const documentXML = await toDocumentXML("<p><a href=\"/a\">A</a></p>", { preserveLinks: false })
+
+      expect(documentXML).not.toContain("<w:hyperlink")
+      expect(documentXML).toContain("<w:t xml:space=\"preserve\">A</w:t>")
+    })
+
+    it("should embed images as inline pictures", async () => {
+      const files = await toPackage(`<p><img src="${PNG_DATA_URI}" width="96" alt="Pixel"><img src="${PNG_DATA_URI}"></p>`)
+      const documentXML = files.get("word/document.xml")!.toString()
+
+      expect(files.get("word/media/image1.png")!.subarray(1, 4).toString("latin1")).toBe("PNG")
+      expect(files.has("word/media/image2.png")).toBe(false)
+      expect(files.get("[Content_Types].xml")!.toString()).toContain("<Default Extension=\"png\" ContentType=\"image/png\"/>")
+      expect(files.get("word/_rels/document.xml.rels")!.toString()).toContain("Id=\"rIdImage1\"")
+      expect(documentXML).toContain("<wp:extent cx=\"914400\" cy=\"914400\"/>")
+      expect(documentXML).toContain("descr=\"Pixel\"")
+      expect(documentXML.match(/<a:blip r:embed="rIdImage1"\/>/g)).toHaveLength(2)
+    })
+
+    it("should fall back to alt text for images that cannot be loaded", async () => {
+      const documentXML = await toDocumentXML("<p><img src=\"data:image/png;base64,AAAA\" alt=\"Broken\"></p>")
+
+      expect(documentXML).not.toContain("<w:drawing>")
+      expect(documentXML).toContain("<w:t xml:space=\"preserve\">Broken</w:t>")
+      expect(mockLogger.warn).toHaveBeenCalledWith("Skipping image in unsupported format", expect.any(Object))
+    })
+
+    it("should leave images out when images are not embedded", async () => {
+      const files = await toPackage(`<p>Text<img src="${PNG_DATA_URI}" alt="Pixel"></p>`, { includeImages: false })
+
+      expect(Array.from(files.keys()).some(name => name.startsWith("word/media/"))).toBe(false)
+      expect(files.get("word/document.xml")!.toString()).not.toContain("Pixel")
+    })
+  })
+
+  describe("preserved styles", () => {
+    it("should map inline styles onto paragraph and run formatting", async () => {
+      const documentXML = await toDocumentXML(
+        "<p style=\"text-align: center; color: #c00; font-family: 'Georgia', serif; font-size: 18px; text-indent: 2em\">"
+        + "Styled <span style=\"background: yellow; font-weight: bold\">mark</span></p>"
+        + "<div style=\"margin-left: 40px; border-left: 2px solid rgb(0, 0, 255)\">Boxed</div>",
+      )
+
+      expect(documentXML).toContain("<w:ind w:firstLine=\"480\"/><w:jc w:val=\"center\"/>")
+      expect(documentXML).toContain("<w:rPr><w:rFonts w:ascii=\"Georgia\" w:hAnsi=\"Georgia\" w:cs=\"Georgia\"/><w:color w:val=\"CC0000\"/><w:sz w:val=\"27\"/><w:szCs w:val=\"27\"/></w:rPr><w:t xml:space=\"preserve\">Styled </w:t>")
+      expect(documentXML).toMatch(/<w:b\/><w:bCs\/><w:color w:val="CC0000"\/><w:sz w:val="27"\/><w:szCs w:val="27"\/><w:shd w:val="clear" w:color="auto" w:fill="FFFF00"\/><\/w:rPr><w:t xml:space="preserve">mark/)
+      expect(documentXML).toContain("<w:pBdr><w:left w:val=\"single\" w:sz=\"12\" w:space=\"4\" w:color=\"0000FF\"/></w:pBdr><w:ind w:left=\"600\"/>")
+    })
+
+    it("should define repeated formatting once as named styles", async () => {
+      const files = await toPackage(
+        "<p style=\"background-color: #eee\">One <em style=\"color: green\">a</em></p>"
+        + "<p style=\"background-color: #eee\">Two <em style=\"color: green\">b</em></p>"
+        + "<p style=\"background-color: #ddd\">Three</p>",
+      )
+      const documentXML = files.get("word/document.xml")!.toString()
+      const stylesXML = files.get("word/styles.xml")!.toString()
+
+      expect(stylesXML).toContain("<w:style w:type=\"paragraph\" w:customStyle=\"1\" w:styleId=\"CSSParagraph1\"><w:name w:val=\"CSS Paragraph 1\"/><w:basedOn w:val=\"Normal\"/><w:pPr><w:shd w:val=\"clear\" w:color=\"auto\" w:fill=\"EEEEEE\"/></w:pPr></w:style>")
+      expect(stylesXML).toContain("<w:style w:type=\"character\" w:customStyle=\"1\" w:styleId=\"CSSCharacter1\"><w:name w:val=\"CSS Character 1\"/><w:basedOn w:val=\"DefaultParagraphFont\"/><w:rPr><w:color w:val=\"008000\"/></w:rPr></w:style>")
+      expect(stylesXML).not.toContain("CSSParagraph2")
+      expect(documentXML.match(/<w:pStyle w:val="CSSParagraph1"\/>/g)).toHaveLength(2)
+      expect(documentXML.match(/<w:rStyle w:val="CSSCharacter1"\/><w:i\/>/g)).toHaveLength(2)
+      expect(documentXML).toContain("<w:pPr><w:shd w:val=\"clear\" w:color=\"auto\" w:fill=\"DDDDDD\"/></w:pPr>")
+    })
+
+    it("should ignore styles when preserveStyle is disabled", async () => {
+      const files = await toPackage("<p style=\"color: red; text-align: right\">Plain</p><p style=\"color: red\">Plain</p>", { preserveStyle: false })
+
+      expect(files.get("word/document.xml")!.toString()).toContain("<w:p><w:r><w:t xml:space=\"preserve\">Plain</w:t></w:r></w:p>")
+      expect(files.get("word/styles.xml")!.toString()).not.toContain("w:customStyle")
+    })
+
+    it("should use the computed styles recorded in the rendered page", async () => {
+      const computed = (style: Record<string, string>) => ({ "data-computed-style": JSON.stringify(style), "style": "color: red" })
+      const processor = {
+        setRequestHeaders: vi.fn(),
+        navigate: vi.fn(),
+        setContent: vi.fn(),
+        waitForLoad: vi.fn(),
+        evaluate: vi.fn(),
+        captureDOMSnapshot: vi.fn().mockResolvedValue({
+          type: 1,
+          tag: "html",
+          attributes: {},
+          children: [{ type: 1, tag: "body", attributes: {}, children: [
+            { type: 1, tag: "h2", attributes: computed({ "font-weight": "400", "border-bottom-style": "dashed", "border-bottom-width": "1px", "border-bottom-color": "rgb(128, 128, 128)" }), children: [{ type: 3, text: "Title" }] },
+            { type: 1, tag: "p", attributes: computed({ "font-style": "italic", "text-align": "justify" }), children: [{ type: 3, text: "Body" }] },
+          ] }],
+        }),
+      }
+      converter = new DOCXConverter(mockLogger, {}, { getMHTMLProcessor: vi.fn().mockResolvedValue(processor) } as any)
+
+      const documentXML = await toDocumentXML("<p>ignored</p>")
+
+      expect(processor.evaluate).toHaveBeenCalledWith(expect.stringContaining("getComputedStyle"))
+      expect(documentXML).toContain("<w:pStyle w:val=\"Heading2\"/><w:pBdr><w:bottom w:val=\"dashed\" w:sz=\"6\" w:space=\"4\" w:color=\"808080\"/></w:pBdr>")
+      expect(documentXML).toContain("<w:rPr><w:b w:val=\"0\"/><w:bCs w:val=\"0\"/></w:rPr><w:t xml:space=\"preserve\">Title</w:t>")
+      expect(documentXML).toContain("<w:jc w:val=\"both\"/></w:pPr><w:r><w:rPr><w:i/><w:iCs/></w:rPr><w:t xml:space=\"preserve\">Body</w:t>")
+      expect(documentXML).not.toContain("FF0000")
+    })
+  })
+
+  describe("headers and footers", () => {
+    const PAGE_FIELD = "<w:fldSimple w:instr=\" PAGE \"><w:r><w:t>1</w:t></w:r></w:fldSimple>"
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: new Date("2026-03-02T10:00:00Z"), toFake: ["Date"] })
+      return () => vi.useRealTimers()
+    })
+
+    it("should add a header part with placeholders and page number fields", async () => {
+      const files = await toPackage("<p>Body</p>", { header: "{title}\t{date}\tPage {page} of {pages}" })
+      const header = files.get("word/header1.xml")!.toString()
+
+      expect(header).toContain("<w:hdr ")
+      expect(header).toContain("<w:pPr><w:pStyle w:val=\"Header\"/></w:pPr><w:r><w:t xml:space=\"preserve\">Test Page</w:t></w:r><w:r><w:tab/></w:r>")
+      expect(header).toContain("<w:t xml:space=\"preserve\">2026-03-02</w:t>")
+      expect(header).toContain(`<w:t xml:space="preserve">Page </w:t></w:r>${PAGE_FIELD}<w:r><w:t xml:space="preserve"> of </w:t></w:r>`)
+      expect(header).toContain("<w:fldSimple w:instr=\" NUMPAGES \">")
+      expect(files.get("[Content_Types].xml")!.toString()).toContain("<Override PartName=\"/word/header1.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml\"/>")
+      expect(files.get("word/_rels/document.xml.rels")!.toString()).toContain("<Relationship Id=\"rIdHeader1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/header\" Target=\"header1.xml\"/>")
+      expect(files.get("word/document.xml")!.toString()).toContain("<w:sectPr><w:headerReference w:type=\"default\" r:id=\"rIdHeader1\"/><w:pgSz")
+      expect(files.has("word/footer1.xml")).toBe(false)
+    })
+
+    it("should keep alignment and emphasis of HTML templates", async () => {
+      const files = await toPackage("<p>Body</p>", {
+        footer: "<div style=\"text-align: right; font-size: 8pt\"><b>{url}</b> &amp; <span class=\"pageNumber\">{page}</span></div><p>Second<br>line</p>",
+      })
+      const footer = files.get("word/footer1.xml")!.toString()
+
+      expect(footer).toContain("<w:p><w:pPr><w:pStyle w:val=\"Footer\"/><w:jc w:val=\"right\"/></w:pPr><w:r><w:rPr><w:b/><w:bCs/><w:sz w:val=\"16\"/><w:szCs w:val=\"16\"/></w:rPr><w:t xml:space=\"preserve\">https://example.com/docs/page.html</w:t></w:r>")
+      expect(footer).toContain("<w:t xml:space=\"preserve\"> &amp; </w:t></w:r><w:fldSimple w:instr=\" PAGE \">")
+      expect(footer).toContain("<w:p><w:pPr><w:pStyle w:val=\"Footer\"/></w:pPr><w:r><w:t xml:space=\"preserve\">Second</w:t></w:r><w:r><w:br/></w:r><w:r><w:t xml:space=\"preserve\">line</w:t></w:r></w:p>")
+      expect(files.get("word/document.xml")!.toString()).toContain("<w:footerReference w:type=\"default\" r:id=\"rIdFooter1\"/>")
+    })
+
+    it("should add first and even page variants from the configuration", async () => {
+      converter = new DOCXConverter(mockLogger, {
+        header: { default: "Odd {page}", even: "Even {page}" },
+        footer: { default: "{title}", first: "" },
+      })
+      const files = await toPackage("<p>Body</p>", { footer: { default: "Footer" } })
+      const documentXML = files.get("word/document.xml")!.toString()
+
+      expect(documentXML).toContain("<w:headerReference w:type=\"default\" r:id=\"rIdHeader1\"/><w:headerReference w:type=\"first\" r:id=\"rIdHeader2\"/>"
+        + "<w:headerReference w:type=\"even\" r:id=\"rIdHeader3\"/><w:footerReference w:type=\"default\" r:id=\"rIdFooter1\"/>"
+        + "<w:footerReference w:type=\"first\" r:id=\"rIdFooter2\"/><w:footerReference w:type=\"even\" r:id=\"rIdFooter3\"/>")
+      expect(documentXML).toContain("<w:titlePg/></w:sectPr>")
+      expect(files.get("word/settings.xml")!.toString()).toContain("<w:evenAndOddHeaders/>")
+      expect(files.get("word/header2.xml")!.toString()).toContain(">Odd <")
+      expect(files.get("word/header3.xml")!.toString()).toContain(">Even <")
+      expect(files.get("word/footer1.xml")!.toString()).toContain(">Footer<")
+      expect(files.get("word/footer2.xml")!.toString()).toContain("<w:p><w:pPr><w:pStyle w:val=\"Footer\"/></w:pPr></w:p></w:ftr>")
+      expect(files.get("word/styles.xml")!.toString()).toContain("<w:style w:type=\"paragraph\" w:styleId=\"Footer\">")
+    })
+
+    it("should leave headers and footers out by default", async () => {
+      const files = await toPackage("<p>Body</p>")
+
+      expect(Array.from(files.keys()).filter(name => /header|footer/.test(name))).toEqual([])
+      expect(files.get("word/document.xml")!.toString()).not.toContain("Reference")
+      expect(files.get("word/settings.xml")!.toString()).not.toContain("evenAndOddHeaders")
+    })
+  })
+
+  describe("complex tables", () => {
+    const cells = (xml: string) => xml.match(/<w:tc>.*?<\/w:tc>/g) ?? []
+
+    it("should merge cells spanning rows and columns", async () => {
+      const documentXML = await toDocumentXML(`<table>
+        <tr><td rowspan="2">A</td><td colspan="2">B</td></tr>
+        <tr><td>C</td><td>D</td></tr>
+        <tr><td>E</td><td>F</td><td>G</td></tr>
+      </table>`)
+      const rows = documentXML.match(/<w:tr>.*?<\/w:tr>/g)!
+
+      expect(documentXML.match(/<w:gridCol /g)).toHaveLength(3)
+      expect(cells(rows[0]!)[0]).toContain("<w:vMerge w:val=\"restart\"/>")
+      expect(cells(rows[0]!)[1]).toContain("<w:gridSpan w:val=\"2\"/>")
+      expect(cells(rows[1]!)).toHaveLength(3)
+      expect(cells(rows[1]!)[0]).toContain("<w:vMerge/>")
+      expect(cells(rows[1]!)[1]).toContain(">C<")
+      expect(rows[2]).not.toContain("vMerge")
+    })
+
+    it("should repeat table head rows and place the foot last", async () => {
+      const documentXML = await toDocumentXML(`<table>
+        <tfoot><tr><td>Total</td></tr></tfoot>
+        <thead><tr><td>Head 1</td></tr><tr><td>Head 2</td></tr></thead>
+        <tbody><tr><th>Body</th></tr></tbody>
+      </table>`)
+      const rows = documentXML.match(/<w:tr>.*?<\/w:tr>/g)!
+
+      expect(rows.map(row => row.match(/>([^<>]+)<\/w:t>/)![1])).toEqual(["Head 1", "Head 2", "Body", "Total"])
+      expect(rows.map(row => row.includes("<w:tblHeader/>"))).toEqual([true, true, false, false])
+    })
+
+    it("should size columns from declared widths", async () => {
+      const documentXML = await toDocumentXML(`<table>
+        <colgroup><col width="25%"><col></colgroup>
+        <tr><td>a</td><td>b</td><td style="width: 60px">c</td></tr>
+      </table>`)
+
+      // A4 with 1 inch margins leaves 9026 twips
+      expect(documentXML).toContain("<w:tblLayout w:type=\"fixed\"/>")
+      expect(documentXML).toContain("<w:tblGrid><w:gridCol w:w=\"2256\"/><w:gridCol w:w=\"5869\"/><w:gridCol w:w=\"900\"/></w:tblGrid>")
+    })
+
+    it("should size columns from the widths rendered in Chrome", async () => {
+      const cell = (width: string, text: string) => ({ type: 1, tag: "td", attributes: { "data-layout-width": width }, children: [{ type: 3, text }] })
+      const processor = {
+        setRequestHeaders: vi.fn(),
+        navigate: vi.fn(),
+        setContent: vi.fn(),
+        waitForLoad: vi.fn(),
+        evaluate: vi.fn(),
+        captureDOMSnapshot: vi.fn().mockResolvedValue({
+          type: 1,
+          tag: "html",
+          attributes: {},
+          children: [{ type: 1, tag: "body", attributes: {}, children: [{
+            type: 1,
+            tag: "table",
+            attributes: { "data-layout-width": "400", "data-layout-container-width": "800" },
+            children: [{ type: 1, tag: "tr", attributes: {}, children: [cell("100", "a"), cell("300", "b")] }],
+          }] }],
+        }),
+      }
+      converter = new DOCXConverter(mockLogger, {}, { getMHTMLProcessor: vi.fn().mockResolvedValue(processor) } as any)
+
+      const documentXML = await toDocumentXML("<p>ignored</p>")
+
+      expect(processor.evaluate).toHaveBeenCalledWith(expect.stringContaining("data-layout-width"))
+      expect(documentXML).toContain("<w:tblW w:w=\"4512\" w:type=\"dxa\"/>")
+      expect(documentXML).toContain("<w:tblGrid><w:gridCol w:w=\"1128\"/><w:gridCol w:w=\"3384\"/></w:tblGrid>")
+    })
+
+    it("should map cell borders and backgrounds when styles are preserved", async () => {
+      const body = `<table>
+        <tr bgcolor="#eeeeee"><td style="border: 1px solid #000000">a</td><td style="background-color: yellow">b</td></tr>
+      </table>`
+      const documentXML = await toDocumentXML(body, { preserveStyle: true })
+      const [first, second] = cells(documentXML)
+
+      expect(first).toContain("<w:tcBorders><w:top w:val=\"single\" w:sz=\"6\" w:space=\"0\" w:color=\"000000\"/>")
+      expect(first).toContain("<w:shd w:val=\"clear\" w:color=\"auto\" w:fill=\"EEEEEE\"/></w:tcPr>")
+      expect(second).toContain("<w:shd w:val=\"clear\" w:color=\"auto\" w:fill=\"FFFF00\"/></w:tcPr>")
+      expect(second).not.toContain("<w:pPr><w:shd")
+      expect(await toDocumentXML(body, { preserveStyle: false })).not.toContain("<w:shd")
+    })
+
+    it("should report tables that cannot be represented faithfully", async () => {
+      const result = await converter.convert(createTestDocument(`<table>
+        <tr><td>a</td><td rowspan="2">b</td></tr>
+        <tr><td colspan="2">c</td></tr>
+      </table><table><tr>${"<td>x</td>".repeat(70)}</tr></table>`), { format: "docx" })
+      const documentXML = unzip(Buffer.from(result.content, "base64")).get("word/document.xml")!.data.toString()
+
+      expect(result.metadata.warnings).toEqual([
+        "Table 1 has overlapping cells; cells overlapping a cell that spans rows were narrowed",
+        "Table 2 has more than 63 columns, the most Word supports; cells beyond them were left out",
+      ])
+      expect(mockLogger.warn).toHaveBeenCalledTimes(2)
+      expect(documentXML.match(/<w:gridCol /g)).toHaveLength(65)
+    })
+  })
+
+  describe("auto-page layout", () => {
+    const PAGE_BREAK = "<w:p><w:r><w:br w:type=\"page\"/></w:r></w:p>"
+
+    it("should turn marker rules and comments into page breaks", async () => {
+      const input = createTestDocument("<p>One</p><hr class=\"page-break\"><p>Two</p><!-- pagebreak --><p>Three</p><hr>")
+      const result = await converter.convert(input, { format: "docx", options: { layout: "auto-page" } })
+      const documentXML = unzip(Buffer.from(result.content, "base64")).get("word/document.xml")!.data.toString()
+
+      expect(documentXML.split(PAGE_BREAK)).toHaveLength(3)
+      expect(documentXML.indexOf(PAGE_BREAK)).toBeGreaterThan(documentXML.indexOf(">One<"))
+      expect(documentXML.lastIndexOf(PAGE_BREAK)).toBeLessThan(documentXML.indexOf(">Three<"))
+      expect(documentXML.match(/<w:pBdr>/g)).toHaveLength(1)
+      expect(result.metadata.pageLayout).toBe("auto-page")
+      expect(input.body.innerHTML).toContain("<!-- pagebreak -->")
+    })
+
+    it("should break before elements matching the configured selector", async () => {
+      converter = new DOCXConverter(mockLogger, { layout: "auto-page", pageBreaks: { selector: "section.chapter", hr: true, comment: false } })
+      const documentXML = await toDocumentXML("<section class=\"chapter\"><h1>A</h1></section><!-- pagebreak --><section class=\"chapter\"><h1>B</h1></section>")
+
+      expect(documentXML.split(PAGE_BREAK)).toHaveLength(3)
+      expect(documentXML).toMatch(/<w:br w:type="page"\/><\/w:r><\/w:p><w:p><w:pPr><w:pStyle w:val="Heading1"\/><\/w:pPr><w:r><w:t xml:space="preserve">B</)
+    })
+
+    it("should ignore markers in the standard layout", async () => {
+      const documentXML = await toDocumentXML("<p>One</p><hr class=\"page-break\"><!-- pagebreak --><p>Two</p>")
+
+      expect(documentXML).not.toContain("w:type=\"page\"")
+    })
+
+    it("should apply markers in the rendered page before capturing the DOM", async () => {
+      const processor = {
+        setRequestHeaders: vi.fn(),
+        navigate: vi.fn(),
+        setContent: vi.fn(),
+        waitForLoad: vi.fn(),
+        evaluate: vi.fn(),
+        captureDOMSnapshot: vi.fn().mockResolvedValue({
+          type: 1,
+          tag: "html",
+          attributes: {},
+          children: [{ type: 1, tag: "body", attributes: {}, children: [
+            { type: 1, tag: "p", attributes: {}, children: [{ type: 3, text: "One" }] },
+            { type: 1, tag: "div", attributes: { "data-page-break": "" }, children: [] },
+            { type: 1, tag: "p", attributes: {}, children: [{ type: 3, text: "Two" }] },
+          ] }],
+        }),
+      }
+      converter = new DOCXConverter(mockLogger, {}, { getMHTMLProcessor: vi.fn().mockResolvedValue(processor) } as any)
+
+      const documentXML = await toDocumentXML("<p>ignored</p>", { layout: "auto-page", pageBreaks: { selector: ".chapter" } })
+
+      expect(processor.evaluate).toHaveBeenCalledWith(expect.stringContaining(JSON.stringify("hr.page-break, .chapter")))
+      expect(documentXML.split(PAGE_BREAK)).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,264 @@
+/**
+ * DOCX Converter - Converts HTML documents to Word documents
+ * Builds a WordprocessingML package from the rendered DOM
+ */
+
+import type { ConversionRequest, ConversionResult, Logger } from "../../architecture/strategies/types.js"
+import { DEFAULT_DOCX_CONFIG } from "../../config/defaults.js"
+import type { DOCXConfig, DOCXHeaderFooterConfig } from "../../config/schema.js"
+import type { ChromeCDPManager } from "../../core/engine/chrome-cdp-manager.js"
+import { RenderedDOMConverter } from "../rendered-dom-converter.js"
+import { describeResource, getResourceOrigin, loadResource, RESOURCE_LOAD_TIMEOUT } from "../resource-loader.js"
+import type { ResourceOrigin } from "../resource-loader.js"
+
+import { buildDOCXPackage } from "./docx-package.js"
+import { DOCXRenderer } from "./docx-renderer.js"
+import { readImageInfo } from "./image-info.js"
+import type { DOCXConversionOptions, DOCXImage, DOCXMarginValue, DOCXRenderOptions } from "./types.js"
+
+/**
+ * MIME type of Word documents
+ */
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+
+/**
+ * CSS length units expressed in inches
+ */
+const INCHES_PER_UNIT: Record<string, number> = {
+  in: 1,
+  cm: 1 / 2.54,
+  mm: 1 / 25.4,
+  pt: 1 / 72,
+  pc: 1 / 6,
+  px: 1 / 96,
+}
+
+/**
+ * DOCX Converter implementation
+ *
+ * This converter handles:
+ * - Rendering the document in Chrome and walking the rendered DOM
+ * - Walking the input DOM directly when Chrome is not available
+ * - Headings, lists, tables, hyperlinks and embedded images mapped onto Word structures
+ * - Page layout, typography and content options driven by the DOCX configuration
+ * - Explicit page break markers in the auto-page layout
+ * - Computed CSS mapped onto run and paragraph formatting when styles are preserved
+ * - Running headers and footers from templates, with page number fields
+ * - Merged cells, repeated header rows and rendered column widths in tables
+ */
+export class DOCXConverter extends RenderedDOMConverter {
+  private config: DOCXConfig
+
+  constructor(logger: Logger, config: Partial<DOCXConfig> = {}, cdpManager?: ChromeCDPManager) {
+    super(logger, cdpManager)
+    this.config = { ...DEFAULT_DOCX_CONFIG, ...config }
+
+    this.logger.info("DOCX Converter initialized", {
+      pageSize: this.config.pageLayout.size,
+      hasCDPManager: !!cdpManager,
+    })
+  }
+
+  /**
+   * Convert HTML document to DOCX
+   *
+   * @param input - HTML document to convert
+   * @param request - Conversion request whose options override the converter configuration
+   * @returns Promise resolving to DOCX conversion result with base64 encoded content
+   */
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
+    const validation = this.validate(input)
+    if (!validation.isValid) {
+      throw new Error(`Input validation failed: ${validation.errors.join(", ")}`)
+    }
+
+    const options: DOCXConversionOptions = request?.options ?? {}
+    const renderOptions = this.resolveRenderOptions(options)
+
+    this.logger.info("Starting DOCX conversion", {
+      pageSize: renderOptions.pageLayout.size,
+      orientation: renderOptions.pageLayout.orientation,
+      hasTitle: !!input.title,
+    })
+
+    const { result, duration } = await this.measureConversionTime(async () => {
+      const pageBreaks = renderOptions.layout === "auto-page" ? renderOptions.pageBreaks : undefined
+      const { root, rendered, title } = await this.captureDocument(input, options, {
+        pageBreaks,
+        computedStyles: renderOptions.preserveStyle,
+        tableLayout: renderOptions.convertTables,
+      })
+      const url = this.getBaseURL(input)
+      const renderer = new DOCXRenderer(renderOptions, url)
+      const images = renderOptions.embedImages
+        ? await this.loadImages(renderer.collectImageSources(root), getResourceOrigin(input, url), options.timeout)
+        : new Map<string, DOCXImage>()
+
+      const content = renderer.render(root, images)
+      const docx = buildDOCXPackage(content, renderOptions, { title, url })
+      return { docx, rendered, title, imageCount: content.media.length, warnings: content.warnings }
+    })
+
+    for (const warning of result.warnings) {
+      this.logger.warn(warning)
+    }
+
+    this.logger.info("DOCX conversion completed", {
+      duration,
+      outputSize: result.docx.length,
+      images: result.imageCount,
+      rendered: result.rendered,
+    })
+
+    return this.createConversionResult(result.docx.toString("base64"), DOCX_MIME_TYPE, "text/html", "docx", {
+      encoding: "base64",
+      size: result.docx.length,
+      title: result.title,
+      pageSize: renderOptions.pageLayout.size,
+      orientation: renderOptions.pageLayout.orientation,
+      pageLayout: renderOptions.layout,
+      executionTime: duration,
+      tier: result.rendered ? 1 : 4,
+      conversionMethod: result.rendered ? "chrome-cdp" : "dom",
+      ...(result.warnings.length > 0 && { warnings: result.warnings }),
+    })
+  }
+
+  /**
+   * Check if this converter can handle the given content type
+   *
+   * @param contentType - MIME type to check
+   * @returns True if this converter can handle the content type
+   */
+  canHandle(contentType: string): boolean {
+    return this.getSupportedContentTypes().includes(contentType.toLowerCase())
+  }
+
+  /**
+   * Get the name of this converter strategy
+   *
+   * @returns Converter name
+   */
+  getName(): string {
+    return "docx"
+  }
+
+  /**
+   * Get supported content types
+   *
+   * @returns Array of supported MIME types
+   */
+  getSupportedContentTypes(): string[] {
+    return ["text/html", "application/xhtml+xml"]
+  }
+
+  /**
+   * Get output format MIME type
+   *
+   * @returns Output MIME type
+   */
+  getOutputFormat(): string {
+    return DOCX_MIME_TYPE
+  }
+
+  protected getFormatLabel(): string {
+    return "DOCX"
+  }
+
+  // Private helper methods
+
+  private resolveRenderOptions(options: DOCXConversionOptions): DOCXRenderOptions {
+    const layout = { ...this.config.pageLayout, ...options.pageLayout }
+    const margins = typeof options.margins === "object"
+      ? options.margins
+      : options.margins !== undefined
+        ? { top: options.margins, right: options.margins, bottom: options.margins, left: options.margins }
+        : {}
+    const marginsInInches = (side: "top" | "right" | "bottom" | "left"): number =>
+      this.toInches(margins[side] ?? options.pageLayout?.margins?.[side], this.config.pageLayout.margins[side])
+
+    return {
+      layout: options.layout ?? this.config.layout,
+      pageBreaks: { ...this.config.pageBreaks, ...options.pageBreaks },
+      fontFamily: options.fontFamily ?? this.config.fontFamily,
+      fontSize: options.fontSize ?? this.config.fontSize,
+      pageLayout: {
+        size: options.pageSize ?? layout.size,
+        orientation: options.orientation ?? layout.orientation,
+        margins: {
+          top: marginsInInches("top"),
+          right: marginsInInches("right"),
+          bottom: marginsInInches("bottom"),
+          left: marginsInInches("left"),
+        },
+      },
+      lineSpacing: options.lineSpacing ?? this.config.lineSpacing,
+      paragraphSpacing: options.paragraphSpacing ?? this.config.paragraphSpacing,
+      embedImages: options.includeImages ?? options.embedImages ?? this.config.embedImages,
+      convertTables: options.includeTables ?? options.convertTables ?? this.config.convertTables,
+      convertLists: options.convertLists ?? this.config.convertLists,
+      preserveLinks: options.preserveLinks ?? this.config.preserveLinks,
+      preserveStyle: options.preserveStyle ?? this.config.preserveStyle,
+      header: this.resolveHeaderFooter(this.config.header, options.header),
+      footer: this.resolveHeaderFooter(this.config.footer, options.footer),
+    }
+  }
+
+  /**
+   * Merge request header or footer templates over the configured ones; a string sets the default template
+   */
+  private resolveHeaderFooter(
+    config: DOCXHeaderFooterConfig | undefined,
+    option: string | DOCXHeaderFooterConfig | undefined,
+  ): DOCXHeaderFooterConfig | undefined {
+    if (option === undefined) {
+      return config
+    }
+    return { ...config, ...(typeof option === "string" ? { default: option } : option) }
+  }
+
+  /**
+   * Convert a margin given in inches or as a CSS length to inches
+   */
+  private toInches(value: DOCXMarginValue | undefined, fallback: number): number {
+    if (typeof value === "number") {
+      return value >= 0 ? value : fallback
+    }
+
+    const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*(in|cm|mm|pt|pc|px)?$/i)
+    if (!match) {
+      return fallback
+    }
+    return Number.parseFloat(match[1]!) * INCHES_PER_UNIT[(match[2] ?? "in").toLowerCase()]!
+  }
+
+  /**
+   * Load images for embedding, skipping images that cannot be loaded or embedded
+   */
+  private async loadImages(
+    sources: string[],
+    origin: ResourceOrigin,
+    timeout = RESOURCE_LOAD_TIMEOUT,
+  ): Promise<Map<string, DOCXImage>> {
+    const images = new Map<string, DOCXImage>()
+
+    await Promise.all(sources.map(async (source) => {
+      try {
+        const data = await loadResource(source, timeout, origin)
+        const info = readImageInfo(data)
+        if (!info) {
+          this.logger.warn("Skipping image in unsupported format", { source: describeResource(source) })
+          return
+        }
+        images.set(source, { data, ...info })
+      } catch (error) {
+        this.logger.warn("Failed to load image", {
+          source: describeResource(source),
+          error: (error as Error).message,
+        })
+      }
+    }))
+
+    return images
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * DOCX Package - Assembles the WordprocessingML parts into an OOXML package
+ */
+
+import type { Buffer } from "node:buffer"
+
+import { ZipWriter } from "../../core/utils/ZipWriter.js"
+import { escapeXML } from "../xml.js"
+
+import { renderHeaderFooter } from "./header-footer.js"
+import type { DOCXDocumentContent, DOCXRenderOptions, DOCXStyleDefinition } from "./types.js"
+
+/**
+ * Twentieths of a point per inch, the unit of WordprocessingML page measurements
+ */
+export const TWIPS_PER_INCH = 1440
+
+/**
+ * Portrait page sizes in twips
+ */
+const PAGE_SIZES: Record<DOCXRenderOptions["pageLayout"]["size"], { width: number, height: number }> = {
+  A3: { width: 16838, height: 23811 },
+  A4: { width: 11906, height: 16838 },
+  A5: { width: 8391, height: 11906 },
+  Letter: { width: 12240, height: 15840 },
+  Legal: { width: 12240, height: 20160 },
+}
+
+const NAMESPACES = {
+  w: "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  wp: "http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing",
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  pic: "http://schemas.openxmlformats.org/drawingml/2006/picture",
+}
+
+const RELATIONSHIP_TYPES = {
+  officeDocument: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument",
+  coreProperties: "http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties",
+  extendedProperties: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties",
+  styles: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles",
+  numbering: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering",
+  settings: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings",
+  hyperlink: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink",
+  image: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image",
+  header: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/header",
+  footer: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer",
+}
+
+const XML_DECLARATION = "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>\n"
+
+const MONOSPACE_FONT = "Courier New"
+
+/**
+ * Heading font sizes relative to the body font size
+ */
+const HEADING_SCALE = [2, 1.5, 1.25, 1.1, 1, 0.9]
+
+/**
+ * Bullet characters used for successive list levels
+ */
+const BULLETS = ["•", "◦", "▪"]
+
+/**
+ * Number formats used for successive ordered list levels
+ */
+const NUMBER_FORMATS = ["decimal", "lowerLetter", "lowerRoman"]
+
+/**
+ * Page geometry in twips
+ */
+export interface PageGeometry {
+  width: number
+  height: number
+  margins: { top: number, right: number, bottom: number, left: number }
+  /** Width available to content between the left and right margins */
+  contentWidth: number
+}
+
+/**
+ * Document properties written to the core properties part
+ */
+export interface DOCXPackageProperties {
+  title?: string
+  /** Document URL, written for {url} in headers and footers */
+  url?: string
+  created?: Date
+}
+
+/**
+ * Header or footer part referenced from the section properties
+ */
+interface HeaderFooterPart {
+  kind: "header" | "footer"
+  type: "default" | "first" | "even"
+  id: string
+  /** Path relative to the word directory */
+  path: string
+  xml: string
+}
+
+/**
+ * Compute the page geometry for a page layout
+ *
+ * @param layout - Page layout with margins in inches
+ * @returns Page size, margins and content width in twips
+ */
+export function getPageGeometry(layout: DOCXRenderOptions["pageLayout"]): PageGeometry {
+  const size = PAGE_SIZES[layout.size] ?? PAGE_SIZES.A4
+  const landscape = layout.orientation === "landscape"
+  const width = landscape ? size.height : size.width
+  const height = landscape ? size.width : size.height
+  const margins = {
+    top: Math.round(layout.margins.top * TWIPS_PER_INCH),
+    right: Math.round(layout.margins.right * TWIPS_PER_INCH),
+    bottom: Math.round(layout.margins.bottom * TWIPS_PER_INCH),
+    left: Math.round(layout.margins.left * TWIPS_PER_INCH),
+  }
+
+  return {
+    width,
+    height,
+    margins,
+    contentWidth: Math.max(TWIPS_PER_INCH, width - margins.left - margins.right),
+  }
+}
+
+/**
+ * Build a DOCX package from rendered document content
+ *
+ * @param content - Rendered body, relationships, media and list instances
+ * @param options - Render options providing page layout and typography
+ * @param properties - Document properties
+ * @returns DOCX file bytes
+ */
+export function buildDOCXPackage(
+  content: DOCXDocumentContent,
+  options: DOCXRenderOptions,
+  properties: DOCXPackageProperties = {},
+): Buffer {
+  const zip = new ZipWriter()
+  const created = properties.created ?? new Date()
+  const headerFooters = buildHeaderFooterParts(options, { title: properties.title, url: properties.url, date: created })
+
+  zip.addFile("[Content_Types].xml", buildContentTypes(content, headerFooters))
+  zip.addFile("_rels/.rels", buildPackageRelationships())
+  zip.addFile("docProps/core.xml", buildCoreProperties(properties.title, created))
+  zip.addFile("docProps/app.xml", buildAppProperties())
+  zip.addFile("word/document.xml", buildDocument(content, options, headerFooters))
+  zip.addFile("word/_rels/document.xml.rels", buildDocumentRelationships(content, headerFooters))
+  zip.addFile("word/styles.xml", buildStyles(options, content.styles))
+  zip.addFile("word/numbering.xml", buildNumbering(content))
+  zip.addFile("word/settings.xml", buildSettings(headerFooters.some(part => part.type === "even")))
+
+  for (const part of headerFooters) {
+    zip.addFile(`word/${part.path}`, part.xml)
+  }
+  for (const media of content.media) {
+    zip.addFile(`word/${media.path}`, media.data, { compress: false })
+  }
+
+  return zip.toBuffer()
+}
+
+// Package part builders
+
+/**
+ * Build the header and footer parts of the configured templates
+ *
+ * A first page template adds first page parts and an even page template even
+ * page parts for both headers and footers, falling back to the default template,
+ * since Word turns these variants on for the whole section.
+ */
+function buildHeaderFooterParts(options: DOCXRenderOptions, fields: Parameters<typeof renderHeaderFooter>[1]): HeaderFooterPart[] {
+  const configs = { header: options.header, footer: options.footer }
+  const titlePage = configs.header?.first !== undefined || configs.footer?.first !== undefined
+  const evenAndOdd = configs.header?.even !== undefined || configs.footer?.even !== undefined
+
+  const parts: HeaderFooterPart[] = []
+  for (const kind of ["header", "footer"] as const) {
+    const config = configs[kind]
+    const templates = {
+      default: config?.default,
+      first: titlePage ? config?.first ?? config?.default : undefined,
+      even: evenAndOdd ? config?.even ?? config?.default : undefined,
+    }
+    for (const type of ["default", "first", "even"] as const) {
+      const template = templates[type]
+      if (template === undefined) {
+        continue
+      }
+      const index = parts.filter(part => part.kind === kind).length + 1
+      const root = kind === "header" ? "w:hdr" : "w:ftr"
+      parts.push({
+        kind,
+        type,
+        id: `rId${kind === "header" ? "Header" : "Footer"}${index}`,
+        path: `${kind}${index}.xml`,
+        xml: `${XML_DECLARATION}<${root} xmlns:w="${NAMESPACES.w}" xmlns:r="${NAMESPACES.r}">`
+          + `${renderHeaderFooter(template, fields, kind === "header" ? "Header" : "Footer")}</${root}>`,
+      })
+    }
+  }
+  return parts
+}
+
+function buildContentTypes(content: DOCXDocumentContent, headerFooters: HeaderFooterPart[]): string {
+  const defaults = new Map<string, string>([
+    ["rels", "application/vnd.openxmlformats-package.relationships+xml"],
+    ["xml", "application/xml"],
+  ])
+  for (const media of content.media) {
+    defaults.set(media.path.slice(media.path.lastIndexOf(".") + 1), media.contentType)
+  }
+
+  const overrides: Array<[string, string]> = [
+    ["/word/document.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"],
+    ["/word/styles.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"],
+    ["/word/numbering.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"],
+    ["/word/settings.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"],
+    ["/docProps/core.xml", "application/vnd.openxmlformats-package.core-properties+xml"],
+    ["/docProps/app.xml", "application/vnd.openxmlformats-officedocument.extended-properties+xml"],
+    ...headerFooters.map((part): [string, string] =>
+      [`/word/${part.path}`, `application/vnd.openxmlformats-officedocument.wordprocessingml.${part.kind}+xml`]),
+  ]
+
+  return `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">${
+    Array.from(defaults, ([extension, type]) => `<Default Extension="${extension}" ContentType="${type}"/>`).join("")
+  }${
+    overrides.map(([partName, type]) => `<Override PartName="${partName}" ContentType="${type}"/>`).join("")
+  }</Types>`
+}
+
+function buildRelationships(relationships: Array<{ id: string, type: string, target: string, external?: boolean }>): string {
+  return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+    relationships.map(relationship =>
+      `<Relationship Id="${relationship.id}" Type="${relationship.type}" Target="${escapeXML(relationship.target)}"${
+        relationship.external ? " TargetMode=\"External\"" : ""
+      }/>`,
+    ).join("")
+  }</Relationships>`
+}
+
+function buildPackageRelationships(): string {
+  return buildRelationships([
+    { id: "rId1", type: RELATIONSHIP_TYPES.officeDocument, target: "word/document.xml" },
+    { id: "rId2", type: RELATIONSHIP_TYPES.coreProperties, target: "docProps/core.xml" },
+    { id: "rId3", type: RELATIONSHIP_TYPES.extendedProperties, target: "docProps/app.xml" },
+  ])
+}
+
+function buildDocumentRelationships(content: DOCXDocumentContent, headerFooters: HeaderFooterPart[]): string {
+  return buildRelationships([
+    { id: "rIdStyles", type: RELATIONSHIP_TYPES.styles, target: "styles.xml" },
+    { id: "rIdNumbering", type: RELATIONSHIP_TYPES.numbering, target: "numbering.xml" },
+    { id: "rIdSettings", type: RELATIONSHIP_TYPES.settings, target: "settings.xml" },
+    ...headerFooters.map(part => ({ id: part.id, type: RELATIONSHIP_TYPES[part.kind], target: part.path })),
+    ...content.relationships.map(relationship => ({
+      id: relationship.id,
+      type: RELATIONSHIP_TYPES[relationship.type],
+      target: relationship.target,
+      external: relationship.type === "hyperlink",
+    })),
+  ])
+}
+
+function buildCoreProperties(title: string | undefined, date: Date): string {
+  const created = date.toISOString().replace(/\.\d{3}Z$/, "Z")
+  return `${XML_DECLARATION}<cp:coreProperties`
+    + " xmlns:cp=\"http://schemas.openxmlformats.org/package/2006/metadata/core-properties\""
+    + " xmlns:dc=\"http://purl.org/dc/elements/1.1/\""
+    + " xmlns:dcterms=\"http://purl.org/dc/terms/\""
+    + " xmlns:xsi=\"http://www.w3.org/2001/XMLSchema-instance\">"
+    + `${title ? `<dc:title>${escapeXML(title)}</dc:title>` : ""}`
+    + "<dc:creator>html-converter-cdt</dc:creator>"
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`
+    + `<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>`
+    + "</cp:coreProperties>"
+}
+
+function buildAppProperties(): string {
+  return `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">`
+    + "<Application>html-converter-cdt</Application>"
+    + "</Properties>"
+}
+
+function buildSettings(evenAndOddHeaders: boolean): string {
+  return `${XML_DECLARATION}<w:settings xmlns:w="${NAMESPACES.w}">`
+    + "<w:defaultTabStop w:val=\"720\"/>"
+    + `${evenAndOddHeaders ? "<w:evenAndOddHeaders/>" : ""}`
+    + "<w:characterSpacingControl w:val=\"doNotCompress\"/>"
+    + "<w:compat><w:compatSetting w:name=\"compatibilityMode\" w:uri=\"http://schemas.microsoft.com/office/word\" w:val=\"15\"/></w:compat>"
+    + "</w:settings>"
+}
+
+function buildDocument(content: DOCXDocumentContent, options: DOCXRenderOptions, headerFooters: HeaderFooterPart[]): string {
+  const geometry = getPageGeometry(options.pageLayout)
+  const orientation = options.pageLayout.orientation === "landscape" ? " w:orient=\"landscape\"" : ""
+  const namespaces = Object.entries(NAMESPACES).map(([prefix, uri]) => ` xmlns:${prefix}="${uri}"`).join("")
+
+  // A body must contain at least one block before the section properties
+  const body = content.body || "<w:p/>"
+
+  return `${XML_DECLARATION}<w:document${namespaces}><w:body>${body}`
+    + "<w:sectPr>"
+    + headerFooters.map(part => `<w:${part.kind}Reference w:type="${part.type}" r:id="${part.id}"/>`).join("")
+    + `<w:pgSz w:w="${geometry.width}" w:h="${geometry.height}"${orientation}/>`
+    + `<w:pgMar w:top="${geometry.margins.top}" w:right="${geometry.margins.right}" w:bottom="${geometry.margins.bottom}"`
+    + ` w:left="${geometry.margins.left}" w:header="720" w:footer="720" w:gutter="0"/>`
+    + `${headerFooters.some(part => part.type === "first") ? "<w:titlePg/>" : ""}`
+    + "</w:sectPr>"
+    + "</w:body></w:document>"
+}
+
+function buildStyles(options: DOCXRenderOptions, styles: DOCXStyleDefinition[]): string {
+  const font = escapeXML(options.fontFamily)
+  const size = Math.round(options.fontSize * 2)
+  const after = Math.round(options.paragraphSpacing * 20)
+  const line = Math.round(options.lineSpacing * 240)
+  const monospace = `<w:rFonts w:ascii="${MONOSPACE_FONT}" w:hAnsi="${MONOSPACE_FONT}" w:cs="${MONOSPACE_FONT}"/>`
+  const { contentWidth } = getPageGeometry(options.pageLayout)
+
+  // Header and footer paragraphs have center and right tab stops, as in Word's own styles
+  const headerFooter = ["Header", "Footer"].map(style => `<w:style w:type="paragraph" w:styleId="${style}">`
+    + `<w:name w:val="${style.toLowerCase()}"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="99"/><w:unhideWhenUsed/>`
+    + `<w:pPr><w:tabs><w:tab w:val="center" w:pos="${Math.round(contentWidth / 2)}"/><w:tab w:val="right" w:pos="${contentWidth}"/></w:tabs>`
+    + "<w:spacing w:after=\"0\" w:line=\"240\" w:lineRule=\"auto\"/></w:pPr></w:style>").join("")
+
+  const headings = HEADING_SCALE.map((scale, index) => {
+    const level = index + 1
+    const headingSize = Math.round(size * scale)
+    return `<w:style w:type="paragraph" w:styleId="Heading${level}">`
+      + `<w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>`
+      + `<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${level <= 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>`
+      + `<w:rPr><w:b/><w:bCs/>${level === 6 ? "<w:i/><w:iCs/>" : ""}<w:sz w:val="${headingSize}"/><w:szCs w:val="${headingSize}"/></w:rPr>`
+      + "</w:style>"
+  }).join("")
+
+  return `${XML_DECLARATION}<w:styles xmlns:w="${NAMESPACES.w}">`
+    + "<w:docDefaults>"
+    + `<w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>`
+    + `<w:sz w:val="${size}"/><w:szCs w:val="${size}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>`
+    + `<w:pPrDefault><w:pPr><w:spacing w:after="${after}" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault>`
+    + "</w:docDefaults>"
+    + "<w:style w:type=\"paragraph\" w:default=\"1\" w:styleId=\"Normal\"><w:name w:val=\"Normal\"/><w:qFormat/></w:style>"
+    + "<w:style w:type=\"character\" w:default=\"1\" w:styleId=\"DefaultParagraphFont\"><w:name w:val=\"Default Paragraph Font\"/><w:uiPriority w:val=\"1\"/><w:semiHidden/></w:style>"
+    + "<w:style w:type=\"table\" w:default=\"1\" w:styleId=\"TableNormal\"><w:name w:val=\"Normal Table\"/><w:semiHidden/>"
+    + "<w:tblPr><w:tblInd w:w=\"0\" w:type=\"dxa\"/><w:tblCellMar><w:top w:w=\"0\" w:type=\"dxa\"/><w:left w:w=\"108\" w:type=\"dxa\"/>"
+    + "<w:bottom w:w=\"0\" w:type=\"dxa\"/><w:right w:w=\"108\" w:type=\"dxa\"/></w:tblCellMar></w:tblPr></w:style>"
+    + "<w:style w:type=\"numbering\" w:default=\"1\" w:styleId=\"NoList\"><w:name w:val=\"No List\"/><w:semiHidden/></w:style>"
+    + headings
+    + "<w:style w:type=\"paragraph\" w:styleId=\"Title\"><w:name w:val=\"Title\"/><w:basedOn w:val=\"Normal\"/><w:next w:val=\"Normal\"/><w:qFormat/>"
+    + `<w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:sz w:val="${size * 2}"/><w:szCs w:val="${size * 2}"/></w:rPr></w:style>`
+    + "<w:style w:type=\"paragraph\" w:styleId=\"Quote\"><w:name w:val=\"Quote\"/><w:basedOn w:val=\"Normal\"/><w:next w:val=\"Normal\"/><w:qFormat/>"
+    + "<w:pPr><w:pBdr><w:left w:val=\"single\" w:sz=\"18\" w:space=\"8\" w:color=\"BFBFBF\"/></w:pBdr></w:pPr>"
+    + "<w:rPr><w:i/><w:iCs/><w:color w:val=\"404040\"/></w:rPr></w:style>"
+    + "<w:style w:type=\"paragraph\" w:styleId=\"SourceCode\"><w:name w:val=\"Source Code\"/><w:basedOn w:val=\"Normal\"/><w:qFormat/>"
+    + "<w:pPr><w:shd w:val=\"clear\" w:color=\"auto\" w:fill=\"F2F2F2\"/><w:spacing w:line=\"240\" w:lineRule=\"auto\"/></w:pPr>"
+    + `<w:rPr>${monospace}<w:sz w:val="${Math.max(16, size - 2)}"/><w:szCs w:val="${Math.max(16, size - 2)}"/></w:rPr></w:style>`
+    + "<w:style w:type=\"paragraph\" w:styleId=\"Caption\"><w:name w:val=\"caption\"/><w:basedOn w:val=\"Normal\"/><w:next w:val=\"Normal\"/><w:qFormat/>"
+    + "<w:rPr><w:i/><w:iCs/><w:color w:val=\"595959\"/></w:rPr></w:style>"
+    + "<w:style w:type=\"paragraph\" w:styleId=\"ListParagraph\"><w:name w:val=\"List Paragraph\"/><w:basedOn w:val=\"Normal\"/><w:qFormat/>"
+    + "<w:pPr><w:ind w:left=\"720\"/><w:contextualSpacing/></w:pPr></w:style>"
+    + headerFooter
+    + "<w:style w:type=\"character\" w:styleId=\"Hyperlink\"><w:name w:val=\"Hyperlink\"/><w:basedOn w:val=\"DefaultParagraphFont\"/>"
+    + "<w:rPr><w:color w:val=\"0563C1\"/><w:u w:val=\"single\"/></w:rPr></w:style>"
+    + "<w:style w:type=\"table\" w:styleId=\"TableGrid\"><w:name w:val=\"Table Grid\"/><w:basedOn w:val=\"TableNormal\"/>"
+    + "<w:pPr><w:spacing w:after=\"0\" w:line=\"240\" w:lineRule=\"auto\"/></w:pPr>"
+    + "<w:tblPr><w:tblBorders>"
+    + ["top", "left", "bottom", "right", "insideH", "insideV"]
+      .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`)
+      .join("")
+      + "</w:tblBorders></w:tblPr></w:style>"
+      + styles.map(style => `<w:style w:type="${style.type}" w:customStyle="1" w:styleId="${style.id}">`
+        + `<w:name w:val="${style.name}"/><w:basedOn w:val="${style.basedOn}"/>${style.properties}</w:style>`).join("")
+      + "</w:styles>"
+}
+
+function buildNumbering(content: DOCXDocumentContent): string {
+  const levels = (kind: "bullet" | "decimal") => Array.from({ length: 9 }, (_, level) => {
+    const indent = `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr>`
+    if (kind === "bullet") {
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="bullet"/>`
+        + `<w:lvlText w:val="${BULLETS[level % BULLETS.length]}"/><w:lvlJc w:val="left"/>${indent}</w:lvl>`
+    }
+    return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${NUMBER_FORMATS[level % NUMBER_FORMATS.length]}"/>`
+      + `<w:lvlText w:val="%${level + 1}."/><w:lvlJc w:val="left"/>${indent}</w:lvl>`
+  }).join("")
+
+  const instances = content.lists.map(list =>
+    `<w:num w:numId="${list.numId}"><w:abstractNumId w:val="${list.kind === "bullet" ? 0 : 1}"/>`
+    + `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride></w:num>`,
+  ).join("")
+
+  return `${XML_DECLARATION}<w:numbering xmlns:w="${NAMESPACES.w}">`
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels("bullet")}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels("decimal")}</w:abstractNum>`
+    + instances
+    + "</w:numbering>"
+}
@@ -0,0 +1,1519 @@
+/**
+ * DOCX Renderer - Walks a DOM snapshot and produces WordprocessingML body content
+ * Maps headings, lists, tables, hyperlinks and images onto Word structures
+ */
+
+import { parseStyleDeclarations, readElementStyle } from "../../core/engine/computed-styles.js"
+import { DOMSnapshotNodeType, findSnapshotElement, getSnapshotText } from "../../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../../core/engine/dom-snapshot.js"
+import { PAGE_BREAK_ATTRIBUTE } from "../../core/engine/page-breaks.js"
+import { readLayoutWidth, readTableLayout } from "../../core/engine/table-layout.js"
+import { detectCodeLanguage, tokenizeCode } from "../code-language.js"
+import type { CodeTokenKind } from "../code-language.js"
+import { escapeXML } from "../xml.js"
+
+import { mapCSSFormatting, parseCSSColor } from "./css-formatting.js"
+import type { BorderSide, CSSBorder, CSSFormatting } from "./css-formatting.js"
+import { getPageGeometry } from "./docx-package.js"
+import type {
+  DOCXDocumentContent,
+  DOCXImage,
+  DOCXListInstance,
+  DOCXMediaPart,
+  DOCXRelationship,
+  DOCXRenderOptions,
+  DOCXStyleDefinition,
+} from "./types.js"
+
+/**
+ * Elements rendered as separate blocks
+ */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "caption",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+])
+
+/**
+ * Elements that never contribute to the document
+ */
+const IGNORED_TAGS = new Set([
+  "audio",
+  "base",
+  "button",
+  "canvas",
+  "embed",
+  "head",
+  "iframe",
+  "input",
+  "link",
+  "meta",
+  "noscript",
+  "object",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+  "video",
+])
+
+/**
+ * Indentation step for nested blocks and list levels (twips)
+ */
+const INDENT_STEP = 720
+
+/**
+ * Twips per CSS pixel (96 pixels per inch)
+ */
+const TWIPS_PER_PIXEL = 15
+
+/**
+ * English Metric Units per CSS pixel, the unit of DrawingML extents
+ */
+const EMU_PER_PIXEL = 9525
+
+const MONOSPACE_FONT = "Courier New"
+
+/**
+ * Elements whose indentation the renderer already derives from the document structure
+ */
+const STRUCTURALLY_INDENTED_TAGS = new Set(["blockquote", "dd", "li", "ol", "td", "th", "ul"])
+
+/**
+ * Most columns a Word table can have
+ */
+const MAX_TABLE_COLUMNS = 63
+
+/**
+ * Narrowest width given to a table column without a width of its own (twips)
+ */
+const MIN_COLUMN_WIDTH = 360
+
+/**
+ * Minimum number of uses before a formatting combination becomes a named style
+ */
+const NAMED_STYLE_MIN_USES = 2
+
+/**
+ * Run colors of highlighted code tokens (plain code keeps the paragraph color)
+ */
+const CODE_TOKEN_COLORS: Record<CodeTokenKind, string | undefined> = {
+  plain: undefined,
+  keyword: "0000FF",
+  string: "A31515",
+  number: "098658",
+  comment: "008000",
+}
+
+/**
+ * Paragraph holding a hard page break
+ */
+const PAGE_BREAK_PARAGRAPH = "<w:p><w:r><w:br w:type=\"page\"/></w:r></w:p>"
+
+type Alignment = "left" | "center" | "right" | "both"
+
+/**
+ * Character formatting applied to a run
+ */
+interface RunFormat {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  /** Text color as a hex RGB value */
+  color?: string
+  vertAlign?: "superscript" | "subscript"
+  /** Formatting taken from the element's CSS */
+  style?: RunStyle
+}
+
+/**
+ * Run formatting taken from CSS, shared through character styles when repeated
+ */
+interface RunStyle {
+  font?: string
+  /** Font size in half-points */
+  size?: number
+  /** Text color as a hex RGB value (code token colors take precedence) */
+  color?: string
+  /** Background color as a hex RGB value */
+  background?: string
+}
+
+/**
+ * Hyperlink target: an external relationship or an internal bookmark
+ */
+interface LinkTarget {
+  relationshipId?: string
+  anchor?: string
+}
+
+/**
+ * Inline content collected for a paragraph
+ */
+type InlineSegment
+  = | { kind: "text", text: string, format: RunFormat, link?: LinkTarget, preformatted?: boolean }
+    | { kind: "break", link?: LinkTarget }
+    | { kind: "image", xml: string, link?: LinkTarget }
+    | { kind: "bookmark", name: string, link?: undefined }
+
+/**
+ * Pending list marker for the first paragraph of a list item
+ */
+interface ListItemState {
+  numId?: number
+  level: number
+  /** Text marker used when lists are not converted to Word numbering */
+  marker?: string
+  used: boolean
+}
+
+/**
+ * Block rendering context
+ */
+interface BlockContext {
+  /** Left indentation in twips */
+  indent: number
+  /** Width available to content in twips */
+  width: number
+  /** Paragraph style for paragraphs without a style of their own */
+  style?: string
+  /** Base run formatting */
+  format: RunFormat
+  align?: Alignment
+  /** First line indentation in twips, negative for a hanging indent */
+  firstLine?: number
+  /** Paragraph background color as a hex RGB value */
+  shading?: string
+  /** Paragraph borders */
+  borders?: Partial<Record<BorderSide, CSSBorder>>
+  /** Nesting depth of the enclosing list, -1 outside lists */
+  listLevel: number
+  listItem?: ListItemState
+}
+
+/**
+ * Table rows in a row group; row spans end at the group boundary
+ */
+interface TableRowGroup {
+  kind: "head" | "body" | "foot"
+  rows: DOMSnapshotNode[]
+}
+
+/**
+ * Cell placed on the table grid. Rows spanned by a cell from above hold a
+ * continuation slot for it, which renders as a vertically merged cell.
+ */
+interface TableSlot {
+  cell: DOMSnapshotNode
+  /** Row the cell belongs to */
+  row: DOMSnapshotNode
+  column: number
+  columnSpan: number
+  rowSpan: number
+  continuation: boolean
+}
+
+/**
+ * Table row with its cells placed on the grid
+ */
+interface TableRowLayout {
+  /** Whether the row repeats at the top of each page */
+  header: boolean
+  /** Slots in column order; uncovered columns are padded with empty cells */
+  slots: TableSlot[]
+}
+
+/**
+ * Paragraph properties
+ */
+interface ParagraphProperties {
+  style?: string
+  align?: Alignment
+  border?: boolean
+}
+
+/**
+ * DOCX renderer for DOM snapshots
+ *
+ * Rendering follows the DOCX configuration:
+ * - convertLists: lists use Word numbering, otherwise text markers
+ * - convertTables: tables become Word tables, otherwise tab separated paragraphs
+ * - embedImages: loaded images are embedded as inline pictures
+ * - preserveLinks: links become hyperlinks, otherwise plain text
+ * - layout: auto-page starts a new page before elements marked as page breaks
+ * - preserveStyle: computed CSS becomes run and paragraph formatting; combinations
+ *   used repeatedly are defined once as named styles
+ */
+export class DOCXRenderer {
+  private options: DOCXRenderOptions
+  private baseURL?: string
+  private images = new Map<string, DOCXImage>()
+  private relationships: DOCXRelationship[] = []
+  private media: DOCXMediaPart[] = []
+  private lists: DOCXListInstance[] = []
+  private linkRelationships = new Map<string, string>()
+  private imageRelationships = new Map<string, string>()
+  private anchorTargets = new Set<string>()
+  private pendingBookmarks: string[] = []
+  private bookmarkCount = 0
+  private drawingCount = 0
+  private tableCount = 0
+  private warnings: string[] = []
+  private styleUsage = new Map<string, number>()
+  private styleDefinitions = new Map<string, DOCXStyleDefinition>()
+  private countingStyles = false
+
+  constructor(options: DOCXRenderOptions, baseURL?: string) {
+    this.options = options
+    this.baseURL = baseURL
+  }
+
+  /**
+   * Collect the resolved URLs of the images the document references
+   *
+   * @param root - Snapshot of the document element (or any container element)
+   * @returns Unique image URLs in document order
+   */
+  collectImageSources(root: DOMSnapshotNode): string[] {
+    this.applyBaseElement(root)
+
+    const sources = new Set<string>()
+    const visit = (node: DOMSnapshotNode) => {
+      if (node.type !== DOMSnapshotNodeType.ELEMENT || IGNORED_TAGS.has(node.tag!)) {
+        return
+      }
+      if (node.tag === "img" && node.attributes?.src) {
+        sources.add(this.resolveURL(node.attributes.src))
+      }
+      node.children?.forEach(visit)
+    }
+    visit(root)
+
+    return Array.from(sources)
+  }
+
+  /**
+   * Render a document snapshot to WordprocessingML body content
+   *
+   * @param root - Snapshot of the document element (or any container element)
+   * @param images - Loaded images keyed by resolved URL
+   * @returns Body XML with the relationships, media and numbering it references
+   */
+  render(root: DOMSnapshotNode, images: Map<string, DOCXImage> = new Map()): DOCXDocumentContent {
+    this.images = images
+    this.styleUsage.clear()
+    this.styleDefinitions.clear()
+
+    this.applyBaseElement(root)
+    this.anchorTargets = this.collectAnchorTargets(root)
+
+    if (this.options.preserveStyle) {
+      // A first pass counts formatting combinations so the second can name the repeated ones
+      this.countingStyles = true
+      this.renderBody(root)
+      this.countingStyles = false
+    }
+
+    return {
+      body: this.renderBody(root),
+      relationships: this.relationships,
+      media: this.media,
+      lists: this.lists,
+      styles: Array.from(this.styleDefinitions.values()),
+      warnings: this.warnings,
+    }
+  }
+
+  // Private helper methods
+
+  private renderBody(root: DOMSnapshotNode): string {
+    this.relationships = []
+    this.media = []
+    this.lists = []
+    this.linkRelationships.clear()
+    this.imageRelationships.clear()
+    this.pendingBookmarks = []
+    this.bookmarkCount = 0
+    this.drawingCount = 0
+    this.tableCount = 0
+    this.warnings = []
+
+    const body = root.tag === "body" ? root : findSnapshotElement(root, "body") ?? root
+    return this.renderBlocks(body.children ?? [], {
+      indent: 0,
+      width: getPageGeometry(this.options.pageLayout).contentWidth,
+      format: {},
+      listLevel: -1,
+    }).join("")
+  }
+
+  /**
+   * Render a sequence of nodes in block context, grouping inline runs into paragraphs
+   */
+  private renderBlocks(nodes: DOMSnapshotNode[], context: BlockContext): string[] {
+    const blocks: string[] = []
+    let inline: InlineSegment[] = []
+
+    const flush = () => {
+      const paragraph = this.renderParagraph(inline, context)
+      if (paragraph) {
+        blocks.push(paragraph)
+      }
+      inline = []
+    }
+
+    for (const node of nodes) {
+      if (this.isPageBreak(node)) {
+        flush()
+        blocks.push(PAGE_BREAK_PARAGRAPH)
+        // Marker rules only carry the break
+        if (node.tag === "hr") {
+          continue
+        }
+      }
+
+      if (node.type === DOMSnapshotNodeType.ELEMENT && BLOCK_TAGS.has(node.tag!)) {
+        flush()
+        this.queueBookmark(node)
+        for (const block of this.renderBlock(node, context)) {
+          // Adjacent tables would merge into one; keep them apart with an empty paragraph
+          if (block.startsWith("<w:tbl>") && blocks[blocks.length - 1]?.startsWith("<w:tbl>")) {
+            blocks.push("<w:p/>")
+          }
+          blocks.push(block)
+        }
+      } else {
+        this.collectInline(node, context.format, undefined, inline, context.width)
+      }
+    }
+    flush()
+
+    return blocks
+  }
+
+  /**
+   * Check whether a page break is placed before a node
+   */
+  private isPageBreak(node: DOMSnapshotNode): boolean {
+    return this.options.layout === "auto-page"
+      && node.type === DOMSnapshotNodeType.ELEMENT
+      && node.attributes?.[PAGE_BREAK_ATTRIBUTE] !== undefined
+  }
+
+  /**
+   * Render a block-level element
+   */
+  private renderBlock(node: DOMSnapshotNode, blockContext: BlockContext): string[] {
+    const tag = node.tag!
+    const context = tag === "hr" ? blockContext : this.applyBlockStyle(node, blockContext)
+
+    switch (tag) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6":
+        return this.renderInlineBlock(node, context, { style: `Heading${tag[1]}` })
+      case "p":
+      case "dt":
+      case "summary":
+        return this.renderInlineBlock(node, context)
+      case "caption":
+      case "figcaption":
+        return this.renderInlineBlock(node, context, { style: "Caption" })
+      case "pre":
+        return this.renderCodeBlock(node, context)
+      case "blockquote":
+        return this.renderBlocks(node.children ?? [], {
+          ...context,
+          indent: context.indent + INDENT_STEP,
+          width: context.width - INDENT_STEP,
+          style: context.style ?? "Quote",
+        })
+      case "dd":
+        return this.renderBlocks(node.children ?? [], {
+          ...context,
+          indent: context.indent + INDENT_STEP,
+          width: context.width - INDENT_STEP,
+        })
+      case "ul":
+      case "ol":
+        return this.renderList(node, context)
+      case "hr":
+        return [this.renderParagraph([], context, { border: true }, true)]
+      case "table":
+        return this.options.convertTables ? this.renderTable(node, context) : this.renderTableAsText(node, context)
+      default:
+        return this.renderBlocks(node.children ?? [], context)
+    }
+  }
+
+  /**
+   * Render an element whose content forms a single paragraph
+   */
+  private renderInlineBlock(node: DOMSnapshotNode, context: BlockContext, properties: ParagraphProperties = {}): string[] {
+    const segments: InlineSegment[] = []
+    for (const child of node.children ?? []) {
+      this.collectInline(child, context.format, undefined, segments, context.width)
+    }
+    const paragraph = this.renderParagraph(segments, context, properties)
+    return paragraph ? [paragraph] : []
+  }
+
+  /**
+   * Collect inline content of a node into paragraph segments
+   */
+  private collectInline(
+    node: DOMSnapshotNode,
+    format: RunFormat,
+    link: LinkTarget | undefined,
+    segments: InlineSegment[],
+    width: number,
+  ): void {
+    if (node.type === DOMSnapshotNodeType.TEXT) {
+      segments.push({ kind: "text", text: node.text ?? "", format, link })
+      return
+    }
+    if (node.type !== DOMSnapshotNodeType.ELEMENT) {
+      return
+    }
+
+    const tag = node.tag!
+    if (IGNORED_TAGS.has(tag)) {
+      return
+    }
+    format = this.applyInlineStyle(node, format)
+
+    const id = node.attributes?.id
+    if (id && this.anchorTargets.has(id)) {
+      segments.push({ kind: "bookmark", name: this.toBookmarkName(id) })
+    }
+
+    const children = (childFormat: RunFormat, childLink = link) => {
+      for (const child of node.children ?? []) {
+        this.collectInline(child, childFormat, childLink, segments, width)
+      }
+    }
+
+    switch (tag) {
+      case "br":
+        segments.push({ kind: "break", link })
+        return
+      case "strong":
+      case "b":
+        return children({ ...format, bold: true })
+      case "em":
+      case "i":
+      case "cite":
+      case "dfn":
+      case "var":
+        return children({ ...format, italic: true })
+      case "u":
+      case "ins":
+        return children({ ...format, underline: true })
+      case "del":
+      case "s":
+      case "strike":
+        return children({ ...format, strike: true })
+      case "code":
+      case "kbd":
+      case "samp":
+      case "tt":
+        return children({ ...format, code: true })
+      case "sup":
+        return children({ ...format, vertAlign: "superscript" })
+      case "sub":
+        return children({ ...format, vertAlign: "subscript" })
+      case "a":
+        return children(format, this.resolveLink(node) ?? link)
+      case "img":
+        this.collectImage(node, format, link, segments, width)
+        return
+      case "q":
+        segments.push({ kind: "text", text: "“", format, link })
+        children(format)
+        segments.push({ kind: "text", text: "”", format, link })
+        return
+      default:
+        // Block elements nested in inline content are flattened into the surrounding text
+        if (BLOCK_TAGS.has(tag)) {
+          segments.push({ kind: "text", text: " ", format, link })
+          children(format)
+          segments.push({ kind: "text", text: " ", format, link })
+          return
+        }
+        children(format)
+    }
+  }
+
+  private collectImage(
+    node: DOMSnapshotNode,
+    format: RunFormat,
+    link: LinkTarget | undefined,
+    segments: InlineSegment[],
+    width: number,
+  ): void {
+    if (!this.options.embedImages) {
+      return
+    }
+
+    const src = node.attributes?.src
+    const image = src ? this.images.get(this.resolveURL(src)) : undefined
+    if (!image) {
+      const alt = node.attributes?.alt
+      if (alt) {
+        segments.push({ kind: "text", text: alt, format, link })
+      }
+      return
+    }
+
+    segments.push({ kind: "image", xml: this.renderDrawing(node, this.resolveURL(src!), image, width), link })
+  }
+
+  /**
+   * Render a paragraph from collected inline segments
+   *
+   * @param segments - Inline content of the paragraph
+   * @param context - Block rendering context
+   * @param properties - Paragraph properties overriding the context
+   * @param force - Emit the paragraph even when it has no content
+   */
+  private renderParagraph(
+    segments: InlineSegment[],
+    context: BlockContext,
+    properties: ParagraphProperties = {},
+    force = false,
+  ): string {
+    const normalized = this.normalizeSegments(segments)
+    const hasContent = normalized.some(segment => segment.kind === "image" || segment.kind === "break" || (segment.kind === "text" && segment.text))
+    const listItem = context.listItem && !context.listItem.used ? context.listItem : undefined
+
+    if (!hasContent && !force) {
+      // Bookmarks without content move on to the next paragraph
+      this.pendingBookmarks.push(...normalized.filter(segment => segment.kind === "bookmark").map(segment => segment.name))
+      return ""
+    }
+
+    const runs: InlineSegment[] = this.pendingBookmarks.map(name => ({ kind: "bookmark" as const, name }))
+    this.pendingBookmarks = []
+
+    let numbering = ""
+    if (listItem) {
+      listItem.used = true
+      if (listItem.numId !== undefined) {
+        numbering = `<w:numPr><w:ilvl w:val="${listItem.level}"/><w:numId w:val="${listItem.numId}"/></w:numPr>`
+      } else if (listItem.marker) {
+        runs.push({ kind: "text", text: `${listItem.marker} `, format: {} })
+      }
+    }
+    runs.push(...normalized)
+
+    const baseStyle = properties.style ?? context.style ?? (context.listLevel >= 0 && this.options.convertLists ? "ListParagraph" : undefined)
+    const align = properties.align ?? context.align
+    const firstLine = !numbering && context.firstLine
+      ? context.firstLine > 0 ? ` w:firstLine="${context.firstLine}"` : ` w:hanging="${-context.firstLine}"`
+      : ""
+    const indent = numbering
+      ? context.indent > 0 ? `<w:ind w:left="${context.indent + INDENT_STEP * (context.listItem!.level + 1)}" w:hanging="360"/>` : ""
+      : context.indent > 0 || context.listLevel >= 0
+        ? `<w:ind w:left="${context.indent + (context.listLevel >= 0 ? INDENT_STEP * (context.listLevel + 1) : 0)}"${firstLine}/>`
+        : firstLine ? `<w:ind${firstLine}/>` : ""
+
+    // Borders and shading from CSS, unless the paragraph draws a rule of its own
+    const cssProperties = properties.border ? "" : this.renderParagraphStyleProperties(context)
+    const namedStyle = this.useNamedStyle("paragraph", baseStyle, cssProperties)
+    const style = namedStyle ?? baseStyle
+
+    const paragraphProperties = [
+      style ? `<w:pStyle w:val="${style}"/>` : "",
+      numbering,
+      properties.border ? "<w:pBdr><w:bottom w:val=\"single\" w:sz=\"6\" w:space=\"1\" w:color=\"auto\"/></w:pBdr>" : "",
+      namedStyle ? "" : cssProperties,
+      indent,
+      align ? `<w:jc w:val="${align}"/>` : "",
+    ].join("")
+
+    return `<w:p>${paragraphProperties ? `<w:pPr>${paragraphProperties}</w:pPr>` : ""}${this.renderRuns(runs)}</w:p>`
+  }
+
+  /**
+   * Collapse whitespace the way HTML renders it and trim paragraph edges
+   */
+  private normalizeSegments(segments: InlineSegment[]): InlineSegment[] {
+    const result: InlineSegment[] = []
+    let atLineStart = true
+
+    const trimTrailing = () => {
+      for (let i = result.length - 1; i >= 0; i--) {
+        const segment = result[i]!
+        if (segment.kind === "bookmark") {
+          continue
+        }
+        if (segment.kind !== "text" || segment.preformatted) {
+          return
+        }
+        segment.text = segment.text.trimEnd()
+        if (segment.text) {
+          return
+        }
+      }
+    }
+
+    for (const segment of segments) {
+      if (segment.kind === "text" && !segment.preformatted) {
+        let text = segment.text.replace(/[ \t\n\r\f]+/g, " ")
+        if (atLineStart && text.startsWith(" ")) {
+          text = text.slice(1)
+        }
+        if (text) {
+          atLineStart = text.endsWith(" ")
+          result.push({ ...segment, text })
+        }
+      } else if (segment.kind === "break") {
+        trimTrailing()
+        result.push(segment)
+        atLineStart = true
+      } else {
+        result.push(segment)
+        if (segment.kind !== "bookmark") {
+          atLineStart = false
+        }
+      }
+    }
+    trimTrailing()
+
+    return result.filter(segment => segment.kind !== "text" || segment.text)
+  }
+
+  /**
+   * Render segments as runs, grouping consecutive linked segments into hyperlinks
+   */
+  private renderRuns(segments: InlineSegment[]): string {
+    let xml = ""
+    let index = 0
+
+    while (index < segments.length) {
+      const link = segments[index]!.link
+      let end = index + 1
+      if (link) {
+        while (end < segments.length && segments[end]!.link === link) {
+          end++
+        }
+      }
+
+      const runs = segments.slice(index, end).map(segment => this.renderRun(segment, !!link)).join("")
+      if (!link) {
+        xml += runs
+      } else if (link.relationshipId) {
+        xml += `<w:hyperlink r:id="${link.relationshipId}" w:history="1">${runs}</w:hyperlink>`
+      } else {
+        xml += `<w:hyperlink w:anchor="${escapeXML(link.anchor!)}" w:history="1">${runs}</w:hyperlink>`
+      }
+      index = end
+    }
+
+    return xml
+  }
+
+  private renderRun(segment: InlineSegment, hyperlink: boolean): string {
+    switch (segment.kind) {
+      case "bookmark": {
+        const id = this.bookmarkCount++
+        return `<w:bookmarkStart w:id="${id}" w:name="${escapeXML(segment.name)}"/><w:bookmarkEnd w:id="${id}"/>`
+      }
+      case "break":
+        return "<w:r><w:br/></w:r>"
+      case "image":
+        return segment.xml
+      case "text": {
+        const content = segment.text
+          .split(/(\t|\n)/)
+          .map((part) => {
+            if (part === "\t") {
+              return "<w:tab/>"
+            }
+            if (part === "\n") {
+              return "<w:br/>"
+            }
+            return part ? `<w:t xml:space="preserve">${escapeXML(part)}</w:t>` : ""
+          })
+          .join("")
+        return `<w:r>${this.renderRunProperties(segment.format, hyperlink)}${content}</w:r>`
+      }
+    }
+  }
+
+  private renderRunProperties(format: RunFormat, hyperlink: boolean): string {
+    // CSS formatting, shared through a character style when the combination repeats
+    const style = format.style ?? {}
+    const css = {
+      font: style.font && !format.code ? this.renderFonts(style.font) : "",
+      color: style.color && !format.color ? `<w:color w:val="${style.color}"/>` : "",
+      size: style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : "",
+      shading: style.background ? `<w:shd w:val="clear" w:color="auto" w:fill="${style.background}"/>` : "",
+    }
+    const namedStyle = hyperlink ? undefined : this.useNamedStyle("character", undefined, css.font + css.color + css.size + css.shading)
+    const direct = namedStyle ? { font: "", color: "", size: "", shading: "" } : css
+
+    const properties = [
+      hyperlink ? "<w:rStyle w:val=\"Hyperlink\"/>" : namedStyle ? `<w:rStyle w:val="${namedStyle}"/>` : "",
+      format.code ? this.renderFonts(MONOSPACE_FONT) : direct.font,
+      format.bold ? "<w:b/><w:bCs/>" : format.bold === false ? "<w:b w:val=\"0\"/><w:bCs w:val=\"0\"/>" : "",
+      format.italic ? "<w:i/><w:iCs/>" : format.italic === false ? "<w:i w:val=\"0\"/><w:iCs w:val=\"0\"/>" : "",
+      format.strike ? "<w:strike/>" : "",
+      format.color ? `<w:color w:val="${format.color}"/>` : direct.color,
+      direct.size,
+      format.underline ? "<w:u w:val=\"single\"/>" : "",
+      direct.shading,
+      format.vertAlign ? `<w:vertAlign w:val="${format.vertAlign}"/>` : "",
+    ].join("")
+    return properties ? `<w:rPr>${properties}</w:rPr>` : ""
+  }
+
+  private renderFonts(font: string): string {
+    const name = escapeXML(font)
+    return `<w:rFonts w:ascii="${name}" w:hAnsi="${name}" w:cs="${name}"/>`
+  }
+
+  /**
+   * Render the paragraph borders and shading taken from CSS
+   */
+  private renderParagraphStyleProperties(context: BlockContext): string {
+    const borders = (["top", "left", "bottom", "right"] as const)
+      .map((side) => {
+        const border = context.borders?.[side]
+        return border ? `<w:${side} w:val="${border.type}" w:sz="${border.size}" w:space="4" w:color="${border.color}"/>` : ""
+      })
+      .join("")
+    return (borders ? `<w:pBdr>${borders}</w:pBdr>` : "")
+      + (context.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${context.shading}"/>` : "")
+  }
+
+  /**
+   * Get the named style for a formatting combination used repeatedly
+   *
+   * While counting, records the use and returns undefined so the formatting is
+   * rendered directly; afterwards, combinations used often enough get a style.
+   */
+  private useNamedStyle(type: DOCXStyleDefinition["type"], basedOn: string | undefined, properties: string): string | undefined {
+    if (!properties) {
+      return undefined
+    }
+
+    const key = `${type}:${basedOn ?? ""}:${properties}`
+    const uses = this.styleUsage.get(key) ?? 0
+    if (this.countingStyles) {
+      this.styleUsage.set(key, uses + 1)
+      return undefined
+    }
+    if (uses < NAMED_STYLE_MIN_USES) {
+      return undefined
+    }
+
+    let definition = this.styleDefinitions.get(key)
+    if (!definition) {
+      const label = type === "paragraph" ? "Paragraph" : "Character"
+      const index = Array.from(this.styleDefinitions.values()).filter(style => style.type === type).length + 1
+      definition = {
+        id: `CSS${label}${index}`,
+        name: `CSS ${label} ${index}`,
+        type,
+        basedOn: basedOn ?? (type === "paragraph" ? "Normal" : "DefaultParagraphFont"),
+        properties: type === "paragraph" ? `<w:pPr>${properties}</w:pPr>` : `<w:rPr>${properties}</w:rPr>`,
+      }
+      this.styleDefinitions.set(key, definition)
+    }
+    return definition.id
+  }
+
+  /**
+   * Apply the CSS of a block element to the context its content is rendered in
+   */
+  private applyBlockStyle(node: DOMSnapshotNode, context: BlockContext): BlockContext {
+    if (!this.options.preserveStyle) {
+      return context
+    }
+
+    const css = mapCSSFormatting(readElementStyle(node))
+    const indent = STRUCTURALLY_INDENTED_TAGS.has(node.tag!) ? 0 : Math.min(css.indent ?? 0, Math.max(0, context.width - INDENT_STEP))
+    return {
+      ...context,
+      indent: context.indent + indent,
+      width: context.width - indent,
+      format: this.mergeCSSFormat(context.format, css, false),
+      align: css.align ?? context.align,
+      firstLine: css.firstLine ?? context.firstLine,
+      shading: css.background ?? context.shading,
+      borders: css.borders ?? context.borders,
+    }
+  }
+
+  /**
+   * Apply the CSS of an inline element to the formatting of its content
+   */
+  private applyInlineStyle(node: DOMSnapshotNode, format: RunFormat): RunFormat {
+    return this.options.preserveStyle ? this.mergeCSSFormat(format, mapCSSFormatting(readElementStyle(node)), true) : format
+  }
+
+  /**
+   * Merge CSS formatting into run formatting; backgrounds of inline elements shade their runs
+   */
+  private mergeCSSFormat(format: RunFormat, css: CSSFormatting, inline: boolean): RunFormat {
+    const style: RunStyle = { ...format.style }
+    style.font = css.font ?? style.font
+    style.size = css.size ?? style.size
+    style.color = css.color ?? style.color
+    if (inline) {
+      style.background = css.background ?? style.background
+    }
+    const defined = Object.fromEntries(Object.entries(style).filter(([, value]) => value !== undefined)) as RunStyle
+
+    return {
+      ...format,
+      bold: css.bold ?? format.bold,
+      italic: css.italic ?? format.italic,
+      underline: css.underline || format.underline,
+      strike: css.strike || format.strike,
+      style: Object.keys(defined).length > 0 ? defined : undefined,
+    }
+  }
+
+  /**
+   * Render preformatted code as monospaced runs, colored by token when the language is known
+   */
+  private renderCodeBlock(node: DOMSnapshotNode, context: BlockContext): string[] {
+    const text = getSnapshotText(node).replace(/\r\n?/g, "\n").replace(/\n$/, "")
+    const segments: InlineSegment[] = []
+    for (const token of tokenizeCode(text, detectCodeLanguage(node))) {
+      const format: RunFormat = { code: true, color: CODE_TOKEN_COLORS[token.kind] }
+      token.text.split("\n").forEach((line, index) => {
+        if (index > 0) {
+          segments.push({ kind: "break" })
+        }
+        if (line) {
+          segments.push({ kind: "text", text: line, format, preformatted: true })
+        }
+      })
+    }
+    return [this.renderParagraph(segments, context, { style: "SourceCode" }, true)]
+  }
+
+  private renderList(node: DOMSnapshotNode, context: BlockContext): string[] {
+    const ordered = node.tag === "ol"
+    const level = Math.min(context.listLevel + 1, 8)
+    const start = Number.parseInt(node.attributes?.start ?? "1", 10)
+    let number = Number.isNaN(start) ? 1 : start
+
+    let numId: number | undefined
+    if (this.options.convertLists) {
+      numId = this.lists.length + 1
+      this.lists.push({ numId, kind: ordered ? "decimal" : "bullet", level, start: number })
+    }
+
+    const blocks: string[] = []
+    for (const child of node.children ?? []) {
+      if (child.type !== DOMSnapshotNodeType.ELEMENT) {
+        continue
+      }
+
+      if (child.tag === "ul" || child.tag === "ol") {
+        // Lists nested directly in a list belong to the previous item
+        blocks.push(...this.renderList(child, { ...context, listLevel: level, listItem: undefined }))
+        continue
+      }
+
+      this.queueBookmark(child)
+      const listItem: ListItemState = {
+        numId,
+        level,
+        marker: numId === undefined ? (ordered ? `${number}.` : "•") : undefined,
+        used: false,
+      }
+      const itemContext: BlockContext = this.applyBlockStyle(child, {
+        ...context,
+        width: context.width - INDENT_STEP,
+        listLevel: level,
+        listItem,
+      })
+
+      const itemBlocks = child.tag === "li"
+        ? this.renderBlocks(child.children ?? [], itemContext)
+        : this.renderBlock(child, itemContext)
+      if (!listItem.used) {
+        itemBlocks.unshift(this.renderParagraph([], itemContext, {}, true))
+      }
+      blocks.push(...itemBlocks)
+      number++
+    }
+
+    return blocks
+  }
+
+  private renderTable(node: DOMSnapshotNode, context: BlockContext): string[] {
+    const blocks: string[] = []
+    const caption = findSnapshotElement(node, "caption")
+    if (caption) {
+      blocks.push(...this.renderInlineBlock(caption, context, { style: "Caption" }))
+    }
+
+    const label = `Table ${++this.tableCount}`
+    const { rows, columnCount } = this.layoutTable(node, label)
+    if (rows.length === 0) {
+      return blocks
+    }
+
+    const { widths, measured } = this.computeColumnWidths(node, rows, columnCount, Math.max(context.width, INDENT_STEP), label)
+    const rowsXML = rows.map(({ header, slots }) => {
+      const cellsXML: string[] = []
+      let column = 0
+      const padTo = (end: number) => {
+        for (; column < end; column++) {
+          cellsXML.push(this.renderTableCell([], widths[column]!, 1, ""))
+        }
+      }
+
+      for (const slot of slots) {
+        padTo(slot.column)
+        const width = widths.slice(slot.column, slot.column + slot.columnSpan).reduce((sum, columnWidth) => sum + columnWidth, 0)
+        const properties = this.renderCellProperties(slot, context)
+        if (slot.continuation) {
+          cellsXML.push(this.renderTableCell([], width, slot.columnSpan, `<w:vMerge/>${properties}`))
+        } else {
+          const cell = slot.cell
+          const cellContext: BlockContext = {
+            ...this.applyBlockStyle(cell, {
+              indent: 0,
+              width,
+              format: cell.tag === "th" ? { ...context.format, bold: true } : context.format,
+              align: this.getAlignment(cell) ?? (cell.tag === "th" ? "center" : undefined),
+              listLevel: -1,
+            }),
+            // Cell backgrounds and borders belong to the cell, not to its paragraphs
+            shading: undefined,
+            borders: undefined,
+          }
+          const merge = slot.rowSpan > 1 ? "<w:vMerge w:val=\"restart\"/>" : ""
+          cellsXML.push(this.renderTableCell(this.renderBlocks(cell.children ?? [], cellContext), width, slot.columnSpan, merge + properties))
+        }
+        column = slot.column + slot.columnSpan
+      }
+      padTo(columnCount)
+
+      return `<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cellsXML.join("")}</w:tr>`
+    })
+
+    const tableWidth = widths.reduce((sum, width) => sum + width, 0)
+    const indent = context.indent > 0 ? `<w:tblInd w:w="${context.indent}" w:type="dxa"/>` : ""
+    const layout = measured ? "<w:tblLayout w:type=\"fixed\"/>" : ""
+    blocks.push(
+      `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${tableWidth}" w:type="dxa"/>${indent}${layout}</w:tblPr>`
+      + `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join("")}</w:tblGrid>`
+      + `${rowsXML.join("")}</w:tbl>`,
+    )
+    return blocks
+  }
+
+  /**
+   * Place the cells of a table on a grid, following the HTML table model
+   *
+   * Header rows are the rows of the table head, or without one the leading rows
+   * made of header cells only. Cells overlapping a cell that spans rows from above
+   * are narrowed, and cells beyond the last column Word supports are left out.
+   */
+  private layoutTable(table: DOMSnapshotNode, label: string): { rows: TableRowLayout[], columnCount: number } {
+    const rows: TableRowLayout[] = []
+    const groups = this.collectTableRowGroups(table)
+    const hasHead = groups[0]?.kind === "head"
+    let columnCount = 0
+    let leadingHeader = true
+    let overlapping = false
+    let truncated = false
+
+    for (const group of groups) {
+      // Cells spanning rows from above, by the columns they cover
+      const spanning: Array<{ slot: TableSlot, remaining: number } | undefined> = []
+      const isCovered = (column: number) => (spanning[column]?.remaining ?? 0) > 0
+
+      group.rows.forEach((row, rowIndex) => {
+        const cells = this.getTableCells(row)
+        const slots: TableSlot[] = []
+        let column = 0
+
+        for (const cell of cells) {
+          while (isCovered(column)) {
+            column++
+          }
+          if (column >= MAX_TABLE_COLUMNS) {
+            truncated = true
+            break
+          }
+
+          const requested = this.getColumnSpan(cell)
+          let columnSpan = 0
+          while (columnSpan < requested && column + columnSpan < MAX_TABLE_COLUMNS && !isCovered(column + columnSpan)) {
+            columnSpan++
+          }
+          if (columnSpan < requested) {
+            if (column + columnSpan >= MAX_TABLE_COLUMNS) {
+              truncated = true
+            } else {
+              overlapping = true
+            }
+          }
+
+          // A row span of 0 extends to the end of the row group
+          const remainingRows = group.rows.length - rowIndex
+          const rowSpan = Math.min(this.getRowSpan(cell) || remainingRows, remainingRows)
+          slots.push({ cell, row, column, columnSpan, rowSpan, continuation: false })
+          column += columnSpan
+        }
+
+        const continuing = new Set(spanning.filter(entry => entry && entry.remaining > 0))
+        for (const entry of continuing) {
+          slots.push({ ...entry!.slot, continuation: true })
+          entry!.remaining--
+        }
+        for (const slot of slots) {
+          if (!slot.continuation && slot.rowSpan > 1) {
+            const entry = { slot, remaining: slot.rowSpan - 1 }
+            for (let index = slot.column; index < slot.column + slot.columnSpan; index++) {
+              spanning[index] = entry
+            }
+          }
+        }
+        slots.sort((a, b) => a.column - b.column)
+
+        const header = leadingHeader && (hasHead
+          ? group.kind === "head"
+          : cells.length > 0 && cells.every(cell => cell.tag === "th"))
+        leadingHeader = header
+        rows.push({ header, slots })
+        columnCount = Math.max(columnCount, ...slots.map(slot => slot.column + slot.columnSpan))
+      })
+    }
+
+    if (truncated) {
+      this.warnings.push(`${label} has more than ${MAX_TABLE_COLUMNS} columns, the most Word supports; cells beyond them were left out`)
+    }
+    if (overlapping) {
+      this.warnings.push(`${label} has overlapping cells; cells overlapping a cell that spans rows were narrowed`)
+    }
+    return { rows, columnCount: Math.max(1, columnCount) }
+  }
+
+  /**
+   * Compute the grid column widths (twips)
+   *
+   * Widths come from the layout rendered in Chrome, scaled so the table takes the
+   * same share of the page as of its container, or else from the widths declared
+   * on columns and cells. Tables without any widths split the page evenly.
+   */
+  private computeColumnWidths(
+    table: DOMSnapshotNode,
+    rows: TableRowLayout[],
+    columnCount: number,
+    available: number,
+    label: string,
+  ): { widths: number[], measured: boolean } {
+    const layout = readTableLayout(table)
+    const widths = layout ? Array.from<number | undefined>({ length: columnCount }) : this.collectColumnWidths(table, columnCount, available)
+
+    // Single column cells first, so spanning cells only share out what is left
+    const cells = rows.flatMap(row => row.slots).filter(slot => !slot.continuation).sort((a, b) => a.columnSpan - b.columnSpan)
+    for (const slot of cells) {
+      const layoutWidth = layout ? readLayoutWidth(slot.cell) : undefined
+      const width = layoutWidth ? layoutWidth * TWIPS_PER_PIXEL : layout ? undefined : this.getDeclaredWidth(slot.cell, available)
+      const columns = Array.from({ length: slot.columnSpan }, (_, index) => slot.column + index)
+      const unknown = columns.filter(column => widths[column] === undefined)
+      if (width === undefined || unknown.length === 0) {
+        continue
+      }
+      const share = (width - columns.reduce((sum, column) => sum + (widths[column] ?? 0), 0)) / unknown.length
+      if (share > 0) {
+        unknown.forEach(column => widths[column] = share)
+      }
+    }
+
+    const unknownCount = widths.filter(width => width === undefined).length
+    if (unknownCount === columnCount) {
+      return { widths: Array.from({ length: columnCount }, () => Math.floor(available / columnCount)), measured: false }
+    }
+
+    const knownTotal = widths.reduce<number>((sum, width) => sum + (width ?? 0), 0)
+    const natural = layout ? layout.width * TWIPS_PER_PIXEL : available
+    const fill = unknownCount > 0 ? Math.max(MIN_COLUMN_WIDTH, (natural - knownTotal) / unknownCount) : 0
+    const resolved = widths.map(width => width ?? fill)
+    const total = resolved.reduce((sum, width) => sum + width, 0)
+
+    const overflowing = layout ? layout.width > layout.containerWidth * 1.01 : total > available * 1.01
+    if (overflowing) {
+      this.warnings.push(`${label} is wider than the page; its columns were narrowed to fit`)
+    }
+    const target = layout ? Math.min(available, available * layout.width / layout.containerWidth) : Math.min(total, available)
+    return { widths: resolved.map(width => Math.max(1, Math.floor(width * target / total))), measured: true }
+  }
+
+  /**
+   * Read the widths declared on col and colgroup elements (twips)
+   */
+  private collectColumnWidths(table: DOMSnapshotNode, columnCount: number, available: number): Array<number | undefined> {
+    const widths: Array<number | undefined> = []
+    // A span attribute repeats the width over that many columns
+    const addColumns = (node: DOMSnapshotNode, width: number | undefined) => {
+      widths.push(...Array.from({ length: this.getSpan(node.attributes?.span, 1000) }, () => width))
+    }
+
+    for (const child of table.children ?? []) {
+      if (child.tag === "col") {
+        addColumns(child, this.getDeclaredWidth(child, available))
+      } else if (child.tag === "colgroup") {
+        const columns = (child.children ?? []).filter(column => column.tag === "col")
+        const groupWidth = this.getDeclaredWidth(child, available)
+        if (columns.length === 0) {
+          addColumns(child, groupWidth)
+        }
+        for (const column of columns) {
+          addColumns(column, this.getDeclaredWidth(column, available) ?? groupWidth)
+        }
+      }
+    }
+    return Array.from({ length: columnCount }, (_, index) => widths[index])
+  }
+
+  /**
+   * Read the width declared by an element's inline style or width attribute (twips)
+   */
+  private getDeclaredWidth(node: DOMSnapshotNode, available: number): number | undefined {
+    const style = node.attributes?.style ? parseStyleDeclarations(node.attributes.style).width : undefined
+    const match = (style ?? node.attributes?.width)?.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)(px|%)?$/)
+    const value = match ? Number.parseFloat(match[1]!) : 0
+    if (!match || value <= 0) {
+      return undefined
+    }
+    return match[2] === "%" ? available * value / 100 : value * TWIPS_PER_PIXEL
+  }
+
+  /**
+   * Render cell borders and shading from the cell's CSS; the background falls back to the row's and the table's
+   */
+  private renderCellProperties(slot: TableSlot, context: BlockContext): string {
+    if (!this.options.preserveStyle) {
+      return ""
+    }
+
+    const css = mapCSSFormatting(readElementStyle(slot.cell))
+    const background = css.background
+      ?? parseCSSColor(slot.cell.attributes?.bgcolor)
+      ?? mapCSSFormatting(readElementStyle(slot.row)).background
+      ?? parseCSSColor(slot.row.attributes?.bgcolor)
+      ?? context.shading
+    const borders = (["top", "left", "bottom", "right"] as const)
+      .map((side) => {
+        const border = css.borders?.[side]
+        return border ? `<w:${side} w:val="${border.type}" w:sz="${border.size}" w:space="0" w:color="${border.color}"/>` : ""
+      })
+      .join("")
+
+    return (borders ? `<w:tcBorders>${borders}</w:tcBorders>` : "")
+      + (background ? `<w:shd w:val="clear" w:color="auto" w:fill="${background}"/>` : "")
+  }
+
+  private renderTableCell(blocks: string[], width: number, span: number, properties: string): string {
+    // A cell must end with a paragraph
+    if (blocks.length === 0 || !blocks[blocks.length - 1]!.startsWith("<w:p")) {
+      blocks.push("<w:p/>")
+    }
+    const gridSpan = span > 1 ? `<w:gridSpan w:val="${span}"/>` : ""
+    return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${gridSpan}${properties}</w:tcPr>${blocks.join("")}</w:tc>`
+  }
+
+  /**
+   * Render table rows as paragraphs with tab separated cells
+   */
+  private renderTableAsText(node: DOMSnapshotNode, context: BlockContext): string[] {
+    const blocks: string[] = []
+    const caption = findSnapshotElement(node, "caption")
+    if (caption) {
+      blocks.push(...this.renderInlineBlock(caption, context, { style: "Caption" }))
+    }
+
+    for (const row of this.collectTableRows(node)) {
+      const segments: InlineSegment[] = []
+      this.getTableCells(row).forEach((cell, index) => {
+        if (index > 0) {
+          segments.push({ kind: "text", text: "\t", format: {}, preformatted: true })
+        }
+        const format = cell.tag === "th" ? { ...context.format, bold: true } : context.format
+        for (const child of cell.children ?? []) {
+          this.collectInline(child, format, undefined, segments, context.width)
+        }
+      })
+      const paragraph = this.renderParagraph(segments, context)
+      if (paragraph) {
+        blocks.push(paragraph)
+      }
+    }
+
+    return blocks
+  }
+
+  private collectTableRows(table: DOMSnapshotNode): DOMSnapshotNode[] {
+    return this.collectTableRowGroups(table).flatMap(group => group.rows)
+  }
+
+  /**
+   * Collect the row groups of a table in display order: the head first and the foot last
+   */
+  private collectTableRowGroups(table: DOMSnapshotNode): TableRowGroup[] {
+    let head: TableRowGroup | undefined
+    let foot: TableRowGroup | undefined
+    const bodies: TableRowGroup[] = []
+    let implicitBody: TableRowGroup | undefined
+
+    for (const child of table.children ?? []) {
+      if (child.tag === "tr") {
+        if (!implicitBody) {
+          implicitBody = { kind: "body", rows: [] }
+          bodies.push(implicitBody)
+        }
+        implicitBody.rows.push(child)
+      } else if (child.tag === "thead" || child.tag === "tbody" || child.tag === "tfoot") {
+        implicitBody = undefined
+        const rows = (child.children ?? []).filter(row => row.tag === "tr")
+        if (child.tag === "thead" && !head) {
+          head = { kind: "head", rows }
+        } else if (child.tag === "tfoot" && !foot) {
+          foot = { kind: "foot", rows }
+        } else {
+          bodies.push({ kind: "body", rows })
+        }
+      }
+    }
+
+    return [head, ...bodies, foot].filter((group): group is TableRowGroup => !!group && group.rows.length > 0)
+  }
+
+  private getTableCells(row: DOMSnapshotNode): DOMSnapshotNode[] {
+    return (row.children ?? []).filter(cell => cell.tag === "td" || cell.tag === "th")
+  }
+
+  private getColumnSpan(cell: DOMSnapshotNode): number {
+    return this.getSpan(cell.attributes?.colspan, MAX_TABLE_COLUMNS)
+  }
+
+  /**
+   * Get the row span of a cell, 0 meaning the rest of its row group
+   */
+  private getRowSpan(cell: DOMSnapshotNode): number {
+    const span = Number.parseInt(cell.attributes?.rowspan ?? "1", 10)
+    return span === 0 ? 0 : this.getSpan(cell.attributes?.rowspan, 65534)
+  }
+
+  private getSpan(value: string | undefined, max: number): number {
+    const span = Number.parseInt(value ?? "1", 10)
+    return Number.isNaN(span) || span < 1 ? 1 : Math.min(span, max)
+  }
+
+  private getAlignment(node: DOMSnapshotNode): Alignment | undefined {
+    const style = node.attributes?.style?.match(/text-align\s*:\s*(\w+)/i)?.[1]
+    const value = (node.attributes?.align ?? style)?.toLowerCase()
+    switch (value) {
+      case "left":
+      case "start":
+        return "left"
+      case "center":
+        return "center"
+      case "right":
+      case "end":
+        return "right"
+      case "justify":
+        return "both"
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Render an inline picture, scaled to fit the available width
+   */
+  private renderDrawing(node: DOMSnapshotNode, url: string, image: DOCXImage, availableWidth: number): string {
+    const relationshipId = this.getImageRelationship(url, image)
+
+    const attributeWidth = Number.parseFloat(node.attributes?.width ?? "")
+    const attributeHeight = Number.parseFloat(node.attributes?.height ?? "")
+    let width = image.width || 1
+    let height = image.height || 1
+    if (attributeWidth > 0 && attributeHeight > 0) {
+      width = attributeWidth
+      height = attributeHeight
+    } else if (attributeWidth > 0) {
+      height = height * attributeWidth / width
+      width = attributeWidth
+    } else if (attributeHeight > 0) {
+      width = width * attributeHeight / height
+      height = attributeHeight
+    }
+
+    const maxWidth = Math.max(1, availableWidth / TWIPS_PER_PIXEL)
+    if (width > maxWidth) {
+      height = height * maxWidth / width
+      width = maxWidth
+    }
+
+    const cx = Math.max(1, Math.round(width * EMU_PER_PIXEL))
+    const cy = Math.max(1, Math.round(height * EMU_PER_PIXEL))
+    const id = ++this.drawingCount
+    const name = `Picture ${id}`
+    const description = escapeXML(node.attributes?.alt ?? "")
+
+    return "<w:r><w:drawing>"
+      + "<wp:inline distT=\"0\" distB=\"0\" distL=\"0\" distR=\"0\">"
+      + `<wp:extent cx="${cx}" cy="${cy}"/>`
+      + `<wp:docPr id="${id}" name="${name}" descr="${description}"/>`
+      + "<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect=\"1\"/></wp:cNvGraphicFramePr>"
+      + "<a:graphic><a:graphicData uri=\"http://schemas.openxmlformats.org/drawingml/2006/picture\">"
+      + `<pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${name}" descr="${description}"/><pic:cNvPicPr/></pic:nvPicPr>`
+      + `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+      + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+      + "</pic:pic></a:graphicData></a:graphic>"
+      + "</wp:inline></w:drawing></w:r>"
+  }
+
+  private getImageRelationship(url: string, image: DOCXImage): string {
+    let relationshipId = this.imageRelationships.get(url)
+    if (!relationshipId) {
+      const index = this.media.length + 1
+      const path = `media/image${index}.${image.extension}`
+      relationshipId = `rIdImage${index}`
+      this.media.push({ path, contentType: image.contentType, data: image.data })
+      this.relationships.push({ id: relationshipId, type: "image", target: path })
+      this.imageRelationships.set(url, relationshipId)
+    }
+    return relationshipId
+  }
+
+  /**
+   * Resolve the hyperlink target of a link element
+   */
+  private resolveLink(node: DOMSnapshotNode): LinkTarget | undefined {
+    const href = node.attributes?.href?.trim()
+    if (!this.options.preserveLinks || !href || /^javascript:/i.test(href)) {
+      return undefined
+    }
+
+    if (href.startsWith("#")) {
+      return href.length > 1 ? { anchor: this.toBookmarkName(decodeURIComponent(href.slice(1))) } : undefined
+    }
+
+    const url = this.resolveURL(href)
+    let relationshipId = this.linkRelationships.get(url)
+    if (!relationshipId) {
+      relationshipId = `rIdLink${this.linkRelationships.size + 1}`
+      this.relationships.push({ id: relationshipId, type: "hyperlink", target: url })
+      this.linkRelationships.set(url, relationshipId)
+    }
+    return { relationshipId }
+  }
+
+  /**
+   * Collect element ids referenced by in-document links
+   */
+  private collectAnchorTargets(root: DOMSnapshotNode): Set<string> {
+    const targets = new Set<string>()
+    if (!this.options.preserveLinks) {
+      return targets
+    }
+
+    const visit = (node: DOMSnapshotNode) => {
+      const href = node.tag === "a" ? node.attributes?.href?.trim() : undefined
+      if (href?.startsWith("#") && href.length > 1) {
+        targets.add(decodeURIComponent(href.slice(1)))
+      }
+      node.children?.forEach(visit)
+    }
+    visit(root)
+
+    return targets
+  }
+
+  /**
+   * Queue a bookmark for the next paragraph when a block element is a link target
+   */
+  private queueBookmark(node: DOMSnapshotNode): void {
+    const id = node.attributes?.id
+    if (id && this.anchorTargets.has(id)) {
+      this.pendingBookmarks.push(this.toBookmarkName(id))
+    }
+  }
+
+  /**
+   * Convert an element id into a valid Word bookmark name
+   */
+  private toBookmarkName(id: string): string {
+    const name = id.replace(/\W/g, "_")
+    return (/^[a-z]/i.test(name) ? name : `_${name}`).slice(0, 40)
+  }
+
+  private applyBaseElement(root: DOMSnapshotNode): void {
+    const baseHref = findSnapshotElement(root, "base")?.attributes?.href
+    if (baseHref) {
+      this.baseURL = this.resolveURL(baseHref)
+    }
+  }
+
+  private resolveURL(url: string): string {
+    if (!this.baseURL) {
+      return url
+    }
+    try {
+      return new URL(url, this.baseURL).href
+    } catch {
+      return url
+    }
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * DOCX Headers and Footers - Renders header and footer templates as WordprocessingML paragraphs
+ * Templates are small HTML fragments or plain text; page placeholders become Word fields
+ */
+
+import { parseStyleDeclarations } from "../../core/engine/computed-styles.js"
+import { decodeEntities, escapeXML } from "../xml.js"
+
+import { mapCSSFormatting } from "./css-formatting.js"
+
+/**
+ * Values substituted for the text placeholders of a template
+ */
+export interface HeaderFooterFields {
+  title?: string
+  url?: string
+  /** Date written for {date}, as YYYY-MM-DD */
+  date: Date
+}
+
+/**
+ * Paragraph style of header or footer paragraphs
+ */
+export type HeaderFooterStyle = "Header" | "Footer"
+
+const TAG = /<(\/?)([a-z][\w-]*)([\s/](?:[^>"']|"[^"]*"|'[^']*')*)?>|<!--[\s\S]*?-->/gi
+
+const PLACEHOLDER = /\{(title|url|date|page|pages)\}/
+
+/**
+ * Word fields replacing page placeholders
+ */
+const PAGE_FIELDS: Record<string, string> = { page: "PAGE", pages: "NUMPAGES" }
+
+const BLOCK_TAGS = new Set(["address", "article", "blockquote", "div", "footer", "h1", "h2", "h3", "h4", "h5", "h6", "header", "li", "p", "section", "tr"])
+
+const SKIPPED_TAGS = new Set(["script", "style", "template", "title"])
+
+interface RunFormat {
+  font?: string
+  /** Font size in half-points */
+  size?: number
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  color?: string
+}
+
+type Segment
+  = | { kind: "text", text: string, format: RunFormat }
+    | { kind: "field", instruction: string, format: RunFormat }
+    | { kind: "tab", format: RunFormat }
+    | { kind: "break" }
+
+interface TemplateParagraph {
+  align?: string
+  segments: Segment[]
+}
+
+interface OpenElement {
+  tag: string
+  format: RunFormat
+  align?: string
+}
+
+/**
+ * Render a header or footer template as paragraphs
+ *
+ * HTML templates keep paragraphs, alignment, bold, italics, underline, strikethrough
+ * and inline font styles. In plain text templates each line is a paragraph and tabs
+ * move to the center and right tab stops of the header and footer styles.
+ *
+ * @param template - HTML or plain text with {title}, {url}, {date}, {page} and {pages} placeholders
+ * @param fields - Values of the text placeholders
+ * @param style - Paragraph style applied to every paragraph
+ * @returns Paragraph elements, at least one
+ */
+export function renderHeaderFooter(template: string, fields: HeaderFooterFields, style: HeaderFooterStyle): string {
+  const paragraphs = /<[a-z/!]/i.test(template) ? parseHTMLTemplate(template, fields) : parseTextTemplate(template, fields)
+  const rendered = paragraphs.map(paragraph => renderParagraph(paragraph, style))
+  return rendered.length > 0 ? rendered.join("") : `<w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr></w:p>`
+}
+
+// Private helpers
+
+function parseTextTemplate(template: string, fields: HeaderFooterFields): TemplateParagraph[] {
+  return template.split(/\r?\n/).map(line => ({
+    segments: line.split("\t").flatMap((text, index) => [
+      ...(index > 0 ? [{ kind: "tab", format: {} } as const] : []),
+      ...fillPlaceholders(text, {}, fields),
+    ]),
+  }))
+}
+
+function parseHTMLTemplate(template: string, fields: HeaderFooterFields): TemplateParagraph[] {
+  const paragraphs: TemplateParagraph[] = []
+  const stack: OpenElement[] = [{ tag: "", format: {} }]
+  let paragraph: TemplateParagraph = { segments: [] }
+
+  const current = () => stack[stack.length - 1]!
+  const flush = () => {
+    if (trimParagraph(paragraph)) {
+      paragraphs.push(paragraph)
+    }
+    paragraph = { align: current().align, segments: [] }
+  }
+  const appendText = (raw: string) => {
+    let text = decodeEntities(raw).replace(/\s+/g, " ")
+    const previous = paragraph.segments[paragraph.segments.length - 1]
+    if (!previous || previous.kind === "break" || (previous.kind === "text" && previous.text.endsWith(" "))) {
+      text = text.trimStart()
+    }
+    if (text) {
+      paragraph.segments.push(...fillPlaceholders(text, current().format, fields))
+    }
+  }
+
+  let position = 0
+  TAG.lastIndex = 0
+  for (let match = TAG.exec(template); match; match = TAG.exec(template)) {
+    appendText(template.slice(position, match.index))
+    position = TAG.lastIndex
+
+    const tag = match[2]?.toLowerCase()
+    if (!tag) {
+      continue
+    }
+    if (match[1]) {
+      const index = stack.findLastIndex(element => element.tag === tag)
+      if (index > 0) {
+        stack.length = index
+        if (BLOCK_TAGS.has(tag)) {
+          flush()
+        }
+      }
+      continue
+    }
+
+    if (tag === "br") {
+      paragraph.segments.push({ kind: "break" })
+      continue
+    }
+    if (SKIPPED_TAGS.has(tag)) {
+      const end = template.toLowerCase().indexOf(`</${tag}`, position)
+      position = end < 0 ? template.length : end
+      TAG.lastIndex = position
+      continue
+    }
+
+    const attributes = match[3] ?? ""
+    const css = mapCSSFormatting(parseStyleDeclarations(readAttribute(attributes, "style") ?? ""))
+    const parent = current()
+    const element: OpenElement = {
+      tag,
+      format: {
+        ...parent.format,
+        font: css.font ?? parent.format.font,
+        size: css.size ?? parent.format.size,
+        color: css.color ?? parent.format.color,
+        bold: tag === "b" || tag === "strong" || /^h[1-6]$/.test(tag) ? css.bold ?? true : css.bold ?? parent.format.bold,
+        italic: tag === "i" || tag === "em" ? css.italic ?? true : css.italic ?? parent.format.italic,
+        underline: tag === "u" || css.underline || parent.format.underline,
+        strike: tag === "s" || tag === "del" || tag === "strike" || css.strike || parent.format.strike,
+      },
+      align: css.align ?? parseAlignment(readAttribute(attributes, "align")) ?? parent.align,
+    }
+
+    if (BLOCK_TAGS.has(tag)) {
+      flush()
+      paragraph.align = element.align
+    }
+    if (!attributes.endsWith("/")) {
+      stack.push(element)
+    }
+  }
+  appendText(template.slice(position))
+  flush()
+
+  return paragraphs
+}
+
+/**
+ * Split text at its placeholders, substituting text values and page fields
+ */
+function fillPlaceholders(text: string, format: RunFormat, fields: HeaderFooterFields): Segment[] {
+  const values: Record<string, string> = {
+    title: fields.title ?? "",
+    url: fields.url ?? "",
+    date: fields.date.toISOString().slice(0, 10),
+  }
+
+  // Split with a capturing group: odd entries are placeholder names
+  return text.split(PLACEHOLDER).flatMap((part, index): Segment[] => {
+    if (index % 2 === 0) {
+      return part ? [{ kind: "text", text: part, format }] : []
+    }
+    return PAGE_FIELDS[part]
+      ? [{ kind: "field", instruction: PAGE_FIELDS[part], format }]
+      : values[part] ? [{ kind: "text", text: values[part], format }] : []
+  })
+}
+
+/**
+ * Trim the whitespace around the paragraph content
+ *
+ * @returns Whether the paragraph has content left
+ */
+function trimParagraph(paragraph: TemplateParagraph): boolean {
+  const segments = paragraph.segments
+  while (segments.length > 0) {
+    const last = segments[segments.length - 1]!
+    if (last.kind !== "text") {
+      break
+    }
+    last.text = last.text.trimEnd()
+    if (last.text) {
+      break
+    }
+    segments.pop()
+  }
+  return segments.length > 0
+}
+
+function renderParagraph(paragraph: TemplateParagraph, style: HeaderFooterStyle): string {
+  const runs = paragraph.segments.map((segment) => {
+    if (segment.kind === "break") {
+      return "<w:r><w:br/></w:r>"
+    }
+    const properties = renderRunProperties(segment.format)
+    switch (segment.kind) {
+      case "tab":
+        return `<w:r>${properties}<w:tab/></w:r>`
+      case "field":
+        // Word computes the result; the placeholder value shows until it does
+        return `<w:fldSimple w:instr=" ${segment.instruction} "><w:r>${properties}<w:t>1</w:t></w:r></w:fldSimple>`
+      default:
+        return `<w:r>${properties}<w:t xml:space="preserve">${escapeXML(segment.text)}</w:t></w:r>`
+    }
+  })
+
+  const align = paragraph.align ? `<w:jc w:val="${paragraph.align}"/>` : ""
+  return `<w:p><w:pPr><w:pStyle w:val="${style}"/>${align}</w:pPr>${runs.join("")}</w:p>`
+}
+
+function renderRunProperties(format: RunFormat): string {
+  const font = format.font ? escapeXML(format.font) : ""
+  const properties = [
+    font ? `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>` : "",
+    format.bold ? "<w:b/><w:bCs/>" : "",
+    format.italic ? "<w:i/><w:iCs/>" : "",
+    format.strike ? "<w:strike/>" : "",
+    format.color ? `<w:color w:val="${format.color}"/>` : "",
+    format.size ? `<w:sz w:val="${format.size}"/><w:szCs w:val="${format.size}"/>` : "",
+    format.underline ? "<w:u w:val=\"single\"/>" : "",
+  ].join("")
+  return properties ? `<w:rPr>${properties}</w:rPr>` : ""
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i"))
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? "") : undefined
+}
+
+function parseAlignment(value: string | undefined): string | undefined {
+  return mapCSSFormatting({ "text-align": value ?? "" }).align
+}
@@ -0,0 +1,60 @@
+/**
+ * Image format detection for embedded DOCX media
+ */
+
+/**
+ * Detected image format and intrinsic size
+ */
+export interface ImageInfo {
+  contentType: string
+  extension: string
+  width: number
+  height: number
+}
+
+/**
+ * Detect the format and pixel size of PNG, JPEG, GIF and BMP images
+ *
+ * @param data - Image bytes
+ * @returns Image information, or undefined for unsupported or malformed images
+ */
+export function readImageInfo(data: Uint8Array): ImageInfo | undefined {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  // PNG: signature followed by the IHDR chunk
+  if (data.length >= 24 && view.getUint32(0) === 0x89504E47 && view.getUint32(4) === 0x0D0A1A0A) {
+    return { contentType: "image/png", extension: "png", width: view.getUint32(16), height: view.getUint32(20) }
+  }
+
+  // GIF: logical screen descriptor follows the version
+  if (data.length >= 10 && data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) {
+    return { contentType: "image/gif", extension: "gif", width: view.getUint16(6, true), height: view.getUint16(8, true) }
+  }
+
+  // BMP: BITMAPINFOHEADER dimensions (height is negative for top-down bitmaps)
+  if (data.length >= 26 && data[0] === 0x42 && data[1] === 0x4D) {
+    return { contentType: "image/bmp", extension: "bmp", width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) }
+  }
+
+  // JPEG: scan segments for a start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xFF && data[1] === 0xD8) {
+    let offset = 2
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xFF) {
+        return undefined
+      }
+      const marker = data[offset + 1]!
+      if (marker === 0xFF) {
+        offset++
+        continue
+      }
+      const isStartOfFrame = marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC
+      if (isStartOfFrame) {
+        return { contentType: "image/jpeg", extension: "jpeg", width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+      }
+      offset += 2 + view.getUint16(offset + 2)
+    }
+  }
+
+  return undefined
+}
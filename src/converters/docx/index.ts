@@ -0,0 +1,21 @@
+/**
+ * DOCX Converter module exports
+ */
+
+export { DOCX_MIME_TYPE, DOCXConverter } from "./docx-converter.js"
+export { buildDOCXPackage, getPageGeometry } from "./docx-package.js"
+export type { DOCXPackageProperties, PageGeometry } from "./docx-package.js"
+export { DOCXRenderer } from "./docx-renderer.js"
+export { readImageInfo } from "./image-info.js"
+export type { ImageInfo } from "./image-info.js"
+export type {
+  DOCXConversionOptions,
+  DOCXDocumentContent,
+  DOCXImage,
+  DOCXListInstance,
+  DOCXMarginValue,
+  DOCXMediaPart,
+  DOCXRelationship,
+  DOCXRenderOptions,
+  DOCXStyleDefinition,
+} from "./types.js"
@@ -0,0 +1,133 @@
+/**
+ * DOCX converter specific types and interfaces
+ */
+
+import type { DOCXConfig, DOCXHeaderFooterConfig } from "../../config/schema.js"
+import type { PageBreakMarkers } from "../../core/engine/page-breaks.js"
+import type { RenderedDOMCaptureOptions } from "../rendered-dom-converter.js"
+
+/**
+ * Page margin value: a number in inches or a CSS length such as "20px" or "2cm"
+ */
+export type DOCXMarginValue = number | string
+
+/**
+ * Resolved options controlling DOCX rendering
+ */
+export type DOCXRenderOptions = Pick<
+  DOCXConfig,
+  | "layout"
+  | "pageBreaks"
+  | "fontFamily"
+  | "fontSize"
+  | "pageLayout"
+  | "lineSpacing"
+  | "paragraphSpacing"
+  | "embedImages"
+  | "convertTables"
+  | "convertLists"
+  | "preserveLinks"
+  | "preserveStyle"
+  | "header"
+  | "footer"
+>
+
+/**
+ * Per-conversion DOCX options (request options override converter configuration)
+ *
+ * Accepts both the configuration field names and the public `DOCXOptions` names.
+ */
+export type DOCXConversionOptions = Partial<Omit<DOCXRenderOptions, "pageLayout" | "pageBreaks" | "header" | "footer">> & RenderedDOMCaptureOptions & {
+  /** Header template, or per-page templates merged over the configured ones */
+  header?: string | DOCXHeaderFooterConfig
+  /** Footer template, or per-page templates merged over the configured ones */
+  footer?: string | DOCXHeaderFooterConfig
+  /** Page break markers overrides (auto-page layout only) */
+  pageBreaks?: PageBreakMarkers
+  /** Page layout overrides */
+  pageLayout?: Partial<Omit<DOCXConfig["pageLayout"], "margins">> & {
+    margins?: Partial<Record<"top" | "right" | "bottom" | "left", DOCXMarginValue>>
+  }
+  /** Page size (overrides pageLayout.size) */
+  pageSize?: DOCXConfig["pageLayout"]["size"]
+  /** Page orientation (overrides pageLayout.orientation) */
+  orientation?: DOCXConfig["pageLayout"]["orientation"]
+  /** Page margins for all sides or per side (overrides pageLayout.margins) */
+  margins?: DOCXMarginValue | Partial<Record<"top" | "right" | "bottom" | "left", DOCXMarginValue>>
+  /** Whether to include images (alias of embedImages) */
+  includeImages?: boolean
+  /** Whether to convert tables to Word tables (alias of convertTables) */
+  includeTables?: boolean
+}
+
+/**
+ * Image loaded for embedding in the document
+ */
+export interface DOCXImage {
+  /** Image bytes */
+  data: Uint8Array
+  /** Image MIME type */
+  contentType: string
+  /** File extension used for the media part */
+  extension: string
+  /** Intrinsic width in pixels */
+  width: number
+  /** Intrinsic height in pixels */
+  height: number
+}
+
+/**
+ * Relationship from the main document part to a hyperlink or media part
+ */
+export interface DOCXRelationship {
+  id: string
+  type: "hyperlink" | "image"
+  target: string
+}
+
+/**
+ * Media part stored under word/media
+ */
+export interface DOCXMediaPart {
+  /** Path relative to the word directory, e.g. "media/image1.png" */
+  path: string
+  contentType: string
+  data: Uint8Array
+}
+
+/**
+ * Numbering instance created for a rendered list
+ */
+export interface DOCXListInstance {
+  numId: number
+  kind: "bullet" | "decimal"
+  level: number
+  start: number
+}
+
+/**
+ * Rendered WordprocessingML document content
+ */
+export interface DOCXDocumentContent {
+  /** Body elements (paragraphs and tables) without the section properties */
+  body: string
+  relationships: DOCXRelationship[]
+  media: DOCXMediaPart[]
+  lists: DOCXListInstance[]
+  /** Named styles defined for repeated CSS formatting */
+  styles: DOCXStyleDefinition[]
+  /** Content that could not be represented faithfully */
+  warnings: string[]
+}
+
+/**
+ * Named style defined for a formatting combination taken from CSS
+ */
+export interface DOCXStyleDefinition {
+  id: string
+  name: string
+  type: "paragraph" | "character"
+  basedOn: string
+  /** Paragraph (w:pPr) or run (w:rPr) properties element */
+  properties: string
+}
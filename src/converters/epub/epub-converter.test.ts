@@ -0,0 +1,263 @@
+/**
+ * EPUB Converter Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { pathToFileURL } from "node:url"
+
+import { JSDOM } from "jsdom"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createMockLogger, createTestDocument, PNG_BASE64, PNG_DATA_URI, unzip } from "../../../tests/utils/converter-fixtures.js"
+import type { ZipEntry } from "../../../tests/utils/converter-fixtures.js"
+
+import { EPUBConverter } from "./epub-converter.js"
+import { EPUB_MIME_TYPE } from "./epub-package.js"
+import type { EPUBConversionOptions } from "./types.js"
+
+const mockLogger = createMockLogger()
+
+const createDocument = (body: string, options: { url?: string, head?: string, lang?: string } = {}): HTMLDocument =>
+  createTestDocument(body, { title: "Test Article", url: "https://example.com/docs/article.html", ...options })
+
+/**
+ * Parse a package part as XML, failing on malformed markup
+ */
+function parseXML(text: string): Document {
+  return new JSDOM(text, { contentType: "application/xhtml+xml" }).window.document
+}
+
+describe("ePUBConverter", () => {
+  let converter: EPUBConverter
+
+  const toPackage = async (
+    document: HTMLDocument,
+    options: EPUBConversionOptions = {},
+  ): Promise<Map<string, ZipEntry>> => {
+    const result = await converter.convert(document, { format: "epub", options })
+    return unzip(Buffer.from(result.content, "base64"))
+  }
+
+  const readPart = async (body: string, part: string, options: EPUBConversionOptions = {}): Promise<string> =>
+    (await toPackage(createDocument(body), options)).get(part)!.data.toString("utf8")
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    converter = new EPUBConverter(mockLogger)
+  })
+
+  describe("strategy interface", () => {
+    it("should expose epub strategy information", () => {
+      expect(converter.getName()).toBe("epub")
+      expect(converter.getOutputFormat()).toBe(EPUB_MIME_TYPE)
+      expect(converter.canHandle("text/html")).toBe(true)
+      expect(converter.canHandle("application/pdf")).toBe(false)
+    })
+
+    it("should return a base64 encoded epub result", async () => {
+      const result = await converter.convert(createDocument("<p>Hello</p>"))
+
+      expect(result.mimeType).toBe("application/epub+zip")
+      expect(result.metadata.encoding).toBe("base64")
+      expect(result.metadata.title).toBe("Test Article")
+      expect(result.metadata.identifier).toMatch(/^urn:uuid:[\da-f-]{36}$/)
+    })
+  })
+
+  describe("container", () => {
+    it("should store the mimetype entry first and uncompressed", async () => {
+      const result = await converter.convert(createDocument("<p>Hello</p>"))
+      const archive = Buffer.from(result.content, "base64")
+      const entries = unzip(archive)
+
+      expect(Array.from(entries.keys())[0]).toBe("mimetype")
+      expect(entries.get("mimetype")!.method).toBe(0)
+      expect(archive.toString("latin1", 30, 38)).toBe("mimetype")
+      expect(archive.toString("latin1", 38, 58)).toBe("application/epub+zip")
+    })
+
+    it("should point the container at the package document", async () => {
+      const entries = await toPackage(createDocument("<p>Hello</p>"))
+      const container = parseXML(entries.get("META-INF/container.xml")!.data.toString("utf8"))
+
+      expect(container.querySelector("rootfile")?.getAttribute("full-path")).toBe("OEBPS/content.opf")
+      expect(entries.has("OEBPS/content.opf")).toBe(true)
+    })
+
+    it("should write package metadata, manifest and spine", async () => {
+      const opf = parseXML(await readPart("<p>Hello</p>", "OEBPS/content.opf", {
+        author: "Jane Doe",
+        language: "de",
+        identifier: "urn:isbn:9780000000000",
+      }))
+
+      expect(opf.documentElement.getAttribute("version")).toBe("3.0")
+      expect(opf.getElementsByTagName("dc:identifier")[0]?.textContent).toBe("urn:isbn:9780000000000")
+      expect(opf.getElementsByTagName("dc:title")[0]?.textContent).toBe("Test Article")
+      expect(opf.getElementsByTagName("dc:creator")[0]?.textContent).toBe("Jane Doe")
+      expect(opf.getElementsByTagName("dc:language")[0]?.textContent).toBe("de")
+      expect(opf.querySelector("meta[property='dcterms:modified']")?.textContent).toMatch(/^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ$/)
+      expect(opf.querySelector("item[properties='nav']")?.getAttribute("href")).toBe("nav.xhtml")
+      expect(opf.querySelector("spine itemref")?.getAttribute("idref")).toBe("content")
+    })
+
+    it("should take the language and author from the document", async () => {
+      const entries = await toPackage(createDocument("<p>Hallo</p>", {
+        lang: "de-AT",
+        head: "<meta name=\"author\" content=\"Max Mustermann\">",
+      }))
+      const opf = parseXML(entries.get("OEBPS/content.opf")!.data.toString("utf8"))
+
+      expect(opf.getElementsByTagName("dc:language")[0]?.textContent).toBe("de-AT")
+      expect(opf.getElementsByTagName("dc:creator")[0]?.textContent).toBe("Max Mustermann")
+    })
+  })
+
+  describe("navigation", () => {
+    it("should nest headings up to the table of contents depth", async () => {
+      const nav = parseXML(await readPart(
+        "<h1>Intro</h1><h2>Background</h2><h3>Details</h3><h4>Too deep</h4><h2 id=\"usage\">Usage</h2>",
+        "OEBPS/nav.xhtml",
+      ))
+
+      const top = nav.querySelector("nav > ol")!
+      expect(top.children).toHaveLength(1)
+      expect(top.querySelector(":scope > li > a")?.textContent).toBe("Intro")
+
+      const sections = Array.from(top.querySelectorAll(":scope > li > ol > li > a"), link => link.textContent)
+      expect(sections).toEqual(["Background", "Usage"])
+      expect(nav.querySelector("a[href='content.xhtml#usage']")).not.toBeNull()
+      expect(nav.body.textContent).toContain("Details")
+      expect(nav.body.textContent).not.toContain("Too deep")
+    })
+
+    it("should honor a custom table of contents depth", async () => {
+      const nav = await readPart("<h1>Intro</h1><h2>Background</h2>", "OEBPS/nav.xhtml", { tocDepth: 1 })
+
+      expect(nav).toContain("Intro")
+      expect(nav).not.toContain("Background")
+    })
+
+    it("should link the whole document when there are no headings", async () => {
+      const nav = parseXML(await readPart("<p>Just text</p>", "OEBPS/nav.xhtml"))
+
+      const links = nav.querySelectorAll("nav a")
+      expect(links).toHaveLength(1)
+      expect(links[0]?.getAttribute("href")).toBe("content.xhtml")
+      expect(links[0]?.textContent).toBe("Test Article")
+    })
+  })
+
+  describe("content document", () => {
+    it("should produce well-formed XHTML with heading anchors", async () => {
+      const content = await readPart("<h1>Title</h1><p>One<br>Two</p><hr>", "OEBPS/content.xhtml")
+      const document = parseXML(content)
+
+      expect(document.documentElement.namespaceURI).toBe("http://www.w3.org/1999/xhtml")
+      expect(content).toContain("<h1 id=\"heading-1\">Title</h1>")
+      expect(content).toContain("<p>One<br/>Two</p><hr/>")
+      expect(document.querySelector("link[rel='stylesheet']")?.getAttribute("href")).toBe("styles/style.css")
+    })
+
+    it("should drop scripts and form controls and unwrap unknown elements", async () => {
+      const content = await readPart(
+        "<custom-card><p onclick=\"run()\" data-x=\"1\">Kept</p></custom-card><form><input value=\"x\"><button>Go</button></form><iframe src=\"https://example.com\"></iframe>",
+        "OEBPS/content.xhtml",
+      )
+
+      expect(content).toContain("<body><p>Kept</p></body>")
+      expect(content).not.toContain("onclick")
+      expect(content).not.toContain("iframe")
+    })
+
+    it("should sanitize duplicate and invalid ids and rewrite in-document links", async () => {
+      const content = await readPart(
+        "<p id=\"1 intro\">A</p><p id=\"1 intro\">B</p><a href=\"#1%20intro\">Jump</a><a href=\"#missing\">Gone</a><a href=\"guide.html\">Guide</a><a href=\"javascript:void(0)\">Run</a>",
+        "OEBPS/content.xhtml",
+      )
+
+      expect(content).toContain("<p id=\"_1_intro\">A</p><p id=\"_1_intro-2\">B</p>")
+      expect(content).toContain("<a href=\"#_1_intro\">Jump</a>")
+      expect(content).toContain("<a>Gone</a>")
+      expect(content).toContain("<a href=\"https://example.com/docs/guide.html\">Guide</a>")
+      expect(content).toContain("<a>Run</a>")
+    })
+
+    it("should package data URI images and keep alt text", async () => {
+      const entries = await toPackage(createDocument(`<p><img src="${PNG_DATA_URI}" width="1"></p>`))
+      const content = entries.get("OEBPS/content.xhtml")!.data.toString("utf8")
+      const opf = entries.get("OEBPS/content.opf")!.data.toString("utf8")
+
+      expect(content).toContain("<img src=\"images/image-1.png\" alt=\"\" width=\"1\"/>")
+      expect(entries.get("OEBPS/images/image-1.png")!.data.toString("base64")).toBe(PNG_BASE64)
+      expect(opf).toContain("<item id=\"image-1\" href=\"images/image-1.png\" media-type=\"image/png\"/>")
+    })
+
+    it("should replace images with their alt text when images are excluded", async () => {
+      const entries = await toPackage(createDocument(`<p><img src="${PNG_DATA_URI}" alt="Logo"></p>`), { includeImages: false })
+
+      expect(entries.get("OEBPS/content.xhtml")!.data.toString("utf8")).toContain("<p>Logo</p>")
+      expect(Array.from(entries.keys()).some(name => name.startsWith("OEBPS/images/"))).toBe(false)
+    })
+  })
+
+  describe("linked resources", () => {
+    let directory: string
+    let pageURL: string
+
+    beforeAll(async () => {
+      directory = await mkdtemp(join(tmpdir(), "epub-converter-"))
+      pageURL = pathToFileURL(join(directory, "article.html")).href
+
+      await writeFile(join(directory, "photo.png"), Buffer.from(PNG_BASE64, "base64"))
+      await writeFile(join(directory, "body.woff2"), Buffer.concat([Buffer.from("wOF2"), Buffer.alloc(12)]))
+      await writeFile(join(directory, "notes.txt"), "not an image")
+      await writeFile(join(directory, "base.css"), "p { margin: 0; }")
+      await writeFile(
+        join(directory, "theme.css"),
+        "@charset \"utf-8\";\n@import url(\"base.css\");\n@font-face { font-family: Body; src: url(\"body.woff2\") format(\"woff2\"); }\nh1 { color: navy; }",
+      )
+    })
+
+    afterAll(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    it("should package detected images, stylesheets and fonts", async () => {
+      const entries = await toPackage(createDocument(
+        "<h1>Styled</h1><img src=\"photo.png\" alt=\"Photo\"><img src=\"notes.txt\" alt=\"Notes\">",
+        { url: pageURL, head: "<link rel=\"stylesheet\" href=\"theme.css\"><style>h1 { font-family: Body; }</style>" },
+      ))
+
+      const content = entries.get("OEBPS/content.xhtml")!.data.toString("utf8")
+      expect(content).toContain("<img src=\"images/image-1.png\" alt=\"Photo\"/>")
+      expect(content).toContain("Notes")
+      expect(mockLogger.warn).toHaveBeenCalledWith("Skipping image in unsupported format", expect.any(Object))
+
+      const stylesheet = entries.get("OEBPS/styles/style.css")!.data.toString("utf8")
+      expect(stylesheet).toContain("p { margin: 0; }")
+      expect(stylesheet).toContain("src: url(\"../fonts/font-1.woff2\") format(\"woff2\")")
+      expect(stylesheet).not.toContain("@import")
+      expect(stylesheet).not.toContain("@charset")
+      expect(stylesheet.indexOf("color: navy")).toBeLessThan(stylesheet.indexOf("font-family: Body; }"))
+      expect(entries.has("OEBPS/fonts/font-1.woff2")).toBe(true)
+
+      const opf = entries.get("OEBPS/content.opf")!.data.toString("utf8")
+      expect(opf).toContain("<item id=\"font-1\" href=\"fonts/font-1.woff2\" media-type=\"font/woff2\"/>")
+    })
+
+    it("should skip stylesheets when styles are excluded", async () => {
+      const entries = await toPackage(
+        createDocument("<p style=\"color: red\">Plain</p>", { url: pageURL, head: "<link rel=\"stylesheet\" href=\"theme.css\">" }),
+        { includeStyles: false },
+      )
+
+      expect(entries.get("OEBPS/styles/style.css")!.data.toString("utf8")).not.toContain("navy")
+      expect(entries.get("OEBPS/content.xhtml")!.data.toString("utf8")).toContain("<p>Plain</p>")
+      expect(entries.has("OEBPS/fonts/font-1.woff2")).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * EPUB Converter - Converts HTML documents to EPUB 3 publications
+ * Packages the rendered article with its navigation, stylesheets and images for e-readers
+ */
+
+import { Buffer } from "node:buffer"
+
+import { v4 as uuidv4 } from "uuid"
+
+import type { ConversionRequest, ConversionResult, Logger } from "../../architecture/strategies/types.js"
+import { DEFAULT_EPUB_CONFIG } from "../../config/defaults.js"
+import type { EPUBConfig } from "../../config/schema.js"
+import type { ChromeCDPManager } from "../../core/engine/chrome-cdp-manager.js"
+import { ExternalDependencyDetector } from "../../core/engine/mhtml-processor.js"
+import { detectFontType, detectImageType } from "../media-types.js"
+import { RenderedDOMConverter } from "../rendered-dom-converter.js"
+import { describeResource, getResourceOrigin, loadResource } from "../resource-loader.js"
+import type { ResourceOrigin } from "../resource-loader.js"
+
+import { buildEPUBPackage, EPUB_MIME_TYPE } from "./epub-package.js"
+import { EPUBRenderer } from "./epub-renderer.js"
+import type { EPUBConversionOptions, EPUBLoadedResource, EPUBRenderOptions, EPUBResourceReference } from "./types.js"
+
+/**
+ * EPUB Converter implementation
+ *
+ * This converter handles:
+ * - Rendering the document in Chrome and walking the rendered DOM
+ * - Walking the input DOM directly when Chrome is not available
+ * - Packaging images, stylesheets and fonts found by the external dependency detector
+ * - Building the navigation document from the document headings
+ */
+export class EPUBConverter extends RenderedDOMConverter {
+  private config: EPUBConfig
+
+  constructor(logger: Logger, config: Partial<EPUBConfig> = {}, cdpManager?: ChromeCDPManager) {
+    super(logger, cdpManager)
+    this.config = { ...DEFAULT_EPUB_CONFIG, ...config }
+
+    this.logger.info("EPUB Converter initialized", {
+      language: this.config.language,
+      tocDepth: this.config.tocDepth,
+      hasCDPManager: !!cdpManager,
+    })
+  }
+
+  /**
+   * Convert HTML document to EPUB
+   *
+   * @param input - HTML document to convert
+   * @param request - Conversion request whose options override the converter configuration
+   * @returns Promise resolving to EPUB conversion result with base64 encoded content
+   */
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
+    const validation = this.validate(input)
+    if (!validation.isValid) {
+      throw new Error(`Input validation failed: ${validation.errors.join(", ")}`)
+    }
+
+    const options: EPUBConversionOptions = request?.options ?? {}
+    const renderOptions: EPUBRenderOptions = {
+      tocDepth: options.tocDepth ?? this.config.tocDepth,
+      includeImages: options.includeImages ?? this.config.includeImages,
+      includeStyles: options.includeStyles ?? this.config.includeStyles,
+    }
+
+    this.logger.info("Starting EPUB conversion", {
+      tocDepth: renderOptions.tocDepth,
+      includeImages: renderOptions.includeImages,
+      includeStyles: renderOptions.includeStyles,
+      hasTitle: !!input.title,
+    })
+
+    const { result, duration } = await this.measureConversionTime(async () => {
+      const { root, rendered } = await this.captureDocument(input, options)
+      const documentURL = this.getBaseURL(input)
+      const renderer = new EPUBRenderer(renderOptions, documentURL)
+      const resources = await this.loadResources(
+        renderer,
+        renderer.collectResources(root, new ExternalDependencyDetector(this.logger)),
+        options.timeoutPerResource ?? this.config.timeoutPerResource,
+        getResourceOrigin(input, documentURL),
+      )
+
+      const content = renderer.render(root, resources)
+      const metadata = {
+        title: options.title || input.title || content.metadata.title || content.headings[0]?.title || "Untitled",
+        author: options.author || this.config.author || content.metadata.author,
+        language: options.language || content.metadata.language || this.config.language,
+        identifier: options.identifier || `urn:uuid:${uuidv4()}`,
+      }
+      const epub = buildEPUBPackage(content, metadata)
+      return { epub, rendered, metadata, chapters: content.headings.length, resourceCount: content.resources.length }
+    })
+
+    this.logger.info("EPUB conversion completed", {
+      duration,
+      outputSize: result.epub.length,
+      headings: result.chapters,
+      resources: result.resourceCount,
+      rendered: result.rendered,
+    })
+
+    return this.createConversionResult(result.epub.toString("base64"), EPUB_MIME_TYPE, "text/html", "epub", {
+      encoding: "base64",
+      size: result.epub.length,
+      title: result.metadata.title,
+      author: result.metadata.author,
+      language: result.metadata.language,
+      identifier: result.metadata.identifier,
+      executionTime: duration,
+      tier: result.rendered ? 1 : 4,
+      conversionMethod: result.rendered ? "chrome-cdp" : "dom",
+    })
+  }
+
+  /**
+   * Check if this converter can handle the given content type
+   *
+   * @param contentType - MIME type to check
+   * @returns True if this converter can handle the content type
+   */
+  canHandle(contentType: string): boolean {
+    return this.getSupportedContentTypes().includes(contentType.toLowerCase())
+  }
+
+  /**
+   * Get the name of this converter strategy
+   *
+   * @returns Converter name
+   */
+  getName(): string {
+    return "epub"
+  }
+
+  /**
+   * Get supported content types
+   *
+   * @returns Array of supported MIME types
+   */
+  getSupportedContentTypes(): string[] {
+    return ["text/html", "application/xhtml+xml"]
+  }
+
+  /**
+   * Get output format MIME type
+   *
+   * @returns Output MIME type
+   */
+  getOutputFormat(): string {
+    return EPUB_MIME_TYPE
+  }
+
+  protected getFormatLabel(): string {
+    return "EPUB"
+  }
+
+  // Private helper methods
+
+  /**
+   * Load the detected resources and the fonts and imports of loaded stylesheets,
+   * skipping resources that cannot be loaded or packaged
+   */
+  private async loadResources(
+    renderer: EPUBRenderer,
+    references: EPUBResourceReference[],
+    timeout: number,
+    origin: ResourceOrigin,
+  ): Promise<Map<string, EPUBLoadedResource>> {
+    const resources = new Map<string, EPUBLoadedResource>()
+    const requested = new Set(references.map(reference => reference.url))
+    const detector = new ExternalDependencyDetector(this.logger)
+    let pending = references
+
+    while (pending.length > 0) {
+      const batch = pending
+      const loaded = await Promise.all(batch.map(reference => this.loadReference(reference, timeout, origin)))
+
+      pending = []
+      loaded.forEach((data, index) => {
+        const reference = batch[index]!
+        if (!data) {
+          return
+        }
+        resources.set(reference.url, { kind: reference.kind, data })
+        if (reference.kind !== "stylesheet") {
+          return
+        }
+        for (const nested of renderer.collectStylesheetResources(Buffer.from(data).toString("utf8"), reference.url, detector)) {
+          if (!requested.has(nested.url)) {
+            requested.add(nested.url)
+            pending.push(nested)
+          }
+        }
+      })
+    }
+
+    return resources
+  }
+
+  private async loadReference(
+    reference: EPUBResourceReference,
+    timeout: number,
+    origin: ResourceOrigin,
+  ): Promise<Uint8Array | undefined> {
+    try {
+      const data = await loadResource(reference.url, timeout, origin)
+      const supported = reference.kind === "image"
+        ? detectImageType(data)
+        : reference.kind === "font" ? detectFontType(data) : true
+      if (!supported) {
+        this.logger.warn(`Skipping ${reference.kind} in unsupported format`, { source: describeResource(reference.url) })
+        return undefined
+      }
+      return data
+    } catch (error) {
+      this.logger.warn(`Failed to load ${reference.kind}`, {
+        source: describeResource(reference.url),
+        error: (error as Error).message,
+      })
+      return undefined
+    }
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * EPUB Package - Assembles the publication into an EPUB 3 OCF container
+ */
+
+import type { Buffer } from "node:buffer"
+
+import { ZipWriter } from "../../core/utils/ZipWriter.js"
+import { escapeXML } from "../xml.js"
+
+import type { EPUBDocumentContent, EPUBHeading } from "./types.js"
+
+/**
+ * MIME type of EPUB publications, stored as the first entry of the container
+ */
+export const EPUB_MIME_TYPE = "application/epub+zip"
+
+const XML_DECLARATION = "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n"
+
+const NAMESPACES = {
+  xhtml: "http://www.w3.org/1999/xhtml",
+  epub: "http://www.idpf.org/2007/ops",
+  opf: "http://www.idpf.org/2007/opf",
+  dc: "http://purl.org/dc/elements/1.1/",
+  container: "urn:oasis:names:tc:opendocument:xmlns:container",
+}
+
+const CONTENT_PATH = "content.xhtml"
+const NAV_PATH = "nav.xhtml"
+const STYLESHEET_PATH = "styles/style.css"
+
+/**
+ * Publication metadata written to the package document
+ */
+export interface EPUBPackageMetadata {
+  title: string
+  /** BCP 47 language tag */
+  language: string
+  /** Unique identifier, e.g. "urn:uuid:..." */
+  identifier: string
+  author?: string
+  modified?: Date
+}
+
+/**
+ * Navigation tree entry
+ */
+interface NavigationItem {
+  heading: EPUBHeading
+  children: NavigationItem[]
+}
+
+/**
+ * Build an EPUB container from a rendered content document
+ *
+ * @param content - Rendered body, headings, stylesheet and resources
+ * @param metadata - Publication metadata
+ * @returns EPUB file bytes
+ */
+export function buildEPUBPackage(content: EPUBDocumentContent, metadata: EPUBPackageMetadata): Buffer {
+  const zip = new ZipWriter()
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.addFile("mimetype", EPUB_MIME_TYPE, { compress: false })
+  zip.addFile("META-INF/container.xml", buildContainer())
+  zip.addFile("OEBPS/content.opf", buildPackageDocument(content, metadata))
+  zip.addFile(`OEBPS/${NAV_PATH}`, buildNavigationDocument(content.headings, metadata))
+  zip.addFile(`OEBPS/${CONTENT_PATH}`, buildContentDocument(content, metadata))
+  zip.addFile(`OEBPS/${STYLESHEET_PATH}`, content.stylesheet)
+
+  for (const resource of content.resources) {
+    zip.addFile(`OEBPS/${resource.path}`, resource.data, { compress: resource.mediaType === "image/svg+xml" })
+  }
+
+  return zip.toBuffer()
+}
+
+// Package part builders
+
+function buildContainer(): string {
+  return `${XML_DECLARATION}<container version="1.0" xmlns="${NAMESPACES.container}"><rootfiles>`
+    + "<rootfile full-path=\"OEBPS/content.opf\" media-type=\"application/oebps-package+xml\"/>"
+    + "</rootfiles></container>"
+}
+
+function buildPackageDocument(content: EPUBDocumentContent, metadata: EPUBPackageMetadata): string {
+  const modified = (metadata.modified ?? new Date()).toISOString().replace(/\.\d+Z$/, "Z")
+  const manifest: Array<{ id: string, href: string, mediaType: string, properties?: string }> = [
+    { id: "nav", href: NAV_PATH, mediaType: "application/xhtml+xml", properties: "nav" },
+    { id: "content", href: CONTENT_PATH, mediaType: "application/xhtml+xml" },
+    { id: "style", href: STYLESHEET_PATH, mediaType: "text/css" },
+    ...content.resources.map(resource => ({ id: resource.id, href: resource.path, mediaType: resource.mediaType })),
+  ]
+
+  return `${XML_DECLARATION}<package xmlns="${NAMESPACES.opf}" version="3.0" unique-identifier="pub-id" xml:lang="${escapeXML(metadata.language)}">`
+    + `<metadata xmlns:dc="${NAMESPACES.dc}">`
+    + `<dc:identifier id="pub-id">${escapeXML(metadata.identifier)}</dc:identifier>`
+    + `<dc:title>${escapeXML(metadata.title)}</dc:title>`
+    + `<dc:language>${escapeXML(metadata.language)}</dc:language>`
+    + `${metadata.author ? `<dc:creator>${escapeXML(metadata.author)}</dc:creator>` : ""}`
+    + `<meta property="dcterms:modified">${modified}</meta>`
+    + "</metadata>"
+    + `<manifest>${
+      manifest.map(item =>
+        `<item id="${item.id}" href="${escapeXML(item.href)}" media-type="${item.mediaType}"${
+          item.properties ? ` properties="${item.properties}"` : ""
+        }/>`,
+      ).join("")
+    }</manifest>`
+    + "<spine><itemref idref=\"content\"/></spine>"
+    + "</package>"
+}
+
+function buildNavigationDocument(headings: EPUBHeading[], metadata: EPUBPackageMetadata): string {
+  const items = buildNavigationTree(headings)
+  const list = items.length > 0
+    ? renderNavigationList(items)
+    : `<ol><li><a href="${CONTENT_PATH}">${escapeXML(metadata.title)}</a></li></ol>`
+
+  return buildXHTMLDocument(
+    metadata,
+    "Table of Contents",
+    "",
+    `<nav epub:type="toc" id="toc"><h1>Table of Contents</h1>${list}</nav>`,
+  )
+}
+
+function buildContentDocument(content: EPUBDocumentContent, metadata: EPUBPackageMetadata): string {
+  return buildXHTMLDocument(
+    metadata,
+    metadata.title,
+    `<link rel="stylesheet" type="text/css" href="${STYLESHEET_PATH}"/>`,
+    content.body,
+  )
+}
+
+function buildXHTMLDocument(metadata: EPUBPackageMetadata, title: string, head: string, body: string): string {
+  const language = escapeXML(metadata.language)
+  return `${XML_DECLARATION}<!DOCTYPE html>\n`
+    + `<html xmlns="${NAMESPACES.xhtml}" xmlns:epub="${NAMESPACES.epub}" xml:lang="${language}" lang="${language}">`
+    + `<head><meta charset="UTF-8"/><title>${escapeXML(title)}</title>${head}</head>`
+    + `<body>${body}</body>`
+    + "</html>"
+}
+
+/**
+ * Nest headings under the closest preceding heading of a higher level
+ */
+function buildNavigationTree(headings: EPUBHeading[]): NavigationItem[] {
+  const root: NavigationItem[] = []
+  const stack: Array<{ level: number, children: NavigationItem[] }> = []
+
+  for (const heading of headings) {
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= heading.level) {
+      stack.pop()
+    }
+    const item: NavigationItem = { heading, children: [] }
+    const siblings = stack[stack.length - 1]?.children ?? root
+    siblings.push(item)
+    stack.push({ level: heading.level, children: item.children })
+  }
+
+  return root
+}
+
+function renderNavigationList(items: NavigationItem[]): string {
+  return `<ol>${
+    items.map(item =>
+      `<li><a href="${CONTENT_PATH}#${escapeXML(item.heading.id)}">${escapeXML(item.heading.title)}</a>${
+        item.children.length > 0 ? renderNavigationList(item.children) : ""
+      }</li>`,
+    ).join("")
+  }</ol>`
+}
@@ -0,0 +1,640 @@
+/**
+ * EPUB Renderer - Walks a DOM snapshot and produces an XHTML content document
+ * Keeps the article markup, rewrites packaged images and fonts and collects headings for navigation
+ */
+
+import { Buffer } from "node:buffer"
+
+import { DOMSnapshotNodeType, findSnapshotElement, getSnapshotText } from "../../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../../core/engine/dom-snapshot.js"
+import { DependencyType } from "../../core/engine/mhtml-processor.js"
+import type { ExternalDependency, ExternalDependencyDetector } from "../../core/engine/mhtml-processor.js"
+import { detectFontType, detectImageType } from "../media-types.js"
+import { escapeXML } from "../xml.js"
+
+import type {
+  EPUBDocumentContent,
+  EPUBDocumentMetadata,
+  EPUBHeading,
+  EPUBLoadedResource,
+  EPUBRenderOptions,
+  EPUBResource,
+  EPUBResourceKind,
+  EPUBResourceReference,
+} from "./types.js"
+
+/**
+ * Elements kept in the content document
+ */
+const CONTENT_TAGS = new Set([
+  "a",
+  "abbr",
+  "address",
+  "article",
+  "aside",
+  "b",
+  "bdi",
+  "bdo",
+  "blockquote",
+  "br",
+  "caption",
+  "cite",
+  "code",
+  "col",
+  "colgroup",
+  "dd",
+  "del",
+  "details",
+  "dfn",
+  "div",
+  "dl",
+  "dt",
+  "em",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "i",
+  "img",
+  "ins",
+  "kbd",
+  "li",
+  "main",
+  "mark",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "q",
+  "rp",
+  "rt",
+  "ruby",
+  "s",
+  "samp",
+  "section",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "summary",
+  "sup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "time",
+  "tr",
+  "u",
+  "ul",
+  "var",
+  "wbr",
+])
+
+/**
+ * Elements dropped together with their content; other unknown elements are unwrapped
+ */
+const DROPPED_TAGS = new Set([
+  "area",
+  "audio",
+  "base",
+  "button",
+  "canvas",
+  "datalist",
+  "dialog",
+  "embed",
+  "head",
+  "iframe",
+  "input",
+  "link",
+  "map",
+  "math",
+  "meta",
+  "meter",
+  "noscript",
+  "object",
+  "option",
+  "output",
+  "progress",
+  "script",
+  "select",
+  "source",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+  "track",
+  "video",
+])
+
+/**
+ * Elements written as empty XML elements
+ */
+const VOID_TAGS = new Set(["br", "col", "hr", "img", "wbr"])
+
+/**
+ * Attributes kept on every content element
+ */
+const GLOBAL_ATTRIBUTES = ["class", "dir", "lang", "title"]
+
+/**
+ * Additional attributes kept per element
+ */
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "hreflang"],
+  col: ["span"],
+  colgroup: ["span"],
+  del: ["datetime"],
+  img: ["width", "height"],
+  ins: ["datetime"],
+  li: ["value"],
+  ol: ["reversed", "start", "type"],
+  td: ["colspan", "rowspan", "headers"],
+  th: ["colspan", "rowspan", "headers", "scope", "abbr"],
+  time: ["datetime"],
+}
+
+/**
+ * Attribute values that must match a pattern to be kept
+ */
+const ATTRIBUTE_PATTERNS: Record<string, RegExp> = {
+  colspan: /^\d+$/,
+  dir: /^(?:ltr|rtl|auto)$/i,
+  height: /^\d+$/,
+  rowspan: /^\d+$/,
+  scope: /^(?:row|col|rowgroup|colgroup)$/i,
+  span: /^\d+$/,
+  start: /^-?\d+$/,
+  type: /^[1ai]$/i,
+  value: /^-?\d+$/,
+  width: /^\d+$/,
+}
+
+/**
+ * Rules applied before the document styles so content fits reader screens
+ */
+const BASE_STYLESHEET = [
+  "img { max-width: 100%; height: auto; }",
+  "pre { white-space: pre-wrap; overflow-wrap: break-word; }",
+  "table { border-collapse: collapse; }",
+].join("\n")
+
+const CHARSET_RULE = /@charset\s+["'][^"']*["']\s*;/gi
+
+const IMPORT_RULE = /@import\s+(?:url\(\s*["']?([^"')\s]+)["']?\s*\)|["']([^"']+)["'])[^;]*;/gi
+
+const URL_FUNCTION = /url\(\s*["']?([^"')\s]+)["']?\s*\)/gi
+
+/**
+ * EPUB renderer for DOM snapshots
+ *
+ * Rendering follows the EPUB configuration:
+ * - tocDepth: headings up to this level get ids and appear in the navigation document
+ * - includeImages: loaded images are packaged, otherwise replaced by their alt text
+ * - includeStyles: document stylesheets, fonts and inline styles are packaged
+ */
+export class EPUBRenderer {
+  private options: EPUBRenderOptions
+  private documentURL?: string
+  private baseURL?: string
+  private resources = new Map<string, EPUBLoadedResource>()
+  private packaged = new Map<string, EPUBResource>()
+  private elementIds = new Map<DOMSnapshotNode, string>()
+  private idTargets = new Map<string, string>()
+  private usedIds = new Set<string>()
+  private headings: EPUBHeading[] = []
+  private imageCount = 0
+  private fontCount = 0
+
+  constructor(options: EPUBRenderOptions, baseURL?: string) {
+    this.options = options
+    this.documentURL = baseURL
+    this.baseURL = baseURL
+  }
+
+  /**
+   * Detect the images, stylesheets and fonts the document references
+   *
+   * @param root - Snapshot of the document element
+   * @param detector - Dependency detector used to find linked resources
+   * @returns Unique resource references in detection order
+   */
+  collectResources(root: DOMSnapshotNode, detector: ExternalDependencyDetector): EPUBResourceReference[] {
+    this.applyBaseElement(root)
+
+    const references = new Map<string, EPUBResourceKind>()
+    for (const dependency of detector.detectExternalDependencies(this.serializeForDetection(root), this.baseURL)) {
+      const kind = this.getResourceKind(dependency)
+      if (kind && !references.has(dependency.url)) {
+        references.set(dependency.url, kind)
+      }
+    }
+
+    // The detector skips data URIs, which are decoded like any other image
+    if (this.options.includeImages) {
+      const visit = (node: DOMSnapshotNode) => {
+        const src = node.tag === "img" ? node.attributes?.src?.trim() : undefined
+        if (src?.startsWith("data:")) {
+          references.set(src, "image")
+        }
+        node.children?.forEach(visit)
+      }
+      visit(root)
+    }
+
+    return Array.from(references, ([url, kind]) => ({ url, kind }))
+  }
+
+  /**
+   * Detect the fonts and imported stylesheets a loaded stylesheet references
+   *
+   * @param css - Stylesheet text
+   * @param sheetURL - URL the stylesheet was loaded from
+   * @param detector - Dependency detector used to find linked resources
+   * @returns Unique resource references in detection order
+   */
+  collectStylesheetResources(css: string, sheetURL: string, detector: ExternalDependencyDetector): EPUBResourceReference[] {
+    const references = new Map<string, EPUBResourceKind>()
+    for (const dependency of detector.detectExternalDependencies(css, sheetURL)) {
+      const kind = this.getResourceKind(dependency)
+      if (kind && !references.has(dependency.url)) {
+        references.set(dependency.url, kind)
+      }
+    }
+    return Array.from(references, ([url, kind]) => ({ url, kind }))
+  }
+
+  /**
+   * Render a document snapshot to an XHTML content document body
+   *
+   * @param root - Snapshot of the document element
+   * @param resources - Loaded resources keyed by resolved URL or data URI
+   * @returns Body markup with the headings, stylesheet and resources it references
+   */
+  render(root: DOMSnapshotNode, resources: Map<string, EPUBLoadedResource> = new Map()): EPUBDocumentContent {
+    this.resources = new Map(Array.from(resources, ([url, resource]) => [this.normalizeURL(url), resource]))
+    this.packaged.clear()
+    this.elementIds.clear()
+    this.idTargets.clear()
+    this.usedIds.clear()
+    this.headings = []
+    this.imageCount = 0
+    this.fontCount = 0
+
+    this.applyBaseElement(root)
+
+    const body = root.tag === "body" ? root : findSnapshotElement(root, "body") ?? root
+    this.assignIds(body)
+
+    const markup = (body.children ?? []).map(child => this.renderNode(child)).join("")
+    const stylesheet = this.renderStylesheet(root)
+
+    return {
+      body: markup,
+      headings: this.headings,
+      stylesheet,
+      resources: Array.from(this.packaged.values()),
+      metadata: this.readMetadata(root),
+    }
+  }
+
+  // Private helper methods
+
+  private renderNode(node: DOMSnapshotNode): string {
+    if (node.type === DOMSnapshotNodeType.TEXT) {
+      return escapeXML(node.text ?? "")
+    }
+    if (node.type !== DOMSnapshotNodeType.ELEMENT || DROPPED_TAGS.has(node.tag!)) {
+      return ""
+    }
+
+    const tag = node.tag!
+    if (!CONTENT_TAGS.has(tag)) {
+      return this.renderChildren(node)
+    }
+    if (tag === "img") {
+      return this.renderImage(node)
+    }
+
+    const attributes = this.renderAttributes(node)
+    return VOID_TAGS.has(tag) ? `<${tag}${attributes}/>` : `<${tag}${attributes}>${this.renderChildren(node)}</${tag}>`
+  }
+
+  private renderChildren(node: DOMSnapshotNode): string {
+    return (node.children ?? []).map(child => this.renderNode(child)).join("")
+  }
+
+  /**
+   * Render an image that was packaged, or its alternative text otherwise
+   */
+  private renderImage(node: DOMSnapshotNode): string {
+    const alt = node.attributes?.alt ?? ""
+    const src = node.attributes?.src?.trim()
+    const resource = src && this.options.includeImages ? this.packageResource(this.resolveResourceURL(src), "image") : undefined
+    if (!resource) {
+      return escapeXML(alt)
+    }
+    return `<img src="${escapeXML(resource.path)}" alt="${escapeXML(alt)}"${this.renderAttributes(node)}/>`
+  }
+
+  /**
+   * Render the allowed attributes of a content element
+   */
+  private renderAttributes(node: DOMSnapshotNode): string {
+    const tag = node.tag!
+    const attributes: Array<[string, string]> = []
+
+    const id = this.elementIds.get(node)
+    if (id) {
+      attributes.push(["id", id])
+    }
+
+    for (const name of [...GLOBAL_ATTRIBUTES, ...ELEMENT_ATTRIBUTES[tag] ?? []]) {
+      let value = node.attributes?.[name]
+      if (value === undefined || (ATTRIBUTE_PATTERNS[name] && !ATTRIBUTE_PATTERNS[name].test(value.trim()))) {
+        continue
+      }
+      if (name === "href") {
+        value = this.resolveHref(value)
+      } else if (name === "reversed") {
+        value = "reversed"
+      }
+      if (value !== undefined) {
+        attributes.push([name, value.trim()])
+      }
+    }
+
+    const style = node.attributes?.style?.trim()
+    if (style && this.options.includeStyles && !/url\s*\(/i.test(style)) {
+      attributes.push(["style", style])
+    }
+
+    return attributes.map(([name, value]) => ` ${name}="${escapeXML(value)}"`).join("")
+  }
+
+  /**
+   * Resolve a link target, mapping links into the document onto content document ids
+   */
+  private resolveHref(href: string): string | undefined {
+    const value = href.trim()
+    if (!value || /^javascript:/i.test(value)) {
+      return undefined
+    }
+    if (value.startsWith("#")) {
+      return this.resolveFragment(value.slice(1))
+    }
+
+    const url = this.resolveURL(value)
+    const hashIndex = url.indexOf("#")
+    if (this.documentURL && hashIndex >= 0 && url.slice(0, hashIndex) === this.documentURL.split("#")[0]) {
+      return this.resolveFragment(url.slice(hashIndex + 1))
+    }
+
+    // Relative links would point into the publication, where the target does not exist
+    return /^[a-z][\w+.-]*:/i.test(url) ? url : undefined
+  }
+
+  private resolveFragment(fragment: string): string | undefined {
+    let id = fragment
+    try {
+      id = decodeURIComponent(fragment)
+    } catch {
+      // Keep the raw fragment when it is not valid percent-encoding
+    }
+    const target = this.idTargets.get(id)
+    return target ? `#${target}` : undefined
+  }
+
+  /**
+   * Assign valid, unique ids to rendered elements and to headings listed in the navigation document
+   */
+  private assignIds(body: DOMSnapshotNode): void {
+    const visit = (node: DOMSnapshotNode) => {
+      if (node.type !== DOMSnapshotNodeType.ELEMENT || DROPPED_TAGS.has(node.tag!)) {
+        return
+      }
+
+      const tag = node.tag!
+      if (CONTENT_TAGS.has(tag) && node !== body) {
+        const originalId = node.attributes?.id?.trim()
+        if (originalId) {
+          const id = this.reserveId(originalId.replace(/[^\w.-]/g, "_"))
+          this.elementIds.set(node, id)
+          if (!this.idTargets.has(originalId)) {
+            this.idTargets.set(originalId, id)
+          }
+        }
+
+        const level = /^h([1-6])$/.exec(tag)?.[1]
+        if (level && Number(level) <= this.options.tocDepth) {
+          const title = getSnapshotText(node).replace(/\s+/g, " ").trim()
+          if (title) {
+            let id = this.elementIds.get(node)
+            if (!id) {
+              id = this.reserveId(`heading-${this.headings.length + 1}`)
+              this.elementIds.set(node, id)
+            }
+            this.headings.push({ level: Number(level), id, title })
+          }
+        }
+      }
+
+      node.children?.forEach(visit)
+    }
+    visit(body)
+  }
+
+  private reserveId(candidate: string): string {
+    const base = /^[a-z_]/i.test(candidate) ? candidate : `_${candidate}`
+    let id = base
+    for (let suffix = 2; this.usedIds.has(id); suffix++) {
+      id = `${base}-${suffix}`
+    }
+    this.usedIds.add(id)
+    return id
+  }
+
+  /**
+   * Assign a package path to a loaded image or font
+   */
+  private packageResource(url: string, kind: "image" | "font"): EPUBResource | undefined {
+    const existing = this.packaged.get(url)
+    if (existing) {
+      return existing
+    }
+
+    const loaded = this.resources.get(url)
+    const type = loaded && (kind === "font" ? detectFontType(loaded.data) : detectImageType(loaded.data))
+    if (!loaded || !type) {
+      return undefined
+    }
+
+    const count = kind === "font" ? ++this.fontCount : ++this.imageCount
+    const resource: EPUBResource = {
+      id: `${kind}-${count}`,
+      path: `${kind}s/${kind}-${count}.${type.extension}`,
+      mediaType: type.mediaType,
+      data: loaded.data,
+    }
+    this.packaged.set(url, resource)
+    return resource
+  }
+
+  /**
+   * Combine the base rules with the document's inline and linked stylesheets in document order
+   */
+  private renderStylesheet(root: DOMSnapshotNode): string {
+    const sheets = [BASE_STYLESHEET]
+    if (!this.options.includeStyles) {
+      return sheets[0]!
+    }
+
+    const visit = (node: DOMSnapshotNode) => {
+      if (node.type !== DOMSnapshotNodeType.ELEMENT || node.tag === "svg" || node.tag === "template") {
+        return
+      }
+
+      const media = node.attributes?.media
+      const screen = !media || /\b(?:all|screen)\b/i.test(media)
+      if (node.tag === "style" && screen) {
+        sheets.push(this.rewriteCSS(getSnapshotText(node), this.baseURL, new Set()))
+      } else if (node.tag === "link" && screen && this.isStylesheetLink(node)) {
+        const url = this.resolveURL(node.attributes!.href!.trim())
+        const sheet = this.resources.get(url)
+        if (sheet?.kind === "stylesheet") {
+          sheets.push(this.rewriteCSS(this.decodeText(sheet.data), url, new Set([url])))
+        }
+      }
+
+      node.children?.forEach(visit)
+    }
+    visit(root)
+
+    return sheets.map(sheet => sheet.trim()).filter(Boolean).join("\n\n")
+  }
+
+  /**
+   * Point font and image references at packaged resources and inline loaded imports
+   */
+  private rewriteCSS(css: string, sheetURL: string | undefined, visited: Set<string>): string {
+    return css
+      .replace(CHARSET_RULE, "")
+      .replace(URL_FUNCTION, (match, value: string) => {
+        if (value.startsWith("data:")) {
+          return match
+        }
+        const url = this.resolveURL(value, sheetURL)
+        const loaded = this.resources.get(url)
+        const resource = loaded && loaded.kind !== "stylesheet" ? this.packageResource(url, loaded.kind) : undefined
+        return resource ? `url("../${resource.path}")` : match
+      })
+      .replace(IMPORT_RULE, (_rule, urlValue: string | undefined, stringValue: string | undefined) => {
+        const url = this.resolveURL((urlValue ?? stringValue)!, sheetURL)
+        const sheet = this.resources.get(url)
+        if (sheet?.kind !== "stylesheet" || visited.has(url)) {
+          return ""
+        }
+        return this.rewriteCSS(this.decodeText(sheet.data), url, new Set([...visited, url]))
+      })
+  }
+
+  private isStylesheetLink(node: DOMSnapshotNode): boolean {
+    const rel = node.attributes?.rel?.toLowerCase().split(/\s+/) ?? []
+    return rel.includes("stylesheet") && !rel.includes("alternate") && !!node.attributes?.href?.trim()
+  }
+
+  private getResourceKind(dependency: ExternalDependency): EPUBResourceKind | undefined {
+    switch (dependency.type) {
+      case DependencyType.IMAGE:
+        return this.options.includeImages && dependency.tagName === "img" && dependency.attribute === "src" ? "image" : undefined
+      case DependencyType.STYLESHEET:
+      case DependencyType.CSS_IMPORT:
+        return this.options.includeStyles ? "stylesheet" : undefined
+      case DependencyType.FONT:
+        return this.options.includeStyles ? "font" : undefined
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Serialize the snapshot to HTML for dependency detection
+   */
+  private serializeForDetection(node: DOMSnapshotNode): string {
+    if (node.type === DOMSnapshotNodeType.TEXT) {
+      return (node.text ?? "").replace(/</g, "&lt;")
+    }
+    if (node.type !== DOMSnapshotNodeType.ELEMENT) {
+      return ""
+    }
+
+    const attributes = Object.entries(node.attributes ?? {})
+      .map(([name, value]) => ` ${name}="${value.replace(/"/g, "&quot;").replace(/>/g, "&gt;")}"`)
+      .join("")
+    const children = (node.children ?? []).map(child => this.serializeForDetection(child)).join("")
+    return `<${node.tag}${attributes}>${children}</${node.tag}>`
+  }
+
+  private readMetadata(root: DOMSnapshotNode): EPUBDocumentMetadata {
+    const title = findSnapshotElement(root, "title")
+    let author: string | undefined
+    const visit = (node: DOMSnapshotNode) => {
+      if (node.tag === "meta" && node.attributes?.name?.toLowerCase() === "author" && node.attributes.content?.trim()) {
+        author ??= node.attributes.content.trim()
+      }
+      node.children?.forEach(visit)
+    }
+    visit(findSnapshotElement(root, "head") ?? root)
+
+    return {
+      title: title ? getSnapshotText(title).replace(/\s+/g, " ").trim() || undefined : undefined,
+      author,
+      language: root.attributes?.lang?.trim() || root.attributes?.["xml:lang"]?.trim() || undefined,
+    }
+  }
+
+  private decodeText(data: Uint8Array): string {
+    return Buffer.from(data).toString("utf8").replace(/^\uFEFF/, "")
+  }
+
+  private resolveResourceURL(src: string): string {
+    return src.startsWith("data:") ? src : this.resolveURL(src)
+  }
+
+  private normalizeURL(url: string): string {
+    if (url.startsWith("data:")) {
+      return url
+    }
+    try {
+      return new URL(url).href
+    } catch {
+      return url
+    }
+  }
+
+  private applyBaseElement(root: DOMSnapshotNode): void {
+    const baseHref = findSnapshotElement(root, "base")?.attributes?.href
+    this.baseURL = baseHref ? this.resolveURL(baseHref, this.documentURL) : this.documentURL
+  }
+
+  private resolveURL(url: string, base = this.baseURL): string {
+    if (!base) {
+      return url
+    }
+    try {
+      return new URL(url, base).href
+    } catch {
+      return url
+    }
+  }
+}
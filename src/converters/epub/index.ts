@@ -0,0 +1,19 @@
+/**
+ * EPUB Converter module exports
+ */
+
+export { EPUBConverter } from "./epub-converter.js"
+export { buildEPUBPackage, EPUB_MIME_TYPE } from "./epub-package.js"
+export type { EPUBPackageMetadata } from "./epub-package.js"
+export { EPUBRenderer } from "./epub-renderer.js"
+export type {
+  EPUBConversionOptions,
+  EPUBDocumentContent,
+  EPUBDocumentMetadata,
+  EPUBHeading,
+  EPUBLoadedResource,
+  EPUBRenderOptions,
+  EPUBResource,
+  EPUBResourceKind,
+  EPUBResourceReference,
+} from "./types.js"
@@ -0,0 +1,96 @@
+/**
+ * EPUB converter specific types and interfaces
+ */
+
+import type { EPUBConfig } from "../../config/schema.js"
+import type { RenderedDOMCaptureOptions } from "../rendered-dom-converter.js"
+
+/**
+ * Resolved options controlling EPUB rendering
+ */
+export type EPUBRenderOptions = Pick<EPUBConfig, "tocDepth" | "includeImages" | "includeStyles">
+
+/**
+ * Per-conversion EPUB options (request options override converter configuration)
+ */
+export type EPUBConversionOptions = Partial<EPUBRenderOptions> & RenderedDOMCaptureOptions & {
+  /** Publication title (defaults to the document title) */
+  title?: string
+  /** Publication author (defaults to the author meta tag) */
+  author?: string
+  /** Publication language as a BCP 47 tag (defaults to the document language) */
+  language?: string
+  /** Unique publication identifier (defaults to a generated UUID URN) */
+  identifier?: string
+  /** Timeout for loading a single resource (milliseconds) */
+  timeoutPerResource?: number
+}
+
+/**
+ * Kind of resource referenced by the document
+ */
+export type EPUBResourceKind = "image" | "stylesheet" | "font"
+
+/**
+ * Resource the document references, detected before loading
+ */
+export interface EPUBResourceReference {
+  /** Resolved URL or data URI */
+  url: string
+  kind: EPUBResourceKind
+}
+
+/**
+ * Resource loaded for packaging, keyed by URL when passed to the renderer
+ */
+export interface EPUBLoadedResource {
+  kind: EPUBResourceKind
+  data: Uint8Array
+}
+
+/**
+ * Publication resource stored under OEBPS
+ */
+export interface EPUBResource {
+  /** Manifest item id */
+  id: string
+  /** Path relative to the OEBPS directory, e.g. "images/image-1.png" */
+  path: string
+  mediaType: string
+  data: Uint8Array
+}
+
+/**
+ * Heading listed in the navigation document
+ */
+export interface EPUBHeading {
+  /** Heading level (1-6) */
+  level: number
+  /** Element id in the content document */
+  id: string
+  title: string
+}
+
+/**
+ * Document metadata found in the rendered document
+ */
+export interface EPUBDocumentMetadata {
+  title?: string
+  author?: string
+  language?: string
+}
+
+/**
+ * Rendered EPUB content document
+ */
+export interface EPUBDocumentContent {
+  /** XHTML markup of the body children */
+  body: string
+  /** Headings included in the table of contents, in document order */
+  headings: EPUBHeading[]
+  /** Publication stylesheet */
+  stylesheet: string
+  /** Images and fonts referenced by the body and stylesheet */
+  resources: EPUBResource[]
+  metadata: EPUBDocumentMetadata
+}
@@ -0,0 +1,215 @@
+/**
+ * Self-contained HTML Converter Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { pathToFileURL } from "node:url"
+
+import { JSDOM } from "jsdom"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createMockLogger, createTestDocument, PNG_BASE64, PNG_DATA_URI } from "../../../tests/utils/converter-fixtures.js"
+
+import { SelfContainedHTMLConverter } from "./html-converter.js"
+import type { HTMLConversionOptions } from "./types.js"
+
+const mockLogger = createMockLogger()
+
+/**
+ * Decode every data URI of the given media type found in the markup
+ */
+function decodeDataURIs(html: string, mediaType: string): string[] {
+  const pattern = new RegExp(`data:${mediaType.replace(/[+/]/g, "\\$&")}(?:;charset=utf-8)?;base64,([A-Za-z0-9+/=]+)`, "g")
+  return Array.from(html.matchAll(pattern), match => Buffer.from(match[1]!, "base64").toString("utf8"))
+}
+
+describe("selfContainedHTMLConverter", () => {
+  let converter: SelfContainedHTMLConverter
+  let fixtureDir: string
+  let documentURL: string
+
+  const createDocument = (body: string, head = ""): HTMLDocument =>
+    createTestDocument(body, { head, lang: "en", title: "Offline Page", url: documentURL })
+
+  const toHTML = async (document: HTMLDocument, options: HTMLConversionOptions = {}): Promise<string> => {
+    const result = await converter.convert(document, { format: "html", options })
+    return result.content
+  }
+
+  beforeAll(async () => {
+    fixtureDir = await mkdtemp(join(tmpdir(), "html-converter-"))
+    documentURL = pathToFileURL(join(fixtureDir, "page.html")).href
+
+    await writeFile(join(fixtureDir, "photo.png"), Buffer.from(PNG_BASE64, "base64"))
+    await writeFile(join(fixtureDir, "photo@2x.png"), Buffer.from(PNG_BASE64, "base64"))
+    await writeFile(join(fixtureDir, "favicon.ico"), Buffer.from([0, 0, 1, 0, 1, 0, 16, 16]))
+    await writeFile(join(fixtureDir, "body.woff2"), Buffer.concat([Buffer.from("wOF2"), Buffer.alloc(28)]))
+    await writeFile(join(fixtureDir, "cursor.cur"), Buffer.from([0, 0, 2, 0, 1, 0]))
+    await writeFile(
+      join(fixtureDir, "main.css"),
+      "@charset \"utf-8\";\n@import \"theme.css\";\n"
+      + "@font-face { font-family: Body; src: url(\"body.woff2\") format(\"woff2\"); }\n"
+      + "body { font-family: Body; }\n",
+    )
+    await writeFile(join(fixtureDir, "theme.css"), ".hero { background: url(photo.png); cursor: url(cursor.cur), auto; }\n")
+    await writeFile(join(fixtureDir, "loop-a.css"), "@import url(\"loop-b.css\");\n.a { color: red; }\n")
+    await writeFile(join(fixtureDir, "loop-b.css"), "@import url(\"loop-a.css\");\n.b { color: blue; }\n")
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    converter = new SelfContainedHTMLConverter(mockLogger)
+  })
+
+  afterAll(async () => {
+    await rm(fixtureDir, { recursive: true, force: true })
+  })
+
+  describe("converter metadata", () => {
+    it("should report html as its name and output format", () => {
+      expect(converter.getName()).toBe("html")
+      expect(converter.getOutputFormat()).toBe("text/html")
+      expect(converter.canHandle("text/html")).toBe(true)
+      expect(converter.canHandle("application/pdf")).toBe(false)
+    })
+
+    it("should return plain HTML with inlining statistics", async () => {
+      const result = await converter.convert(createDocument("<img src=\"photo.png\" alt=\"Photo\"><img src=\"missing.png\">"))
+
+      expect(result.mimeType).toBe("text/html")
+      expect(result.metadata.targetFormat).toBe("html")
+      expect(result.metadata.encoding).toBeUndefined()
+      expect(result.metadata.title).toBe("Offline Page")
+      expect(result.metadata.inlinedResources).toBe(1)
+      expect(result.metadata.failedResources).toBe(1)
+      expect(result.content).toContain("<title>Offline Page</title>")
+    })
+  })
+
+  describe("resource inlining", () => {
+    it("should embed linked stylesheets, icons and images as data URIs", async () => {
+      const html = await toHTML(createDocument(
+        "<img src=\"photo.png\" srcset=\"photo.png 1x, photo@2x.png 2x\" alt=\"Photo\">",
+        "<link rel=\"stylesheet\" href=\"theme.css\"><link rel=\"icon\" href=\"favicon.ico\">",
+      ))
+
+      expect(html).not.toMatch(/(?:theme\.css|favicon\.ico|photo\.png|photo@2x\.png)/)
+      expect(html).toContain(`src="${PNG_DATA_URI}"`)
+      expect(html).toContain(`srcset="${PNG_DATA_URI} 1x, ${PNG_DATA_URI} 2x"`)
+      expect(html).toContain("href=\"data:image/x-icon;base64,")
+      expect(decodeDataURIs(html, "text/css")[0]).toContain(".hero")
+    })
+
+    it("should follow imports, font sources and url() references inside stylesheets", async () => {
+      const html = await toHTML(createDocument("<p>Text</p>", "<link rel=\"stylesheet\" href=\"main.css\">"))
+
+      const [main] = decodeDataURIs(html, "text/css")
+      expect(main).toContain("@import url(\"data:text/css;charset=utf-8;base64,")
+      expect(main).toContain("src: url(\"data:font/woff2;base64,")
+      expect(main).not.toMatch(/(?:theme\.css|body\.woff2)/)
+
+      const theme = decodeDataURIs(main!, "text/css")[0]
+      expect(theme).toContain(`background: url("${PNG_DATA_URI}")`)
+      expect(theme).toContain("cursor: url(\"data:image/x-icon;base64,")
+    })
+
+    it("should rewrite url() references in style elements and style attributes", async () => {
+      const html = await toHTML(createDocument(
+        "<div class=\"hero\" style=\"background-image: url('photo.png')\">Hero</div>",
+        "<style>.banner { background: url(\"photo.png\") no-repeat; }</style>",
+      ))
+
+      expect(html).toContain(`.banner { background: url("${PNG_DATA_URI}") no-repeat; }`)
+      expect(html).toContain(`style="background-image: url(&quot;${PNG_DATA_URI}&quot;)"`)
+    })
+
+    it("should stop at circular stylesheet imports", async () => {
+      const html = await toHTML(createDocument("<p>Text</p>", "<link rel=\"stylesheet\" href=\"loop-a.css\">"))
+
+      const [loopA] = decodeDataURIs(html, "text/css")
+      const loopB = decodeDataURIs(loopA!, "text/css")[0]
+      expect(loopA).toContain(".a { color: red; }")
+      expect(loopB).toContain(".b { color: blue; }")
+      expect(loopB).toContain(`@import url("${pathToFileURL(join(fixtureDir, "loop-a.css")).href}")`)
+    })
+
+    it("should keep the absolute URL of resources that cannot be loaded", async () => {
+      const html = await toHTML(createDocument("<img src=\"missing.png\" alt=\"Missing\">"))
+
+      expect(html).toContain(`src="${pathToFileURL(join(fixtureDir, "missing.png")).href}"`)
+      expect(mockLogger.warn).toHaveBeenCalledWith("Failed to load image", expect.objectContaining({
+        source: expect.stringContaining("missing.png"),
+      }))
+    })
+
+    it("should not embed local files in remote pages", async () => {
+      const photoURL = pathToFileURL(join(fixtureDir, "photo.png")).href
+      const remote = new JSDOM(
+        `<!DOCTYPE html><html><head><title>Remote</title></head><body><div style="background: url(${photoURL})">Hero</div></body></html>`,
+        { url: "https://example.com/page.html" },
+      ).window.document
+
+      const result = await converter.convert(remote, { format: "html" })
+
+      expect(result.content).toContain(photoURL)
+      expect(result.content).not.toContain(PNG_DATA_URI)
+      expect(result.metadata.failedResources).toBe(1)
+    })
+
+    it("should skip resources larger than the maximum resource size", async () => {
+      const html = await toHTML(createDocument("<img src=\"photo.png\" alt=\"Photo\">"), { maxResourceSize: 16 })
+
+      expect(html).not.toContain(PNG_DATA_URI)
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "Skipping image larger than the maximum resource size",
+        expect.objectContaining({ maxResourceSize: 16 }),
+      )
+    })
+  })
+
+  describe("document output", () => {
+    it("should remove scripts and the base element and resolve relative links", async () => {
+      const html = await toHTML(createDocument(
+        "<a href=\"docs/guide.html\">Guide</a><a href=\"#top\">Top</a><script src=\"app.js\"></script>",
+        "<base href=\"assets/\"><script>alert(1)</script>",
+      ))
+
+      expect(html).not.toContain("<script")
+      expect(html).not.toContain("<base")
+      expect(html).toContain(`href="${pathToFileURL(join(fixtureDir, "assets/docs/guide.html")).href}"`)
+      expect(html).toContain("href=\"#top\"")
+    })
+
+    it("should declare an HTML doctype and UTF-8 encoding", async () => {
+      const html = await toHTML(createDocument(
+        "<p>Caf\u00E9</p>",
+        "<meta http-equiv=\"Content-Type\" content=\"text/html; charset=iso-8859-1\">",
+      ))
+
+      expect(html.startsWith("<!DOCTYPE html>")).toBe(true)
+      expect(html.match(/<meta\s[^>]*charset/gi)).toEqual(["<meta charset"])
+      expect(html).toContain("<p>Caf\u00E9</p>")
+    })
+
+    it("should add custom CSS from the request options", async () => {
+      const html = await toHTML(createDocument("<p>Text</p>"), { customCSS: "p { color: teal; }" })
+
+      expect(html).toContain("p { color: teal; }")
+    })
+
+    it("should produce a document that parses back to the same content", async () => {
+      const html = await toHTML(createDocument(
+        "<h1>Heading</h1><img src=\"photo.png\" alt=\"Photo &amp; caption\">",
+        "<link rel=\"stylesheet\" href=\"main.css\">",
+      ))
+      const parsed = new JSDOM(html).window.document
+
+      expect(parsed.querySelector("h1")?.textContent).toBe("Heading")
+      expect(parsed.querySelector("img")?.getAttribute("alt")).toBe("Photo & caption")
+      expect(parsed.querySelector("link[rel=stylesheet]")?.getAttribute("href")).toMatch(/^data:text\/css;charset=utf-8;base64,/)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Self-contained HTML Converter - Converts HTML documents to a single offline-viewable HTML file
+ * Serializes the document with the basic HTML tier and embeds every external resource as a data URI
+ */
+
+import { BaseConverter } from "../../architecture/strategies/BaseConverter.js"
+import type { ConversionRequest, ConversionResult, Logger } from "../../architecture/strategies/types.js"
+import { DEFAULT_HTML_CONFIG } from "../../config/defaults.js"
+import type { HTMLConfig } from "../../config/schema.js"
+import { BasicHTMLTier } from "../../tiers/BasicHTMLTier.js"
+import { getResourceOrigin } from "../resource-loader.js"
+
+import { ResourceInliner } from "./resource-inliner.js"
+import type { HTMLConversionOptions, ResourceInlinerOptions } from "./types.js"
+
+/**
+ * Self-contained HTML Converter implementation
+ *
+ * This converter handles:
+ * - Serializing the document with inlined style elements and without scripts
+ * - Embedding stylesheets, images, icons and fonts as data URIs
+ * - Following `@import` rules, `@font-face` sources and `url()` references inside stylesheets
+ * - Resolving remaining relative links against the document URL
+ */
+export class SelfContainedHTMLConverter extends BaseConverter {
+  private config: HTMLConfig
+
+  constructor(logger: Logger, config: Partial<HTMLConfig> = {}) {
+    super(logger)
+    this.config = { ...DEFAULT_HTML_CONFIG, ...config }
+
+    this.logger.info("Self-contained HTML Converter initialized", {
+      maxResourceSize: this.config.maxResourceSize,
+      timeoutPerResource: this.config.timeoutPerResource,
+    })
+  }
+
+  /**
+   * Convert HTML document to a self-contained HTML document
+   *
+   * @param input - HTML document to convert
+   * @param request - Conversion request whose options override the converter configuration
+   * @returns Promise resolving to HTML conversion result
+   */
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
+    const validation = this.validate(input)
+    if (!validation.isValid) {
+      throw new Error(`Input validation failed: ${validation.errors.join(", ")}`)
+    }
+
+    const options: HTMLConversionOptions = request?.options ?? {}
+    const inlinerOptions: ResourceInlinerOptions = {
+      maxResourceSize: options.maxResourceSize ?? this.config.maxResourceSize,
+      timeoutPerResource: options.timeoutPerResource ?? this.config.timeoutPerResource,
+    }
+
+    this.logger.info("Starting self-contained HTML conversion", {
+      maxResourceSize: inlinerOptions.maxResourceSize,
+      hasCustomCSS: !!options.customCSS,
+    })
+
+    const { result, duration } = await this.measureConversionTime(async () => {
+      const tier = new BasicHTMLTier(this.logger, { includeMetadata: false, customCSS: options.customCSS ?? "" })
+      const serialized = await tier.convert(input)
+      const inliner = new ResourceInliner(this.logger, inlinerOptions)
+      return inliner.inline(serialized.content, getResourceOrigin(input, this.getDocumentURL(input)))
+    })
+
+    this.logger.info("Self-contained HTML conversion completed", {
+      duration,
+      outputSize: result.html.length,
+      inlined: result.inlinedCount,
+      failed: result.failedCount,
+    })
+
+    return this.createConversionResult(result.html, "text/html", "text/html", "html", {
+      title: input.title || undefined,
+      inlinedResources: result.inlinedCount,
+      failedResources: result.failedCount,
+      inlinedSize: result.inlinedSize,
+      executionTime: duration,
+      tier: 4,
+      conversionMethod: "inline-resources",
+    })
+  }
+
+  /**
+   * Check if this converter can handle the given content type
+   *
+   * @param contentType - MIME type to check
+   * @returns True if this converter can handle the content type
+   */
+  canHandle(contentType: string): boolean {
+    return this.getSupportedContentTypes().includes(contentType.toLowerCase())
+  }
+
+  /**
+   * Get the name of this converter strategy
+   *
+   * @returns Converter name
+   */
+  getName(): string {
+    return "html"
+  }
+
+  /**
+   * Get supported content types
+   *
+   * @returns Array of supported MIME types
+   */
+  getSupportedContentTypes(): string[] {
+    return ["text/html", "application/xhtml+xml"]
+  }
+
+  /**
+   * Get output format MIME type
+   *
+   * @returns Output MIME type
+   */
+  getOutputFormat(): string {
+    return "text/html"
+  }
+
+  // Private helper methods
+
+  /**
+   * Get the document URL when relative references can be resolved against it
+   */
+  private getDocumentURL(input: HTMLDocument): string | undefined {
+    const url = input.URL
+    return typeof url === "string" && /^(?:https?|file):/i.test(url) ? url : undefined
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Self-contained HTML Converter module exports
+ */
+
+export { SelfContainedHTMLConverter } from "./html-converter.js"
+export { ResourceInliner } from "./resource-inliner.js"
+export type {
+  HTMLConversionOptions,
+  InlinedHTMLDocument,
+  InlinedResourceKind,
+  InlinedResourceReference,
+  LoadedInlineResource,
+  ResourceInlinerOptions,
+} from "./types.js"
@@ -0,0 +1,419 @@
+/**
+ * Resource Inliner - Embeds the external resources of an HTML document as data URIs
+ * Follows stylesheets through their imports, fonts and url() references so the result opens offline
+ */
+
+import { Buffer } from "node:buffer"
+
+import type { Logger } from "../../architecture/strategies/types.js"
+import { DependencyType, ExternalDependencyDetector } from "../../core/engine/mhtml-processor.js"
+import type { ExternalDependency } from "../../core/engine/mhtml-processor.js"
+import { detectFontType, detectImageType } from "../media-types.js"
+import { describeResource, loadResource } from "../resource-loader.js"
+import type { ResourceOrigin } from "../resource-loader.js"
+import { decodeEntities } from "../xml.js"
+
+import type {
+  InlinedHTMLDocument,
+  InlinedResourceKind,
+  InlinedResourceReference,
+  LoadedInlineResource,
+  ResourceInlinerOptions,
+} from "./types.js"
+
+const START_TAG = /<([a-z][\w-]*)(\s(?:[^>"']|"[^"]*"|'[^']*')*)?>/gi
+
+const STYLE_ELEMENT = /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi
+
+const BASE_ELEMENT = /<base\b[^>]*>/gi
+
+const CHARSET_META = /<meta\s[^>]*charset\s*=[^>]*>/gi
+
+const HEAD_START_TAG = /<head\b[^>]*>/i
+
+const URL_ATTRIBUTE = /(\s)(src|href|srcset|poster|style)="([^"]*)"/gi
+
+const IMPORT_RULE = /@import\s+(?:url\(\s*["']?([^"')\s]+)["']?\s*\)|["']([^"']+)["'])/gi
+
+const URL_FUNCTION = /url\(\s*["']?([^"')\s]+)["']?\s*\)/gi
+
+/**
+ * Media types guessed from the file extension when the content signature is not recognized
+ */
+const EXTENSION_MEDIA_TYPES: Record<string, string> = {
+  avif: "image/avif",
+  bmp: "image/bmp",
+  cur: "image/x-icon",
+  eot: "application/vnd.ms-fontobject",
+  gif: "image/gif",
+  ico: "image/x-icon",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  otf: "font/otf",
+  png: "image/png",
+  svg: "image/svg+xml",
+  ttf: "font/ttf",
+  webp: "image/webp",
+  woff: "font/woff",
+  woff2: "font/woff2",
+}
+
+/**
+ * Resource inliner implementation
+ *
+ * Resources are found with the external dependency detector: linked stylesheets,
+ * icons, images, `@import` rules and `@font-face` sources. `url()` references in
+ * style elements, style attributes and loaded stylesheets are followed as well.
+ * Resources that cannot be loaded keep their absolute URL.
+ */
+export class ResourceInliner {
+  private logger: Logger
+  private options: ResourceInlinerOptions
+  private detector: ExternalDependencyDetector
+
+  constructor(logger: Logger, options: ResourceInlinerOptions) {
+    this.logger = logger
+    this.options = options
+    this.detector = new ExternalDependencyDetector(logger)
+  }
+
+  /**
+   * Embed every external resource of an HTML document as a data URI
+   *
+   * @param html - Serialized HTML document
+   * @param origin - Document URL, used to resolve relative references, and source archive
+   * @returns Self-contained HTML document and inlining statistics
+   */
+  async inline(html: string, origin: ResourceOrigin = {}): Promise<InlinedHTMLDocument> {
+    const baseURL = this.getBaseURL(html, origin.documentURL)
+    const references = this.collectReferences(html, baseURL)
+    const resources = await this.loadResources(references, origin)
+
+    const dataURIs = new Map<string, string>()
+    const content = this.rewriteHTML(html, baseURL, resources, dataURIs)
+
+    const inlinedSize = Array.from(resources.values()).reduce((total, resource) => total + resource.data.length, 0)
+    const failedCount = Array.from(references.keys()).filter(url => !resources.has(url)).length
+    return {
+      html: content,
+      inlinedCount: resources.size,
+      failedCount,
+      inlinedSize,
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Detect the resources the document references, keyed by resolved URL
+   */
+  private collectReferences(html: string, baseURL: string | undefined): Map<string, InlinedResourceKind> {
+    const references = new Map<string, InlinedResourceKind>()
+    for (const dependency of this.detector.detectExternalDependencies(html, baseURL)) {
+      const kind = this.getResourceKind(dependency)
+      if (kind) {
+        this.addReference(references, this.normalizeURL(decodeEntities(dependency.url)), kind)
+      }
+    }
+
+    const css = [
+      ...Array.from(html.matchAll(STYLE_ELEMENT), match => match[2]!),
+      ...Array.from(html.matchAll(/\sstyle="([^"]*)"/gi), match => decodeEntities(match[1]!)),
+    ]
+    for (const block of css) {
+      for (const reference of this.collectCSSReferences(block, baseURL)) {
+        this.addReference(references, reference.url, reference.kind)
+      }
+    }
+
+    return references
+  }
+
+  /**
+   * Detect the imports, fonts and url() assets a stylesheet references
+   */
+  private collectCSSReferences(css: string, sheetURL: string | undefined): InlinedResourceReference[] {
+    const references = new Map<string, InlinedResourceKind>()
+    for (const dependency of this.detector.detectExternalDependencies(css, sheetURL)) {
+      const kind = this.getResourceKind(dependency)
+      if (kind) {
+        this.addReference(references, this.normalizeURL(dependency.url), kind)
+      }
+    }
+    for (const match of css.replace(IMPORT_RULE, "").matchAll(URL_FUNCTION)) {
+      if (!match[1]!.startsWith("data:")) {
+        this.addReference(references, this.resolveURL(match[1]!, sheetURL), "asset")
+      }
+    }
+    return Array.from(references, ([url, kind]) => ({ url, kind }))
+  }
+
+  private addReference(references: Map<string, InlinedResourceKind>, url: string, kind: InlinedResourceKind): void {
+    const existing = references.get(url)
+    if (!existing || existing === "asset") {
+      references.set(url, kind)
+    }
+  }
+
+  /**
+   * Load the detected resources and the resources referenced by loaded stylesheets
+   */
+  private async loadResources(
+    references: Map<string, InlinedResourceKind>,
+    origin: ResourceOrigin,
+  ): Promise<Map<string, LoadedInlineResource>> {
+    const resources = new Map<string, LoadedInlineResource>()
+    let pending = Array.from(references, ([url, kind]) => ({ url, kind }))
+
+    while (pending.length > 0) {
+      const batch = pending
+      const loaded = await Promise.all(batch.map(reference => this.loadReference(reference, origin)))
+
+      pending = []
+      loaded.forEach((resource, index) => {
+        const reference = batch[index]!
+        if (!resource) {
+          return
+        }
+        resources.set(reference.url, resource)
+        if (reference.kind !== "stylesheet") {
+          return
+        }
+        for (const nested of this.collectCSSReferences(decodeText(resource.data), reference.url)) {
+          if (!references.has(nested.url)) {
+            references.set(nested.url, nested.kind)
+            pending.push(nested)
+          }
+        }
+      })
+    }
+
+    return resources
+  }
+
+  private async loadReference(
+    reference: InlinedResourceReference,
+    origin: ResourceOrigin,
+  ): Promise<LoadedInlineResource | undefined> {
+    try {
+      const data = await loadResource(reference.url, this.options.timeoutPerResource, origin)
+      if (data.length > this.options.maxResourceSize) {
+        this.logger.warn(`Skipping ${reference.kind} larger than the maximum resource size`, {
+          source: describeResource(reference.url),
+          size: data.length,
+          maxResourceSize: this.options.maxResourceSize,
+        })
+        return undefined
+      }
+      const mediaType = reference.kind === "stylesheet" ? "text/css" : this.getMediaType(data, reference.url)
+      return { kind: reference.kind, mediaType, data }
+    } catch (error) {
+      this.logger.warn(`Failed to load ${reference.kind}`, {
+        source: describeResource(reference.url),
+        error: (error as Error).message,
+      })
+      return undefined
+    }
+  }
+
+  /**
+   * Rewrite resource references to data URIs and remaining relative URLs to absolute URLs
+   */
+  private rewriteHTML(
+    html: string,
+    baseURL: string | undefined,
+    resources: Map<string, LoadedInlineResource>,
+    dataURIs: Map<string, string>,
+  ): string {
+    const rewriteURL = (value: string, embed = true): string => {
+      const trimmed = value.trim()
+      if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("data:")) {
+        return value
+      }
+      const url = this.resolveURL(trimmed, baseURL)
+      return (embed ? this.getDataURI(url, resources, dataURIs, new Set()) : undefined) ?? url
+    }
+
+    let content = html
+      .replace(BASE_ELEMENT, "")
+      .replace(STYLE_ELEMENT, (_match, open: string, css: string, close: string) =>
+        `${open}${this.rewriteCSS(css, baseURL, resources, dataURIs, new Set())}${close}`)
+      .replace(START_TAG, (_tag: string, name: string, attributes = "") => {
+        if (name.toLowerCase() === "meta" && /\bhttp-equiv\s*=\s*["']?content-type/i.test(attributes)) {
+          return ""
+        }
+        const rewritten = attributes.replace(URL_ATTRIBUTE, (_attribute: string, space: string, attribute: string, raw: string) => {
+          const value = decodeEntities(raw)
+          let result: string
+          switch (attribute.toLowerCase()) {
+            case "style":
+              result = this.rewriteCSS(value, baseURL, resources, dataURIs, new Set())
+              break
+            case "srcset":
+              result = value
+                .split(",")
+                .map((candidate) => {
+                  const [url = "", ...descriptors] = candidate.trim().split(/\s+/)
+                  return [rewriteURL(url), ...descriptors].join(" ")
+                })
+                .join(", ")
+              break
+            case "href":
+              // Hyperlinks keep pointing at the original resources
+              result = rewriteURL(value, name.toLowerCase() === "link")
+              break
+            default:
+              result = rewriteURL(value)
+          }
+          return `${space}${attribute}="${escapeAttribute(result)}"`
+        })
+        return `<${name}${rewritten}>`
+      })
+
+    // The document is written as UTF-8 whatever encoding the source declared
+    let declared = false
+    content = content.replace(CHARSET_META, () => {
+      const replacement = declared ? "" : "<meta charset=\"utf-8\">"
+      declared = true
+      return replacement
+    })
+    if (!declared) {
+      content = HEAD_START_TAG.test(content)
+        ? content.replace(HEAD_START_TAG, head => `${head}<meta charset="utf-8">`)
+        : `<meta charset="utf-8">${content}`
+    }
+
+    return /^\s*(?:<!--[\s\S]*?-->\s*)*<!doctype/i.test(content) ? content : `<!DOCTYPE html>\n${content}`
+  }
+
+  /**
+   * Rewrite the imports and url() references of a stylesheet to data URIs
+   */
+  private rewriteCSS(
+    css: string,
+    sheetURL: string | undefined,
+    resources: Map<string, LoadedInlineResource>,
+    dataURIs: Map<string, string>,
+    visiting: Set<string>,
+  ): string {
+    return css
+      .replace(IMPORT_RULE, (match, urlValue: string | undefined, stringValue: string | undefined) => {
+        const url = this.resolveURL((urlValue ?? stringValue)!, sheetURL)
+        const dataURI = this.getDataURI(url, resources, dataURIs, visiting)
+        return dataURI ? `@import url("${dataURI}")` : match
+      })
+      .replace(URL_FUNCTION, (match, value: string) => {
+        if (value.startsWith("data:")) {
+          return match
+        }
+        const url = this.resolveURL(value, sheetURL)
+        return `url("${this.getDataURI(url, resources, dataURIs, visiting) ?? url}")`
+      })
+  }
+
+  /**
+   * Encode a loaded resource as a data URI, rewriting stylesheets first
+   */
+  private getDataURI(
+    url: string,
+    resources: Map<string, LoadedInlineResource>,
+    dataURIs: Map<string, string>,
+    visiting: Set<string>,
+  ): string | undefined {
+    const cached = dataURIs.get(url)
+    const resource = resources.get(url)
+    if (cached || !resource) {
+      return cached
+    }
+
+    let data: Uint8Array = resource.data
+    let mediaType = resource.mediaType
+    if (resource.kind === "stylesheet") {
+      // Circular imports keep the URL of the stylesheet being encoded
+      if (visiting.has(url)) {
+        return undefined
+      }
+      const css = this.rewriteCSS(decodeText(resource.data), url, resources, dataURIs, new Set([...visiting, url]))
+      data = Buffer.from(css, "utf8")
+      mediaType = "text/css;charset=utf-8"
+    }
+
+    const dataURI = `data:${mediaType};base64,${Buffer.from(data).toString("base64")}`
+    dataURIs.set(url, dataURI)
+    return dataURI
+  }
+
+  private getResourceKind(dependency: ExternalDependency): InlinedResourceKind | undefined {
+    switch (dependency.type) {
+      case DependencyType.IMAGE:
+      case DependencyType.ICON:
+        return "image"
+      case DependencyType.VIDEO:
+        return dependency.attribute === "poster" ? "image" : undefined
+      case DependencyType.STYLESHEET:
+      case DependencyType.CSS_IMPORT:
+        return "stylesheet"
+      case DependencyType.FONT:
+        return "font"
+      default:
+        return undefined
+    }
+  }
+
+  private getMediaType(data: Uint8Array, url: string): string {
+    const detected = detectImageType(data) ?? detectFontType(data)
+    if (detected) {
+      return detected.mediaType
+    }
+    if (data.length >= 4 && data[0] === 0 && data[1] === 0 && (data[2] === 1 || data[2] === 2) && data[3] === 0) {
+      return "image/x-icon"
+    }
+
+    let extension: string | undefined
+    try {
+      extension = new URL(url).pathname.match(/\.(\w+)$/)?.[1]?.toLowerCase()
+    } catch {
+      extension = undefined
+    }
+    return (extension && EXTENSION_MEDIA_TYPES[extension]) || "application/octet-stream"
+  }
+
+  /**
+   * Resolve the document base URL, honoring a `<base>` element
+   */
+  private getBaseURL(html: string, documentURL: string | undefined): string | undefined {
+    const href = html.match(/<base\b[^>]*\shref="([^"]*)"/i)?.[1]
+    if (!href) {
+      return documentURL
+    }
+    try {
+      return new URL(decodeEntities(href), documentURL).href
+    } catch {
+      return documentURL
+    }
+  }
+
+  private normalizeURL(url: string): string {
+    try {
+      return new URL(url).href
+    } catch {
+      return url
+    }
+  }
+
+  private resolveURL(url: string, base: string | undefined): string {
+    try {
+      return new URL(url, base).href
+    } catch {
+      return url
+    }
+  }
+}
+
+function decodeText(data: Uint8Array): string {
+  return Buffer.from(data).toString("utf8").replace(/^\uFEFF/, "")
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")
+}
@@ -0,0 +1,57 @@
+/**
+ * Self-contained HTML converter specific types and interfaces
+ */
+
+import type { HTMLConfig } from "../../config/schema.js"
+
+/**
+ * Resolved options controlling resource inlining
+ */
+export type ResourceInlinerOptions = Pick<HTMLConfig, "maxResourceSize" | "timeoutPerResource">
+
+/**
+ * Per-conversion HTML options (request options override converter configuration)
+ */
+export type HTMLConversionOptions = Partial<ResourceInlinerOptions> & {
+  /** Custom CSS added to the document head */
+  customCSS?: string
+}
+
+/**
+ * Kind of resource referenced by the document
+ *
+ * Assets are referenced from CSS `url()` functions and may be images, fonts or cursors.
+ */
+export type InlinedResourceKind = "image" | "stylesheet" | "font" | "asset"
+
+/**
+ * Resource the document references, detected before loading
+ */
+export interface InlinedResourceReference {
+  /** Resolved URL */
+  url: string
+  kind: InlinedResourceKind
+}
+
+/**
+ * Resource loaded for inlining
+ */
+export interface LoadedInlineResource {
+  kind: InlinedResourceKind
+  mediaType: string
+  data: Uint8Array
+}
+
+/**
+ * Self-contained document produced by the resource inliner
+ */
+export interface InlinedHTMLDocument {
+  /** HTML markup with every loaded resource embedded as a data URI */
+  html: string
+  /** Number of resources embedded in the document */
+  inlinedCount: number
+  /** Number of referenced resources that could not be embedded */
+  failedCount: number
+  /** Total size of the embedded resources (bytes) */
+  inlinedSize: number
+}
@@ -2,4 +2,17 @@
  * Converters Module - Conversion implementations for different formats
  */
 
+export { detectCodeLanguage, guessCodeLanguage, tokenizeCode } from "./code-language.js"
+export type { CodeToken, CodeTokenKind } from "./code-language.js"
+export * from "./docx/index.js"
+export * from "./epub/index.js"
+export * from "./html/index.js"
+export * from "./json/index.js"
+export * from "./markdown/index.js"
+export { detectFontType, detectImageType } from "./media-types.js"
+export type { MediaTypeInfo } from "./media-types.js"
 export * from "./mhtml/index.js"
+export { RenderedDOMConverter } from "./rendered-dom-converter.js"
+export type { CapturedDocument, DocumentPreparation, RenderedDOMCaptureOptions } from "./rendered-dom-converter.js"
+export { describeResource, getResourceOrigin, loadResource, RESOURCE_LOAD_TIMEOUT, setDocumentArchive } from "./resource-loader.js"
+export type { ResourceOrigin } from "./resource-loader.js"
@@ -0,0 +1,318 @@
+/**
+ * Document Extractor - Walks a DOM snapshot and collects a structured document model
+ * Gives indexers the page metadata, outline, text, links, images and tables without scraping
+ */
+
+import { DOMSnapshotNodeType, findSnapshotElement, getSnapshotText, isStructuredData } from "../../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../../core/engine/dom-snapshot.js"
+
+import type {
+  ExtractedDocument,
+  ExtractedHeading,
+  ExtractedImage,
+  ExtractedLink,
+  ExtractedMetadata,
+  ExtractedTable,
+} from "./types.js"
+
+/**
+ * Heading elements and their levels
+ */
+const HEADING_LEVELS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 }
+
+/**
+ * Elements whose text is separated from the surrounding text
+ */
+const SEPARATED_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "br",
+  "dd",
+  "div",
+  "dt",
+  "figcaption",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "li",
+  "p",
+  "section",
+  "td",
+  "th",
+  "tr",
+])
+
+/**
+ * Table sections holding rows
+ */
+const TABLE_SECTION_TAGS = new Set(["thead", "tbody", "tfoot"])
+
+/**
+ * Extracts the structured model of a document from a DOM snapshot
+ */
+export class DocumentExtractor {
+  private documentURL?: string
+  private baseURL?: string
+
+  constructor(baseURL?: string) {
+    this.documentURL = baseURL
+    this.baseURL = baseURL
+  }
+
+  /**
+   * Extract the document model
+   *
+   * @param root - Snapshot of the document element
+   * @returns Structured document
+   */
+  extract(root: DOMSnapshotNode): ExtractedDocument {
+    this.applyBaseElement(root)
+
+    const document: ExtractedDocument = {
+      metadata: this.extractMetadata(root),
+      outline: [],
+      paragraphs: [],
+      links: [],
+      images: [],
+      tables: [],
+    }
+
+    const visit = (node: DOMSnapshotNode) => {
+      if (node.type !== DOMSnapshotNodeType.ELEMENT || node.tag === "head") {
+        return
+      }
+
+      const tag = node.tag!
+      if (tag in HEADING_LEVELS) {
+        const heading = this.extractHeading(node)
+        if (heading) {
+          document.outline.push(heading)
+        }
+      } else if (tag === "p") {
+        const text = readText(node)
+        if (text) {
+          document.paragraphs.push(text)
+        }
+      } else if (tag === "a") {
+        const link = this.extractLink(node)
+        if (link) {
+          document.links.push(link)
+        }
+      } else if (tag === "img") {
+        const image = this.extractImage(node)
+        if (image) {
+          document.images.push(image)
+        }
+      } else if (tag === "table") {
+        document.tables.push(this.extractTable(node))
+      }
+      node.children?.forEach(visit)
+    }
+    visit(root)
+
+    return document
+  }
+
+  // Private helper methods
+
+  /**
+   * Resolve URLs against the document's base element, if it has one
+   */
+  private applyBaseElement(root: DOMSnapshotNode): void {
+    this.baseURL = this.documentURL
+    const baseHref = findSnapshotElement(root, "base")?.attributes?.href
+    if (baseHref) {
+      this.baseURL = this.resolveURL(baseHref.trim())
+    }
+  }
+
+  private extractMetadata(root: DOMSnapshotNode): ExtractedMetadata {
+    const meta = new Map<string, string>()
+    const openGraph: Record<string, string> = {}
+    const jsonLd: unknown[] = []
+    let canonical: string | undefined
+
+    const visit = (node: DOMSnapshotNode) => {
+      if (node.type !== DOMSnapshotNodeType.ELEMENT) {
+        return
+      }
+      const attributes = node.attributes ?? {}
+      if (node.tag === "meta") {
+        const name = (attributes.property ?? attributes.name)?.trim().toLowerCase()
+        const content = attributes.content?.trim()
+        if (name && content) {
+          if (!meta.has(name)) {
+            meta.set(name, content)
+          }
+          if (name.startsWith("og:") && name.length > 3) {
+            openGraph[name.slice(3)] ??= content
+          }
+        }
+      } else if (node.tag === "link" && !canonical && attributes.href?.trim()
+        && attributes.rel?.toLowerCase().split(/\s+/).includes("canonical")) {
+        canonical = this.resolveURL(attributes.href.trim())
+      } else if (isStructuredData(node.tag!, attributes)) {
+        try {
+          jsonLd.push(JSON.parse(getSnapshotText(node)))
+        } catch {
+          // Invalid JSON-LD is left out
+        }
+      }
+      node.children?.forEach(visit)
+    }
+    visit(root)
+
+    const titleElement = findSnapshotElement(findSnapshotElement(root, "head") ?? root, "title")
+    const title = titleElement ? normalizeText(getSnapshotText(titleElement)) : ""
+    const language = root.attributes?.lang?.trim()
+
+    return {
+      title: title || openGraph.title,
+      description: meta.get("description") ?? openGraph.description,
+      canonical,
+      url: this.documentURL,
+      language: language || undefined,
+      openGraph,
+      jsonLd,
+    }
+  }
+
+  private extractHeading(node: DOMSnapshotNode): ExtractedHeading | undefined {
+    const text = readText(node)
+    if (!text) {
+      return undefined
+    }
+    const id = node.attributes?.id?.trim()
+    return { level: HEADING_LEVELS[node.tag!]!, text, ...(id && { id }) }
+  }
+
+  /**
+   * Extract a link, naming links without text after their label or image
+   */
+  private extractLink(node: DOMSnapshotNode): ExtractedLink | undefined {
+    const attributes = node.attributes ?? {}
+    const href = attributes.href?.trim()
+    if (!href || /^javascript:/i.test(href)) {
+      return undefined
+    }
+
+    const text = readText(node)
+      || attributes["aria-label"]?.trim()
+      || findSnapshotElement(node, "img")?.attributes?.alt?.trim()
+      || ""
+    const rel = attributes.rel?.trim()
+    const title = attributes.title?.trim()
+    return { text, href: this.resolveURL(href), ...(rel && { rel }), ...(title && { title }) }
+  }
+
+  private extractImage(node: DOMSnapshotNode): ExtractedImage | undefined {
+    const attributes = node.attributes ?? {}
+    const src = attributes.src?.trim()
+    if (!src) {
+      return undefined
+    }
+
+    const title = attributes.title?.trim()
+    const width = parseDimension(attributes.width)
+    const height = parseDimension(attributes.height)
+    return {
+      src: this.resolveURL(src),
+      ...(attributes.alt !== undefined && { alt: normalizeText(attributes.alt) }),
+      ...(title && { title }),
+      ...(width && { width }),
+      ...(height && { height }),
+    }
+  }
+
+  /**
+   * Extract the rows of a table, leaving the rows of nested tables to their own table
+   */
+  private extractTable(node: DOMSnapshotNode): ExtractedTable {
+    const rows: string[][] = []
+    let headerRows = 0
+    let inHeader = true
+    const addRow = (row: DOMSnapshotNode, section?: string) => {
+      const cells = getElementChildren(row).filter(cell => cell.tag === "td" || cell.tag === "th")
+      if (cells.length === 0) {
+        return
+      }
+      if (inHeader && (section === "thead" || cells.every(cell => cell.tag === "th"))) {
+        headerRows++
+      } else {
+        inHeader = false
+      }
+      rows.push(cells.map(readText))
+    }
+
+    let caption: string | undefined
+    for (const child of getElementChildren(node)) {
+      if (child.tag === "caption") {
+        caption = readText(child) || undefined
+      } else if (child.tag === "tr") {
+        addRow(child)
+      } else if (TABLE_SECTION_TAGS.has(child.tag!)) {
+        for (const row of getElementChildren(child).filter(row => row.tag === "tr")) {
+          addRow(row, child.tag)
+        }
+      }
+    }
+
+    return { ...(caption && { caption }), headerRows, rows }
+  }
+
+  private resolveURL(url: string): string {
+    if (!this.baseURL || url.startsWith("#")) {
+      return url
+    }
+    try {
+      return new URL(url, this.baseURL).href
+    } catch {
+      return url
+    }
+  }
+}
+
+// Private helpers
+
+function getElementChildren(node: DOMSnapshotNode): DOMSnapshotNode[] {
+  return (node.children ?? []).filter(child => child.type === DOMSnapshotNodeType.ELEMENT)
+}
+
+/**
+ * Read the text of an element with collapsed whitespace, separating block content
+ */
+function readText(node: DOMSnapshotNode): string {
+  const parts: string[] = []
+  const collect = (child: DOMSnapshotNode) => {
+    if (child.type === DOMSnapshotNodeType.TEXT) {
+      parts.push(child.text ?? "")
+    } else if (child.type === DOMSnapshotNodeType.ELEMENT && !isStructuredData(child.tag!, child.attributes ?? {})) {
+      const separated = SEPARATED_TAGS.has(child.tag!)
+      if (separated) {
+        parts.push(" ")
+      }
+      child.children?.forEach(collect)
+      if (separated) {
+        parts.push(" ")
+      }
+    }
+  }
+  node.children?.forEach(collect)
+  return normalizeText(parts.join(""))
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Parse a width or height attribute in pixels
+ */
+function parseDimension(value: string | undefined): number | undefined {
+  const pixels = value ? Number.parseInt(value, 10) : Number.NaN
+  return pixels > 0 ? pixels : undefined
+}
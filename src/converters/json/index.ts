@@ -0,0 +1,15 @@
+/**
+ * JSON Converter module exports
+ */
+
+export { DocumentExtractor } from "./document-extractor.js"
+export { JSONConverter } from "./json-converter.js"
+export type {
+  ExtractedDocument,
+  ExtractedHeading,
+  ExtractedImage,
+  ExtractedLink,
+  ExtractedMetadata,
+  ExtractedTable,
+  JSONConversionOptions,
+} from "./types.js"
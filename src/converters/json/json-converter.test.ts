@@ -0,0 +1,165 @@
+/**
+ * JSON Converter Unit Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createMockLogger, createTestDocument } from "../../../tests/utils/converter-fixtures.js"
+import { DOMSnapshotNodeType } from "../../core/engine/dom-snapshot.js"
+
+import { JSONConverter } from "./json-converter.js"
+import type { ExtractedDocument } from "./types.js"
+
+const mockLogger = createMockLogger()
+
+const createDocument = (head: string, body: string): HTMLDocument => createTestDocument(body, { head, lang: "en", title: "" })
+
+describe("jsonConverter", () => {
+  let converter: JSONConverter
+
+  const extract = async (head: string, body: string): Promise<ExtractedDocument> => {
+    const result = await converter.convert(createDocument(head, body), { format: "json" })
+    return JSON.parse(result.content)
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    converter = new JSONConverter(mockLogger)
+  })
+
+  describe("strategy interface", () => {
+    it("should expose json strategy information", () => {
+      expect(converter.getName()).toBe("json")
+      expect(converter.getOutputFormat()).toBe("application/json")
+      expect(converter.canHandle("text/html")).toBe(true)
+      expect(converter.canHandle("application/pdf")).toBe(false)
+    })
+
+    it("should return indented JSON and honor the indent option", async () => {
+      const document = createDocument("<title>Test Page</title>", "<p>Hello</p>")
+
+      const result = await converter.convert(document)
+      const compact = await converter.convert(document, { format: "json", options: { indent: 0 } })
+
+      expect(result.mimeType).toBe("application/json")
+      expect(result.metadata.targetFormat).toBe("json")
+      expect(result.metadata.title).toBe("Test Page")
+      expect(result.metadata.tier).toBe(4)
+      expect(result.content).toContain("\n  \"metadata\": {")
+      expect(compact.content).not.toContain("\n")
+      expect(JSON.parse(compact.content)).toEqual(JSON.parse(result.content))
+    })
+  })
+
+  describe("document model", () => {
+    it("should read the page metadata", async () => {
+      const { metadata } = await extract(`
+        <title> Launch   notes </title>
+        <meta name="description" content="What changed">
+        <meta property="og:title" content="Launch">
+        <meta property="og:image" content="https://example.com/cover.png">
+        <link rel="canonical" href="/docs/launch">
+        <script type="application/ld+json">{"@type": "Article", "headline": "Launch"}</script>
+        <script type="application/ld+json">{ invalid</script>`, "")
+
+      expect(metadata).toEqual({
+        title: "Launch notes",
+        description: "What changed",
+        canonical: "https://example.com/docs/launch",
+        url: "https://example.com/docs/page.html",
+        language: "en",
+        openGraph: { title: "Launch", image: "https://example.com/cover.png" },
+        jsonLd: [{ "@type": "Article", "headline": "Launch" }],
+      })
+    })
+
+    it("should collect the outline and paragraphs in document order", async () => {
+      const document = await extract("", `
+        <h1 id="intro">Intro</h1>
+        <p>First <em>paragraph</em>.</p>
+        <p>   </p>
+        <section><h2>Details</h2><p>Line<br>break</p></section>`)
+
+      expect(document.outline).toEqual([
+        { level: 1, text: "Intro", id: "intro" },
+        { level: 2, text: "Details" },
+      ])
+      expect(document.paragraphs).toEqual(["First paragraph.", "Line break"])
+    })
+
+    it("should resolve links and images against the document URL", async () => {
+      const document = await extract("", `
+        <a href="../guide.html" rel="next">Guide</a>
+        <a href="#top">Top</a>
+        <a href="javascript:void(0)">Script</a>
+        <a href="https://example.org/"><img src="logo.png" alt="Example" width="120" height="40"></a>
+        <img src="/spacer.gif" alt="">
+        <img src="photo.jpg">`)
+
+      expect(document.links).toEqual([
+        { text: "Guide", href: "https://example.com/guide.html", rel: "next" },
+        { text: "Top", href: "#top" },
+        { text: "Example", href: "https://example.org/" },
+      ])
+      expect(document.images).toEqual([
+        { src: "https://example.com/docs/logo.png", alt: "Example", width: 120, height: 40 },
+        { src: "https://example.com/spacer.gif", alt: "" },
+        { src: "https://example.com/docs/photo.jpg" },
+      ])
+    })
+
+    it("should extract tables as row arrays with their header rows", async () => {
+      const document = await extract("", `
+        <table>
+          <caption>Plans</caption>
+          <thead><tr><th>Plan</th><th>Price</th></tr></thead>
+          <tbody>
+            <tr><td>Free</td><td>$0</td></tr>
+            <tr><td>Pro</td><td><table><tr><td>$10</td></tr></table></td></tr>
+          </tbody>
+        </table>`)
+
+      expect(document.tables).toEqual([
+        { caption: "Plans", headerRows: 1, rows: [["Plan", "Price"], ["Free", "$0"], ["Pro", "$10"]] },
+        { headerRows: 0, rows: [["$10"]] },
+      ])
+    })
+  })
+
+  describe("rendered DOM capture", () => {
+    it("should extract from the DOM rendered by Chrome", async () => {
+      const snapshot = {
+        type: DOMSnapshotNodeType.ELEMENT,
+        tag: "html",
+        attributes: {},
+        children: [{
+          type: DOMSnapshotNodeType.ELEMENT,
+          tag: "body",
+          attributes: {},
+          children: [{
+            type: DOMSnapshotNodeType.ELEMENT,
+            tag: "h1",
+            attributes: {},
+            children: [{ type: DOMSnapshotNodeType.TEXT, text: "Rendered" }],
+          }],
+        }],
+      }
+      const mockProcessor = {
+        setRequestHeaders: vi.fn(),
+        navigate: vi.fn().mockResolvedValue({ targetId: "target-1" }),
+        setContent: vi.fn(),
+        waitForLoad: vi.fn(),
+        captureDOMSnapshot: vi.fn().mockResolvedValue(snapshot),
+      }
+      converter = new JSONConverter(mockLogger, {}, { getMHTMLProcessor: vi.fn().mockResolvedValue(mockProcessor) } as any)
+      const shim = { URL: "about:blank", documentElement: { outerHTML: "<h1>Source</h1>" } } as unknown as HTMLDocument
+
+      const result = await converter.convert(shim)
+
+      expect(mockProcessor.setContent).toHaveBeenCalledWith("<h1>Source</h1>")
+      expect(JSON.parse(result.content).outline).toEqual([{ level: 1, text: "Rendered" }])
+      expect(result.metadata.tier).toBe(1)
+      expect(result.metadata.conversionMethod).toBe("chrome-cdp")
+    })
+  })
+})
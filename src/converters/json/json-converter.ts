@@ -0,0 +1,123 @@
+/**
+ * JSON Converter - Extracts a structured document model from HTML documents
+ * Renders the document in Chrome when available so the model reflects the rendered DOM
+ */
+
+import type { ConversionRequest, ConversionResult, Logger } from "../../architecture/strategies/types.js"
+import { DEFAULT_JSON_CONFIG } from "../../config/defaults.js"
+import type { JSONConfig } from "../../config/schema.js"
+import type { ChromeCDPManager } from "../../core/engine/chrome-cdp-manager.js"
+import { RenderedDOMConverter } from "../rendered-dom-converter.js"
+
+import { DocumentExtractor } from "./document-extractor.js"
+import type { JSONConversionOptions } from "./types.js"
+
+/**
+ * JSON Converter implementation
+ *
+ * This converter handles:
+ * - Rendering the document in Chrome and walking the rendered DOM
+ * - Walking the input DOM directly when Chrome is not available
+ * - Page metadata: title, description, canonical URL, Open Graph and JSON-LD
+ * - Heading outline, paragraphs, links and images with resolved URLs, and tables as row arrays
+ * - Per-conversion option overrides passed in the conversion request
+ */
+export class JSONConverter extends RenderedDOMConverter {
+  private config: JSONConfig
+
+  constructor(logger: Logger, config: Partial<JSONConfig> = {}, cdpManager?: ChromeCDPManager) {
+    super(logger, cdpManager)
+    this.config = { ...DEFAULT_JSON_CONFIG, ...config }
+
+    this.logger.info("JSON Converter initialized", {
+      indent: this.config.indent,
+      hasCDPManager: !!cdpManager,
+    })
+  }
+
+  /**
+   * Extract the structured document model of an HTML document
+   *
+   * @param input - HTML document to convert
+   * @param request - Conversion request whose options override the converter configuration
+   * @returns Promise resolving to JSON conversion result
+   */
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
+    const validation = this.validate(input)
+    if (!validation.isValid) {
+      throw new Error(`Input validation failed: ${validation.errors.join(", ")}`)
+    }
+
+    const options: JSONConversionOptions = request?.options ?? {}
+    const indent = options.indent ?? this.config.indent
+
+    this.logger.info("Starting JSON extraction", {
+      hasTitle: !!input.title,
+    })
+
+    const { result, duration } = await this.measureConversionTime(async () => {
+      const { root, rendered } = await this.captureDocument(input, options)
+      const document = new DocumentExtractor(this.getBaseURL(input)).extract(root)
+      return { document, json: JSON.stringify(document, null, indent), rendered }
+    })
+
+    const { document } = result
+    this.logger.info("JSON extraction completed", {
+      duration,
+      outputSize: result.json.length,
+      headings: document.outline.length,
+      links: document.links.length,
+      images: document.images.length,
+      tables: document.tables.length,
+      rendered: result.rendered,
+    })
+
+    return this.createConversionResult(result.json, "application/json", "text/html", "json", {
+      title: document.metadata.title,
+      executionTime: duration,
+      tier: result.rendered ? 1 : 4,
+      conversionMethod: result.rendered ? "chrome-cdp" : "dom",
+    })
+  }
+
+  /**
+   * Check if this converter can handle the given content type
+   *
+   * @param contentType - MIME type to check
+   * @returns True if this converter can handle the content type
+   */
+  canHandle(contentType: string): boolean {
+    return this.getSupportedContentTypes().includes(contentType.toLowerCase())
+  }
+
+  /**
+   * Get the name of this converter strategy
+   *
+   * @returns Converter name
+   */
+  getName(): string {
+    return "json"
+  }
+
+  /**
+   * Get supported content types
+   *
+   * @returns Array of supported MIME types
+   */
+  getSupportedContentTypes(): string[] {
+    return ["text/html", "application/xhtml+xml"]
+  }
+
+  /**
+   * Get output format MIME type
+   *
+   * @returns Output MIME type
+   */
+  getOutputFormat(): string {
+    return "application/json"
+  }
+
+  protected getFormatLabel(): string {
+    return "JSON"
+  }
+}
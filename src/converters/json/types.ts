@@ -0,0 +1,91 @@
+/**
+ * JSON extraction converter specific types and interfaces
+ */
+
+import type { JSONConfig } from "../../config/schema.js"
+import type { RenderedDOMCaptureOptions } from "../rendered-dom-converter.js"
+
+/**
+ * Per-conversion JSON options (request options override converter configuration)
+ */
+export type JSONConversionOptions = Partial<JSONConfig> & RenderedDOMCaptureOptions
+
+/**
+ * Page metadata read from the document head
+ */
+export interface ExtractedMetadata {
+  /** Document title, falling back to og:title */
+  title?: string
+  /** Description meta tag, falling back to og:description */
+  description?: string
+  /** Canonical URL resolved against the document URL */
+  canonical?: string
+  /** URL the document was loaded from */
+  url?: string
+  /** Language of the document element */
+  language?: string
+  /** Open Graph properties without the og: prefix */
+  openGraph: Record<string, string>
+  /** Parsed JSON-LD blocks in document order; blocks that are not valid JSON are left out */
+  jsonLd: unknown[]
+}
+
+/**
+ * Heading in the document outline
+ */
+export interface ExtractedHeading {
+  /** Heading level (1-6) */
+  level: number
+  text: string
+  /** Element ID, usable as a fragment link */
+  id?: string
+}
+
+/**
+ * Link in the document body
+ */
+export interface ExtractedLink {
+  text: string
+  /** Link target resolved against the document URL */
+  href: string
+  rel?: string
+  title?: string
+}
+
+/**
+ * Image in the document body
+ */
+export interface ExtractedImage {
+  /** Image source resolved against the document URL */
+  src: string
+  /** Alternative text; an empty string marks a decorative image, undefined a missing alt attribute */
+  alt?: string
+  title?: string
+  width?: number
+  height?: number
+}
+
+/**
+ * Table in the document body
+ */
+export interface ExtractedTable {
+  caption?: string
+  /** Number of leading rows that are header rows */
+  headerRows: number
+  /** Cell text by row, in document order */
+  rows: string[][]
+}
+
+/**
+ * Structured model of a document
+ */
+export interface ExtractedDocument {
+  metadata: ExtractedMetadata
+  /** Headings in document order */
+  outline: ExtractedHeading[]
+  /** Text of the non-empty paragraphs in document order */
+  paragraphs: string[]
+  links: ExtractedLink[]
+  images: ExtractedImage[]
+  tables: ExtractedTable[]
+}
@@ -0,0 +1,234 @@
+/**
+ * Markdown Front Matter - Page metadata serialized as YAML or TOML front matter
+ * Lets static site generators ingest converted pages without post-processing
+ */
+
+import type { MarkdownFrontmatterConfig, MarkdownFrontmatterField } from "../../config/schema.js"
+import { DOMSnapshotNodeType, findSnapshotElement, getSnapshotText, isStructuredData } from "../../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../../core/engine/dom-snapshot.js"
+
+/**
+ * Value written to front matter
+ */
+export type FrontmatterValue = string | number | boolean | string[] | Record<string, string>
+
+/**
+ * Page metadata available to front matter
+ */
+export interface PageFrontmatterMetadata {
+  /** Document title, falling back to og:title */
+  title?: string
+  /** Canonical URL, falling back to og:url and the document URL */
+  url?: string
+  /** Description meta tag, falling back to og:description */
+  description?: string
+  /** Author meta tag, falling back to article:author and JSON-LD author */
+  author?: string
+  /** Published date from article:published_time or JSON-LD datePublished */
+  date?: string
+  /** JSON-LD headline */
+  headline?: string
+  /** Open Graph properties without the og: prefix */
+  og: Record<string, string>
+}
+
+/**
+ * Meta tags holding the published date, in order of preference
+ */
+const DATE_META_NAMES = ["article:published_time", "date", "dc.date", "dcterms.created", "datepublished"]
+
+/**
+ * Read the page metadata used for front matter from a document snapshot
+ *
+ * @param root - Snapshot of the document element
+ * @param documentURL - URL the document was loaded from, used for relative and missing canonical URLs
+ * @returns Page metadata
+ */
+export function readFrontmatterMetadata(root: DOMSnapshotNode, documentURL?: string): PageFrontmatterMetadata {
+  const meta = new Map<string, string>()
+  const og: Record<string, string> = {}
+  const structuredData: Record<string, unknown>[] = []
+  let canonical: string | undefined
+
+  const visit = (node: DOMSnapshotNode) => {
+    if (node.type !== DOMSnapshotNodeType.ELEMENT) {
+      return
+    }
+    const attributes = node.attributes ?? {}
+    if (node.tag === "meta") {
+      const name = (attributes.property ?? attributes.name ?? attributes.itemprop)?.trim().toLowerCase()
+      const content = attributes.content?.trim()
+      if (name && content) {
+        if (!meta.has(name)) {
+          meta.set(name, content)
+        }
+        if (name.startsWith("og:") && name.length > 3) {
+          og[name.slice(3)] ??= content
+        }
+      }
+    } else if (node.tag === "link" && !canonical && attributes.href?.trim()
+      && attributes.rel?.toLowerCase().split(/\s+/).includes("canonical")) {
+      canonical = attributes.href.trim()
+    } else if (isStructuredData(node.tag!, attributes)) {
+      structuredData.push(...parseStructuredData(getSnapshotText(node)))
+    }
+    node.children?.forEach(visit)
+  }
+  visit(root)
+
+  const titleElement = findSnapshotElement(findSnapshotElement(root, "head") ?? root, "title")
+  const title = titleElement ? getSnapshotText(titleElement).replace(/\s+/g, " ").trim() : ""
+  const fromStructuredData = (key: string) => structuredData.map(item => readStructuredText(item[key])).find(Boolean)
+
+  return {
+    title: title || og.title,
+    url: resolveURL(canonical ?? og.url, documentURL) ?? documentURL,
+    description: meta.get("description") ?? og.description,
+    author: meta.get("author") ?? meta.get("article:author") ?? fromStructuredData("author"),
+    date: DATE_META_NAMES.map(name => meta.get(name)).find(Boolean) ?? fromStructuredData("datePublished"),
+    headline: fromStructuredData("headline"),
+    og,
+  }
+}
+
+/**
+ * Serialize page metadata as front matter
+ *
+ * @param metadata - Page metadata
+ * @param config - Front matter format, fields and static keys
+ * @param captured - Capture timestamp
+ * @returns Front matter block including its delimiters and a trailing blank line, or an empty string when there is nothing to write
+ */
+export function renderFrontmatter(
+  metadata: PageFrontmatterMetadata,
+  config: Pick<MarkdownFrontmatterConfig, "format" | "fields" | "static">,
+  captured: Date,
+): string {
+  const values: Record<MarkdownFrontmatterField, FrontmatterValue | undefined> = {
+    title: metadata.title,
+    url: metadata.url,
+    description: metadata.description,
+    author: metadata.author,
+    date: metadata.date,
+    headline: metadata.headline,
+    og: Object.keys(metadata.og).length > 0 ? metadata.og : undefined,
+    captured: captured.toISOString(),
+  }
+
+  const entries: Record<string, FrontmatterValue> = {}
+  for (const field of config.fields) {
+    const value = values[field]
+    if (value !== undefined && value !== "") {
+      entries[field] = value
+    }
+  }
+  Object.assign(entries, config.static)
+
+  if (Object.keys(entries).length === 0) {
+    return ""
+  }
+  return config.format === "toml" ? serializeTOML(entries) : serializeYAML(entries)
+}
+
+// Private helpers
+
+function serializeYAML(entries: Record<string, FrontmatterValue>): string {
+  const lines = ["---"]
+  for (const [key, value] of Object.entries(entries)) {
+    if (Array.isArray(value)) {
+      lines.push(value.length > 0 ? `${yamlKey(key)}:` : `${yamlKey(key)}: []`, ...value.map(item => `  - ${quote(item)}`))
+    } else if (typeof value === "object") {
+      lines.push(`${yamlKey(key)}:`, ...Object.entries(value).map(([name, item]) => `  ${yamlKey(name)}: ${quote(item)}`))
+    } else {
+      lines.push(`${yamlKey(key)}: ${scalar(value)}`)
+    }
+  }
+  lines.push("---", "", "")
+  return lines.join("\n")
+}
+
+function serializeTOML(entries: Record<string, FrontmatterValue>): string {
+  // Tables have to follow every top-level key
+  const lines = ["+++"]
+  const tables: string[] = []
+  for (const [key, value] of Object.entries(entries)) {
+    if (Array.isArray(value)) {
+      lines.push(`${tomlKey(key)} = [${value.map(quote).join(", ")}]`)
+    } else if (typeof value === "object") {
+      tables.push("", `[${tomlKey(key)}]`, ...Object.entries(value).map(([name, item]) => `${tomlKey(name)} = ${quote(item)}`))
+    } else {
+      lines.push(`${tomlKey(key)} = ${scalar(value)}`)
+    }
+  }
+  lines.push(...tables, "+++", "", "")
+  return lines.join("\n")
+}
+
+function scalar(value: string | number | boolean): string {
+  return typeof value === "string" ? quote(value) : String(value)
+}
+
+/**
+ * Quote a string; JSON escapes are valid in YAML and TOML double-quoted strings
+ */
+function quote(value: string): string {
+  return JSON.stringify(value)
+}
+
+function yamlKey(key: string): string {
+  return /^[a-z_][\w-]*$/i.test(key) ? key : quote(key)
+}
+
+function tomlKey(key: string): string {
+  return /^[\w-]+$/.test(key) ? key : quote(key)
+}
+
+function resolveURL(url: string | undefined, base: string | undefined): string | undefined {
+  if (!url) {
+    return undefined
+  }
+  try {
+    return new URL(url, base).href
+  } catch {
+    return /^[a-z][\w+.-]*:/i.test(url) ? url : undefined
+  }
+}
+
+/**
+ * Parse a JSON-LD script into its items, flattening arrays and @graph containers
+ */
+function parseStructuredData(text: string): Record<string, unknown>[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return []
+  }
+
+  const items: Record<string, unknown>[] = []
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect)
+    } else if (value && typeof value === "object") {
+      const item = value as Record<string, unknown>
+      items.push(item)
+      collect(item["@graph"])
+    }
+  }
+  collect(data)
+  return items
+}
+
+/**
+ * Read a JSON-LD property as text, taking the name of person and organization values
+ */
+function readStructuredText(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const names = value.map(readStructuredText).filter(Boolean)
+    return names.length > 0 ? names.join(", ") : undefined
+  }
+  if (value && typeof value === "object") {
+    return readStructuredText((value as Record<string, unknown>).name)
+  }
+  return typeof value === "string" && value.trim() ? value.trim() : undefined
+}
@@ -0,0 +1,15 @@
+/**
+ * Markdown Converter module exports
+ */
+
+export { readFrontmatterMetadata, renderFrontmatter } from "./frontmatter.js"
+export type { FrontmatterValue, PageFrontmatterMetadata } from "./frontmatter.js"
+export { MarkdownConverter } from "./markdown-converter.js"
+export { MarkdownRenderer } from "./markdown-renderer.js"
+export type {
+  MarkdownAsset,
+  MarkdownConversionOptions,
+  MarkdownCustomRule,
+  MarkdownRenderOptions,
+  MarkdownRuleElement,
+} from "./types.js"
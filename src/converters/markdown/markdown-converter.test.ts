@@ -0,0 +1,605 @@
+/**
+ * Markdown Converter Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+import { createHash } from "node:crypto"
+
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createMockLogger, createTestDocument, PNG_BASE64, PNG_DATA_URI } from "../../../tests/utils/converter-fixtures.js"
+import { deferDocument } from "../../core/engine/deferred-document.js"
+import { DOMSnapshotNodeType } from "../../core/engine/dom-snapshot.js"
+
+import { MarkdownConverter } from "./markdown-converter.js"
+import type { MarkdownConversionOptions } from "./types.js"
+
+const mockLogger = createMockLogger()
+
+const PNG_HASH = createHash("sha256").update(Buffer.from(PNG_BASE64, "base64")).digest("hex").slice(0, 16)
+
+describe("markdownConverter", () => {
+  let converter: MarkdownConverter
+
+  const toMarkdown = async (body: string, options: MarkdownConversionOptions = {}): Promise<string> => {
+    const result = await converter.convert(createTestDocument(body), { format: "markdown", options })
+    return result.content
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    converter = new MarkdownConverter(mockLogger)
+  })
+
+  describe("strategy interface", () => {
+    it("should expose markdown strategy information", () => {
+      expect(converter.getName()).toBe("markdown")
+      expect(converter.getOutputFormat()).toBe("text/markdown")
+      expect(converter.canHandle("text/html")).toBe(true)
+      expect(converter.canHandle("application/pdf")).toBe(false)
+    })
+
+    it("should return markdown conversion result", async () => {
+      const result = await converter.convert(createTestDocument("<p>Hello</p>"))
+
+      expect(result.content).toBe("Hello\n")
+      expect(result.mimeType).toBe("text/markdown")
+      expect(result.metadata.targetFormat).toBe("markdown")
+      expect(result.metadata.flavor).toBe("gfm")
+      expect(result.metadata.title).toBe("Test Page")
+      expect(result.metadata.tier).toBe(4)
+    })
+
+    it("should reject documents without a DOM when Chrome is unavailable", async () => {
+      const shim = { URL: "about:blank", documentElement: { outerHTML: "<p>x</p>" } } as unknown as HTMLDocument
+
+      await expect(converter.convert(shim)).rejects.toThrow("requires a parsed DOM document")
+    })
+  })
+
+  describe("basic elements", () => {
+    it("should convert inline formatting and paragraphs", async () => {
+      const markdown = await toMarkdown("<p>Some <strong>bold</strong>, <em>italic</em> and <code>code</code>.</p><p>Line<br>break</p>")
+
+      expect(markdown).toBe("Some **bold**, *italic* and `code`.\n\nLine  \nbreak\n")
+    })
+
+    it("should escape markdown syntax in text", async () => {
+      const markdown = await toMarkdown("<p>1. Use *stars* and [brackets] with snake_case</p>")
+
+      expect(markdown).toBe("1\\. Use \\*stars\\* and \\[brackets\\] with snake\\_case\n")
+    })
+
+    it("should resolve relative links against the document URL", async () => {
+      const markdown = await toMarkdown("<p><a href=\"../guide.html\" title=\"Guide\">the guide</a></p>")
+
+      expect(markdown).toBe("[the guide](https://example.com/guide.html \"Guide\")\n")
+    })
+
+    it("should use autolinks when the text is the URL", async () => {
+      const markdown = await toMarkdown("<p><a href=\"https://example.com/\">https://example.com/</a></p>")
+
+      expect(markdown).toBe("<https://example.com/>\n")
+    })
+
+    it("should convert images", async () => {
+      const markdown = await toMarkdown("<p><img src=\"/logo.png\" alt=\"Logo\"></p>")
+
+      expect(markdown).toBe("![Logo](https://example.com/logo.png)\n")
+    })
+
+    it("should prefix blockquote lines", async () => {
+      const markdown = await toMarkdown("<blockquote><p>First</p><p>Second</p></blockquote>")
+
+      expect(markdown).toBe("> First\n>\n> Second\n")
+    })
+
+    it("should skip scripts and styles", async () => {
+      const markdown = await toMarkdown("<style>p { color: red }</style><script>alert(1)</script><p>Visible</p>")
+
+      expect(markdown).toBe("Visible\n")
+    })
+
+    it("should keep comments only when requested", async () => {
+      expect(await toMarkdown("<p>Text<!-- note --></p>")).toBe("Text\n")
+      expect(await toMarkdown("<p>Text<!-- note --></p>", { preserveComments: true })).toBe("Text<!-- note -->\n")
+    })
+  })
+
+  describe("markdown configuration", () => {
+    it("should honor heading styles", async () => {
+      const html = "<h1>Title</h1><h2>Section</h2><h3>Detail</h3>"
+
+      expect(await toMarkdown(html)).toBe("# Title\n\n## Section\n\n### Detail\n")
+      expect(await toMarkdown(html, { headingStyle: "setext" })).toBe("Title\n=====\n\nSection\n-------\n\n### Detail\n")
+    })
+
+    it("should honor the bullet marker and number ordered lists", async () => {
+      const html = "<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><ol start=\"3\"><li>Three</li><li>Four</li></ol>"
+
+      expect(await toMarkdown(html, { bulletMarker: "*" })).toBe("* One\n* Two\n  * Nested\n\n3. Three\n4. Four\n")
+    })
+
+    it("should honor code block style, fence and language", async () => {
+      const html = "<pre><code class=\"language-ts\">const a = 1\nconst b = 2\n</code></pre>"
+
+      expect(await toMarkdown(html)).toBe("```ts\nconst a = 1\nconst b = 2\n```\n")
+      expect(await toMarkdown(html, { fence: "~~~" })).toBe("~~~ts\nconst a = 1\nconst b = 2\n~~~\n")
+      expect(await toMarkdown(html, { codeBlockStyle: "indented" })).toBe("    const a = 1\n    const b = 2\n")
+    })
+
+    it("should read the code language from highlighter markup", async () => {
+      expect(await toMarkdown("<pre class=\"language-python\"><code>x = 1</code></pre>")).toBe("```python\nx = 1\n```\n")
+      expect(await toMarkdown("<pre><code class=\"hljs ruby\">x = 1</code></pre>")).toBe("```ruby\nx = 1\n```\n")
+      expect(await toMarkdown("<pre data-lang=\"go\"><code>x := 1</code></pre>")).toBe("```go\nx := 1\n```\n")
+    })
+
+    it("should guess the language of unmarked code", async () => {
+      const code = "def greet(name):\n    print(name)"
+
+      expect(await toMarkdown(`<pre><code>${code}</code></pre>`)).toBe(`\`\`\`python\n${code}\n\`\`\`\n`)
+      expect(await toMarkdown(`<pre><code class="language-none">${code}</code></pre>`)).toBe(`\`\`\`\n${code}\n\`\`\`\n`)
+    })
+
+    it("should lengthen fences that appear inside code", async () => {
+      const markdown = await toMarkdown("<pre><code>```\nnested\n```</code></pre>")
+
+      expect(markdown).toBe("````\n```\nnested\n```\n````\n")
+    })
+
+    it("should honor emphasis and strong delimiters", async () => {
+      const markdown = await toMarkdown("<p><em>a</em> <strong>b</strong></p>", { emDelimiter: "_", strongDelimiter: "__" })
+
+      expect(markdown).toBe("_a_ __b__\n")
+    })
+
+    it("should honor the referenced link style", async () => {
+      const markdown = await toMarkdown(
+        "<p><a href=\"/a\">A</a>, <a href=\"/b\" title=\"B\">B</a> and <a href=\"/a\">A again</a> <img src=\"/i.png\" alt=\"I\"></p>",
+        { linkStyle: "referenced" },
+      )
+
+      expect(markdown).toBe([
+        "[A][1], [B][2] and [A again][1] ![I][3]",
+        "",
+        "[1]: https://example.com/a",
+        "[2]: https://example.com/b \"B\"",
+        "[3]: https://example.com/i.png",
+        "",
+      ].join("\n"))
+    })
+
+    it("should convert tables with alignment for GFM", async () => {
+      const html = `<table>
+        <thead><tr><th>Name</th><th align="right">Size</th></tr></thead>
+        <tbody><tr><td>a|b</td><td>1</td></tr><tr><td colspan="2">wide</td></tr></tbody>
+      </table>`
+
+      expect(await toMarkdown(html)).toBe("| Name | Size |\n| --- | ---: |\n| a\\|b | 1 |\n| wide |  |\n")
+    })
+
+    it("should keep the columns of cells spanning several rows", async () => {
+      const html = `<table>
+        <tr><th>Group</th><th>Item</th><th>Count</th></tr>
+        <tr><td rowspan="2">Fruit</td><td>Apple</td><td>3</td></tr>
+        <tr><td>Pear</td><td>5</td></tr>
+        <tr><td>Nuts</td><td rowspan="3">Walnut</td></tr>
+        <tr><td>Seeds</td></tr>
+      </table>`
+
+      expect(await toMarkdown(html)).toBe([
+        "| Group | Item | Count |",
+        "| --- | --- | --- |",
+        "| Fruit | Apple | 3 |",
+        "|  | Pear | 5 |",
+        "| Nuts | Walnut |  |",
+        "| Seeds |  |  |",
+        "",
+      ].join("\n"))
+    })
+
+    it("should leave out tables without cells", async () => {
+      expect(await toMarkdown("<p>Before</p><table><tr></tr></table><p>After</p>")).toBe("Before\n\nAfter\n")
+    })
+
+    it("should emit tables as HTML when tables are disabled", async () => {
+      const markdown = await toMarkdown("<table><tr><td class=\"x\">Cell</td></tr></table>", { tables: false })
+
+      expect(markdown).toBe("<table><tbody><tr><td>Cell</td></tr></tbody></table>\n")
+    })
+
+    it("should honor task lists", async () => {
+      const html = "<ul><li><input type=\"checkbox\" checked> Done</li><li><input type=\"checkbox\"> Todo</li></ul>"
+
+      expect(await toMarkdown(html)).toBe("- [x] Done\n- [ ] Todo\n")
+      expect(await toMarkdown(html, { tasklists: false })).toBe("- Done\n- Todo\n")
+    })
+
+    it("should honor strikethrough", async () => {
+      const html = "<p><del>old</del> new</p>"
+
+      expect(await toMarkdown(html)).toBe("~~old~~ new\n")
+      expect(await toMarkdown(html, { strikethrough: false })).toBe("old new\n")
+    })
+
+    it("should disable GFM extensions for CommonMark", async () => {
+      const html = "<ul><li><input type=\"checkbox\" checked> Done</li></ul><p><s>gone</s></p><table><tr><td>Cell</td></tr></table>"
+
+      expect(await toMarkdown(html, { flavor: "commonmark" })).toBe(
+        "- Done\n\ngone\n\n<table><tbody><tr><td>Cell</td></tr></tbody></table>\n",
+      )
+    })
+
+    it("should use indented code blocks for original Markdown", async () => {
+      const markdown = await toMarkdown("<pre><code>code</code></pre>", { flavor: "original" })
+
+      expect(markdown).toBe("    code\n")
+    })
+
+    it("should use converter configuration when the request has no options", async () => {
+      converter = new MarkdownConverter(mockLogger, { headingStyle: "setext", bulletMarker: "+" })
+
+      const result = await converter.convert(createTestDocument("<h1>Title</h1><ul><li>Item</li></ul>"))
+
+      expect(result.content).toBe("Title\n=====\n\n+ Item\n")
+    })
+  })
+
+  describe("image assets", () => {
+    it("should extract images to content-named assets linked by relative path", async () => {
+      const html = `<p><img src="${PNG_DATA_URI}" alt="Dot"> <img src="${PNG_DATA_URI}" alt="Same"></p>`
+
+      const result = await converter.convert(createTestDocument(html), { format: "markdown", options: { embedImages: false } })
+
+      expect(result.content).toBe(`![Dot](assets/${PNG_HASH}.png) ![Same](assets/${PNG_HASH}.png)\n`)
+      expect(result.metadata.assets).toEqual([{
+        path: `assets/${PNG_HASH}.png`,
+        source: PNG_DATA_URI,
+        mediaType: "image/png",
+        content: PNG_BASE64,
+      }])
+    })
+
+    it("should write assets under the configured asset path", async () => {
+      converter = new MarkdownConverter(mockLogger, { embedImages: false, imageAssetPath: "media\\images" })
+
+      const result = await converter.convert(createTestDocument(`<p><img src="${PNG_DATA_URI}"></p>`))
+
+      expect(result.content).toBe(`![](media/images/${PNG_HASH}.png)\n`)
+    })
+
+    it("should keep the URL of images that cannot be extracted", async () => {
+      const result = await converter.convert(
+        createTestDocument("<p><img src=\"data:image/png;base64,AAAA\" alt=\"Broken\"></p>"),
+        { format: "markdown", options: { embedImages: false } },
+      )
+
+      expect(result.content).toBe("![Broken](data:image/png;base64,AAAA)\n")
+      expect(result.metadata.assets).toBeUndefined()
+      expect(mockLogger.warn).toHaveBeenCalledWith("Skipping image in unsupported format", expect.any(Object))
+    })
+
+    it("should keep image URLs when images are embedded", async () => {
+      const result = await converter.convert(createTestDocument(`<p><img src="${PNG_DATA_URI}"></p>`))
+
+      expect(result.content).toBe(`![](${PNG_DATA_URI})\n`)
+      expect(result.metadata.assets).toBeUndefined()
+    })
+  })
+
+  describe("custom rules", () => {
+    it("should replace matched elements using template placeholders", async () => {
+      const markdown = await toMarkdown(
+        "<div class=\"callout\" data-type=\"warning\"><p>Back up <strong>first</strong>.</p><p>Then upgrade.</p></div><p>See <span class=\"kbd\">Ctrl  C</span> here</p>",
+        {
+          customRules: [
+            { selector: ".callout", replacement: "> [!{{attr.data-type}}]\n> {{content}}" },
+            { selector: "span.kbd", replacement: "<kbd>{{text}}</kbd>" },
+          ],
+        },
+      )
+
+      expect(markdown).toBe("> [!warning]\n> Back up **first**.\n\nThen upgrade.\n\nSee <kbd>Ctrl C</kbd> here\n")
+    })
+
+    it("should drop matched elements and keep others as raw HTML", async () => {
+      const markdown = await toMarkdown(
+        "<p>Intro</p><div class=\"ad\"><img src=\"ad.png\"></div><ul><li>One</li><li class=\"ad\">Sponsored</li></ul><details class=\"tabs\" data-tab=\"1\"><summary>Tab</summary><a href=\"guide.html\">Guide</a></details>",
+        { customRules: [{ selector: ".ad", action: "remove" }, { selector: "details.tabs", action: "keep" }] },
+      )
+
+      expect(markdown).toBe(
+        "Intro\n\n- One\n\n<details class=\"tabs\" data-tab=\"1\"><summary>Tab</summary><a href=\"https://example.com/docs/guide.html\">Guide</a></details>\n",
+      )
+    })
+
+    it("should pass matched elements to replacement functions", async () => {
+      const replacement = vi.fn((element: { tag: string, attributes: Record<string, string>, text: string, content: string }) =>
+        `:::${element.attributes["data-kind"]}\n${element.content}\n:::`)
+
+      const markdown = await toMarkdown("<aside data-kind=\"note\"><p>Read <em>this</em></p></aside>", {
+        customRules: [{ selector: "aside[data-kind]", replacement }],
+      })
+
+      expect(markdown).toBe(":::note\nRead *this*\n:::\n")
+      expect(replacement).toHaveBeenCalledWith({ tag: "aside", attributes: { "data-kind": "note" }, text: "Read this", content: "Read *this*" })
+    })
+
+    it("should apply the first matching rule and skip invalid selectors", async () => {
+      const markdown = await toMarkdown("<p class=\"tip\">Tip</p><p>Text</p>", {
+        customRules: [
+          { selector: "p[", action: "remove" },
+          { selector: ".tip", replacement: "TIP: {{content}}" },
+          { selector: "p", action: "remove" },
+        ],
+      })
+
+      expect(markdown).toBe("TIP: Tip\n")
+      expect(mockLogger.warn).toHaveBeenCalledWith("Skipping custom rule with an invalid selector", { selector: "p[" })
+    })
+
+    it("should apply rules configured on the converter", async () => {
+      converter = new MarkdownConverter(mockLogger, { customRules: [{ selector: "iframe", action: "replace", replacement: "[Video]({{attr.src}})" }] })
+
+      expect(await toMarkdown("<p><iframe src=\"https://video.example/1\"></iframe></p>")).toBe("[Video](https://video.example/1)\n")
+    })
+  })
+
+  describe("front matter", () => {
+    const head = `<title>Release Notes</title>
+      <link rel="canonical" href="/blog/release">
+      <meta name="description" content="What changed: &quot;everything&quot;">
+      <meta property="og:title" content="Release">
+      <meta property="og:image" content="https://example.com/cover.png">
+      <meta property="article:published_time" content="2026-03-01T09:00:00Z">`
+    const structuredData = `<script type="application/ld+json">
+      {"@context": "https://schema.org", "@graph": [{"@type": "Article", "headline": "Release 2.0", "author": [{"@type": "Person", "name": "Sam Lee"}]}]}
+    </script>`
+    const captured = new Date("2026-03-02T10:00:00Z")
+
+    const createPage = (body: string): HTMLDocument => createTestDocument(body, { head, title: "" })
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: captured, toFake: ["Date"] })
+      return () => vi.useRealTimers()
+    })
+
+    it("should prepend YAML front matter built from the page metadata", async () => {
+      const result = await converter.convert(createPage(`<p>Hello</p>${structuredData}`), { format: "markdown", options: { includeFrontmatter: true } })
+
+      expect(result.content).toBe([
+        "---",
+        "title: \"Release Notes\"",
+        "url: \"https://example.com/blog/release\"",
+        "description: \"What changed: \\\"everything\\\"\"",
+        "author: \"Sam Lee\"",
+        "date: \"2026-03-01T09:00:00Z\"",
+        "headline: \"Release 2.0\"",
+        "og:",
+        "  title: \"Release\"",
+        "  image: \"https://example.com/cover.png\"",
+        "captured: \"2026-03-02T10:00:00.000Z\"",
+        "---",
+        "",
+        "Hello",
+        "",
+      ].join("\n"))
+    })
+
+    it("should write TOML front matter with the selected fields and static keys", async () => {
+      converter = new MarkdownConverter(mockLogger, {
+        frontmatter: { enabled: true, format: "toml", fields: ["title", "og"], static: { draft: false, tags: ["news"] } },
+      })
+
+      const result = await converter.convert(createPage("<p>Hello</p>"))
+
+      expect(result.content).toBe([
+        "+++",
+        "title = \"Release Notes\"",
+        "draft = false",
+        "tags = [\"news\"]",
+        "",
+        "[og]",
+        "title = \"Release\"",
+        "image = \"https://example.com/cover.png\"",
+        "+++",
+        "",
+        "Hello",
+        "",
+      ].join("\n"))
+    })
+
+    it("should let request options override the configured fields and static keys", async () => {
+      converter = new MarkdownConverter(mockLogger, {
+        frontmatter: { enabled: true, format: "yaml", fields: ["title"], static: { layout: "post" } },
+      })
+
+      const result = await converter.convert(createPage("<p>Hello</p>"), {
+        format: "markdown",
+        options: { frontmatter: { fields: ["url", "captured"], static: { title: "Custom" } } },
+      })
+
+      expect(result.content).toBe([
+        "---",
+        "url: \"https://example.com/blog/release\"",
+        "captured: \"2026-03-02T10:00:00.000Z\"",
+        "layout: \"post\"",
+        "title: \"Custom\"",
+        "---",
+        "",
+        "Hello",
+        "",
+      ].join("\n"))
+    })
+
+    it("should leave front matter out unless it is enabled", async () => {
+      expect((await converter.convert(createPage("<p>Hello</p>"))).content).toBe("Hello\n")
+      expect((await converter.convert(createPage("<p>Hello</p>"), { format: "markdown", options: { includeFrontmatter: false } })).content).toBe("Hello\n")
+    })
+  })
+
+  describe("rendered DOM capture", () => {
+    const snapshot = {
+      type: DOMSnapshotNodeType.ELEMENT,
+      tag: "html",
+      attributes: {},
+      children: [{
+        type: DOMSnapshotNodeType.ELEMENT,
+        tag: "body",
+        attributes: {},
+        children: [{
+          type: DOMSnapshotNodeType.ELEMENT,
+          tag: "h1",
+          attributes: {},
+          children: [{ type: DOMSnapshotNodeType.TEXT, text: "Rendered" }],
+        }],
+      }],
+    }
+
+    let mockProcessor: any
+    let mockCDPManager: any
+
+    beforeEach(() => {
+      mockProcessor = {
+        setRequestHeaders: vi.fn(),
+        navigate: vi.fn().mockResolvedValue({ targetId: "target-1" }),
+        setContent: vi.fn(),
+        waitForLoad: vi.fn(),
+        captureDOMSnapshot: vi.fn().mockResolvedValue(snapshot),
+      }
+      mockCDPManager = { getMHTMLProcessor: vi.fn().mockResolvedValue(mockProcessor) }
+    })
+
+    it("should walk the DOM rendered by Chrome", async () => {
+      converter = new MarkdownConverter(mockLogger, {}, mockCDPManager)
+      const shim = { URL: "about:blank", documentElement: { outerHTML: "<h1>Source</h1>" } } as unknown as HTMLDocument
+
+      const result = await converter.convert(shim, { format: "markdown", options: { waitTime: 10 } })
+
+      expect(mockProcessor.navigate).toHaveBeenCalledWith("about:blank")
+      expect(mockProcessor.setContent).toHaveBeenCalledWith("<h1>Source</h1>")
+      expect(mockProcessor.waitForLoad).toHaveBeenCalledWith({ timeout: undefined, waitTime: 10 })
+      expect(result.content).toBe("# Rendered\n")
+      expect(result.metadata.tier).toBe(1)
+    })
+
+    it("should load the page with the request credentials", async () => {
+      converter = new MarkdownConverter(mockLogger, {}, mockCDPManager)
+
+      await converter.convert(createTestDocument("<p>x</p>"), { format: "markdown", options: { auth: { token: "abc" }, userAgent: "IndexBot/1.0" } })
+
+      expect(mockProcessor.setRequestHeaders).toHaveBeenCalledWith({ headers: undefined, auth: { token: "abc" }, userAgent: "IndexBot/1.0" })
+      expect(mockProcessor.setRequestHeaders.mock.invocationCallOrder[0]).toBeLessThan(mockProcessor.navigate.mock.invocationCallOrder[0])
+    })
+
+    it("should navigate to documents with a loadable URL", async () => {
+      converter = new MarkdownConverter(mockLogger, {}, mockCDPManager)
+
+      await converter.convert(createTestDocument("<p>x</p>"))
+
+      expect(mockProcessor.navigate).toHaveBeenCalledWith("https://example.com/docs/page.html")
+      expect(mockProcessor.setContent).not.toHaveBeenCalled()
+    })
+
+    it("should extract images from the resources Chrome loaded", async () => {
+      mockProcessor.captureDOMSnapshot.mockResolvedValue({
+        ...snapshot,
+        children: [{
+          type: DOMSnapshotNodeType.ELEMENT,
+          tag: "body",
+          attributes: {},
+          children: [{ type: DOMSnapshotNodeType.ELEMENT, tag: "img", attributes: { src: "logo.png", alt: "Logo" } }],
+        }],
+      })
+      mockProcessor.getResourceContent = vi.fn().mockResolvedValue(Buffer.from(PNG_BASE64, "base64"))
+      converter = new MarkdownConverter(mockLogger, { embedImages: false }, mockCDPManager)
+
+      const result = await converter.convert(createTestDocument("<p>x</p>"))
+
+      expect(mockProcessor.getResourceContent).toHaveBeenCalledWith("https://example.com/docs/logo.png")
+      expect(result.content).toBe(`![Logo](assets/${PNG_HASH}.png)\n`)
+    })
+
+    it("should mark custom rule matches in the rendered page", async () => {
+      mockProcessor.evaluate = vi.fn().mockResolvedValue([])
+      mockProcessor.captureDOMSnapshot.mockResolvedValue({
+        ...snapshot,
+        children: [{
+          type: DOMSnapshotNodeType.ELEMENT,
+          tag: "body",
+          attributes: {},
+          children: [{
+            type: DOMSnapshotNodeType.ELEMENT,
+            tag: "h1",
+            attributes: { "data-selector-marks": "0" },
+            children: [{ type: DOMSnapshotNodeType.TEXT, text: "Rendered" }],
+          }],
+        }],
+      })
+      converter = new MarkdownConverter(mockLogger, {}, mockCDPManager)
+
+      const result = await converter.convert(createTestDocument("<p>x</p>"), {
+        format: "markdown",
+        options: { customRules: [{ selector: "h1", replacement: "## {{content}}" }] },
+      })
+
+      expect(mockProcessor.evaluate).toHaveBeenCalledWith(expect.stringContaining("[\"h1\"]"))
+      expect(result.content).toBe("## Rendered\n")
+    })
+
+    it("should take the title of URL inputs from the page Chrome loaded without fetching it", async () => {
+      mockProcessor.captureDOMSnapshot.mockResolvedValue({
+        ...snapshot,
+        children: [
+          {
+            type: DOMSnapshotNodeType.ELEMENT,
+            tag: "head",
+            attributes: {},
+            children: [{
+              type: DOMSnapshotNodeType.ELEMENT,
+              tag: "title",
+              attributes: {},
+              children: [{ type: DOMSnapshotNodeType.TEXT, text: " Remote  page " }],
+            }],
+          },
+          ...snapshot.children,
+        ],
+      })
+      converter = new MarkdownConverter(mockLogger, {}, mockCDPManager)
+      const placeholder = createTestDocument("")
+      const load = vi.fn()
+      deferDocument(placeholder, load)
+
+      const result = await converter.convert(Object.assign(placeholder, { title: "" }))
+
+      expect(load).not.toHaveBeenCalled()
+      expect(result.content).toBe("# Rendered\n")
+      expect(result.metadata.title).toBe("Remote page")
+    })
+
+    it("should load deferred URL inputs when Chrome fails", async () => {
+      mockCDPManager.getMHTMLProcessor.mockRejectedValue(new Error("Chrome launch failed"))
+      converter = new MarkdownConverter(mockLogger, {}, mockCDPManager)
+      const placeholder = createTestDocument("")
+      deferDocument(placeholder, async () => createTestDocument("<p>Fetched</p>"))
+
+      const result = await converter.convert(placeholder)
+
+      expect(result.content).toBe("Fetched\n")
+      expect(result.metadata.title).toBe("Test Page")
+    })
+
+    it("should fall back to the input DOM when Chrome fails", async () => {
+      mockCDPManager.getMHTMLProcessor.mockRejectedValue(new Error("Chrome launch failed"))
+      converter = new MarkdownConverter(mockLogger, {}, mockCDPManager)
+
+      const result = await converter.convert(createTestDocument("<p>Local</p>"))
+
+      expect(result.content).toBe("Local\n")
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "Rendered DOM capture failed, falling back to the input document",
+        { error: "Chrome launch failed" },
+      )
+    })
+  })
+})
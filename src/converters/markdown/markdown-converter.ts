@@ -0,0 +1,236 @@
+/**
+ * Markdown Converter - Converts HTML documents to Markdown
+ * Renders the document in Chrome when available so the Markdown reflects the rendered DOM
+ */
+
+import { Buffer } from "node:buffer"
+import { createHash } from "node:crypto"
+import { posix } from "node:path"
+
+import type { ConversionRequest, ConversionResult, Logger } from "../../architecture/strategies/types.js"
+import { DEFAULT_MARKDOWN_CONFIG } from "../../config/defaults.js"
+import type { MarkdownConfig, MarkdownFrontmatterConfig } from "../../config/schema.js"
+import type { ChromeCDPManager } from "../../core/engine/chrome-cdp-manager.js"
+import { detectImageType } from "../media-types.js"
+import { RenderedDOMConverter } from "../rendered-dom-converter.js"
+import { describeResource, getResourceOrigin } from "../resource-loader.js"
+import type { ResourceOrigin } from "../resource-loader.js"
+
+import { readFrontmatterMetadata, renderFrontmatter } from "./frontmatter.js"
+import { MarkdownRenderer } from "./markdown-renderer.js"
+import type { MarkdownAsset, MarkdownConversionOptions, MarkdownRenderOptions } from "./types.js"
+
+/**
+ * Markdown Converter implementation
+ *
+ * This converter handles:
+ * - Rendering the document in Chrome and walking the rendered DOM
+ * - Walking the input DOM directly when Chrome is not available
+ * - GFM, CommonMark and original Markdown output driven by the Markdown configuration
+ * - Extracting images to asset files linked by relative paths when images are not embedded
+ * - YAML or TOML front matter built from the page metadata
+ * - Custom rules rendering elements matched by CSS selectors
+ * - Per-conversion option overrides passed in the conversion request
+ */
+export class MarkdownConverter extends RenderedDOMConverter {
+  private config: MarkdownConfig
+
+  constructor(logger: Logger, config: Partial<MarkdownConfig> = {}, cdpManager?: ChromeCDPManager) {
+    super(logger, cdpManager)
+    this.config = { ...DEFAULT_MARKDOWN_CONFIG, ...config }
+
+    this.logger.info("Markdown Converter initialized", {
+      flavor: this.config.flavor,
+      hasCDPManager: !!cdpManager,
+    })
+  }
+
+  /**
+   * Convert HTML document to Markdown
+   *
+   * @param input - HTML document to convert
+   * @param request - Conversion request whose options override the converter configuration
+   * @returns Promise resolving to Markdown conversion result
+   */
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
+    const validation = this.validate(input)
+    if (!validation.isValid) {
+      throw new Error(`Input validation failed: ${validation.errors.join(", ")}`)
+    }
+
+    const options: MarkdownConversionOptions = request?.options ?? {}
+    const renderOptions = this.resolveRenderOptions(options)
+    const embedImages = options.embedImages ?? this.config.embedImages
+    const frontmatter = this.resolveFrontmatter(options)
+
+    this.logger.info("Starting Markdown conversion", {
+      flavor: renderOptions.flavor,
+      hasTitle: !!input.title,
+    })
+
+    const { result, duration } = await this.measureConversionTime(async () => {
+      const selectors = renderOptions.customRules.map(rule => rule.selector)
+      const { root, rendered, invalidSelectors, title } = await this.captureDocument(input, options, { selectors })
+      for (const index of invalidSelectors) {
+        this.logger.warn("Skipping custom rule with an invalid selector", { selector: selectors[index] })
+      }
+      const url = this.getBaseURL(input)
+      const renderer = new MarkdownRenderer(renderOptions, url)
+      const assets = embedImages
+        ? []
+        : await this.extractImages(renderer.collectImageSources(root), {
+            assetPath: options.imageAssetPath ?? this.config.imageAssetPath,
+            origin: getResourceOrigin(input, url),
+            rendered,
+            timeout: options.timeout,
+          })
+
+      const images = new Map(assets.map(asset => [asset.source, asset.path]))
+      const header = frontmatter ? renderFrontmatter(readFrontmatterMetadata(root, url), frontmatter, new Date()) : ""
+      return { markdown: header + renderer.render(root, images), rendered, assets, title }
+    })
+
+    // Images with the same content share one asset file
+    const assets = [...new Map(result.assets.map(asset => [asset.path, asset])).values()]
+
+    this.logger.info("Markdown conversion completed", {
+      duration,
+      outputSize: result.markdown.length,
+      assets: assets.length,
+      rendered: result.rendered,
+    })
+
+    return this.createConversionResult(result.markdown, "text/markdown", "text/html", "markdown", {
+      flavor: renderOptions.flavor,
+      title: result.title,
+      ...(assets.length > 0 && {
+        assets: assets.map(asset => ({
+          path: asset.path,
+          source: asset.source,
+          mediaType: asset.mediaType,
+          content: Buffer.from(asset.data).toString("base64"),
+        })),
+      }),
+      executionTime: duration,
+      tier: result.rendered ? 1 : 4,
+      conversionMethod: result.rendered ? "chrome-cdp" : "dom",
+    })
+  }
+
+  /**
+   * Check if this converter can handle the given content type
+   *
+   * @param contentType - MIME type to check
+   * @returns True if this converter can handle the content type
+   */
+  canHandle(contentType: string): boolean {
+    return this.getSupportedContentTypes().includes(contentType.toLowerCase())
+  }
+
+  /**
+   * Get the name of this converter strategy
+   *
+   * @returns Converter name
+   */
+  getName(): string {
+    return "markdown"
+  }
+
+  /**
+   * Get supported content types
+   *
+   * @returns Array of supported MIME types
+   */
+  getSupportedContentTypes(): string[] {
+    return ["text/html", "application/xhtml+xml"]
+  }
+
+  /**
+   * Get output format MIME type
+   *
+   * @returns Output MIME type
+   */
+  getOutputFormat(): string {
+    return "text/markdown"
+  }
+
+  protected getFormatLabel(): string {
+    return "Markdown"
+  }
+
+  // Private helper methods
+
+  /**
+   * Load the document images and name each after a hash of its content
+   *
+   * Images that cannot be loaded or are not in a web image format are left out,
+   * so they keep their URL in the Markdown.
+   */
+  private async extractImages(
+    sources: string[],
+    target: { assetPath: string, origin: ResourceOrigin, rendered: boolean, timeout?: number },
+  ): Promise<MarkdownAsset[]> {
+    const directory = target.assetPath.replace(/\\/g, "/")
+    const assets = await Promise.all(sources.map(async (source): Promise<MarkdownAsset | undefined> => {
+      try {
+        const data = await this.loadDocumentResource(source, target.origin, target.rendered, target.timeout)
+        const type = detectImageType(data)
+        if (!type) {
+          this.logger.warn("Skipping image in unsupported format", { source: describeResource(source) })
+          return undefined
+        }
+
+        const hash = createHash("sha256").update(data).digest("hex").slice(0, 16)
+        return { path: posix.join(directory, `${hash}.${type.extension}`), source, mediaType: type.mediaType, data }
+      } catch (error) {
+        this.logger.warn("Failed to load image", {
+          source: describeResource(source),
+          error: (error as Error).message,
+        })
+        return undefined
+      }
+    }))
+
+    return assets.filter(asset => asset !== undefined)
+  }
+
+  /**
+   * Resolve the front matter settings, or undefined when no front matter is written
+   *
+   * Static keys from the request are added to the configured ones.
+   */
+  private resolveFrontmatter(options: MarkdownConversionOptions): MarkdownFrontmatterConfig | undefined {
+    const config = { ...DEFAULT_MARKDOWN_CONFIG.frontmatter, ...this.config.frontmatter }
+    if (!(options.includeFrontmatter ?? config.enabled)) {
+      return undefined
+    }
+
+    const overrides = options.frontmatter ?? {}
+    return {
+      enabled: true,
+      format: overrides.format ?? config.format,
+      fields: overrides.fields ?? config.fields,
+      static: { ...config.static, ...overrides.static },
+    }
+  }
+
+  private resolveRenderOptions(options: MarkdownConversionOptions): MarkdownRenderOptions {
+    const merged = { ...this.config, ...options }
+    return {
+      flavor: merged.flavor,
+      headingStyle: merged.headingStyle,
+      bulletMarker: merged.bulletMarker,
+      codeBlockStyle: merged.codeBlockStyle,
+      fence: merged.fence,
+      emDelimiter: merged.emDelimiter,
+      strongDelimiter: merged.strongDelimiter,
+      linkStyle: merged.linkStyle,
+      preserveWhitespace: merged.preserveWhitespace,
+      strikethrough: merged.strikethrough,
+      tables: merged.tables,
+      tasklists: merged.tasklists,
+      preserveComments: options.preserveComments ?? false,
+      customRules: merged.customRules ?? [],
+    }
+  }
+}
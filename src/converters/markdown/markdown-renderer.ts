@@ -0,0 +1,792 @@
+/**
+ * Markdown Renderer - Walks a DOM snapshot and produces Markdown text
+ * Supports GitHub Flavored Markdown, CommonMark and original Markdown syntax
+ */
+
+import { DOMSnapshotNodeType, findSnapshotElement, getSnapshotText } from "../../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../../core/engine/dom-snapshot.js"
+import { getSelectorMarks, SELECTOR_MARK_ATTRIBUTE } from "../../core/engine/selector-marks.js"
+import { detectCodeLanguage } from "../code-language.js"
+
+import type { MarkdownCustomRule, MarkdownRenderOptions, MarkdownRuleElement } from "./types.js"
+
+/**
+ * Elements rendered as separate blocks
+ */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "caption",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+])
+
+/**
+ * Elements that never contribute to Markdown output
+ */
+const IGNORED_TAGS = new Set([
+  "audio",
+  "base",
+  "button",
+  "canvas",
+  "embed",
+  "head",
+  "iframe",
+  "input",
+  "link",
+  "meta",
+  "noscript",
+  "object",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+  "video",
+])
+
+/**
+ * Elements without closing tags when serialized back to HTML
+ */
+const VOID_TAGS = new Set(["area", "br", "col", "embed", "hr", "img", "input", "param", "source", "track", "wbr"])
+
+/**
+ * Attributes kept when a fragment has to be emitted as raw HTML
+ */
+const HTML_ATTRIBUTES = new Set(["align", "alt", "colspan", "href", "rowspan", "scope", "src", "title"])
+
+/**
+ * Placeholders of custom rule replacement templates
+ */
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(content|text|tag|attr\.([^\s{}]+))\s*\}\}/g
+
+/**
+ * Link reference collected for the referenced link style
+ */
+interface LinkReference {
+  url: string
+  title?: string
+}
+
+/**
+ * Markdown renderer for DOM snapshots
+ *
+ * Rendering follows the configured flavor:
+ * - gfm: tables, task lists and strikethrough are available when enabled
+ * - commonmark: GFM extensions are disabled; tables are emitted as raw HTML
+ * - original: as commonmark, and code blocks are always indented
+ *
+ * Custom rules apply to elements marked with the index of a matching rule
+ * selector (see selector-marks) and take precedence over the built-in rendering.
+ */
+export class MarkdownRenderer {
+  private options: MarkdownRenderOptions
+  private documentURL?: string
+  private baseURL?: string
+  private references: LinkReference[] = []
+  private images = new Map<string, string>()
+
+  constructor(options: MarkdownRenderOptions, baseURL?: string) {
+    this.options = options
+    this.documentURL = baseURL
+    this.baseURL = baseURL
+  }
+
+  /**
+   * Collect the resolved URLs of the images the document renders
+   *
+   * @param root - Snapshot of the document element (or any container element)
+   * @returns Unique image URLs in document order
+   */
+  collectImageSources(root: DOMSnapshotNode): string[] {
+    this.applyBaseElement(root)
+
+    const sources = new Set<string>()
+    const visit = (node: DOMSnapshotNode) => {
+      if (node.type !== DOMSnapshotNodeType.ELEMENT || IGNORED_TAGS.has(node.tag!) || this.findRule(node)?.action === "remove") {
+        return
+      }
+      if (node.tag === "img" && node.attributes?.src?.trim()) {
+        sources.add(this.resolveURL(node.attributes.src.trim()))
+      }
+      node.children?.forEach(visit)
+    }
+    visit(root)
+
+    return Array.from(sources)
+  }
+
+  /**
+   * Render a document snapshot to Markdown
+   *
+   * @param root - Snapshot of the document element (or any container element)
+   * @param images - Paths of extracted images keyed by resolved URL; other images keep their URL
+   * @returns Markdown text terminated by a newline, or an empty string for empty documents
+   */
+  render(root: DOMSnapshotNode, images: Map<string, string> = new Map()): string {
+    this.references = []
+    this.images = images
+    this.applyBaseElement(root)
+
+    const body = root.tag === "body" ? root : findSnapshotElement(root, "body") ?? root
+    const blocks = this.renderBlocks(body.children ?? [])
+
+    if (this.references.length > 0) {
+      blocks.push(this.references
+        .map((reference, index) => `[${index + 1}]: ${this.formatDestination(reference.url)}${this.formatTitle(reference.title)}`)
+        .join("\n"))
+    }
+
+    return blocks.length > 0 ? `${blocks.join("\n\n")}\n` : ""
+  }
+
+  // Private helper methods
+
+  /**
+   * Resolve URLs against the document's base element, if it has one
+   */
+  private applyBaseElement(root: DOMSnapshotNode): void {
+    this.baseURL = this.documentURL
+    const baseHref = findSnapshotElement(root, "base")?.attributes?.href
+    if (baseHref) {
+      this.baseURL = this.resolveURL(baseHref)
+    }
+  }
+
+  private get isGFM(): boolean {
+    return this.options.flavor === "gfm"
+  }
+
+  /**
+   * Render a sequence of nodes in block context, grouping inline runs into paragraphs
+   */
+  private renderBlocks(nodes: DOMSnapshotNode[]): string[] {
+    const blocks: string[] = []
+    let inline = ""
+
+    const flush = () => {
+      const paragraph = this.finishInline(inline)
+      if (paragraph) {
+        blocks.push(paragraph)
+      }
+      inline = ""
+    }
+
+    for (const node of nodes) {
+      if (node.type === DOMSnapshotNodeType.ELEMENT && BLOCK_TAGS.has(node.tag!)) {
+        flush()
+        const block = this.renderBlock(node)
+        if (block) {
+          blocks.push(block)
+        }
+      } else {
+        inline += this.renderInline(node)
+      }
+    }
+    flush()
+
+    return blocks
+  }
+
+  /**
+   * Render a block-level element
+   */
+  private renderBlock(node: DOMSnapshotNode): string {
+    const rule = this.findRule(node)
+    if (rule) {
+      return this.applyRule(node, rule, true)
+    }
+
+    const tag = node.tag!
+
+    switch (tag) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6":
+        return this.renderHeading(node, Number(tag[1]))
+      case "p":
+      case "dt":
+      case "summary":
+      case "caption":
+      case "figcaption":
+        return this.finishInline(this.renderInlineChildren(node))
+      case "pre":
+        return this.renderCodeBlock(node)
+      case "blockquote":
+        return this.renderBlocks(node.children ?? [])
+          .join("\n\n")
+          .split("\n")
+          .map(line => (line ? `> ${line}` : ">"))
+          .join("\n")
+      case "ul":
+      case "ol":
+        return this.renderList(node)
+      case "hr":
+        return "---"
+      case "table":
+        return this.renderTable(node)
+      default:
+        return this.renderBlocks(node.children ?? []).join("\n\n")
+    }
+  }
+
+  /**
+   * Render a node in inline context
+   */
+  private renderInline(node: DOMSnapshotNode): string {
+    if (node.type === DOMSnapshotNodeType.TEXT) {
+      return this.escapeText(this.normalizeWhitespace(node.text ?? ""))
+    }
+    if (node.type === DOMSnapshotNodeType.COMMENT) {
+      return this.options.preserveComments ? `<!--${node.text ?? ""}-->` : ""
+    }
+
+    const rule = this.findRule(node)
+    if (rule) {
+      return this.applyRule(node, rule, false)
+    }
+
+    const tag = node.tag!
+    if (IGNORED_TAGS.has(tag)) {
+      return ""
+    }
+
+    switch (tag) {
+      case "br":
+        return "\n"
+      case "strong":
+      case "b":
+        return this.wrapInline(this.renderInlineChildren(node), this.options.strongDelimiter)
+      case "em":
+      case "i":
+        return this.wrapInline(this.renderInlineChildren(node), this.options.emDelimiter)
+      case "del":
+      case "s":
+      case "strike":
+        return this.isGFM && this.options.strikethrough
+          ? this.wrapInline(this.renderInlineChildren(node), "~~")
+          : this.renderInlineChildren(node)
+      case "code":
+      case "kbd":
+      case "samp":
+      case "tt":
+        return this.renderInlineCode(getSnapshotText(node))
+      case "a":
+        return this.renderLink(node)
+      case "img":
+        return this.renderImage(node)
+      case "q":
+        return `"${this.renderInlineChildren(node)}"`
+      default:
+        // Block elements nested in inline content are flattened into the surrounding text
+        return BLOCK_TAGS.has(tag)
+          ? ` ${this.renderInlineChildren(node)} `
+          : this.renderInlineChildren(node)
+    }
+  }
+
+  /**
+   * Get the first custom rule whose selector matched the element
+   */
+  private findRule(node: DOMSnapshotNode): MarkdownCustomRule | undefined {
+    const [index] = getSelectorMarks(node)
+    return index === undefined ? undefined : this.options.customRules[index]
+  }
+
+  /**
+   * Render an element matched by a custom rule, as a block or inside inline content
+   */
+  private applyRule(node: DOMSnapshotNode, rule: MarkdownCustomRule, block: boolean): string {
+    if (rule.action === "remove") {
+      return ""
+    }
+    if (rule.action === "keep") {
+      return this.serializeHTML(node, true)
+    }
+
+    const [leading, content, trailing] = block
+      ? ["", this.renderBlocks(node.children ?? []).join("\n\n"), ""]
+      : this.splitPadding(this.renderInlineChildren(node))
+    const attributes = { ...node.attributes }
+    delete attributes[SELECTOR_MARK_ATTRIBUTE]
+    const element: MarkdownRuleElement = {
+      tag: node.tag!,
+      attributes,
+      text: getSnapshotText(node).replace(/\s+/g, " ").trim(),
+      content,
+    }
+
+    let replacement: string
+    try {
+      replacement = typeof rule.replacement === "function"
+        ? rule.replacement(element)
+        : this.fillTemplate(rule.replacement ?? "{{content}}", element)
+    } catch (error) {
+      throw new Error(`Custom Markdown rule "${rule.selector}" failed: ${(error as Error).message}`)
+    }
+
+    const markdown = String(replacement ?? "")
+    return block ? markdown.replace(/^\n+|\n+$/g, "") : `${leading}${markdown}${trailing}`
+  }
+
+  private fillTemplate(template: string, element: MarkdownRuleElement): string {
+    return template.replace(TEMPLATE_PLACEHOLDER, (_match, name: string, attribute?: string) =>
+      attribute === undefined ? element[name as "content" | "text" | "tag"] : element.attributes[attribute] ?? "")
+  }
+
+  private renderInlineChildren(node: DOMSnapshotNode): string {
+    return (node.children ?? []).map(child => this.renderInline(child)).join("")
+  }
+
+  /**
+   * Turn an inline run into paragraph text: merge spaces, trim and mark hard line breaks
+   */
+  private finishInline(text: string): string {
+    const merged = this.options.preserveWhitespace ? text : text.replace(/ {2,}/g, " ")
+    return merged
+      .replace(/^[ \n]+|[ \n]+$/g, "")
+      .replace(/ *\n */g, "  \n")
+  }
+
+  private normalizeWhitespace(text: string): string {
+    return this.options.preserveWhitespace ? text : text.replace(/[ \t\n\r\f]+/g, " ")
+  }
+
+  /**
+   * Wrap inline content in emphasis delimiters, keeping surrounding whitespace outside
+   */
+  private wrapInline(content: string, delimiter: string): string {
+    const [leading, inner, trailing] = this.splitPadding(content)
+    if (!inner) {
+      return content
+    }
+    if (inner.startsWith(delimiter) && inner.endsWith(delimiter) && inner.length > delimiter.length * 2) {
+      return content
+    }
+    return `${leading}${delimiter}${inner}${delimiter}${trailing}`
+  }
+
+  /**
+   * Split inline content into leading whitespace, trimmed text and trailing whitespace
+   */
+  private splitPadding(content: string): [string, string, string] {
+    const inner = content.trim()
+    if (!inner) {
+      return [content, "", ""]
+    }
+    const start = content.length - content.trimStart().length
+    return [content.slice(0, start), inner, content.slice(start + inner.length)]
+  }
+
+  private renderHeading(node: DOMSnapshotNode, level: number): string {
+    const text = this.finishInline(this.renderInlineChildren(node)).replace(/ {2}\n/g, " ")
+    if (!text) {
+      return ""
+    }
+
+    if (this.options.headingStyle === "setext" && level <= 2) {
+      return `${text}\n${(level === 1 ? "=" : "-").repeat(Math.max(3, text.length))}`
+    }
+    return `${"#".repeat(level)} ${text}`
+  }
+
+  private renderCodeBlock(node: DOMSnapshotNode): string {
+    const code = getSnapshotText(node).replace(/\n$/, "")
+
+    if (this.options.codeBlockStyle === "indented" || this.options.flavor === "original") {
+      return code
+        .split("\n")
+        .map(line => (line ? `    ${line}` : ""))
+        .join("\n")
+    }
+
+    const language = detectCodeLanguage(node) ?? ""
+    const fence = this.createFence(code)
+    return `${fence}${language}\n${code ? `${code}\n` : ""}${fence}`
+  }
+
+  /**
+   * Build a code fence longer than any run of the fence character inside the code
+   */
+  private createFence(code: string): string {
+    const fence = /^(?:`{3,}|~{3,})$/.test(this.options.fence) ? this.options.fence : "```"
+    const fenceChar = fence[0]!
+    const longestRun = Math.max(0, ...(code.match(fenceChar === "`" ? /`+/g : /~+/g) ?? []).map(run => run.length))
+    return fenceChar.repeat(Math.max(fence.length, longestRun + 1))
+  }
+
+  private renderInlineCode(text: string): string {
+    const code = this.options.preserveWhitespace ? text.replace(/\n/g, " ") : text.replace(/[ \t\n\r\f]+/g, " ")
+    if (!code) {
+      return ""
+    }
+
+    const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length))
+    const fence = "`".repeat(longestRun + 1)
+    const padding = code.startsWith("`") || code.endsWith("`") ? " " : ""
+    return `${fence}${padding}${code}${padding}${fence}`
+  }
+
+  private renderLink(node: DOMSnapshotNode): string {
+    const content = this.renderInlineChildren(node)
+    const href = node.attributes?.href?.trim()
+    if (!href || /^javascript:/i.test(href)) {
+      return content
+    }
+
+    const [leading, text, trailing] = this.splitPadding(content)
+    if (!text) {
+      return content
+    }
+
+    const url = this.resolveURL(href)
+    const title = node.attributes?.title
+
+    if (!title && /^(?:https?|mailto):/i.test(url) && getSnapshotText(node).trim() === url) {
+      return `${leading}<${url}>${trailing}`
+    }
+
+    return `${leading}[${text}]${this.formatTarget(url, title)}${trailing}`
+  }
+
+  private renderImage(node: DOMSnapshotNode): string {
+    const src = node.attributes?.src?.trim()
+    if (!src) {
+      return ""
+    }
+
+    const alt = (node.attributes?.alt ?? "").replace(/[\\[\]]/g, "\\$&")
+    const url = this.resolveURL(src)
+    return `![${alt}]${this.formatTarget(this.images.get(url) ?? url, node.attributes?.title)}`
+  }
+
+  /**
+   * Format the link target part for the configured link style
+   */
+  private formatTarget(url: string, title?: string): string {
+    if (this.options.linkStyle === "referenced") {
+      let index = this.references.findIndex(reference => reference.url === url && reference.title === title)
+      if (index === -1) {
+        index = this.references.push({ url, title }) - 1
+      }
+      return `[${index + 1}]`
+    }
+
+    return `(${this.formatDestination(url)}${this.formatTitle(title)})`
+  }
+
+  private formatDestination(url: string): string {
+    return url.replace(/[ ()<>]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  }
+
+  private formatTitle(title?: string): string {
+    return title ? ` "${title.replace(/["\\]/g, "\\$&")}"` : ""
+  }
+
+  private renderList(node: DOMSnapshotNode): string {
+    const ordered = node.tag === "ol"
+    const start = Number.parseInt(node.attributes?.start ?? "1", 10)
+    let number = Number.isNaN(start) ? 1 : start
+
+    // Lists nested directly in a list (instead of in an item) belong to the preceding item
+    const items: Array<{ item: DOMSnapshotNode, nested: DOMSnapshotNode[] }> = []
+    for (const child of node.children ?? []) {
+      if (child.type !== DOMSnapshotNodeType.ELEMENT) {
+        continue
+      }
+      if (child.tag === "li") {
+        if (this.findRule(child)?.action !== "remove") {
+          items.push({ item: child, nested: [] })
+        }
+      } else if ((child.tag === "ul" || child.tag === "ol") && items.length > 0) {
+        items[items.length - 1]!.nested.push(child)
+      }
+    }
+
+    const rendered = items.map(({ item, nested }) => {
+      const marker = ordered ? `${number++}.` : this.options.bulletMarker
+      return this.renderListItem(item, nested, marker)
+    })
+
+    const loose = rendered.some(item => item.loose)
+    return rendered.map(item => item.text).join(loose ? "\n\n" : "\n")
+  }
+
+  private renderListItem(item: DOMSnapshotNode, nested: DOMSnapshotNode[], marker: string): { text: string, loose: boolean } {
+    const children = item.children ?? []
+    const loose = children.some(child => child.type === DOMSnapshotNodeType.ELEMENT && child.tag === "p")
+
+    const checkbox = this.findTaskCheckbox(item)
+    const taskPrefix = checkbox && this.isGFM && this.options.tasklists
+      ? (checkbox.attributes?.checked !== undefined ? "[x] " : "[ ] ")
+      : ""
+
+    const rule = this.findRule(item)
+    const content = rule
+      ? [this.applyRule(item, rule, true), ...this.renderBlocks(nested)].filter(Boolean).join("\n")
+      : taskPrefix + this.renderBlocks([...children, ...nested]).join(loose ? "\n\n" : "\n")
+    const indent = " ".repeat(marker.length + 1)
+    const lines = content.trimEnd().split("\n")
+
+    return {
+      text: [
+        lines[0] ? `${marker} ${lines[0]}` : marker,
+        ...lines.slice(1).map(line => (line ? `${indent}${line}` : "")),
+      ].join("\n"),
+      loose,
+    }
+  }
+
+  /**
+   * Find a checkbox leading a list item (directly or inside its first paragraph)
+   */
+  private findTaskCheckbox(item: DOMSnapshotNode): DOMSnapshotNode | undefined {
+    const first = (item.children ?? []).find(child =>
+      child.type === DOMSnapshotNodeType.ELEMENT || (child.type === DOMSnapshotNodeType.TEXT && child.text?.trim()),
+    )
+    if (!first || first.type !== DOMSnapshotNodeType.ELEMENT) {
+      return undefined
+    }
+    if (first.tag === "input") {
+      return first.attributes?.type?.toLowerCase() === "checkbox" ? first : undefined
+    }
+    return first.tag === "p" ? this.findTaskCheckbox(first) : undefined
+  }
+
+  private renderTable(node: DOMSnapshotNode): string {
+    if (!this.isGFM || !this.options.tables) {
+      return this.serializeHTML(node)
+    }
+
+    const rows = this.collectTableRows(node)
+    if (rows.length === 0) {
+      return ""
+    }
+
+    // Rows each column is still spanned for by a cell of an earlier row
+    const spanned: number[] = []
+    const matrix = rows.map(row => this.renderTableRow(row, spanned))
+    const columnCount = Math.max(...matrix.map(cells => cells.length))
+    if (columnCount === 0) {
+      return ""
+    }
+    const format = (cells: string[]) => {
+      const padded = [...cells, ...Array.from({ length: columnCount - cells.length }, () => "")]
+      return `| ${padded.join(" | ")} |`
+    }
+
+    const headerCells = this.getTableCells(rows[0]!)
+    const alignments = Array.from({ length: columnCount }, (_, index) => {
+      switch (this.getCellAlignment(headerCells[index])) {
+        case "left":
+          return ":---"
+        case "center":
+          return ":---:"
+        case "right":
+          return "---:"
+        default:
+          return "---"
+      }
+    })
+
+    const caption = (node.children ?? []).find(child => child.type === DOMSnapshotNodeType.ELEMENT && child.tag === "caption")
+    const lines = [format(matrix[0]!), `| ${alignments.join(" | ")} |`, ...matrix.slice(1).map(format)]
+    const table = lines.join("\n")
+
+    return caption ? `${this.finishInline(this.renderInlineChildren(caption))}\n\n${table}` : table
+  }
+
+  /**
+   * Collect table rows, header sections first and footer sections last
+   */
+  private collectTableRows(table: DOMSnapshotNode): DOMSnapshotNode[] {
+    const head: DOMSnapshotNode[] = []
+    const body: DOMSnapshotNode[] = []
+    const foot: DOMSnapshotNode[] = []
+
+    for (const child of table.children ?? []) {
+      if (child.type !== DOMSnapshotNodeType.ELEMENT) {
+        continue
+      }
+      const rows = child.tag === "tr"
+        ? [child]
+        : (child.children ?? []).filter(row => row.type === DOMSnapshotNodeType.ELEMENT && row.tag === "tr")
+
+      if (child.tag === "thead") {
+        head.push(...rows)
+      } else if (child.tag === "tfoot") {
+        foot.push(...rows)
+      } else if (child.tag === "tbody" || child.tag === "tr") {
+        body.push(...rows)
+      }
+    }
+
+    return [...head, ...body, ...foot]
+  }
+
+  private getTableCells(row: DOMSnapshotNode): DOMSnapshotNode[] {
+    return (row.children ?? []).filter(cell =>
+      cell.type === DOMSnapshotNodeType.ELEMENT && (cell.tag === "td" || cell.tag === "th"),
+    )
+  }
+
+  private renderTableRow(row: DOMSnapshotNode, spanned: number[]): string[] {
+    const cells: string[] = []
+    const skipSpannedColumns = () => {
+      while (spanned[cells.length]) {
+        spanned[cells.length]!--
+        cells.push("")
+      }
+    }
+
+    for (const cell of this.getTableCells(row)) {
+      skipSpannedColumns()
+      const text = this.finishInline(this.renderInlineChildren(cell))
+        .replace(/ {2}\n/g, "<br>")
+        .replace(/\|/g, "\\|")
+      const column = cells.length
+      cells.push(text)
+
+      // Spanned columns are kept as empty cells so columns stay aligned
+      const colspan = Number.parseInt(cell.attributes?.colspan ?? "1", 10)
+      for (let index = 1; index < colspan; index++) {
+        cells.push("")
+      }
+
+      // Spanned rows get empty cells in the columns of this cell
+      const rowspan = Number.parseInt(cell.attributes?.rowspan ?? "1", 10)
+      if (rowspan > 1) {
+        for (let index = column; index < cells.length; index++) {
+          spanned[index] = rowspan - 1
+        }
+      }
+    }
+
+    // Columns past the last cell stay empty (the table pads them) but their spans still end
+    for (let index = cells.length; index < spanned.length; index++) {
+      spanned[index] = Math.max((spanned[index] ?? 0) - 1, 0)
+    }
+    return cells
+  }
+
+  private getCellAlignment(cell?: DOMSnapshotNode): string | undefined {
+    const align = cell?.attributes?.align?.toLowerCase()
+    if (align) {
+      return align
+    }
+    return /text-align\s*:\s*(left|center|right)/i.exec(cell?.attributes?.style ?? "")?.[1]?.toLowerCase()
+  }
+
+  /**
+   * Serialize a snapshot fragment as raw HTML (for constructs the flavor cannot express)
+   *
+   * Verbatim serialization keeps every element and attribute, for elements a custom rule keeps as HTML.
+   */
+  private serializeHTML(node: DOMSnapshotNode, verbatim = false): string {
+    if (node.type === DOMSnapshotNodeType.TEXT) {
+      return this.escapeHTML(this.normalizeWhitespace(node.text ?? ""))
+    }
+    if (node.type !== DOMSnapshotNodeType.ELEMENT || (verbatim ? node.tag === "script" : IGNORED_TAGS.has(node.tag!))) {
+      return ""
+    }
+
+    const attributes = Object.entries(node.attributes ?? {})
+      .filter(([name]) => (verbatim ? name !== SELECTOR_MARK_ATTRIBUTE : HTML_ATTRIBUTES.has(name)))
+      .map(([name, value]) => ` ${name}="${this.escapeHTML(this.serializeAttribute(name, value))}"`)
+      .join("")
+
+    if (VOID_TAGS.has(node.tag!)) {
+      return `<${node.tag}${attributes}>`
+    }
+    const content = (node.children ?? []).map(child => this.serializeHTML(child, verbatim)).join("")
+    return `<${node.tag}${attributes}>${content}</${node.tag}>`
+  }
+
+  /**
+   * Resolve link and image URLs of raw HTML, pointing extracted images at their asset file
+   */
+  private serializeAttribute(name: string, value: string): string {
+    if (name === "href") {
+      return this.resolveURL(value)
+    }
+    if (name === "src") {
+      const url = this.resolveURL(value)
+      return this.images.get(url) ?? url
+    }
+    return value
+  }
+
+  private escapeHTML(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+  }
+
+  /**
+   * Escape characters that would otherwise be read as Markdown syntax
+   */
+  private escapeText(text: string): string {
+    let escaped = text
+      .replace(/[\\`*_[\]]/g, "\\$&")
+      .replace(/&(?=#?\w+;)/g, "&amp;")
+      .replace(/<(?=[a-z/!?])/gi, "&lt;")
+      .replace(/^(\s*)(#{1,6}|[-+>]|=+)(?=\s|$)/, "$1\\$2")
+      .replace(/^(\s*\d+)\.(?=\s)/, "$1\\.")
+
+    if (this.isGFM && this.options.strikethrough) {
+      escaped = escaped.replace(/~/g, "\\~")
+    }
+    return escaped
+  }
+
+  private resolveURL(url: string): string {
+    if (!this.baseURL || url.startsWith("#")) {
+      return url
+    }
+    try {
+      return new URL(url, this.baseURL).href
+    } catch {
+      return url
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Markdown converter specific types and interfaces
+ */
+
+import type { MarkdownConfig, MarkdownFrontmatterConfig } from "../../config/schema.js"
+import type { RenderedDOMCaptureOptions } from "../rendered-dom-converter.js"
+
+/**
+ * Resolved options controlling Markdown rendering
+ */
+export interface MarkdownRenderOptions extends Pick<
+  MarkdownConfig,
+  | "flavor"
+  | "headingStyle"
+  | "bulletMarker"
+  | "codeBlockStyle"
+  | "fence"
+  | "emDelimiter"
+  | "strongDelimiter"
+  | "linkStyle"
+  | "preserveWhitespace"
+  | "strikethrough"
+  | "tables"
+  | "tasklists"
+> {
+  /** Keep HTML comments as raw HTML */
+  preserveComments: boolean
+  /** Rules overriding the rendering of elements matched by CSS selectors */
+  customRules: MarkdownCustomRule[]
+}
+
+/**
+ * Element matched by a custom rule
+ */
+export interface MarkdownRuleElement {
+  /** Lower-case tag name */
+  tag: string
+  /** Element attributes */
+  attributes: Record<string, string>
+  /** Text content with whitespace collapsed */
+  text: string
+  /** Markdown converted from the element's children */
+  content: string
+}
+
+/**
+ * Rule overriding the rendering of elements matched by a CSS selector
+ *
+ * The first rule matching an element applies. Replacement templates may use
+ * the placeholders `{{content}}`, `{{text}}`, `{{tag}}` and `{{attr.<name>}}`.
+ */
+export interface MarkdownCustomRule {
+  /** CSS selector of the elements the rule applies to */
+  selector: string
+  /** Drop matched elements, keep them as raw HTML, or replace them (default: replace) */
+  action?: "replace" | "remove" | "keep"
+  /** Template or function producing the Markdown of matched elements (default: `{{content}}`) */
+  replacement?: string | ((element: MarkdownRuleElement) => string)
+}
+
+/**
+ * Image extracted from the document and written as an asset file
+ */
+export interface MarkdownAsset {
+  /** Path of the asset file, relative to the Markdown document */
+  path: string
+  /** URL the image was loaded from */
+  source: string
+  /** Image media type */
+  mediaType: string
+  /** Image bytes */
+  data: Uint8Array
+}
+
+/**
+ * Per-conversion Markdown options (request options override converter configuration)
+ */
+export type MarkdownConversionOptions = Partial<MarkdownRenderOptions>
+  & Partial<Pick<MarkdownConfig, "embedImages" | "imageAssetPath">>
+  & RenderedDOMCaptureOptions
+  & {
+    /** Prepend front matter built from the page metadata */
+    includeFrontmatter?: boolean
+    /** Front matter format, fields and static keys */
+    frontmatter?: Partial<Omit<MarkdownFrontmatterConfig, "enabled">>
+  }
@@ -0,0 +1,69 @@
+/**
+ * Media type detection for resources embedded in converted documents
+ */
+
+import { Buffer } from "node:buffer"
+
+/**
+ * Detected media type and the file extension used for the embedded resource
+ */
+export interface MediaTypeInfo {
+  mediaType: string
+  extension: string
+}
+
+/**
+ * Detect the media type of an image from its signature
+ *
+ * Only widely supported web image types are recognized: PNG, JPEG, GIF, WebP and SVG.
+ *
+ * @param data - Image bytes
+ * @returns Media type information, or undefined for unsupported images
+ */
+export function detectImageType(data: Uint8Array): MediaTypeInfo | undefined {
+  const signature = Buffer.from(data.subarray(0, 12))
+
+  if (signature.length >= 8 && signature.readUInt32BE(0) === 0x89504E47 && signature.readUInt32BE(4) === 0x0D0A1A0A) {
+    return { mediaType: "image/png", extension: "png" }
+  }
+  if (signature.length >= 3 && signature[0] === 0xFF && signature[1] === 0xD8 && signature[2] === 0xFF) {
+    return { mediaType: "image/jpeg", extension: "jpeg" }
+  }
+  if (signature.toString("latin1", 0, 4) === "GIF8") {
+    return { mediaType: "image/gif", extension: "gif" }
+  }
+  if (signature.toString("latin1", 0, 4) === "RIFF" && signature.toString("latin1", 8, 12) === "WEBP") {
+    return { mediaType: "image/webp", extension: "webp" }
+  }
+
+  const head = Buffer.from(data.subarray(0, 1024)).toString("utf8").replace(/^\uFEFF/, "").trimStart()
+  if (/^(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*(?:<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(head)) {
+    return { mediaType: "image/svg+xml", extension: "svg" }
+  }
+
+  return undefined
+}
+
+/**
+ * Detect the media type of a font from its signature
+ *
+ * @param data - Font bytes
+ * @returns Media type information, or undefined for unsupported fonts
+ */
+export function detectFontType(data: Uint8Array): MediaTypeInfo | undefined {
+  const tag = Buffer.from(data.subarray(0, 4)).toString("latin1")
+
+  switch (tag) {
+    case "wOF2":
+      return { mediaType: "font/woff2", extension: "woff2" }
+    case "wOFF":
+      return { mediaType: "font/woff", extension: "woff" }
+    case "OTTO":
+      return { mediaType: "font/otf", extension: "otf" }
+    case "\u0000\u0001\u0000\u0000":
+    case "true":
+      return { mediaType: "font/ttf", extension: "ttf" }
+    default:
+      return undefined
+  }
+}
@@ -4,12 +4,16 @@
 
 export { MHTMLBuilder } from "./mhtml-builder.js"
 export { MHTMLConverter } from "./mhtml-converter.js"
+export { isMHTMLArchive, MHTMLParser } from "./mhtml-parser.js"
 export type {
   ExternalResource,
   ICDPCapture,
   IMHTMLBuilder,
+  IMHTMLParser,
   IResourceFetcher,
   MHTMLConversionResult,
+  MHTMLDocumentPart,
   MHTMLMetadata,
   MHTMLOptions,
+  ParsedMHTML,
 } from "./types.js"
@@ -0,0 +1,275 @@
+/**
+ * MHTML Parser Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { MHTMLBuilder } from "./mhtml-builder.js"
+import { isMHTMLArchive, MHTMLParser } from "./mhtml-parser.js"
+import type { ExternalResource } from "./types.js"
+
+// 1x1 transparent PNG
+const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+
+/**
+ * Archive in the shape Chrome writes with Page.captureSnapshot
+ */
+const CHROME_ARCHIVE = [
+  "From: <Saved by Blink>",
+  "Snapshot-Content-Location: https://example.com/articles/page.html",
+  "Subject: =?utf-8?Q?Caf=C3=A9_menu?=",
+  "Date: Mon, 19 Oct 2026 10:00:00 -0000",
+  "MIME-Version: 1.0",
+  "Content-Type: multipart/related;",
+  "\ttype=\"text/html\";",
+  "\tboundary=\"----MultipartBoundary--abc123----\"",
+  "",
+  "",
+  "------MultipartBoundary--abc123----",
+  "Content-Type: text/html",
+  "Content-ID: <frame-main@mhtml.blink>",
+  "Content-Transfer-Encoding: quoted-printable",
+  "Content-Location: https://example.com/articles/page.html",
+  "",
+  "<html><head><meta charset=3D\"utf-8\"><title>Caf=C3=A9</title></head><body><p clas=",
+  "s=3D\"intro\">Caf=C3=A9 menu</p><img src=3D\"images/logo.png\"><iframe src=3D\"cid:fr=",
+  "ame-1@mhtml.blink\"></iframe></body></html>",
+  "------MultipartBoundary--abc123----",
+  "Content-Type: image/png",
+  "Content-Transfer-Encoding: base64",
+  "Content-Location: https://example.com/articles/images/logo.png",
+  "",
+  PNG_BASE64.slice(0, 40),
+  PNG_BASE64.slice(40),
+  "------MultipartBoundary--abc123----",
+  "Content-Type: text/css",
+  "Content-Transfer-Encoding: quoted-printable",
+  "Content-Location: cid:css-1@mhtml.blink",
+  "",
+  "body { font-family: \"Helvetica\"; }",
+  "------MultipartBoundary--abc123----",
+  "Content-Type: text/html",
+  "Content-ID: <frame-1@mhtml.blink>",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "<html><body>Frame</body></html>",
+  "------MultipartBoundary--abc123------",
+  "",
+].join("\r\n")
+
+describe("mHTMLParser", () => {
+  let parser: MHTMLParser
+
+  beforeEach(() => {
+    parser = new MHTMLParser()
+  })
+
+  describe("parse", () => {
+    it("should read the message headers of a Chrome archive", () => {
+      const archive = parser.parse(CHROME_ARCHIVE)
+
+      expect(archive.url).toBe("https://example.com/articles/page.html")
+      expect(archive.subject).toBe("Café menu")
+      expect(archive.date?.toISOString()).toBe("2026-10-19T10:00:00.000Z")
+      expect(archive.boundary).toBe("----MultipartBoundary--abc123----")
+      expect(archive.headers["content-type"]).toBe(
+        "multipart/related; type=\"text/html\"; boundary=\"----MultipartBoundary--abc123----\"",
+      )
+    })
+
+    it("should decode the quoted-printable root document in its charset", () => {
+      const { document } = parser.parse(CHROME_ARCHIVE)
+
+      expect(document.contentType).toBe("text/html")
+      expect(document.contentId).toBe("frame-main@mhtml.blink")
+      expect(document.contentLocation).toBe("https://example.com/articles/page.html")
+      expect(document.html).toBe(
+        "<html><head><meta charset=\"utf-8\"><title>Café</title></head><body><p class=\"intro\">Café menu</p>"
+        + "<img src=\"images/logo.png\"><iframe src=\"cid:frame-1@mhtml.blink\"></iframe></body></html>",
+      )
+    })
+
+    it("should decode resources with their headers, location and content ID", () => {
+      const { resources } = parser.parse(CHROME_ARCHIVE)
+
+      expect(resources.map(resource => [resource.type, resource.contentType, resource.originalUrl])).toEqual([
+        ["image", "image/png", "https://example.com/articles/images/logo.png"],
+        ["stylesheet", "text/css", "cid:css-1@mhtml.blink"],
+        ["iframe", "text/html", "cid:frame-1@mhtml.blink"],
+      ])
+
+      const [image, stylesheet, frame] = resources as [ExternalResource, ExternalResource, ExternalResource]
+      expect(Buffer.from(image.data!).equals(Buffer.from(PNG_BASE64, "base64"))).toBe(true)
+      expect(image.content).toBe(PNG_BASE64)
+      expect(image.encoding).toBe("base64")
+      expect(image.size).toBe(Buffer.from(PNG_BASE64, "base64").length)
+      expect(image.headers?.["content-transfer-encoding"]).toBe("base64")
+      expect(Buffer.from(stylesheet.data!).toString("utf8")).toBe("body { font-family: \"Helvetica\"; }")
+      expect(frame.contentId).toBe("frame-1@mhtml.blink")
+      expect(frame.contentLocation).toBeUndefined()
+      expect(Buffer.from(frame.data!).toString("utf8")).toBe("<html><body>Frame</body></html>")
+    })
+
+    it("should accept raw bytes", () => {
+      const archive = parser.parse(Buffer.from(CHROME_ARCHIVE, "utf8"))
+
+      expect(archive.document.html).toContain("Café menu")
+      expect(archive.resources).toHaveLength(3)
+    })
+
+    it("should read archives written by MHTMLBuilder", () => {
+      const builder = new MHTMLBuilder()
+      const boundary = builder.generateBoundary()
+      const html = `<html><body><h1>Report</h1><p>${"Long line of text. ".repeat(10)}</p></body></html>`
+      const content = builder.build(html, [
+        {
+          originalUrl: "https://example.com/chart.png",
+          resolvedUrl: "https://example.com/chart.png",
+          type: "image",
+          contentType: "image/png",
+          fetched: true,
+          content: PNG_BASE64,
+          encoding: "base64",
+        },
+      ], boundary)
+
+      const archive = parser.parse(content)
+
+      expect(archive.subject).toBe("HTML Document")
+      expect(archive.document.contentLocation).toBe("index.html")
+      expect(archive.document.html.trimEnd()).toBe(html)
+      expect(archive.resources).toHaveLength(1)
+      expect(archive.resources[0]!.content).toBe(PNG_BASE64)
+    })
+
+    it("should flatten nested multipart parts", () => {
+      const content = [
+        "MIME-Version: 1.0",
+        "Content-Type: multipart/related; boundary=outer",
+        "",
+        "--outer",
+        "Content-Type: multipart/alternative; boundary=\"inner\"",
+        "",
+        "--inner",
+        "Content-Type: text/html; charset=iso-8859-1",
+        "Content-Transfer-Encoding: 8bit",
+        "Content-Location: https://example.com/",
+        "",
+        "<p>Main</p>",
+        "--inner",
+        "Content-Type: text/html",
+        "Content-Location: https://example.com/frame.html",
+        "",
+        "<p>Frame</p>",
+        "--inner--",
+        "--outer",
+        "Content-Type: image/png",
+        "Content-Transfer-Encoding: base64",
+        "Content-Location: https://example.com/logo.png",
+        "",
+        PNG_BASE64,
+        "--outer--",
+      ].join("\n")
+
+      const archive = parser.parse(content)
+
+      expect(archive.document.html).toBe("<p>Main</p>")
+      expect(archive.document.charset).toBe("iso-8859-1")
+      expect(archive.resources.map(resource => resource.resolvedUrl)).toEqual([
+        "https://example.com/frame.html",
+        "https://example.com/logo.png",
+      ])
+      expect(archive.resources[0]!.type).toBe("iframe")
+    })
+
+    it("should select the root document from the start parameter", () => {
+      const content = [
+        "Content-Type: multipart/related; boundary=\"b\"; start=\"<root@local>\"",
+        "",
+        "--b",
+        "Content-Type: text/html",
+        "Content-ID: <frame@local>",
+        "",
+        "<p>Frame</p>",
+        "--b",
+        "Content-Type: text/html",
+        "Content-ID: <root@local>",
+        "",
+        "<p>Root</p>",
+        "--b--",
+      ].join("\r\n")
+
+      const archive = parser.parse(content)
+
+      expect(archive.document.html).toBe("<p>Root</p>")
+      expect(archive.resources[0]!.contentId).toBe("frame@local")
+    })
+
+    it("should decode 8bit text in the declared charset", () => {
+      const header = "Content-Type: multipart/related; boundary=b\r\n\r\n--b\r\n"
+        + "Content-Type: text/html; charset=iso-8859-1\r\nContent-Transfer-Encoding: 8bit\r\n\r\n"
+      const archive = parser.parse(Buffer.concat([
+        Buffer.from(header, "latin1"),
+        Buffer.from("<p>Café</p>", "latin1"),
+        Buffer.from("\r\n--b--\r\n", "latin1"),
+      ]))
+
+      expect(archive.document.html).toBe("<p>Café</p>")
+    })
+
+    it("should read single-part archives", () => {
+      const archive = parser.parse("Content-Type: text/html; charset=utf-8\r\nContent-Location: https://example.com/\r\n\r\n<p>Only</p>")
+
+      expect(archive.boundary).toBeUndefined()
+      expect(archive.url).toBe("https://example.com/")
+      expect(archive.document.html).toBe("<p>Only</p>")
+      expect(archive.resources).toEqual([])
+    })
+
+    it("should keep the parts of a truncated archive", () => {
+      const archive = parser.parse("Content-Type: multipart/related; boundary=b\r\n\r\n--b\r\nContent-Type: text/html\r\n\r\n<p>Cut")
+
+      expect(archive.document.html).toBe("<p>Cut")
+    })
+
+    it("should reject content that is not an MHTML archive", () => {
+      expect(() => parser.parse("")).toThrow("Invalid MHTML archive: missing message headers")
+      expect(() => parser.parse("Content-Type: multipart/related\r\n\r\nbody")).toThrow(
+        "Invalid MHTML archive: multipart message without boundary",
+      )
+      expect(() => parser.parse("Content-Type: multipart/related; boundary=b\r\n\r\nno parts")).toThrow(
+        "Invalid MHTML archive: no MIME parts found",
+      )
+    })
+  })
+
+  describe("findResource", () => {
+    it("should find resources by absolute URL, relative URL and content ID", () => {
+      const archive = parser.parse(CHROME_ARCHIVE)
+
+      expect(parser.findResource(archive, "https://example.com/articles/images/logo.png")?.type).toBe("image")
+      expect(parser.findResource(archive, "images/logo.png#top")?.type).toBe("image")
+      expect(parser.findResource(archive, "cid:frame-1@mhtml.blink")?.type).toBe("iframe")
+      expect(parser.findResource(archive, "cid:css-1@mhtml.blink")?.type).toBe("stylesheet")
+      expect(parser.findResource(archive, "missing.png")).toBeUndefined()
+    })
+  })
+
+  describe("isMHTMLArchive", () => {
+    it("should recognize archives by their multipart/related message headers", () => {
+      expect(isMHTMLArchive(CHROME_ARCHIVE)).toBe(true)
+      expect(isMHTMLArchive(Buffer.from(CHROME_ARCHIVE, "utf8"))).toBe(true)
+      expect(isMHTMLArchive(`\r\n${new MHTMLBuilder().build("<p>Built</p>", [], "boundary")}`)).toBe(true)
+    })
+
+    it("should reject HTML, file paths and other MIME messages", () => {
+      expect(isMHTMLArchive("<html><body>Content-Type: multipart/related</body></html>")).toBe(false)
+      expect(isMHTMLArchive("./snapshots/page.mhtml")).toBe(false)
+      expect(isMHTMLArchive("Content-Type: multipart/mixed; boundary=b\r\n\r\n--b--")).toBe(false)
+      expect(isMHTMLArchive("Subject: Notes\r\n\r\nContent-Type: multipart/related")).toBe(false)
+      expect(isMHTMLArchive("")).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,362 @@
+/**
+ * MHTML Parser - RFC 2557 compliant MHTML archive reader
+ *
+ * Reads archives written by MHTMLBuilder, Chrome and other browsers:
+ * - Folded headers and RFC 2047 encoded words
+ * - multipart/related bodies, including nested multipart parts
+ * - Base64, quoted-printable, 7bit, 8bit and binary transfer encodings
+ * - Root document selection through the `start` parameter (RFC 2387)
+ * - Frame documents stored as additional HTML parts
+ */
+
+import { Buffer } from "node:buffer"
+
+import type {
+  ExternalResource,
+  IMHTMLParser,
+  MHTMLDocumentPart,
+  ParsedMHTML,
+} from "./types.js"
+
+/**
+ * Charset used when a text part does not declare one
+ */
+const DEFAULT_CHARSET = "utf-8"
+
+/**
+ * Number of leading bytes inspected when sniffing for MHTML message headers
+ */
+const SNIFF_LENGTH = 8192
+
+/**
+ * MIME part with its body still transfer encoded
+ *
+ * The body is a binary string: one character per byte.
+ */
+interface MIMEPart {
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Header value split into its lower-case value and parameters
+ */
+interface ParsedHeaderValue {
+  value: string
+  params: Record<string, string>
+}
+
+/**
+ * MHTML Parser implementation
+ *
+ * Decodes RFC 2557 archives into the root HTML document and a list of
+ * resources with their headers, Content-Location, Content-ID and decoded bodies.
+ */
+export class MHTMLParser implements IMHTMLParser {
+  /**
+   * Parse an MHTML archive
+   *
+   * @param content - MHTML archive as text or raw bytes
+   * @returns Parsed archive with the root document and decoded resources
+   */
+  parse(content: string | Uint8Array): ParsedMHTML {
+    const raw = typeof content === "string"
+      ? Buffer.from(content, "utf8").toString("latin1")
+      : Buffer.from(content).toString("latin1")
+
+    const message = this.parsePart(raw.replace(/^(?:\r?\n)+/, ""))
+    if (Object.keys(message.headers).length === 0) {
+      throw new Error("Invalid MHTML archive: missing message headers")
+    }
+
+    const contentType = parseHeaderValue(message.headers["content-type"] ?? "text/html")
+    let boundary: string | undefined
+    let parts: MIMEPart[] = [message]
+    if (contentType.value.startsWith("multipart/")) {
+      boundary = contentType.params.boundary
+      if (!boundary) {
+        throw new Error("Invalid MHTML archive: multipart message without boundary")
+      }
+      parts = this.flattenParts(this.splitMultipart(message.body, boundary))
+    }
+    if (parts.length === 0) {
+      throw new Error("Invalid MHTML archive: no MIME parts found")
+    }
+
+    const root = this.findRootPart(parts, contentType.params.start)
+    const document = this.toDocumentPart(root)
+    const url = message.headers["snapshot-content-location"] || document.contentLocation
+
+    const date = message.headers.date ? new Date(message.headers.date) : undefined
+    return {
+      headers: message.headers,
+      subject: message.headers.subject ? decodeEncodedWords(message.headers.subject) : undefined,
+      date: date && !Number.isNaN(date.getTime()) ? date : undefined,
+      url,
+      boundary,
+      document,
+      resources: parts.filter(part => part !== root).map(part => this.toResource(part, url)),
+    }
+  }
+
+  /**
+   * Find the archived resource for a URL or `cid:` reference
+   *
+   * @param archive - Parsed archive
+   * @param reference - Absolute URL, URL relative to the document, or `cid:` URL
+   * @returns Matching resource, if archived
+   */
+  findResource(archive: ParsedMHTML, reference: string): ExternalResource | undefined {
+    const trimmed = reference.trim()
+    if (/^cid:/i.test(trimmed)) {
+      const contentId = decodeURIComponent(trimmed.slice(4))
+      return archive.resources.find(resource => resource.contentId === contentId || resource.contentLocation === trimmed)
+    }
+
+    const resolved = resolveURL(trimmed, archive.url).replace(/#.*$/, "")
+    return archive.resources.find(resource => resource.resolvedUrl === resolved)
+      ?? archive.resources.find(resource => resource.originalUrl === trimmed)
+  }
+
+  // Private helper methods
+
+  /**
+   * Split a raw part into its unfolded headers and body
+   */
+  private parsePart(raw: string): MIMEPart {
+    const separator = /\r?\n\r?\n/.exec(raw)
+    const leadingBlank = /^\r?\n/.exec(raw)
+    const headerBlock = leadingBlank ? "" : separator ? raw.slice(0, separator.index) : raw
+    const body = leadingBlank
+      ? raw.slice(leadingBlank[0].length)
+      : separator ? raw.slice(separator.index + separator[0].length) : ""
+
+    const headers: Record<string, string> = {}
+    for (const line of headerBlock.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+      const colon = line.indexOf(":")
+      if (colon <= 0) {
+        continue
+      }
+      const name = line.slice(0, colon).trim().toLowerCase()
+      headers[name] ??= line.slice(colon + 1).trim()
+    }
+
+    return { headers, body }
+  }
+
+  /**
+   * Split a multipart body at its boundary delimiters, ignoring the preamble and epilogue
+   */
+  private splitMultipart(body: string, boundary: string): string[] {
+    const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, "g")
+
+    const parts: string[] = []
+    let start = -1
+    for (const match of body.matchAll(delimiter)) {
+      if (start >= 0) {
+        parts.push(body.slice(start, match.index))
+      }
+      if (match[1]) {
+        return parts
+      }
+      start = match.index + match[0].length
+    }
+
+    // Truncated archive without a closing delimiter
+    if (start >= 0 && start < body.length) {
+      parts.push(body.slice(start))
+    }
+    return parts
+  }
+
+  /**
+   * Parse raw parts, replacing nested multipart parts with their own parts
+   */
+  private flattenParts(rawParts: string[]): MIMEPart[] {
+    return rawParts.flatMap((raw) => {
+      const part = this.parsePart(raw)
+      const contentType = parseHeaderValue(part.headers["content-type"] ?? "")
+      if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+        return this.flattenParts(this.splitMultipart(part.body, contentType.params.boundary))
+      }
+      return [part]
+    })
+  }
+
+  /**
+   * Select the root part: the `start` part, else the first HTML part, else the first part
+   */
+  private findRootPart(parts: MIMEPart[], start: string | undefined): MIMEPart {
+    const startId = start ? stripAngleBrackets(start) : undefined
+    const byStart = startId ? parts.find(part => stripAngleBrackets(part.headers["content-id"] ?? "") === startId) : undefined
+    return byStart
+      ?? parts.find(part => isHTMLType(parseHeaderValue(part.headers["content-type"] ?? "text/html").value))
+      ?? parts[0]!
+  }
+
+  private toDocumentPart(part: MIMEPart): MHTMLDocumentPart {
+    const contentType = parseHeaderValue(part.headers["content-type"] ?? "text/html")
+    const charset = contentType.params.charset || DEFAULT_CHARSET
+    return {
+      html: decodeText(this.decodeBody(part), charset),
+      contentType: contentType.value,
+      charset,
+      contentLocation: part.headers["content-location"] || undefined,
+      contentId: part.headers["content-id"] ? stripAngleBrackets(part.headers["content-id"]) : undefined,
+      headers: part.headers,
+    }
+  }
+
+  private toResource(part: MIMEPart, baseURL: string | undefined): ExternalResource {
+    const contentType = parseHeaderValue(part.headers["content-type"] ?? "application/octet-stream").value
+    const contentLocation = part.headers["content-location"] || undefined
+    const contentId = part.headers["content-id"] ? stripAngleBrackets(part.headers["content-id"]) : undefined
+    const data = this.decodeBody(part)
+    const originalUrl = contentLocation ?? (contentId ? `cid:${contentId}` : "")
+
+    return {
+      originalUrl,
+      resolvedUrl: contentLocation ? resolveURL(contentLocation, baseURL) : originalUrl,
+      type: getResourceType(contentType),
+      contentType,
+      fetched: true,
+      content: Buffer.from(data).toString("base64"),
+      encoding: "base64",
+      size: data.length,
+      headers: part.headers,
+      contentLocation,
+      contentId,
+      data,
+    }
+  }
+
+  /**
+   * Decode a part body according to its Content-Transfer-Encoding
+   */
+  private decodeBody(part: MIMEPart): Uint8Array {
+    const encoding = (part.headers["content-transfer-encoding"] ?? "").trim().toLowerCase()
+    switch (encoding) {
+      case "base64":
+        return Buffer.from(part.body.replace(/[^A-Z0-9+/=]/gi, ""), "base64")
+      case "quoted-printable":
+        return decodeQuotedPrintable(part.body)
+      default:
+        return Buffer.from(part.body, "latin1")
+    }
+  }
+}
+
+/**
+ * Check whether content starts with the message headers of an MHTML archive
+ *
+ * Only the leading header block is inspected: the content must open with MIME
+ * headers declaring `Content-Type: multipart/related`.
+ *
+ * @param content - Candidate archive as text or raw bytes
+ * @returns True when the content looks like an MHTML archive
+ */
+export function isMHTMLArchive(content: string | Uint8Array): boolean {
+  const head: string = typeof content === "string"
+    ? content.slice(0, SNIFF_LENGTH)
+    : Buffer.from(content.subarray(0, SNIFF_LENGTH)).toString("latin1")
+  const headerBlock = head.replace(/^\uFEFF?(?:\r?\n)*/, "").split(/\r?\n\r?\n/, 1)[0]!
+  const lines = headerBlock.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)
+
+  if (!lines.every(line => /^[\w-]+:/.test(line))) {
+    return false
+  }
+  const contentType = lines.find(line => /^content-type:/i.test(line))
+  return contentType !== undefined && parseHeaderValue(contentType.slice(13)).value === "multipart/related"
+}
+
+/**
+ * Split a structured header value such as Content-Type into its value and parameters
+ */
+function parseHeaderValue(header: string): ParsedHeaderValue {
+  const separator = header.indexOf(";")
+  const value = (separator < 0 ? header : header.slice(0, separator)).trim().toLowerCase()
+  const params: Record<string, string> = {}
+
+  if (separator >= 0) {
+    const pattern = /([^\s=;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s;]*))/g
+    for (const match of header.slice(separator + 1).matchAll(pattern)) {
+      const name = match[1]!.toLowerCase()
+      params[name] ??= match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3]!
+    }
+  }
+
+  return { value, params }
+}
+
+/**
+ * Decode quoted-printable text into bytes, removing soft line breaks
+ */
+function decodeQuotedPrintable(body: string): Uint8Array {
+  const decoded = body
+    .replace(/=[ \t]*\r?\n/g, "")
+    .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)))
+  return Buffer.from(decoded, "latin1")
+}
+
+/**
+ * Decode bytes in the given charset, falling back to UTF-8 for unknown charsets
+ */
+function decodeText(data: Uint8Array, charset: string): string {
+  let decoder: TextDecoder
+  try {
+    decoder = new TextDecoder(charset)
+  } catch {
+    decoder = new TextDecoder(DEFAULT_CHARSET)
+  }
+  return decoder.decode(data).replace(/^\uFEFF/, "")
+}
+
+/**
+ * Decode RFC 2047 encoded words, as browsers write non-ASCII page titles into the Subject header
+ */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === "B"
+        ? Buffer.from(text, "base64")
+        : decodeQuotedPrintable(text.replace(/_/g, " "))
+      return decodeText(bytes, charset)
+    })
+}
+
+function stripAngleBrackets(value: string): string {
+  return value.trim().replace(/^<(.*)>$/, "$1")
+}
+
+function isHTMLType(contentType: string): boolean {
+  return contentType === "text/html" || contentType === "application/xhtml+xml"
+}
+
+function getResourceType(contentType: string): ExternalResource["type"] {
+  if (isHTMLType(contentType)) {
+    return "iframe"
+  }
+  if (contentType === "text/css") {
+    return "stylesheet"
+  }
+  if (contentType.startsWith("image/")) {
+    return "image"
+  }
+  if (contentType.startsWith("font/") || /^application\/(?:x-)?font-|^application\/vnd\.ms-fontobject$/.test(contentType)) {
+    return "font"
+  }
+  if (/(?:java|ecma)script$/.test(contentType)) {
+    return "script"
+  }
+  return "link"
+}
+
+function resolveURL(url: string, base: string | undefined): string {
+  try {
+    return new URL(url, base).href
+  } catch {
+    return url
+  }
+}
@@ -49,6 +49,52 @@ export interface ExternalResource {
   size?: number
   /** Error message if fetching failed */
   error?: string
+  /** MIME part headers keyed by lower-case name (parsed archives only) */
+  headers?: Record<string, string>
+  /** Content-Location header of the MIME part (parsed archives only) */
+  contentLocation?: string
+  /** Content-ID of the MIME part without angle brackets (parsed archives only) */
+  contentId?: string
+  /** Decoded resource body (parsed archives only) */
+  data?: Uint8Array
+}
+
+/**
+ * Main HTML document of a parsed MHTML archive
+ */
+export interface MHTMLDocumentPart {
+  /** Decoded HTML markup */
+  html: string
+  /** Content type without parameters */
+  contentType: string
+  /** Charset used to decode the markup */
+  charset: string
+  /** Content-Location header of the MIME part */
+  contentLocation?: string
+  /** Content-ID of the MIME part without angle brackets */
+  contentId?: string
+  /** MIME part headers keyed by lower-case name */
+  headers: Record<string, string>
+}
+
+/**
+ * Parsed MHTML archive
+ */
+export interface ParsedMHTML {
+  /** Top-level message headers keyed by lower-case name */
+  headers: Record<string, string>
+  /** Decoded Subject header */
+  subject?: string
+  /** Date header */
+  date?: Date
+  /** URL of the captured page (Snapshot-Content-Location or the document Content-Location) */
+  url?: string
+  /** MIME boundary of the root multipart body */
+  boundary?: string
+  /** Root HTML document */
+  document: MHTMLDocumentPart
+  /** Every other part, including nested frame documents (type "iframe") */
+  resources: ExternalResource[]
 }
 
 /**
@@ -173,6 +219,26 @@ export interface IMHTMLBuilder {
   encodeContent(content: string, contentType: string): string
 }
 
+/**
+ * MHTML parser interface for reading archives back
+ */
+export interface IMHTMLParser {
+  /**
+   * Parse an MHTML archive
+   * @param content - MHTML archive as text or raw bytes
+   * @returns Parsed archive with the root document and decoded resources
+   */
+  parse(content: string | Uint8Array): ParsedMHTML
+
+  /**
+   * Find the archived resource for a URL or `cid:` reference
+   * @param archive - Parsed archive
+   * @param reference - Absolute URL, URL relative to the document, or `cid:` URL
+   * @returns Matching resource, if archived
+   */
+  findResource(archive: ParsedMHTML, reference: string): ExternalResource | undefined
+}
+
 /**
  * CDP capture interface for Chrome DevTools Protocol integration
  */
@@ -0,0 +1,221 @@
+/**
+ * Rendered DOM Converter - Base class for converters that walk a DOM snapshot
+ * Renders the document in Chrome when available so the output reflects the rendered DOM
+ */
+
+import { BaseConverter } from "../architecture/strategies/BaseConverter.js"
+import type { Logger } from "../architecture/strategies/types.js"
+import type { ChromeCDPManager } from "../core/engine/chrome-cdp-manager.js"
+import { createComputedStyleScript } from "../core/engine/computed-styles.js"
+import { resolveDocument } from "../core/engine/deferred-document.js"
+import { createDOMSnapshot, findSnapshotElement, getSnapshotText } from "../core/engine/dom-snapshot.js"
+import type { DOMSnapshotNode } from "../core/engine/dom-snapshot.js"
+import { createPageBreakScript, markPageBreaks } from "../core/engine/page-breaks.js"
+import type { PageBreakMarkers } from "../core/engine/page-breaks.js"
+import type { PageRequestOptions } from "../core/engine/request-headers.js"
+import { createSelectorMarkScript, markSelectors } from "../core/engine/selector-marks.js"
+import { createTableLayoutScript } from "../core/engine/table-layout.js"
+
+import { describeResource, loadResource, RESOURCE_LOAD_TIMEOUT } from "./resource-loader.js"
+import type { ResourceOrigin } from "./resource-loader.js"
+
+/**
+ * Page loading options used when rendering the document in Chrome
+ */
+export interface RenderedDOMCaptureOptions extends PageRequestOptions {
+  /** Timeout for page operations when rendering in Chrome (milliseconds) */
+  timeout?: number
+  /** Wait time after page load before capturing the DOM (milliseconds) */
+  waitTime?: number
+}
+
+/**
+ * Changes applied to the document before the snapshot is taken
+ */
+export interface DocumentPreparation {
+  /** Page break markers to apply */
+  pageBreaks?: PageBreakMarkers
+  /** CSS selectors whose matching elements are marked */
+  selectors?: string[]
+  /** Record the computed style of rendered elements (Chrome only) */
+  computedStyles?: boolean
+  /** Record the rendered widths of tables and table cells (Chrome only) */
+  tableLayout?: boolean
+}
+
+/**
+ * Captured DOM snapshot and whether it came from Chrome
+ */
+export interface CapturedDocument {
+  root: DOMSnapshotNode
+  rendered: boolean
+  /** Document title, read from the snapshot when the input document has none */
+  title?: string
+  /** Indices of the marked selectors that could not be parsed */
+  invalidSelectors: number[]
+}
+
+/**
+ * Base class for converters that produce their output from a DOM snapshot
+ *
+ * The snapshot is captured from the DOM rendered by Chrome when a CDP manager is
+ * available, falling back to walking the input document directly.
+ */
+export abstract class RenderedDOMConverter extends BaseConverter {
+  protected cdpManager?: ChromeCDPManager
+
+  constructor(logger: Logger, cdpManager?: ChromeCDPManager) {
+    super(logger)
+    this.cdpManager = cdpManager
+  }
+
+  /**
+   * Set Chrome CDP manager instance
+   *
+   * @param cdpManager - Chrome CDP manager instance
+   */
+  setCDPManager(cdpManager: ChromeCDPManager): void {
+    this.cdpManager = cdpManager
+    this.logger.info("Chrome CDP manager instance set")
+  }
+
+  /**
+   * Obtain a DOM snapshot, preferring the DOM rendered by Chrome
+   *
+   * @param input - HTML document to snapshot
+   * @param options - Page loading options
+   * @param preparation - Changes applied to the document before the snapshot is taken
+   */
+  protected async captureDocument(
+    input: HTMLDocument,
+    options: RenderedDOMCaptureOptions,
+    preparation: DocumentPreparation = {},
+  ): Promise<CapturedDocument> {
+    let renderError: Error | undefined
+    if (this.cdpManager) {
+      try {
+        const captured = await this.captureRenderedDOM(input, options, preparation)
+        return { ...captured, rendered: true, title: input.title || readSnapshotTitle(captured.root) }
+      } catch (error) {
+        renderError = error as Error
+        this.logger.warn("Rendered DOM capture failed, falling back to the input document", {
+          error: renderError.message,
+        })
+      }
+    }
+
+    // URL inputs are only fetched when Chrome could not render them
+    const document = await resolveDocument(input)
+    const prepared = document.documentElement?.childNodes ? this.prepareInputDOM(document, preparation) : undefined
+    const root = prepared ? createDOMSnapshot(prepared.element) : undefined
+    if (!prepared || !root) {
+      const reason = renderError ? `: ${renderError.message}` : ""
+      throw new Error(`${this.getFormatLabel()} conversion requires a parsed DOM document or Chrome to render the HTML${reason}`)
+    }
+    return { root, rendered: false, invalidSelectors: prepared.invalidSelectors, title: document.title || readSnapshotTitle(root) }
+  }
+
+  /**
+   * Load a resource referenced by the document
+   *
+   * Documents rendered in Chrome get the copy Chrome already loaded from the
+   * page's resource tree, so the resource is not requested again.
+   *
+   * @param source - Absolute resource URL or data URI
+   * @param origin - Document referencing the resource
+   * @param rendered - Whether the document was rendered in Chrome
+   * @param timeout - Timeout for loading the resource when Chrome does not have it (milliseconds)
+   * @returns Promise resolving to the resource bytes
+   */
+  protected async loadDocumentResource(
+    source: string,
+    origin: ResourceOrigin,
+    rendered: boolean,
+    timeout = RESOURCE_LOAD_TIMEOUT,
+  ): Promise<Uint8Array> {
+    if (rendered && this.cdpManager && !source.startsWith("data:")) {
+      try {
+        const processor = await this.cdpManager.getMHTMLProcessor()
+        const data = await processor.getResourceContent(source)
+        if (data) {
+          return data
+        }
+      } catch (error) {
+        this.logger.debug("Resource not available from the rendered page", {
+          source: describeResource(source),
+          error: (error as Error).message,
+        })
+      }
+    }
+
+    return loadResource(source, timeout, origin)
+  }
+
+  /**
+   * Get the document URL when it can be loaded and used to resolve relative links
+   */
+  protected getBaseURL(input: HTMLDocument): string | undefined {
+    const url = input.URL
+    return typeof url === "string" && /^(?:https?|file):/i.test(url) ? url : undefined
+  }
+
+  /**
+   * Human readable output format name used in error messages
+   */
+  protected abstract getFormatLabel(): string
+
+  // Private helper methods
+
+  /**
+   * Get the input document element, marking page breaks and selector matches on a copy so the input is left untouched
+   */
+  private prepareInputDOM(
+    input: HTMLDocument,
+    { pageBreaks, selectors = [] }: DocumentPreparation,
+  ): { element: Element, invalidSelectors: number[] } {
+    if ((!pageBreaks && selectors.length === 0) || typeof input.documentElement.cloneNode !== "function") {
+      return { element: input.documentElement, invalidSelectors: [] }
+    }
+
+    const copy = input.documentElement.cloneNode(true) as Element
+    if (pageBreaks) {
+      markPageBreaks(copy, pageBreaks)
+    }
+    return { element: copy, invalidSelectors: markSelectors(copy, selectors) }
+  }
+
+  private async captureRenderedDOM(
+    input: HTMLDocument,
+    options: RenderedDOMCaptureOptions,
+    { pageBreaks, selectors = [], computedStyles, tableLayout }: DocumentPreparation,
+  ): Promise<Omit<CapturedDocument, "rendered">> {
+    const processor = await this.cdpManager!.getMHTMLProcessor()
+
+    await processor.setRequestHeaders({ headers: options.headers, auth: options.auth, userAgent: options.userAgent })
+    const url = this.getBaseURL(input)
+    if (url) {
+      await processor.navigate(url)
+    } else {
+      await processor.navigate("about:blank")
+      await processor.setContent(input.documentElement.outerHTML)
+    }
+
+    await processor.waitForLoad({ timeout: options.timeout, waitTime: options.waitTime })
+    if (pageBreaks) {
+      await processor.evaluate(createPageBreakScript(pageBreaks))
+    }
+    const invalidSelectors = selectors.length > 0 ? await processor.evaluate<number[]>(createSelectorMarkScript(selectors)) : []
+    if (computedStyles) {
+      await processor.evaluate(createComputedStyleScript())
+    }
+    if (tableLayout) {
+      await processor.evaluate(createTableLayoutScript())
+    }
+    return { root: await processor.captureDOMSnapshot(), invalidSelectors }
+  }
+}
+
+function readSnapshotTitle(root: DOMSnapshotNode): string | undefined {
+  const title = findSnapshotElement(findSnapshotElement(root, "head") ?? root, "title")
+  return title ? getSnapshotText(title).replace(/\s+/g, " ").trim() || undefined : undefined
+}
@@ -0,0 +1,99 @@
+/**
+ * Resource Loader Unit Tests
+ */
+
+import { Buffer } from "node:buffer"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { pathToFileURL } from "node:url"
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+
+import { MHTMLParser } from "./mhtml/mhtml-parser.js"
+import { getResourceOrigin, loadResource, setDocumentArchive } from "./resource-loader.js"
+
+const ARCHIVE = [
+  "Snapshot-Content-Location: https://example.com/articles/page.html",
+  "MIME-Version: 1.0",
+  "Content-Type: multipart/related; type=\"text/html\"; boundary=\"----Boundary----\"",
+  "",
+  "------Boundary----",
+  "Content-Type: text/html",
+  "Content-Location: https://example.com/articles/page.html",
+  "",
+  "<html><body><img src=\"images/logo.png\"></body></html>",
+  "------Boundary----",
+  "Content-Type: image/png",
+  "Content-Location: https://example.com/articles/images/logo.png",
+  "",
+  "logo",
+  "------Boundary------",
+  "",
+].join("\r\n")
+
+describe("resource loader", () => {
+  let fixtureDir: string
+  let fileURL: string
+
+  beforeAll(async () => {
+    fixtureDir = await mkdtemp(join(tmpdir(), "resource-loader-"))
+    await writeFile(join(fixtureDir, "secret.txt"), "secret")
+    fileURL = pathToFileURL(join(fixtureDir, "secret.txt")).href
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  afterAll(async () => {
+    await rm(fixtureDir, { recursive: true, force: true })
+  })
+
+  it("should decode data URIs", async () => {
+    expect(Buffer.from(await loadResource("data:text/plain;base64,aGk=")).toString()).toBe("hi")
+    expect(Buffer.from(await loadResource("data:text/plain,a%20b")).toString()).toBe("a b")
+  })
+
+  it("should read local files for documents opened from disk", async () => {
+    const data = await loadResource(fileURL, undefined, { documentURL: pathToFileURL(join(fixtureDir, "page.html")).href })
+
+    expect(Buffer.from(data).toString()).toBe("secret")
+  })
+
+  it("should not read local files for remote documents", async () => {
+    await expect(loadResource(fileURL, undefined, { documentURL: "https://example.com/page.html" }))
+      .rejects.toThrow("Local files can only be loaded by local documents")
+    await expect(loadResource(fileURL)).rejects.toThrow("Local files can only be loaded by local documents")
+  })
+
+  describe("mHTML archives", () => {
+    const archive = new MHTMLParser().parse(ARCHIVE)
+    const document = {} as HTMLDocument
+    setDocumentArchive(document, archive)
+    const origin = getResourceOrigin(document, pathToFileURL(join(tmpdir(), "archive.mhtml")).href)
+
+    it("should serve resources from the archive parts", async () => {
+      const fetchMock = vi.fn()
+      vi.stubGlobal("fetch", fetchMock)
+
+      const data = await loadResource("https://example.com/articles/images/logo.png", undefined, origin)
+
+      expect(Buffer.from(data).toString()).toBe("logo")
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it("should not read local files, although the archive is a local file", async () => {
+      expect(origin.documentURL).toMatch(/^file:/)
+
+      await expect(loadResource("file:///etc/passwd", undefined, origin))
+        .rejects.toThrow("Local files can only be loaded by local documents")
+      await expect(loadResource(fileURL, undefined, origin))
+        .rejects.toThrow("Local files can only be loaded by local documents")
+    })
+
+    it("should only apply to documents loaded from an archive", () => {
+      expect(getResourceOrigin({} as HTMLDocument, "https://example.com/").archive).toBeUndefined()
+    })
+  })
+})
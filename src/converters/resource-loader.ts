@@ -0,0 +1,117 @@
+/**
+ * Resource Loader - Loads resources referenced by a document for embedding
+ * Supports data URIs, MHTML archive parts, file URLs and http(s) URLs
+ */
+
+import { Buffer } from "node:buffer"
+import { readFile } from "node:fs/promises"
+
+import { MHTMLParser } from "./mhtml/mhtml-parser.js"
+import type { ParsedMHTML } from "./mhtml/types.js"
+
+/**
+ * Default timeout for loading a single linked resource (milliseconds)
+ */
+export const RESOURCE_LOAD_TIMEOUT = 30000
+
+/**
+ * Document whose resources are loaded
+ */
+export interface ResourceOrigin {
+  /** URL of the document referencing the resources */
+  documentURL?: string
+  /** MHTML archive the document was loaded from */
+  archive?: ParsedMHTML
+}
+
+const documentArchives = new WeakMap<HTMLDocument, ParsedMHTML>()
+
+/**
+ * Record the MHTML archive a document was loaded from
+ *
+ * @param document - Document holding the root HTML part of the archive
+ * @param archive - Parsed archive
+ */
+export function setDocumentArchive(document: HTMLDocument, archive: ParsedMHTML): void {
+  documentArchives.set(document, archive)
+}
+
+/**
+ * Describe the document a converter loads resources for
+ *
+ * @param document - Document being converted
+ * @param documentURL - URL of the document, when it can be loaded
+ * @returns Resource origin, with the archive of documents loaded from MHTML
+ */
+export function getResourceOrigin(document: HTMLDocument, documentURL: string | undefined): ResourceOrigin {
+  return { documentURL, archive: documentArchives.get(document) }
+}
+
+/**
+ * Load a resource referenced by a document
+ *
+ * File URLs are only read for documents that were themselves loaded from a file,
+ * so a remote page cannot embed files from the local disk. Documents loaded from
+ * an MHTML archive get their resources from the archive parts and never read local
+ * files, whatever the location of the archive.
+ *
+ * @param source - Absolute http(s) or file URL, or a data URI
+ * @param timeout - Timeout for network requests (milliseconds)
+ * @param origin - Document referencing the resource
+ * @returns Promise resolving to the resource bytes
+ */
+export async function loadResource(
+  source: string,
+  timeout = RESOURCE_LOAD_TIMEOUT,
+  origin: ResourceOrigin = {},
+): Promise<Uint8Array> {
+  if (source.startsWith("data:")) {
+    const separator = source.indexOf(",")
+    if (separator < 0) {
+      throw new Error("Malformed data URI")
+    }
+    const header = source.slice(5, separator)
+    const payload = source.slice(separator + 1)
+    return /;base64$/i.test(header)
+      ? Buffer.from(payload, "base64")
+      : Buffer.from(decodeURIComponent(payload), "latin1")
+  }
+
+  const archived = origin.archive && new MHTMLParser().findResource(origin.archive, source)
+  if (archived?.data) {
+    return archived.data
+  }
+
+  if (/^file:/i.test(source)) {
+    if (origin.archive || !origin.documentURL || !/^file:/i.test(origin.documentURL)) {
+      throw new Error("Local files can only be loaded by local documents")
+    }
+    return readFile(new URL(source))
+  }
+
+  if (!/^https?:/i.test(source)) {
+    throw new Error("Unsupported resource URL")
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeout)
+  try {
+    const response = await fetch(source, { signal: controller.signal })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`)
+    }
+    return new Uint8Array(await response.arrayBuffer())
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Shorten a resource URL for log messages
+ *
+ * @param source - Resource URL or data URI
+ * @returns URL, with data URIs truncated
+ */
+export function describeResource(source: string): string {
+  return source.startsWith("data:") ? `${source.slice(0, 32)}...` : source
+}
@@ -0,0 +1,32 @@
+/**
+ * XML helpers shared by converters that write XML-based packages
+ */
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", quot: "\"", apos: "'", lt: "<", gt: ">", nbsp: "\u00A0" }
+
+/**
+ * Escape text for use in XML character data and attribute values
+ *
+ * Characters that are not allowed in XML 1.0 are dropped.
+ */
+export function escapeXML(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\v\f\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * Decode numeric character references and the named entities serializers emit
+ */
+export function decodeEntities(value: string): string {
+  return value.replace(/&(?:#(\d+)|#x([\da-f]+)|(amp|quot|apos|lt|gt|nbsp));/gi, (match, decimal?: string, hex?: string, name?: string) => {
+    if (decimal || hex) {
+      return String.fromCodePoint(Number.parseInt((decimal ?? hex)!, decimal ? 10 : 16))
+    }
+    return NAMED_ENTITIES[name!.toLowerCase()] ?? match
+  })
+}
@@ -144,6 +144,8 @@ describe("progressiveEnhancementManager", () => {
 
       // Mock the MHTML processor
       const mockMHTMLProcessor = {
+        setRequestHeaders: vi.fn(),
+        clearViewport: vi.fn(),
         navigate: vi.fn().mockResolvedValue({ targetId: "target-123" }),
         setContent: vi.fn(),
         waitForLoad: vi.fn(),
@@ -161,6 +163,34 @@ describe("progressiveEnhancementManager", () => {
       expect(mockCapabilityDetector.getCompleteAssessment).toHaveBeenCalled()
     })
 
+    it("should pass the conversion request to the selected tier", async () => {
+      const mockMHTMLProcessor = {
+        setRequestHeaders: vi.fn(),
+        clearViewport: vi.fn(),
+        navigate: vi.fn().mockResolvedValue({ targetId: "target-123" }),
+        setContent: vi.fn(),
+        waitForLoad: vi.fn(),
+        screenshot: vi.fn().mockResolvedValue(Buffer.from("jpeg content")),
+        getLayoutMetrics: vi.fn().mockResolvedValue({
+          contentWidth: 1920,
+          contentHeight: 1080,
+          viewportWidth: 1920,
+          viewportHeight: 1080,
+          deviceScaleFactor: 1,
+        }),
+      }
+
+      mockChromeManager.getMHTMLProcessor = vi.fn().mockResolvedValue(mockMHTMLProcessor)
+
+      const result = await manager.convert(mockHTMLDocument, { format: "jpeg", options: { quality: 70 } })
+
+      expect(result.mimeType).toBe("image/jpeg")
+      expect(mockMHTMLProcessor.screenshot).toHaveBeenCalledWith(expect.objectContaining({
+        format: "jpeg",
+        quality: 70,
+      }))
+    })
+
     it("should select appropriate tier based on capabilities", async () => {
       // Set up assessment to only support Basic HTML tier
       mockAssessment.recommendedTier = 4
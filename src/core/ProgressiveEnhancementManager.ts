@@ -1,4 +1,4 @@
-import type { ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
+import type { ConversionRequest, ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
 import { BasicHTMLTier } from "../tiers/BasicHTMLTier"
 import { CanvasTier } from "../tiers/CanvasTier"
 import { ChromeCDPTier } from "../tiers/ChromeCDPTier"
@@ -6,6 +6,7 @@ import { ServerSideTier } from "../tiers/ServerSideTier"
 
 import type { BrowserCapabilityAssessment, IBrowserCapabilityDetector } from "./capability/types"
 import type { ChromeCDPManager } from "./engine/chrome-cdp-manager"
+import { resolveDocument } from "./engine/deferred-document"
 
 /**
  * Progressive Enhancement Manager configuration options
@@ -142,11 +143,12 @@ export class ProgressiveEnhancementManager {
    * Convert HTML document using optimal available tier
    *
    * @param input - HTML document to convert
-   * @param targetFormat - Target conversion format
+   * @param request - Target format and format-specific options, forwarded to every tier attempted
    * @returns Promise resolving to conversion result
    */
-  async convert(input: HTMLDocument, targetFormat?: string): Promise<ConversionResult> {
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
     const startTime = Date.now()
+    const targetFormat = request?.format
     let lastError: Error | null = null
     let fallbackAttempts = 0
     let usedTier = 0
@@ -182,7 +184,7 @@ export class ProgressiveEnhancementManager {
 
       // Validate input with current tier
       this.notifyProgress("Validating input document", 10)
-      const validation = this.currentTier.validate(input)
+      const validation = this.currentTier.validate(await this.getTierInput(input))
 
       if (!validation.isValid) {
         throw new Error(`Input validation failed: ${validation.errors.join(", ")}`)
@@ -199,7 +201,7 @@ export class ProgressiveEnhancementManager {
       while (fallbackAttempts <= this.config.maxFallbackAttempts) {
         try {
           // Attempt conversion with current tier
-          const result = await this.currentTier.convert(input)
+          const result = await this.currentTier.convert(await this.getTierInput(input), request)
 
           const executionTime = Date.now() - startTime
 
@@ -211,6 +213,8 @@ export class ProgressiveEnhancementManager {
             outputSize: result.metadata.size,
           })
 
+          this.notifyProgress("Conversion completed", 100)
+
           // Return result with enhanced metadata
           return {
             ...result,
@@ -457,6 +461,13 @@ export class ProgressiveEnhancementManager {
 
   // Private helper methods
 
+  /**
+   * Get the document a tier converts: Chrome loads URL inputs itself, other tiers need the page content
+   */
+  private async getTierInput(input: HTMLDocument): Promise<HTMLDocument> {
+    return this.currentTier instanceof ChromeCDPTier ? input : resolveDocument(input)
+  }
+
   /**
    * Select optimal tier based on capabilities and requirements
    */
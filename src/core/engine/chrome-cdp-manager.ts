@@ -63,6 +63,7 @@ export class ChromeCDPManager {
   private cdpConnections = new Map<number, CDP.Client>()
   private cdpClient?: CDPClient
   private lastActivity = new Date()
+  private cleanupTimer?: ReturnType<typeof setInterval>
 
   constructor(logger: Logger, config: ChromeCDPManagerConfig = {}) {
     this.logger = logger
@@ -306,11 +307,14 @@ export class ChromeCDPManager {
    * Setup cleanup interval for idle processes
    */
   private setupCleanupInterval(): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       this.cleanupIdleProcesses().catch((error) => {
         this.logger.error("Failed to cleanup idle processes", error as Error)
       })
     }, 60000) // Check every minute
+
+    // Don't keep the host process alive just for idle checks
+    this.cleanupTimer.unref?.()
   }
 
   /**
@@ -341,6 +345,11 @@ export class ChromeCDPManager {
   async cleanup(): Promise<void> {
     this.logger.info("Cleaning up Chrome CDP Manager")
 
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = undefined
+    }
+
     // Close all CDP connections
     for (const [pid, criClient] of Array.from(this.cdpConnections.entries())) {
       try {
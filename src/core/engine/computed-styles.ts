@@ -0,0 +1,166 @@
+/**
+ * Computed Styles - Record the computed CSS of rendered elements in a DOM snapshot
+ * Lets converters carry the page's styling into their output from Node.js
+ */
+
+import type { DOMSnapshotNode } from "./dom-snapshot.js"
+
+/**
+ * Attribute holding the recorded computed style of an element as a JSON object
+ */
+export const COMPUTED_STYLE_ATTRIBUTE = "data-computed-style"
+
+/**
+ * Inherited properties, recorded where their value differs from the parent element's
+ */
+const INHERITED_PROPERTIES = ["font-family", "font-size", "font-weight", "font-style", "color", "text-align", "text-indent"]
+
+/**
+ * Properties that are not inherited, recorded where they differ from their initial value
+ */
+const INITIAL_VALUES: Record<string, string> = {
+  "background-color": "rgba(0, 0, 0, 0)",
+  "text-decoration-line": "none",
+  "margin-left": "0px",
+  "padding-left": "0px",
+}
+
+const BORDER_SIDES = ["top", "right", "bottom", "left"]
+
+/**
+ * Create the expression evaluated in the page to record the computed style of
+ * the body and its descendants. Evaluates to the number of elements with a
+ * recorded style.
+ *
+ * @returns JavaScript expression
+ */
+export function createComputedStyleScript(): string {
+  return `(() => {
+  const inherited = ${JSON.stringify(INHERITED_PROPERTIES)}
+  const initial = ${JSON.stringify(INITIAL_VALUES)}
+  const sides = ${JSON.stringify(BORDER_SIDES)}
+  let count = 0
+  const record = (element, parent) => {
+    const style = getComputedStyle(element)
+    const values = {}
+    for (const name of inherited) {
+      const value = style.getPropertyValue(name)
+      if (value !== parent.getPropertyValue(name)) {
+        values[name] = value
+      }
+    }
+    for (const [name, initialValue] of Object.entries(initial)) {
+      const value = style.getPropertyValue(name)
+      if (value !== initialValue) {
+        values[name] = value
+      }
+    }
+    for (const side of sides) {
+      const borderStyle = style.getPropertyValue("border-" + side + "-style")
+      if (borderStyle !== "none" && borderStyle !== "hidden") {
+        for (const part of ["style", "width", "color"]) {
+          values["border-" + side + "-" + part] = style.getPropertyValue("border-" + side + "-" + part)
+        }
+      }
+    }
+    if (Object.keys(values).length > 0) {
+      element.setAttribute(${JSON.stringify(COMPUTED_STYLE_ATTRIBUTE)}, JSON.stringify(values))
+      count++
+    }
+    for (const child of element.children) {
+      record(child, style)
+    }
+  }
+  if (document.body) {
+    record(document.body, getComputedStyle(document.documentElement))
+  }
+  return count
+})()`
+}
+
+/**
+ * Read the style declarations of a snapshot element
+ *
+ * Uses the computed style recorded in the page when present, and the element's
+ * inline style attribute otherwise (documents that were not rendered in Chrome).
+ *
+ * @param node - Snapshot element
+ * @returns Property values keyed by lower-case property name
+ */
+export function readElementStyle(node: DOMSnapshotNode): Record<string, string> {
+  const recorded = node.attributes?.[COMPUTED_STYLE_ATTRIBUTE]
+  if (recorded) {
+    try {
+      return JSON.parse(recorded) as Record<string, string>
+    } catch {
+      return {}
+    }
+  }
+  return node.attributes?.style ? parseStyleDeclarations(node.attributes.style) : {}
+}
+
+/**
+ * Parse an inline style attribute, expanding the shorthands that matter to converters
+ *
+ * @param style - Style attribute value
+ * @returns Property values keyed by lower-case property name
+ */
+export function parseStyleDeclarations(style: string): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const declaration of style.split(";")) {
+    const separator = declaration.indexOf(":")
+    if (separator < 0) {
+      continue
+    }
+    const name = declaration.slice(0, separator).trim().toLowerCase()
+    const value = declaration.slice(separator + 1).replace(/!important/i, "").trim()
+    if (!name || !value) {
+      continue
+    }
+
+    switch (name) {
+      case "background":
+        values["background-color"] = value.split(/\s+/).find(part => /^(?:#|rgba?\(|[a-z]+$)/i.test(part)) ?? value
+        break
+      case "text-decoration":
+        values["text-decoration-line"] = value
+        break
+      case "margin":
+      case "padding": {
+        const parts = value.split(/\s+/)
+        values[`${name}-left`] = parts[parts.length === 4 ? 3 : parts.length > 1 ? 1 : 0]!
+        break
+      }
+      case "border":
+      case "border-top":
+      case "border-right":
+      case "border-bottom":
+      case "border-left":
+        for (const side of name === "border" ? BORDER_SIDES : [name.slice(7)]) {
+          Object.assign(values, parseBorderShorthand(side, value))
+        }
+        break
+      default:
+        values[name] = value
+    }
+  }
+  return values
+}
+
+/**
+ * Expand a border shorthand such as "1px solid #ccc" into side longhands
+ */
+function parseBorderShorthand(side: string, value: string): Record<string, string> {
+  const values: Record<string, string> = {}
+  // Tokens are separated by whitespace outside of color functions such as rgb(0, 0, 0)
+  for (const part of value.match(/[^\s(]+(?:\([^)]*\))?/g) ?? []) {
+    if (/^(?:none|hidden|solid|dashed|dotted|double|groove|ridge|inset|outset)$/i.test(part)) {
+      values[`border-${side}-style`] = part.toLowerCase()
+    } else if (/^(?:\d|\.\d|thin|medium|thick)/i.test(part)) {
+      values[`border-${side}-width`] = part
+    } else {
+      values[`border-${side}-color`] = part
+    }
+  }
+  return values
+}
@@ -0,0 +1,34 @@
+/**
+ * Deferred Document - Input documents whose content is only fetched when needed
+ * Chrome loads URL inputs itself, so the page is fetched in Node only for strategies walking the input DOM
+ */
+
+const documentLoaders = new WeakMap<HTMLDocument, () => Promise<HTMLDocument>>()
+
+/**
+ * Record how to load the content of a placeholder document
+ *
+ * The placeholder carries the URL of the page, which is all Chrome needs to
+ * render it. The loader runs at most once.
+ *
+ * @param placeholder - Document standing in for the page until it is loaded
+ * @param load - Fetch and parse the page
+ */
+export function deferDocument(placeholder: HTMLDocument, load: () => Promise<HTMLDocument>): void {
+  let loaded: Promise<HTMLDocument> | undefined
+  documentLoaders.set(placeholder, () => {
+    loaded ??= load()
+    return loaded
+  })
+}
+
+/**
+ * Get the document with its content, loading deferred documents
+ *
+ * @param document - Input document, possibly a placeholder
+ * @returns Promise resolving to the loaded document, or the input itself when it was not deferred
+ */
+export async function resolveDocument(document: HTMLDocument): Promise<HTMLDocument> {
+  const load = documentLoaders.get(document)
+  return load ? load() : document
+}
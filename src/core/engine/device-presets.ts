@@ -0,0 +1,102 @@
+/**
+ * Device Presets - Named viewports for responsive screenshots
+ * Resolves device names and custom sizes to the metrics applied with Emulation.setDeviceMetricsOverride
+ */
+
+/**
+ * Names of the built-in device presets
+ */
+export type DevicePresetName = "phone" | "tablet" | "desktop"
+
+/**
+ * Device emulated for a responsive screenshot
+ */
+export interface DeviceDescriptor {
+  /** Device name, used to identify its screenshot */
+  name: string
+  /** Viewport width in CSS pixels */
+  width: number
+  /** Viewport height in CSS pixels */
+  height: number
+  /** Device pixels per CSS pixel (default: 1) */
+  deviceScaleFactor?: number
+  /** Emulate a mobile device: touch viewport and overlay scrollbars (default: false) */
+  mobile?: boolean
+  /** User agent reported to page scripts while the device is emulated */
+  userAgent?: string
+}
+
+/**
+ * Device with every metric set
+ */
+export type ResolvedDevice = Required<Omit<DeviceDescriptor, "userAgent">> & Pick<DeviceDescriptor, "userAgent">
+
+/**
+ * Built-in device presets
+ */
+export const DEVICE_PRESETS: Record<DevicePresetName, ResolvedDevice> = {
+  phone: { name: "phone", width: 390, height: 844, deviceScaleFactor: 3, mobile: true },
+  tablet: { name: "tablet", width: 820, height: 1180, deviceScaleFactor: 2, mobile: true },
+  desktop: { name: "desktop", width: 1920, height: 1080, deviceScaleFactor: 1, mobile: false },
+}
+
+/**
+ * Custom device size, e.g. 1280x800 or 1280x800@2
+ */
+const CUSTOM_DEVICE_PATTERN = /^(\d+)x(\d+)(?:@(\d+(?:\.\d+)?))?$/
+
+/**
+ * Resolve device presets, custom sizes and custom devices
+ *
+ * @param devices - Preset names, `WIDTHxHEIGHT[@scale]` sizes or device descriptors
+ * @returns Devices in the given order
+ * @throws Error for unknown device names and invalid sizes
+ */
+export function resolveDevices(devices: Array<string | DeviceDescriptor>): ResolvedDevice[] {
+  return devices.map((device) => {
+    const resolved = typeof device === "string" ? parseDevice(device) : { deviceScaleFactor: 1, mobile: false, ...device }
+    if (!(resolved.width > 0 && resolved.height > 0 && resolved.deviceScaleFactor > 0)) {
+      throw new Error(`Invalid device metrics for ${resolved.name}: dimensions and scale factor must be positive numbers.`)
+    }
+    return resolved
+  })
+}
+
+/**
+ * Create the expression evaluated in the page after the viewport changes. Waits
+ * for two animation frames, so resize handlers and media queries have applied,
+ * and for images loading for the new layout. Evaluates to undefined.
+ *
+ * @param timeout - Longest wait for images in milliseconds
+ * @returns JavaScript expression
+ */
+export function createViewportSettleScript(timeout = 3000): string {
+  return `(async () => {
+  await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+  const pending = Array.from(document.images).filter(image => !image.complete)
+  const loaded = Promise.all(pending.map(image => new Promise(resolve => {
+    image.addEventListener("load", resolve, { once: true })
+    image.addEventListener("error", resolve, { once: true })
+  })))
+  await Promise.race([loaded, new Promise(resolve => setTimeout(resolve, ${timeout}))])
+})()`
+}
+
+function parseDevice(spec: string): ResolvedDevice {
+  const name = spec.trim().toLowerCase()
+  if (name in DEVICE_PRESETS) {
+    return DEVICE_PRESETS[name as DevicePresetName]
+  }
+
+  const match = name.match(CUSTOM_DEVICE_PATTERN)
+  if (!match) {
+    throw new Error(`Unknown device: ${spec}. Use phone, tablet, desktop or a size like "1280x800" or "1280x800@2".`)
+  }
+  return {
+    name,
+    width: Number.parseInt(match[1]!, 10),
+    height: Number.parseInt(match[2]!, 10),
+    deviceScaleFactor: match[3] ? Number.parseFloat(match[3]) : 1,
+    mobile: false,
+  }
+}
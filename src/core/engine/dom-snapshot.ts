@@ -0,0 +1,176 @@
+/**
+ * DOM Snapshot - Serializable representation of a rendered document tree
+ * Lets converters walk the DOM produced by Chrome from Node.js, where no DOM implementation exists
+ */
+
+/**
+ * Node types preserved in a snapshot (values match the DOM Node constants)
+ */
+export enum DOMSnapshotNodeType {
+  ELEMENT = 1,
+  TEXT = 3,
+  COMMENT = 8,
+}
+
+/**
+ * Serializable DOM node
+ */
+export interface DOMSnapshotNode {
+  /** Node type */
+  type: DOMSnapshotNodeType
+  /** Lower-case tag name (elements only) */
+  tag?: string
+  /** Text content (text and comment nodes only) */
+  text?: string
+  /** Element attributes */
+  attributes?: Record<string, string>
+  /** Child nodes (elements only) */
+  children?: DOMSnapshotNode[]
+}
+
+/**
+ * Elements whose content never contributes to document output
+ */
+const SKIPPED_CONTENT_TAGS = new Set(["script", "template", "noscript"])
+
+/**
+ * Script type whose content is kept so converters can read the page's structured data
+ */
+const STRUCTURED_DATA_TYPE = "application/ld+json"
+
+/**
+ * Expression evaluated in the page to snapshot the rendered document.
+ * Elements hidden by layout (display: none) inside the body are dropped, except
+ * JSON-LD structured data, and live form state (checkbox checked, input value)
+ * is reflected into attributes.
+ */
+export const DOM_SNAPSHOT_SCRIPT = `(() => {
+  const skipped = new Set(${JSON.stringify([...SKIPPED_CONTENT_TAGS])})
+  const serialize = (node, inBody) => {
+    if (node.nodeType === 3) {
+      return { type: 3, text: node.nodeValue }
+    }
+    if (node.nodeType === 8) {
+      return { type: 8, text: node.nodeValue }
+    }
+    if (node.nodeType !== 1) {
+      return null
+    }
+
+    const tag = node.tagName.toLowerCase()
+    const structured = tag === "script" && node.type.trim().toLowerCase() === ${JSON.stringify(STRUCTURED_DATA_TYPE)}
+    if (inBody && !structured && getComputedStyle(node).display === "none") {
+      return null
+    }
+
+    const attributes = {}
+    for (const attribute of node.attributes) {
+      attributes[attribute.name] = attribute.value
+    }
+    if (tag === "input") {
+      if (node.checked) {
+        attributes.checked = ""
+      } else {
+        delete attributes.checked
+      }
+    }
+
+    const children = []
+    if (!skipped.has(tag) || structured) {
+      for (const child of node.childNodes) {
+        const serialized = serialize(child, inBody || tag === "body")
+        if (serialized) {
+          children.push(serialized)
+        }
+      }
+    }
+
+    return { type: 1, tag, attributes, children }
+  }
+
+  return serialize(document.documentElement, false)
+})()`
+
+/**
+ * Create a snapshot from a DOM node available in the current environment
+ *
+ * @param node - DOM node to snapshot (usually document.documentElement)
+ * @returns Snapshot node, or undefined for unsupported node types
+ */
+export function createDOMSnapshot(node: Node): DOMSnapshotNode | undefined {
+  switch (node.nodeType) {
+    case DOMSnapshotNodeType.TEXT:
+      return { type: DOMSnapshotNodeType.TEXT, text: node.nodeValue ?? "" }
+    case DOMSnapshotNodeType.COMMENT:
+      return { type: DOMSnapshotNodeType.COMMENT, text: node.nodeValue ?? "" }
+    case DOMSnapshotNodeType.ELEMENT: {
+      const element = node as Element
+      const tag = element.tagName.toLowerCase()
+
+      const attributes: Record<string, string> = {}
+      for (const attribute of Array.from(element.attributes)) {
+        attributes[attribute.name] = attribute.value
+      }
+
+      const children: DOMSnapshotNode[] = []
+      if (!SKIPPED_CONTENT_TAGS.has(tag) || isStructuredData(tag, attributes)) {
+        for (const child of Array.from(element.childNodes)) {
+          const snapshot = createDOMSnapshot(child)
+          if (snapshot) {
+            children.push(snapshot)
+          }
+        }
+      }
+
+      return { type: DOMSnapshotNodeType.ELEMENT, tag, attributes, children }
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Check whether an element is a JSON-LD structured data script
+ *
+ * @param tag - Lower-case tag name
+ * @param attributes - Element attributes
+ */
+export function isStructuredData(tag: string, attributes: Record<string, string>): boolean {
+  return tag === "script" && attributes.type?.trim().toLowerCase() === STRUCTURED_DATA_TYPE
+}
+
+/**
+ * Get the concatenated text of a snapshot node and its descendants
+ *
+ * @param node - Snapshot node
+ * @returns Raw text content
+ */
+export function getSnapshotText(node: DOMSnapshotNode): string {
+  if (node.type !== DOMSnapshotNodeType.ELEMENT) {
+    return node.type === DOMSnapshotNodeType.TEXT ? node.text ?? "" : ""
+  }
+  return (node.children ?? []).map(getSnapshotText).join("")
+}
+
+/**
+ * Find the first descendant element with the given tag name
+ *
+ * @param node - Snapshot node to search
+ * @param tag - Lower-case tag name
+ * @returns Matching element, or undefined
+ */
+export function findSnapshotElement(node: DOMSnapshotNode, tag: string): DOMSnapshotNode | undefined {
+  for (const child of node.children ?? []) {
+    if (child.type !== DOMSnapshotNodeType.ELEMENT) {
+      continue
+    }
+    if (child.tag === tag) {
+      return child
+    }
+    const match = findSnapshotElement(child, tag)
+    if (match) {
+      return match
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,111 @@
+/**
+ * Element Capture - Capture single elements matched by a CSS selector
+ * Turns element boxes into screenshot clips and isolates an element for printing
+ */
+
+/**
+ * Border box of an element in CSS pixels, relative to the top left of the document
+ */
+export interface ElementBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Attribute set on the element isolated for printing
+ */
+export const ISOLATED_ELEMENT_ATTRIBUTE = "data-isolated-element"
+
+/**
+ * Attribute set on the ancestors of the element isolated for printing
+ */
+const ISOLATED_ANCESTOR_ATTRIBUTE = "data-isolated-ancestor"
+
+/**
+ * ID of the style element holding the isolation print CSS
+ */
+const ISOLATION_STYLE_ID = "html-converter-isolation"
+
+/**
+ * Print CSS hiding everything but the isolated element and the elements containing it
+ */
+const ISOLATION_CSS = `@media print {
+  [${ISOLATED_ANCESTOR_ATTRIBUTE}] > :not([${ISOLATED_ANCESTOR_ATTRIBUTE}]):not([${ISOLATED_ELEMENT_ATTRIBUTE}]) { display: none !important; }
+  [${ISOLATED_ANCESTOR_ATTRIBUTE}] { margin: 0 !important; padding: 0 !important; border: 0 !important; }
+  [${ISOLATED_ELEMENT_ATTRIBUTE}] { break-inside: auto; margin: 0 !important; }
+}`
+
+/**
+ * Result of isolating an element for printing
+ */
+export interface ElementIsolation {
+  /** Number of elements matching the selector */
+  matches: number
+  /** Rendered width of the isolated element in CSS pixels, 0 when there is none */
+  width: number
+  /** Rendered height of the isolated element in CSS pixels, 0 when there is none */
+  height: number
+}
+
+/**
+ * Grow an element box by padding on every side to a screenshot clip
+ *
+ * The clip is rounded out to whole pixels and kept inside the document.
+ *
+ * @param box - Element box
+ * @param padding - Padding in CSS pixels (default: 0)
+ * @returns Clip area
+ */
+export function padElementBox(box: ElementBox, padding = 0): ElementBox {
+  const pad = Math.max(0, padding)
+  const x = Math.max(0, Math.floor(box.x - pad))
+  const y = Math.max(0, Math.floor(box.y - pad))
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.ceil(box.x + box.width + pad) - x),
+    height: Math.max(1, Math.ceil(box.y + box.height + pad) - y),
+  }
+}
+
+/**
+ * Create the expression evaluated in the page to isolate one element matched by
+ * a selector for printing. Other content is hidden by print CSS, so the screen
+ * layout is unchanged. An earlier isolation is undone first. Evaluates to an
+ * ElementIsolation with the number of matches and the size of the element.
+ *
+ * @param selector - CSS selector of the elements to capture
+ * @param index - Index of the match to isolate, in document order
+ * @returns JavaScript expression
+ */
+export function createElementIsolationScript(selector: string, index: number): string {
+  return `(() => {
+  const elementAttribute = ${JSON.stringify(ISOLATED_ELEMENT_ATTRIBUTE)}
+  const ancestorAttribute = ${JSON.stringify(ISOLATED_ANCESTOR_ATTRIBUTE)}
+  for (const element of document.querySelectorAll("[" + elementAttribute + "], [" + ancestorAttribute + "]")) {
+    element.removeAttribute(elementAttribute)
+    element.removeAttribute(ancestorAttribute)
+  }
+
+  const matches = document.querySelectorAll(${JSON.stringify(selector)})
+  const target = matches[${JSON.stringify(index)}]
+  const rect = target ? target.getBoundingClientRect() : { width: 0, height: 0 }
+  if (target) {
+    target.setAttribute(elementAttribute, "")
+    for (let element = target.parentElement; element; element = element.parentElement) {
+      element.setAttribute(ancestorAttribute, "")
+    }
+    let style = document.getElementById(${JSON.stringify(ISOLATION_STYLE_ID)})
+    if (!style) {
+      style = document.createElement("style")
+      style.id = ${JSON.stringify(ISOLATION_STYLE_ID)}
+      style.textContent = ${JSON.stringify(ISOLATION_CSS)}
+      const parent = document.head ?? document.documentElement
+      parent.append(style)
+    }
+  }
+  return { matches: matches.length, width: rect.width, height: rect.height }
+})()`
+}
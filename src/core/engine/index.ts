@@ -8,8 +8,53 @@ export type {
   ChromeCDPManagerConfig,
   ChromeProcess,
 } from "./chrome-cdp-manager.js"
+export {
+  COMPUTED_STYLE_ATTRIBUTE,
+  createComputedStyleScript,
+  parseStyleDeclarations,
+  readElementStyle,
+} from "./computed-styles.js"
+export { deferDocument, resolveDocument } from "./deferred-document.js"
+export { createViewportSettleScript, DEVICE_PRESETS, resolveDevices } from "./device-presets.js"
+export type { DeviceDescriptor, DevicePresetName, ResolvedDevice } from "./device-presets.js"
+export {
+  createDOMSnapshot,
+  DOM_SNAPSHOT_SCRIPT,
+  DOMSnapshotNodeType,
+  findSnapshotElement,
+  getSnapshotText,
+  isStructuredData,
+} from "./dom-snapshot.js"
+export type { DOMSnapshotNode } from "./dom-snapshot.js"
+export { createElementIsolationScript, ISOLATED_ELEMENT_ATTRIBUTE, padElementBox } from "./element-capture.js"
+export type { ElementBox, ElementIsolation } from "./element-capture.js"
 export { MHTMLProcessor } from "./mhtml-processor.js"
 export type {
   CDPCaptureConfig,
   PageCaptureMetadata,
+  PageLayoutMetrics,
+  PrintToPDFOptions,
+  ScreenshotOptions,
+  ViewportOptions,
 } from "./mhtml-processor.js"
+export {
+  createPageBreakScript,
+  getPageBreakSelector,
+  isPageBreakComment,
+  markPageBreaks,
+  PAGE_BREAK_ATTRIBUTE,
+} from "./page-breaks.js"
+export type { PageBreakMarkers } from "./page-breaks.js"
+export { createRequestHeaders } from "./request-headers.js"
+export type { PageRequestOptions } from "./request-headers.js"
+export { createSelectorMarkScript, getSelectorMarks, markSelectors, SELECTOR_MARK_ATTRIBUTE } from "./selector-marks.js"
+export {
+  createTableLayoutScript,
+  LAYOUT_CONTAINER_WIDTH_ATTRIBUTE,
+  LAYOUT_WIDTH_ATTRIBUTE,
+  readLayoutWidth,
+  readTableLayout,
+} from "./table-layout.js"
+export type { TableLayout } from "./table-layout.js"
+export { captureTiledScreenshot, MAX_TEXTURE_SIZE } from "./tiled-screenshot.js"
+export type { TiledScreenshotOptions, TiledScreenshotProcessor } from "./tiled-screenshot.js"
@@ -3,11 +3,19 @@
  * Provides CDP-based page capture and MHTML generation functionality
  */
 
+import { Buffer } from "node:buffer"
+
 import type { CDPClient } from "../../architecture/adapters/cdp/CDPClient.js"
 import type { CDPLogger } from "../../architecture/adapters/cdp/types.js"
 import type { Logger } from "../../architecture/strategies/types.js"
 import type { ICDPCapture, MHTMLOptions } from "../../converters/mhtml/types.js"
 
+import { DOM_SNAPSHOT_SCRIPT } from "./dom-snapshot.js"
+import type { DOMSnapshotNode } from "./dom-snapshot.js"
+import type { ElementBox } from "./element-capture.js"
+import { createRequestHeaders } from "./request-headers.js"
+import type { PageRequestOptions } from "./request-headers.js"
+
 /**
  * External dependency types for categorization
  */
@@ -644,6 +652,12 @@ export interface PageCaptureMetadata {
   title: string
   /** Page URL */
   url: string
+  /** Page description from the description meta tag */
+  description?: string
+  /** Page author from the author meta tag */
+  author?: string
+  /** Keywords from the keywords meta tag */
+  keywords?: string[]
   /** Number of resources found */
   resourceCount: number
   /** Total page size */
@@ -654,6 +668,116 @@ export interface PageCaptureMetadata {
   captureTimestamp: Date
 }
 
+/**
+ * Page.printToPDF options accepted by the processor
+ */
+export interface PrintToPDFOptions {
+  /** Paper format */
+  format?: "A3" | "A4" | "A5" | "Legal" | "Letter" | "Tabloid"
+  /** Paper width in inches, overriding the format */
+  paperWidth?: number
+  /** Paper height in inches, overriding the format */
+  paperHeight?: number
+  /** Print background graphics */
+  printBackground?: boolean
+  /** Page margins (inches) */
+  margin?: {
+    top?: number
+    right?: number
+    bottom?: number
+    left?: number
+  }
+  /** Page orientation */
+  landscape?: boolean
+  /** Page ranges to print */
+  pageRanges?: string
+  /** Whether to render header and footer templates */
+  displayHeaderFooter?: boolean
+  /** Header template HTML */
+  headerTemplate?: string
+  /** Footer template HTML */
+  footerTemplate?: string
+  /** Scale factor for content */
+  scale?: number
+  /** Whether CSS @page size takes precedence over format */
+  preferCSSPageSize?: boolean
+  /** Whether to generate a tagged (accessible) PDF */
+  generateTaggedPDF?: boolean
+  /** Whether to embed a document outline built from the headings */
+  generateDocumentOutline?: boolean
+}
+
+/**
+ * Page.captureScreenshot options accepted by the processor
+ */
+export interface ScreenshotOptions {
+  /** Image format */
+  format?: "png" | "jpeg" | "webp"
+  /** Compression quality (0-100, jpeg/webp only) */
+  quality?: number
+  /** Capture the full scrollable page instead of the viewport */
+  fullPage?: boolean
+  /** Clip area to capture */
+  clip?: {
+    x: number
+    y: number
+    width: number
+    height: number
+  }
+}
+
+/**
+ * Viewport emulation options accepted by the processor
+ */
+export interface ViewportOptions {
+  /** Viewport width in CSS pixels */
+  width: number
+  /** Viewport height in CSS pixels */
+  height: number
+  /** Device pixel ratio (defaults to 1) */
+  deviceScaleFactor?: number
+  /** Emulate a mobile device */
+  mobile?: boolean
+  /** User agent override */
+  userAgent?: string
+}
+
+/**
+ * Page dimensions reported by Page.getLayoutMetrics
+ */
+export interface PageLayoutMetrics {
+  /** Width of the scrollable content in CSS pixels */
+  contentWidth: number
+  /** Height of the scrollable content in CSS pixels */
+  contentHeight: number
+  /** Width of the visual viewport in CSS pixels */
+  viewportWidth: number
+  /** Height of the visual viewport in CSS pixels */
+  viewportHeight: number
+  /** Device pixels per CSS pixel */
+  deviceScaleFactor: number
+}
+
+/**
+ * Paper sizes in inches used to translate named formats for Page.printToPDF
+ */
+const PAPER_SIZES: Record<NonNullable<PrintToPDFOptions["format"]>, { width: number, height: number }> = {
+  A3: { width: 11.69, height: 16.54 },
+  A4: { width: 8.27, height: 11.69 },
+  A5: { width: 5.83, height: 8.27 },
+  Legal: { width: 8.5, height: 14 },
+  Letter: { width: 8.5, height: 11 },
+  Tabloid: { width: 11, height: 17 },
+}
+
+/**
+ * Expression reading the document metadata meta tags of the page
+ */
+const PAGE_META_SCRIPT = `(() => {
+  const content = name => document.querySelector('meta[name="' + name + '" i]')?.getAttribute("content")?.trim()
+  return { description: content("description"), author: content("author"), keywords: content("keywords") }
+})()`
+
 /**
  * MHTML Processor with Chrome DevTools Protocol integration
  *
@@ -810,6 +934,72 @@ export class MHTMLProcessor implements ICDPCapture {
     }
   }
 
+  /**
+   * Get metadata of the current page including title, document metadata and resource information
+   *
+   * @returns Promise resolving to page metadata
+   */
+  async getPageMetadata(): Promise<PageCaptureMetadata> {
+    this.logger.debug("Extracting page metadata")
+
+    try {
+      await this.ensureConnection()
+
+      // Get page title
+      const titleResult = await this.cdpClient!.sendCommand("Runtime.evaluate", {
+        expression: "document.title",
+        returnByValue: true,
+      })
+
+      const title = titleResult.success ? titleResult.result.result?.value || "" : ""
+
+      // Get page URL
+      const urlResult = await this.cdpClient!.sendCommand("Runtime.evaluate", {
+        expression: "window.location.href",
+        returnByValue: true,
+      })
+
+      const url = urlResult.success ? urlResult.result.result?.value || "" : ""
+
+      // Get description, author and keywords from the document's meta tags
+      const metaResult = await this.cdpClient!.sendCommand("Runtime.evaluate", {
+        expression: PAGE_META_SCRIPT,
+        returnByValue: true,
+      })
+
+      const meta: Record<string, string | undefined> = metaResult.success ? metaResult.result.result?.value || {} : {}
+
+      // Get resource count from network logs
+      const resources = await this.getPageResources(url)
+
+      // Get Chrome version
+      const versionResult = await this.cdpClient!.sendCommand("Runtime.evaluate", {
+        expression: "navigator.userAgent",
+        returnByValue: true,
+      })
+
+      const userAgent = versionResult.success ? versionResult.result.result?.value || "" : ""
+
+      const metadata: PageCaptureMetadata = {
+        title,
+        url,
+        description: meta.description || undefined,
+        author: meta.author || undefined,
+        keywords: meta.keywords ? meta.keywords.split(",").map(keyword => keyword.trim()).filter(Boolean) : undefined,
+        resourceCount: resources.length,
+        totalSize: 0, // Would need Network.getResponseBody for each resource
+        chromeVersion: userAgent,
+        captureTimestamp: new Date(),
+      }
+
+      this.logger.debug("Page metadata extracted", metadata)
+      return metadata
+    } catch (error) {
+      this.logger.error("Failed to extract page metadata", error as Error)
+      throw error
+    }
+  }
+
   /**
    * Set CDP client instance
    *
@@ -821,6 +1011,327 @@ export class MHTMLProcessor implements ICDPCapture {
     this.logger.info("CDP client instance set", { connected: this.isConnected })
   }
 
+  /**
+   * Navigate the current page to a URL
+   *
+   * @param url - URL to navigate to
+   * @returns Promise resolving to the navigated frame identifier
+   */
+  async navigate(url: string): Promise<{ targetId: string }> {
+    await this.ensureConnection()
+
+    const result = await this.sendPageCommand("Page.navigate", { url })
+    if (result?.errorText) {
+      throw new Error(`Navigation to ${url} failed: ${result.errorText}`)
+    }
+
+    this.logger.debug("Navigated page", { url, frameId: result?.frameId })
+    return { targetId: result?.frameId ?? "" }
+  }
+
+  /**
+   * Replace the current page document with the given HTML
+   *
+   * @param html - HTML markup to load into the main frame
+   */
+  async setContent(html: string): Promise<void> {
+    await this.ensureConnection()
+
+    const frameTree = await this.sendPageCommand("Page.getFrameTree")
+    const frameId = frameTree?.frameTree?.frame?.id
+    if (!frameId) {
+      throw new Error("Unable to resolve main frame for content injection")
+    }
+
+    await this.sendPageCommand("Page.setDocumentContent", { frameId, html })
+    this.logger.debug("Page content set", { frameId, contentLength: html.length })
+  }
+
+  /**
+   * Get a resource loaded by the current page from the resource tree
+   *
+   * @param url - Absolute URL of the resource
+   * @returns Promise resolving to the resource bytes, or undefined when the page has not loaded the resource
+   */
+  async getResourceContent(url: string): Promise<Buffer | undefined> {
+    await this.ensureConnection()
+
+    const frameTree = await this.sendPageCommand("Page.getFrameTree")
+    const frameId = frameTree?.frameTree?.frame?.id
+    if (!frameId) {
+      return undefined
+    }
+
+    const result = await this.cdpClient!.sendCommand("Page.getResourceContent", { frameId, url })
+    const content = result.success ? result.result?.content : undefined
+    if (typeof content !== "string") {
+      return undefined
+    }
+
+    return Buffer.from(content, result.result.base64Encoded ? "base64" : "utf8")
+  }
+
+  /**
+   * Set the headers and user agent of every request the page makes
+   *
+   * Replaces the settings of the previous call, so a page loaded without
+   * options is requested with Chrome's defaults.
+   *
+   * @param options - Headers, credentials and user agent
+   */
+  async setRequestHeaders(options: PageRequestOptions = {}): Promise<void> {
+    await this.ensureConnection()
+
+    await this.sendPageCommand("Network.enable")
+    await this.sendPageCommand("Network.setExtraHTTPHeaders", { headers: createRequestHeaders(options) })
+    // An empty override restores the default user agent
+    await this.sendPageCommand("Network.setUserAgentOverride", { userAgent: options.userAgent ?? "" })
+  }
+
+  /**
+   * Emulate a viewport using Emulation.setDeviceMetricsOverride
+   *
+   * @param options - Viewport dimensions and device settings
+   */
+  async setViewport(options: ViewportOptions): Promise<void> {
+    await this.ensureConnection()
+
+    if (options.userAgent) {
+      await this.sendPageCommand("Network.setUserAgentOverride", { userAgent: options.userAgent })
+    }
+
+    await this.sendPageCommand("Emulation.setDeviceMetricsOverride", {
+      width: options.width,
+      height: options.height,
+      deviceScaleFactor: options.deviceScaleFactor ?? 1,
+      mobile: options.mobile ?? false,
+    })
+    this.logger.debug("Viewport set", { width: options.width, height: options.height })
+  }
+
+  /**
+   * Remove the viewport emulation, restoring the window's own metrics
+   */
+  async clearViewport(): Promise<void> {
+    await this.ensureConnection()
+    await this.sendPageCommand("Emulation.clearDeviceMetricsOverride")
+  }
+
+  /**
+   * Wait until the current document has finished loading
+   *
+   * @param options - Wait options (timeout and additional settle time)
+   */
+  async waitForLoad(options: MHTMLOptions = {}): Promise<void> {
+    await this.ensureConnection()
+
+    const timeout = options.timeout || this.config.pageTimeout || DEFAULT_CDP_OPTIONS.timeout
+    const waitTime = options.waitTime ?? 0
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    try {
+      await Promise.race([
+        this.evaluate(`new Promise((resolve) => {
+          if (document.readyState === "complete") {
+            resolve(true)
+          } else {
+            window.addEventListener("load", () => resolve(true), { once: true })
+          }
+        })`),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("Page load timeout")), timeout)
+        }),
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+
+    if (waitTime > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitTime))
+    }
+  }
+
+  /**
+   * Print the current page to PDF using Page.printToPDF
+   *
+   * @param options - PDF rendering options
+   * @returns Promise resolving to the PDF bytes
+   */
+  async printToPDF(options: PrintToPDFOptions = {}): Promise<Buffer> {
+    await this.ensureConnection()
+
+    const paper = PAPER_SIZES[options.format ?? "A4"] ?? PAPER_SIZES.A4
+    const result = await this.sendPageCommand("Page.printToPDF", {
+      landscape: options.landscape ?? false,
+      displayHeaderFooter: options.displayHeaderFooter ?? false,
+      headerTemplate: options.headerTemplate,
+      footerTemplate: options.footerTemplate,
+      printBackground: options.printBackground ?? true,
+      scale: options.scale ?? 1,
+      paperWidth: options.paperWidth ?? paper.width,
+      paperHeight: options.paperHeight ?? paper.height,
+      marginTop: options.margin?.top ?? 0.4,
+      marginRight: options.margin?.right ?? 0.4,
+      marginBottom: options.margin?.bottom ?? 0.4,
+      marginLeft: options.margin?.left ?? 0.4,
+      pageRanges: options.pageRanges ?? "",
+      preferCSSPageSize: options.preferCSSPageSize ?? false,
+      generateTaggedPDF: options.generateTaggedPDF ?? false,
+      generateDocumentOutline: options.generateDocumentOutline ?? false,
+    })
+
+    return Buffer.from(result?.data ?? "", "base64")
+  }
+
+  /**
+   * Capture a screenshot of the current page using Page.captureScreenshot
+   *
+   * @param options - Screenshot options
+   * @returns Promise resolving to the encoded image bytes
+   */
+  async screenshot(options: ScreenshotOptions = {}): Promise<Buffer> {
+    await this.ensureConnection()
+
+    const format = options.format ?? "png"
+    let clip = options.clip ? { ...options.clip, scale: 1 } : undefined
+
+    if (!clip && options.fullPage) {
+      const metrics = await this.sendPageCommand("Page.getLayoutMetrics")
+      const contentSize = metrics?.cssContentSize ?? metrics?.contentSize
+      if (contentSize) {
+        clip = {
+          x: 0,
+          y: 0,
+          width: Math.ceil(contentSize.width),
+          height: Math.ceil(contentSize.height),
+          scale: 1,
+        }
+      }
+    }
+
+    const result = await this.sendPageCommand("Page.captureScreenshot", {
+      format,
+      quality: format === "png" ? undefined : options.quality,
+      clip,
+      captureBeyondViewport: Boolean(options.fullPage || options.clip),
+    })
+
+    return Buffer.from(result?.data ?? "", "base64")
+  }
+
+  /**
+   * Get the content and viewport size of the current page
+   *
+   * @returns Promise resolving to the layout metrics in CSS pixels
+   */
+  async getLayoutMetrics(): Promise<PageLayoutMetrics> {
+    await this.ensureConnection()
+
+    const metrics = await this.sendPageCommand("Page.getLayoutMetrics")
+    const contentSize = metrics?.cssContentSize ?? metrics?.contentSize ?? { width: 0, height: 0 }
+    const viewport = metrics?.cssVisualViewport ?? metrics?.visualViewport ?? metrics?.cssLayoutViewport ?? metrics?.layoutViewport
+    const deviceScaleFactor = metrics?.cssContentSize && metrics?.contentSize && metrics.cssContentSize.width > 0
+      ? metrics.contentSize.width / metrics.cssContentSize.width
+      : 1
+
+    return {
+      contentWidth: Math.ceil(contentSize.width),
+      contentHeight: Math.ceil(contentSize.height),
+      viewportWidth: Math.floor(viewport?.clientWidth ?? contentSize.width),
+      viewportHeight: Math.floor(viewport?.clientHeight ?? contentSize.height),
+      deviceScaleFactor: deviceScaleFactor > 0 ? deviceScaleFactor : 1,
+    }
+  }
+
+  /**
+   * Locate the rendered elements matching a CSS selector
+   *
+   * Each element is scrolled into view before its border box is read with
+   * DOM.getBoxModel. Elements that are not rendered are skipped.
+   *
+   * @param selector - CSS selector
+   * @returns Promise resolving to the element boxes relative to the document, in document order
+   */
+  async getElementBoxes(selector: string): Promise<ElementBox[]> {
+    await this.ensureConnection()
+
+    const { root } = await this.sendPageCommand("DOM.getDocument", { depth: 0 })
+    const { nodeIds = [] } = await this.sendPageCommand("DOM.querySelectorAll", { nodeId: root.nodeId, selector })
+    const boxes: ElementBox[] = []
+
+    for (const nodeId of nodeIds as number[]) {
+      const scrolled = await this.cdpClient!.sendCommand("DOM.scrollIntoViewIfNeeded", { nodeId })
+      const boxModel = scrolled.success ? await this.cdpClient!.sendCommand("DOM.getBoxModel", { nodeId }) : undefined
+      const quad: number[] | undefined = boxModel?.success ? boxModel.result?.model?.border : undefined
+      if (!quad || quad.length < 8) {
+        continue
+      }
+
+      // Box model quads are relative to the viewport; clips are relative to the document
+      const metrics = await this.sendPageCommand("Page.getLayoutMetrics")
+      const viewport = metrics?.cssLayoutViewport ?? metrics?.layoutViewport
+      const xs = [quad[0]!, quad[2]!, quad[4]!, quad[6]!]
+      const ys = [quad[1]!, quad[3]!, quad[5]!, quad[7]!]
+      const x = Math.min(...xs)
+      const y = Math.min(...ys)
+      const width = Math.max(...xs) - x
+      const height = Math.max(...ys) - y
+      if (width > 0 && height > 0) {
+        boxes.push({ x: x + (viewport?.pageX ?? 0), y: y + (viewport?.pageY ?? 0), width, height })
+      }
+    }
+
+    return boxes
+  }
+
+  /**
+   * Capture the current page as an MHTML snapshot
+   *
+   * @param _options - Snapshot options
+   * @param _options.format - Snapshot format (only MHTML is supported by CDP)
+   * @returns Promise resolving to MHTML content
+   */
+  async captureSnapshot(_options: { format?: "mhtml" } = {}): Promise<string> {
+    await this.ensureConnection()
+    return this.captureMHTMLSnapshot()
+  }
+
+  /**
+   * Capture a serializable snapshot of the rendered DOM
+   *
+   * @returns Promise resolving to the snapshot of the document element
+   */
+  async captureDOMSnapshot(): Promise<DOMSnapshotNode> {
+    const snapshot = await this.evaluate<DOMSnapshotNode | null>(DOM_SNAPSHOT_SCRIPT)
+    if (!snapshot) {
+      throw new Error("Document has no root element")
+    }
+    return snapshot
+  }
+
+  /**
+   * Evaluate a JavaScript expression in the current page
+   *
+   * @param expression - Expression to evaluate; promises are awaited
+   * @returns Promise resolving to the JSON-serializable result value
+   */
+  async evaluate<T = any>(expression: string): Promise<T> {
+    await this.ensureConnection()
+
+    const result = await this.sendPageCommand("Runtime.evaluate", {
+      expression,
+      awaitPromise: true,
+      returnByValue: true,
+    })
+
+    if (result?.exceptionDetails) {
+      const description = result.exceptionDetails.exception?.description ?? result.exceptionDetails.text
+      throw new Error(`Page evaluation failed: ${description}`)
+    }
+
+    return result?.result?.value as T
+  }
+
   /**
    * Analyze external dependencies in HTML content
    *
@@ -955,6 +1466,19 @@ export class MHTMLProcessor implements ICDPCapture {
     }
   }
 
+  /**
+   * Send a CDP command and unwrap its result, throwing on failure
+   */
+  private async sendPageCommand(method: string, params: any = {}): Promise<any> {
+    const result = await this.cdpClient!.sendCommand(method, params)
+
+    if (!result.success) {
+      throw new Error(`${method} failed: ${result.error}`)
+    }
+
+    return result.result
+  }
+
   /**
    * Navigate to a specific URL
    *
@@ -1037,59 +1561,6 @@ export class MHTMLProcessor implements ICDPCapture {
     }
   }
 
-  /**
-   * Get page metadata including title and resource information
-   *
-   * @returns Promise resolving to page metadata
-   */
-  private async getPageMetadata(): Promise<PageCaptureMetadata> {
-    this.logger.debug("Extracting page metadata")
-
-    try {
-      // Get page title
-      const titleResult = await this.cdpClient!.sendCommand("Runtime.evaluate", {
-        expression: "document.title",
-        returnByValue: true,
-      })
-
-      const title = titleResult.success ? titleResult.result.result?.value || "" : ""
-
-      // Get page URL
-      const urlResult = await this.cdpClient!.sendCommand("Runtime.evaluate", {
-        expression: "window.location.href",
-        returnByValue: true,
-      })
-
-      const url = urlResult.success ? urlResult.result.result?.value || "" : ""
-
-      // Get resource count from network logs
-      const resources = await this.getPageResources(url)
-
-      // Get Chrome version
-      const versionResult = await this.cdpClient!.sendCommand("Runtime.evaluate", {
-        expression: "navigator.userAgent",
-        returnByValue: true,
-      })
-
-      const userAgent = versionResult.success ? versionResult.result.result?.value || "" : ""
-
-      const metadata: PageCaptureMetadata = {
-        title,
-        url,
-        resourceCount: resources.length,
-        totalSize: 0, // Would need Network.getResponseBody for each resource
-        chromeVersion: userAgent,
-        captureTimestamp: new Date(),
-      }
-
-      this.logger.debug("Page metadata extracted", metadata)
-      return metadata
-    } catch (error) {
-      this.logger.error("Failed to extract page metadata", error as Error)
-      throw error
-    }
-  }
-
   /**
    * Get page resources information using comprehensive dependency detection
    *
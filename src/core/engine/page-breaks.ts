@@ -0,0 +1,144 @@
+/**
+ * Page Breaks - Explicit page-break markers for the auto-page layout
+ * Turns author-placed markers into CSS page breaks in the rendered page or in a DOM copy
+ */
+
+/**
+ * Page break markers recognized in the source document
+ */
+export interface PageBreakMarkers {
+  /** CSS selector of elements that start a new page */
+  selector?: string
+  /** Whether `<hr class="page-break">` marks a page break (default: true) */
+  hr?: boolean
+  /** Whether `<!-- pagebreak -->` comments mark a page break (default: true) */
+  comment?: boolean
+}
+
+/**
+ * Attribute set on every element a page break is placed before
+ */
+export const PAGE_BREAK_ATTRIBUTE = "data-page-break"
+
+/**
+ * Selector of the horizontal rule marker
+ */
+const HR_MARKER_SELECTOR = "hr.page-break"
+
+/**
+ * Text of a page break comment, ignoring surrounding whitespace and case
+ */
+const COMMENT_MARKER_PATTERN = /^\s*pagebreak\s*$/i
+
+/**
+ * Get the combined selector of the element markers
+ *
+ * @param markers - Enabled page break markers
+ * @returns Selector list, or undefined when no element markers are enabled
+ */
+export function getPageBreakSelector(markers: PageBreakMarkers = {}): string | undefined {
+  const selectors = [
+    markers.hr !== false ? HR_MARKER_SELECTOR : undefined,
+    markers.selector?.trim() || undefined,
+  ].filter(Boolean)
+  return selectors.length > 0 ? selectors.join(", ") : undefined
+}
+
+/**
+ * Check whether a comment's text marks a page break
+ *
+ * @param text - Comment text without the delimiters
+ * @returns True for `<!-- pagebreak -->` comments
+ */
+export function isPageBreakComment(text: string): boolean {
+  return COMMENT_MARKER_PATTERN.test(text)
+}
+
+/**
+ * Create the expression evaluated in the page to apply page break markers.
+ * Matching elements start a new page; marker rules are collapsed and marker
+ * comments are replaced by an empty break element. Evaluates to the number
+ * of page breaks placed.
+ *
+ * @param markers - Enabled page break markers
+ * @returns JavaScript expression
+ */
+export function createPageBreakScript(markers: PageBreakMarkers = {}): string {
+  return `(() => {
+  const selector = ${JSON.stringify(getPageBreakSelector(markers) ?? null)}
+  const comments = ${JSON.stringify(markers.comment !== false)}
+  const pattern = ${COMMENT_MARKER_PATTERN.toString()}
+  const breakBefore = (element) => {
+    element.setAttribute(${JSON.stringify(PAGE_BREAK_ATTRIBUTE)}, "")
+    element.style.breakBefore = "page"
+    if (element.matches(${JSON.stringify(HR_MARKER_SELECTOR)})) {
+      element.style.border = "0"
+      element.style.margin = "0"
+    }
+  }
+
+  let count = 0
+  if (selector) {
+    for (const element of document.querySelectorAll(selector)) {
+      breakBefore(element)
+      count++
+    }
+  }
+  if (comments) {
+    const walker = document.createTreeWalker(document.documentElement, NodeFilter.SHOW_COMMENT)
+    const markers = []
+    while (walker.nextNode()) {
+      if (pattern.test(walker.currentNode.nodeValue)) {
+        markers.push(walker.currentNode)
+      }
+    }
+    for (const comment of markers) {
+      const element = document.createElement("div")
+      breakBefore(element)
+      comment.replaceWith(element)
+      count++
+    }
+  }
+  return count
+})()`
+}
+
+/**
+ * Apply page break markers to a DOM tree in the current environment
+ *
+ * Marks the same elements as the page script, for documents that are not
+ * rendered in Chrome. The tree is modified in place.
+ *
+ * @param root - Element whose descendants are searched
+ * @param markers - Enabled page break markers
+ * @returns Number of page breaks placed
+ */
+export function markPageBreaks(root: Element, markers: PageBreakMarkers = {}): number {
+  let count = 0
+
+  const selector = getPageBreakSelector(markers)
+  if (selector && typeof root.querySelectorAll === "function") {
+    for (const element of Array.from(root.querySelectorAll(selector))) {
+      element.setAttribute(PAGE_BREAK_ATTRIBUTE, "")
+      count++
+    }
+  }
+
+  if (markers.comment !== false) {
+    const visit = (node: Node) => {
+      for (const child of Array.from(node.childNodes ?? [])) {
+        if (child.nodeType === 8 && isPageBreakComment(child.nodeValue ?? "")) {
+          const element = child.ownerDocument!.createElement("div")
+          element.setAttribute(PAGE_BREAK_ATTRIBUTE, "")
+          node.replaceChild(element, child)
+          count++
+        } else {
+          visit(child)
+        }
+      }
+    }
+    visit(root)
+  }
+
+  return count
+}
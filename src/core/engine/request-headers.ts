@@ -0,0 +1,41 @@
+/**
+ * Request Headers - Credentials and headers for loading the input page
+ * Shared by the Node fetch of URL inputs and the page Chrome loads, so both see the same response
+ */
+
+import { Buffer } from "node:buffer"
+
+/**
+ * Options controlling the requests made for the input page
+ */
+export interface PageRequestOptions {
+  /** Custom headers */
+  headers?: Record<string, string>
+  /** Bearer token, or user name and password for basic authentication */
+  auth?: {
+    username?: string
+    password?: string
+    token?: string
+  }
+  /** User agent string */
+  userAgent?: string
+}
+
+/**
+ * Build the headers sent with page requests, including the Authorization header
+ *
+ * The user agent is left out: fetch sends it as a header while Chrome needs an override.
+ *
+ * @param options - Request options
+ * @returns Header names and values
+ */
+export function createRequestHeaders(options: PageRequestOptions): Record<string, string> {
+  const headers: Record<string, string> = { ...options.headers }
+  if (options.auth?.token) {
+    headers.Authorization = `Bearer ${options.auth.token}`
+  } else if (options.auth?.username) {
+    const credentials = Buffer.from(`${options.auth.username}:${options.auth.password ?? ""}`).toString("base64")
+    headers.Authorization = `Basic ${credentials}`
+  }
+  return headers
+}
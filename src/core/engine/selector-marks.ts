@@ -0,0 +1,85 @@
+/**
+ * Selector Marks - Tag elements matching CSS selectors before a DOM snapshot is taken
+ * Lets converters find selector matches in snapshots, which have no selector engine of their own
+ */
+
+import type { DOMSnapshotNode } from "./dom-snapshot.js"
+
+/**
+ * Attribute listing the indices of the selectors an element matches, separated by spaces
+ */
+export const SELECTOR_MARK_ATTRIBUTE = "data-selector-marks"
+
+/**
+ * Create the expression evaluated in the page to mark elements matching the selectors.
+ * Invalid selectors are skipped; the expression evaluates to their indices.
+ *
+ * @param selectors - CSS selectors, identified by their position in the list
+ * @returns JavaScript expression
+ */
+export function createSelectorMarkScript(selectors: string[]): string {
+  return `(() => {
+  const selectors = ${JSON.stringify(selectors)}
+  const invalid = []
+  selectors.forEach((selector, index) => {
+    let elements
+    try {
+      elements = document.querySelectorAll(selector)
+    } catch {
+      invalid.push(index)
+      return
+    }
+    for (const element of elements) {
+      const marks = element.getAttribute(${JSON.stringify(SELECTOR_MARK_ATTRIBUTE)})
+      element.setAttribute(${JSON.stringify(SELECTOR_MARK_ATTRIBUTE)}, marks === null ? String(index) : marks + " " + index)
+    }
+  })
+  return invalid
+})()`
+}
+
+/**
+ * Mark elements matching the selectors in a DOM tree in the current environment
+ *
+ * Marks the same elements as the page script, for documents that are not
+ * rendered in Chrome. The tree is modified in place.
+ *
+ * @param root - Element whose descendants are searched
+ * @param selectors - CSS selectors, identified by their position in the list
+ * @returns Indices of the selectors that could not be parsed
+ */
+export function markSelectors(root: Element, selectors: string[]): number[] {
+  const invalid: number[] = []
+  if (typeof root.querySelectorAll !== "function") {
+    return invalid
+  }
+
+  selectors.forEach((selector, index) => {
+    let elements: Element[]
+    try {
+      elements = Array.from(root.querySelectorAll(selector))
+    } catch {
+      invalid.push(index)
+      return
+    }
+    for (const element of elements) {
+      const marks = element.getAttribute(SELECTOR_MARK_ATTRIBUTE)
+      element.setAttribute(SELECTOR_MARK_ATTRIBUTE, marks === null ? String(index) : `${marks} ${index}`)
+    }
+  })
+  return invalid
+}
+
+/**
+ * Get the indices of the selectors a snapshot element was marked with
+ *
+ * @param node - Snapshot node
+ * @returns Selector indices in ascending order
+ */
+export function getSelectorMarks(node: DOMSnapshotNode): number[] {
+  const marks = node.attributes?.[SELECTOR_MARK_ATTRIBUTE]
+  if (!marks) {
+    return []
+  }
+  return marks.split(" ").map(Number).filter(Number.isInteger).sort((a, b) => a - b)
+}
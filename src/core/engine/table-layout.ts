@@ -0,0 +1,85 @@
+/**
+ * Table Layout - Record the rendered widths of tables and their cells in a DOM snapshot
+ * Lets converters size table columns the way the browser laid them out
+ */
+
+import type { DOMSnapshotNode } from "./dom-snapshot.js"
+
+/**
+ * Attribute holding the rendered width of a table or table cell in CSS pixels
+ */
+export const LAYOUT_WIDTH_ATTRIBUTE = "data-layout-width"
+
+/**
+ * Attribute holding the content width of the block containing a table in CSS pixels
+ */
+export const LAYOUT_CONTAINER_WIDTH_ATTRIBUTE = "data-layout-container-width"
+
+/**
+ * Rendered width of a table relative to its container
+ */
+export interface TableLayout {
+  /** Table width in CSS pixels */
+  width: number
+  /** Content width of the containing block in CSS pixels */
+  containerWidth: number
+}
+
+/**
+ * Create the expression evaluated in the page to record the rendered widths of
+ * tables and their cells. Evaluates to the number of tables measured.
+ *
+ * @returns JavaScript expression
+ */
+export function createTableLayoutScript(): string {
+  return `(() => {
+  const widthAttribute = ${JSON.stringify(LAYOUT_WIDTH_ATTRIBUTE)}
+  const containerAttribute = ${JSON.stringify(LAYOUT_CONTAINER_WIDTH_ATTRIBUTE)}
+  const round = value => String(Math.round(value * 10) / 10)
+  let count = 0
+  for (const table of document.querySelectorAll("table")) {
+    const width = table.getBoundingClientRect().width
+    const container = table.parentElement
+    if (!width || !container) {
+      continue
+    }
+    const style = getComputedStyle(container)
+    const containerWidth = container.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight)
+    table.setAttribute(widthAttribute, round(width))
+    table.setAttribute(containerAttribute, round(containerWidth > 0 ? containerWidth : width))
+    for (const row of table.rows) {
+      for (const cell of row.cells) {
+        const cellWidth = cell.getBoundingClientRect().width
+        if (cellWidth > 0) {
+          cell.setAttribute(widthAttribute, round(cellWidth))
+        }
+      }
+    }
+    count++
+  }
+  return count
+})()`
+}
+
+/**
+ * Read the rendered width recorded on a table or table cell
+ *
+ * @param node - Snapshot element
+ * @returns Width in CSS pixels, or undefined when the element was not measured
+ */
+export function readLayoutWidth(node: DOMSnapshotNode): number | undefined {
+  const width = Number.parseFloat(node.attributes?.[LAYOUT_WIDTH_ATTRIBUTE] ?? "")
+  return width > 0 ? width : undefined
+}
+
+/**
+ * Read the rendered layout recorded on a table
+ *
+ * @param node - Snapshot of a table element
+ * @returns Table and container widths, or undefined when the table was not measured
+ */
+export function readTableLayout(node: DOMSnapshotNode): TableLayout | undefined {
+  const width = readLayoutWidth(node)
+  const containerWidth = Number.parseFloat(node.attributes?.[LAYOUT_CONTAINER_WIDTH_ATTRIBUTE] ?? "")
+  return width && containerWidth > 0 ? { width, containerWidth } : undefined
+}
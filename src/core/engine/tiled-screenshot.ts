@@ -0,0 +1,116 @@
+/**
+ * Tiled Screenshot Capture
+ *
+ * Captures pages taller than Chrome's maximum texture size as a series of
+ * clipped screenshots and stitches them into one or more images in Node.
+ */
+
+import type { Buffer } from "node:buffer"
+
+import { encodeJPEG, JPEG_MAX_DIMENSION } from "../imaging/jpeg-encoder.js"
+import { decodePNG, encodePNG } from "../imaging/png-codec.js"
+import { createRGBAImage, pasteImage } from "../imaging/raster.js"
+
+import type { MHTMLProcessor, PageLayoutMetrics } from "./mhtml-processor.js"
+
+/**
+ * Largest texture Chrome renders in a single screenshot (device pixels)
+ */
+export const MAX_TEXTURE_SIZE = 16384
+
+/**
+ * Options for tiled full-page capture
+ */
+export interface TiledScreenshotOptions {
+  /** Output image format */
+  format: "png" | "jpeg"
+  /** JPEG quality (0-100) */
+  quality?: number
+  /** Height of each captured tile in CSS pixels (defaults to the viewport height) */
+  tileHeight?: number
+  /** Maximum height of an output image in CSS pixels */
+  maxHeight?: number
+  /** Split the page into several images instead of cropping at maxHeight */
+  split?: boolean
+}
+
+/**
+ * Processor operations needed for tiled capture
+ */
+export type TiledScreenshotProcessor = Pick<MHTMLProcessor, "getLayoutMetrics" | "screenshot">
+
+/**
+ * Capture the full page in viewport-sized tiles and stitch them together
+ *
+ * Without `split` a single image is returned, cropped to `maxHeight` when set.
+ * With `split` the whole page is returned as consecutive images of at most
+ * `maxHeight` CSS pixels each (or the maximum texture size when unset).
+ *
+ * @param processor - Processor with the page loaded
+ * @param options - Capture options
+ * @param metrics - Layout metrics of the page, fetched when omitted
+ * @returns Promise resolving to the encoded images from top to bottom
+ */
+export async function captureTiledScreenshot(
+  processor: TiledScreenshotProcessor,
+  options: TiledScreenshotOptions,
+  metrics?: PageLayoutMetrics,
+): Promise<Buffer[]> {
+  const layout = metrics ?? await processor.getLayoutMetrics()
+  const scale = layout.deviceScaleFactor
+  if (layout.contentWidth <= 0 || layout.contentHeight <= 0) {
+    throw new Error("Page has no content to capture")
+  }
+
+  const textureLimit = Math.max(1, Math.floor(MAX_TEXTURE_SIZE / scale))
+  const width = Math.min(layout.contentWidth, textureLimit)
+  const tileHeight = Math.max(1, Math.min(options.tileHeight ?? layout.viewportHeight, textureLimit))
+
+  const encoderLimit = options.format === "jpeg" ? Math.floor(JPEG_MAX_DIMENSION / scale) : Number.POSITIVE_INFINITY
+  const requestedHeight = options.maxHeight && options.maxHeight > 0 ? Math.floor(options.maxHeight) : undefined
+
+  let totalHeight: number
+  let segmentHeight: number
+  if (options.split) {
+    totalHeight = layout.contentHeight
+    segmentHeight = Math.min(requestedHeight ?? textureLimit, encoderLimit)
+  } else {
+    totalHeight = Math.min(layout.contentHeight, requestedHeight ?? layout.contentHeight, encoderLimit)
+    segmentHeight = totalHeight
+  }
+
+  const images: Buffer[] = []
+  for (let top = 0; top < totalHeight; top += segmentHeight) {
+    const height = Math.min(segmentHeight, totalHeight - top)
+    images.push(await captureSegment(processor, options, { top, width, height, tileHeight, scale }))
+  }
+  return images
+}
+
+/**
+ * Capture and encode one output image
+ */
+async function captureSegment(
+  processor: TiledScreenshotProcessor,
+  options: TiledScreenshotOptions,
+  segment: { top: number, width: number, height: number, tileHeight: number, scale: number },
+): Promise<Buffer> {
+  const image = createRGBAImage(
+    Math.max(1, Math.round(segment.width * segment.scale)),
+    Math.max(1, Math.round(segment.height * segment.scale)),
+  )
+
+  let row = 0
+  for (let offset = 0; offset < segment.height && row < image.height; offset += segment.tileHeight) {
+    const clip = {
+      x: 0,
+      y: segment.top + offset,
+      width: segment.width,
+      height: Math.min(segment.tileHeight, segment.height - offset),
+    }
+    const tile = decodePNG(await processor.screenshot({ format: "png", clip }))
+    row += pasteImage(image, tile, row)
+  }
+
+  return options.format === "jpeg" ? encodeJPEG(image, options.quality) : encodePNG(image)
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+
+import { composeContactSheet } from "./contact-sheet.js"
+import { createRGBAImage, downscaleImage } from "./raster.js"
+import type { RGBAImage } from "./raster.js"
+
+function fill(width: number, height: number, rgba: [number, number, number, number]): RGBAImage {
+  const image = createRGBAImage(width, height)
+  for (let offset = 0; offset < image.data.length; offset += 4) {
+    image.data.set(rgba, offset)
+  }
+  return image
+}
+
+function pixel(image: RGBAImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4
+  return Array.from(image.data.subarray(offset, offset + 4))
+}
+
+describe("contact sheet", () => {
+  it("should place screenshots left to right with gaps on a white background", () => {
+    const sheet = composeContactSheet([
+      { image: fill(4, 6, [255, 0, 0, 255]) },
+      { image: fill(3, 2, [0, 0, 255, 255]) },
+    ], { gap: 2 })
+
+    expect([sheet.width, sheet.height]).toEqual([2 + 4 + 2 + 3 + 2, 2 + 6 + 2])
+    expect(pixel(sheet, 0, 0)).toEqual([255, 255, 255, 255])
+    expect(pixel(sheet, 2, 2)).toEqual([255, 0, 0, 255])
+    expect(pixel(sheet, 5, 7)).toEqual([255, 0, 0, 255])
+    expect(pixel(sheet, 8, 2)).toEqual([0, 0, 255, 255])
+    // Shorter screenshots are aligned at the top
+    expect(pixel(sheet, 8, 4)).toEqual([255, 255, 255, 255])
+  })
+
+  it("should shrink high-density screenshots to CSS pixels", () => {
+    const sheet = composeContactSheet([
+      { image: fill(8, 4, [0, 128, 0, 255]), scale: 2 },
+      { image: fill(4, 2, [0, 128, 0, 255]) },
+    ], { gap: 0 })
+
+    expect([sheet.width, sheet.height]).toEqual([8, 2])
+  })
+
+  it("should average the pixels covered by each downscaled pixel", () => {
+    const image = createRGBAImage(2, 2)
+    image.data.set([0, 0, 0, 255, 200, 100, 40, 255, 0, 0, 0, 255, 200, 100, 40, 255])
+
+    const downscaled = downscaleImage(image, 1, 1)
+
+    expect([downscaled.width, downscaled.height]).toEqual([1, 1])
+    expect(Array.from(downscaled.data)).toEqual([100, 50, 20, 255])
+  })
+})
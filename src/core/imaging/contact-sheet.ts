@@ -0,0 +1,63 @@
+/**
+ * Contact Sheet
+ *
+ * Lays out screenshots side by side in one image, such as the captures of a
+ * page on several devices.
+ */
+
+import { createRGBAImage, downscaleImage, pasteImage } from "./raster.js"
+import type { RGBAImage } from "./raster.js"
+
+/**
+ * Screenshot placed on a contact sheet
+ */
+export interface ContactSheetImage {
+  image: RGBAImage
+  /** Device pixels per CSS pixel of the screenshot (default: 1) */
+  scale?: number
+}
+
+/**
+ * Options for composing a contact sheet
+ */
+export interface ContactSheetOptions {
+  /** Space around and between the screenshots in pixels (default: 32) */
+  gap?: number
+  /** Background color as RGBA channels (default: opaque white) */
+  background?: [number, number, number, number]
+}
+
+/**
+ * Compose screenshots into one image, left to right and aligned at the top
+ *
+ * Screenshots are shrunk to CSS pixels so they keep the relative sizes of the
+ * viewports they were captured in.
+ *
+ * @param images - Screenshots in display order
+ * @param options - Layout options
+ * @returns Contact sheet image
+ */
+export function composeContactSheet(images: ContactSheetImage[], options: ContactSheetOptions = {}): RGBAImage {
+  const gap = Math.max(0, Math.round(options.gap ?? 32))
+  const scaled = images.map(({ image, scale = 1 }) => scale > 1
+    ? downscaleImage(image, Math.round(image.width / scale), Math.round(image.height / scale))
+    : image)
+
+  const width = scaled.reduce((sum, image) => sum + image.width + gap, gap)
+  const height = Math.max(1, ...scaled.map(image => image.height)) + gap * 2
+  const sheet = createRGBAImage(width, height)
+  const [red, green, blue, alpha] = options.background ?? [255, 255, 255, 255]
+  for (let offset = 0; offset < sheet.data.length; offset += 4) {
+    sheet.data[offset] = red
+    sheet.data[offset + 1] = green
+    sheet.data[offset + 2] = blue
+    sheet.data[offset + 3] = alpha
+  }
+
+  let left = gap
+  for (const image of scaled) {
+    pasteImage(sheet, image, gap, left)
+    left += image.width + gap
+  }
+  return sheet
+}
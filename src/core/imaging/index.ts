@@ -0,0 +1,11 @@
+/**
+ * Imaging Module - Pixel buffers and image codecs
+ * Used to assemble screenshots that exceed the renderer's texture limits
+ */
+
+export { composeContactSheet } from "./contact-sheet.js"
+export type { ContactSheetImage, ContactSheetOptions } from "./contact-sheet.js"
+export { encodeJPEG, JPEG_MAX_DIMENSION } from "./jpeg-encoder.js"
+export { decodePNG, encodePNG } from "./png-codec.js"
+export { createRGBAImage, downscaleImage, pasteImage } from "./raster.js"
+export type { RGBAImage } from "./raster.js"
@@ -0,0 +1,52 @@
+import { Buffer } from "node:buffer"
+
+import { describe, expect, it } from "vitest"
+
+import { encodeJPEG, JPEG_MAX_DIMENSION } from "./jpeg-encoder.js"
+import { createRGBAImage } from "./raster.js"
+
+function findMarker(data: Buffer, marker: number): number {
+  for (let i = 0; i < data.length - 1; i++) {
+    if (data[i] === 0xFF && data[i + 1] === marker) {
+      return i
+    }
+  }
+  return -1
+}
+
+function gradient(width: number, height: number) {
+  const image = createRGBAImage(width, height)
+  for (let i = 0; i < width * height; i++) {
+    image.data[i * 4] = (i * 3) & 0xFF
+    image.data[i * 4 + 1] = (i * 5) & 0xFF
+    image.data[i * 4 + 2] = (i * 7) & 0xFF
+    image.data[i * 4 + 3] = 255
+  }
+  return image
+}
+
+describe("encodeJPEG", () => {
+  it("should write a baseline JFIF stream", () => {
+    const jpeg = encodeJPEG(gradient(13, 9))
+
+    expect(jpeg.subarray(0, 2)).toEqual(Buffer.from([0xFF, 0xD8]))
+    expect(jpeg.subarray(6, 10).toString("latin1")).toBe("JFIF")
+    expect(jpeg.subarray(-2)).toEqual(Buffer.from([0xFF, 0xD9]))
+
+    const frame = findMarker(jpeg, 0xC0)
+    expect(frame).toBeGreaterThan(0)
+    expect(jpeg.readUInt16BE(frame + 5)).toBe(9)
+    expect(jpeg.readUInt16BE(frame + 7)).toBe(13)
+    expect(jpeg[frame + 9]).toBe(3)
+  })
+
+  it("should produce smaller output at lower quality", () => {
+    const image = gradient(64, 64)
+
+    expect(encodeJPEG(image, 20).length).toBeLessThan(encodeJPEG(image, 95).length)
+  })
+
+  it("should reject images larger than a JPEG can describe", () => {
+    expect(() => encodeJPEG({ width: 1, height: JPEG_MAX_DIMENSION + 1, data: new Uint8Array(0) })).toThrow("JPEG dimensions")
+  })
+})
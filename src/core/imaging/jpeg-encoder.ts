@@ -0,0 +1,453 @@
+/**
+ * JPEG Encoder
+ *
+ * Baseline JPEG encoder for RGBA pixel buffers using the standard quantization
+ * and Huffman tables (ITU-T T.81 Annex K) without chroma subsampling.
+ */
+
+import { Buffer } from "node:buffer"
+
+import type { RGBAImage } from "./raster.js"
+
+/**
+ * Largest width or height a baseline JPEG can describe
+ */
+export const JPEG_MAX_DIMENSION = 65535
+
+/**
+ * Natural-order index of each coefficient in zig-zag order
+ */
+const ZIGZAG = [
+  [0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5],
+  [12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28],
+  [35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51],
+  [58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63],
+].flat()
+
+const LUMINANCE_QUANTIZATION = [
+  [16, 11, 10, 16, 24, 40, 51, 61],
+  [12, 12, 14, 19, 26, 58, 60, 55],
+  [14, 13, 16, 24, 40, 57, 69, 56],
+  [14, 17, 22, 29, 51, 87, 80, 62],
+  [18, 22, 37, 56, 68, 109, 103, 77],
+  [24, 35, 55, 64, 81, 104, 113, 92],
+  [49, 64, 78, 87, 103, 121, 120, 101],
+  [72, 92, 95, 98, 112, 100, 103, 99],
+].flat()
+
+const CHROMINANCE_QUANTIZATION = [
+  [17, 18, 24, 47, 99, 99, 99, 99],
+  [18, 21, 26, 66, 99, 99, 99, 99],
+  [24, 26, 56, 99, 99, 99, 99, 99],
+  [47, 66, 99, 99, 99, 99, 99, 99],
+  [99, 99, 99, 99, 99, 99, 99, 99],
+  [99, 99, 99, 99, 99, 99, 99, 99],
+  [99, 99, 99, 99, 99, 99, 99, 99],
+  [99, 99, 99, 99, 99, 99, 99, 99],
+].flat()
+
+/**
+ * Huffman table specification: code counts per length and symbols
+ */
+interface HuffmanSpec {
+  bits: number[]
+  values: number[]
+}
+
+const DC_LUMINANCE: HuffmanSpec = {
+  bits: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+
+const DC_CHROMINANCE: HuffmanSpec = {
+  bits: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+
+const AC_LUMINANCE: HuffmanSpec = {
+  bits: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7D],
+  values: [
+    [0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07],
+    [0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xA1, 0x08, 0x23, 0x42, 0xB1, 0xC1, 0x15, 0x52, 0xD1, 0xF0],
+    [0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0A, 0x16, 0x17, 0x18, 0x19, 0x1A, 0x25, 0x26, 0x27, 0x28],
+    [0x29, 0x2A, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3A, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49],
+    [0x4A, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69],
+    [0x6A, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89],
+    [0x8A, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9A, 0xA2, 0xA3, 0xA4, 0xA5, 0xA6, 0xA7],
+    [0xA8, 0xA9, 0xAA, 0xB2, 0xB3, 0xB4, 0xB5, 0xB6, 0xB7, 0xB8, 0xB9, 0xBA, 0xC2, 0xC3, 0xC4, 0xC5],
+    [0xC6, 0xC7, 0xC8, 0xC9, 0xCA, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9, 0xDA, 0xE1, 0xE2],
+    [0xE3, 0xE4, 0xE5, 0xE6, 0xE7, 0xE8, 0xE9, 0xEA, 0xF1, 0xF2, 0xF3, 0xF4, 0xF5, 0xF6, 0xF7, 0xF8],
+    [0xF9, 0xFA],
+  ].flat(),
+}
+
+const AC_CHROMINANCE: HuffmanSpec = {
+  bits: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  values: [
+    [0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71],
+    [0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xA1, 0xB1, 0xC1, 0x09, 0x23, 0x33, 0x52, 0xF0],
+    [0x15, 0x62, 0x72, 0xD1, 0x0A, 0x16, 0x24, 0x34, 0xE1, 0x25, 0xF1, 0x17, 0x18, 0x19, 0x1A, 0x26],
+    [0x27, 0x28, 0x29, 0x2A, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3A, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48],
+    [0x49, 0x4A, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68],
+    [0x69, 0x6A, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87],
+    [0x88, 0x89, 0x8A, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9A, 0xA2, 0xA3, 0xA4, 0xA5],
+    [0xA6, 0xA7, 0xA8, 0xA9, 0xAA, 0xB2, 0xB3, 0xB4, 0xB5, 0xB6, 0xB7, 0xB8, 0xB9, 0xBA, 0xC2, 0xC3],
+    [0xC4, 0xC5, 0xC6, 0xC7, 0xC8, 0xC9, 0xCA, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9, 0xDA],
+    [0xE2, 0xE3, 0xE4, 0xE5, 0xE6, 0xE7, 0xE8, 0xE9, 0xEA, 0xF2, 0xF3, 0xF4, 0xF5, 0xF6, 0xF7, 0xF8],
+    [0xF9, 0xFA],
+  ].flat(),
+}
+
+/**
+ * AAN DCT scale factors for each row and column
+ */
+const AAN_SCALE = [1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.5411961, 0.275899379]
+
+/**
+ * Huffman code lookup: code and length for each symbol
+ */
+interface HuffmanTable {
+  codes: Uint16Array
+  lengths: Uint8Array
+}
+
+/**
+ * Growable byte buffer with JPEG entropy-coded bit output
+ */
+class JPEGWriter {
+  private buffer: Uint8Array
+  private length = 0
+  private bitBuffer = 0
+  private bitCount = 0
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(1024, capacity))
+  }
+
+  writeByte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = value
+  }
+
+  writeWord(value: number): void {
+    this.writeByte((value >> 8) & 0xFF)
+    this.writeByte(value & 0xFF)
+  }
+
+  writeBytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) {
+      this.writeByte(values[i]!)
+    }
+  }
+
+  writeBits(code: number, length: number): void {
+    this.bitBuffer = (this.bitBuffer << length) | code
+    this.bitCount += length
+    while (this.bitCount >= 8) {
+      const byte = (this.bitBuffer >> (this.bitCount - 8)) & 0xFF
+      this.writeByte(byte)
+      if (byte === 0xFF) {
+        this.writeByte(0)
+      }
+      this.bitCount -= 8
+    }
+    this.bitBuffer &= (1 << this.bitCount) - 1
+  }
+
+  /**
+   * Pad the last entropy-coded byte with one bits
+   */
+  flushBits(): void {
+    if (this.bitCount > 0) {
+      this.writeBits((1 << (8 - this.bitCount)) - 1, 8 - this.bitCount)
+    }
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.buffer.buffer, 0, this.length)
+  }
+}
+
+/**
+ * Encode RGBA pixels as a baseline JPEG image
+ *
+ * Transparent pixels are composited onto a white background.
+ *
+ * @param image - Image to encode
+ * @param quality - Quality from 1 (smallest) to 100 (best), defaults to 80
+ * @returns JPEG file bytes
+ * @throws Error if the image is larger than a JPEG can describe
+ */
+export function encodeJPEG(image: RGBAImage, quality = 80): Buffer {
+  if (image.width < 1 || image.height < 1 || image.width > JPEG_MAX_DIMENSION || image.height > JPEG_MAX_DIMENSION) {
+    throw new Error(`JPEG dimensions must be between 1 and ${JPEG_MAX_DIMENSION} pixels (got ${image.width}x${image.height})`)
+  }
+
+  const luminanceTable = scaleQuantization(LUMINANCE_QUANTIZATION, quality)
+  const chrominanceTable = scaleQuantization(CHROMINANCE_QUANTIZATION, quality)
+  const luminanceDivisors = createDivisors(luminanceTable)
+  const chrominanceDivisors = createDivisors(chrominanceTable)
+
+  const dcLuminance = buildHuffmanTable(DC_LUMINANCE)
+  const acLuminance = buildHuffmanTable(AC_LUMINANCE)
+  const dcChrominance = buildHuffmanTable(DC_CHROMINANCE)
+  const acChrominance = buildHuffmanTable(AC_CHROMINANCE)
+
+  const writer = new JPEGWriter(Math.ceil(image.width * image.height / 4))
+  writeHeaders(writer, image, luminanceTable, chrominanceTable)
+
+  const y = new Float32Array(64)
+  const cb = new Float32Array(64)
+  const cr = new Float32Array(64)
+  const coefficients = new Int32Array(64)
+  const previousDC = [0, 0, 0]
+
+  for (let blockY = 0; blockY < image.height; blockY += 8) {
+    for (let blockX = 0; blockX < image.width; blockX += 8) {
+      loadBlock(image, blockX, blockY, y, cb, cr)
+
+      quantizeBlock(y, luminanceDivisors, coefficients)
+      previousDC[0] = encodeBlock(writer, coefficients, previousDC[0]!, dcLuminance, acLuminance)
+      quantizeBlock(cb, chrominanceDivisors, coefficients)
+      previousDC[1] = encodeBlock(writer, coefficients, previousDC[1]!, dcChrominance, acChrominance)
+      quantizeBlock(cr, chrominanceDivisors, coefficients)
+      previousDC[2] = encodeBlock(writer, coefficients, previousDC[2]!, dcChrominance, acChrominance)
+    }
+  }
+
+  writer.flushBits()
+  writer.writeWord(0xFFD9) // EOI
+
+  return writer.toBuffer()
+}
+
+/**
+ * Scale a base quantization table for the requested quality (IJG formula)
+ */
+function scaleQuantization(base: number[], quality: number): number[] {
+  const clamped = Math.min(100, Math.max(1, Math.round(quality)))
+  const scale = clamped < 50 ? 5000 / clamped : 200 - clamped * 2
+  return base.map(value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))))
+}
+
+/**
+ * Combine quantization with the AAN DCT output scaling
+ */
+function createDivisors(table: number[]): Float32Array {
+  const divisors = new Float32Array(64)
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      divisors[row * 8 + column] = 1 / (table[row * 8 + column]! * AAN_SCALE[row]! * AAN_SCALE[column]! * 8)
+    }
+  }
+  return divisors
+}
+
+function buildHuffmanTable(spec: HuffmanSpec): HuffmanTable {
+  const codes = new Uint16Array(256)
+  const lengths = new Uint8Array(256)
+  let code = 0
+  let index = 0
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.bits[length - 1]!; i++) {
+      const symbol = spec.values[index++]!
+      codes[symbol] = code++
+      lengths[symbol] = length
+    }
+    code <<= 1
+  }
+  return { codes, lengths }
+}
+
+function writeHeaders(writer: JPEGWriter, image: RGBAImage, luminanceTable: number[], chrominanceTable: number[]): void {
+  writer.writeWord(0xFFD8) // SOI
+
+  // APP0 JFIF header
+  writer.writeWord(0xFFE0)
+  writer.writeWord(16)
+  writer.writeBytes([0x4A, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0])
+
+  // Quantization tables in zig-zag order
+  writer.writeWord(0xFFDB)
+  writer.writeWord(132)
+  writer.writeByte(0)
+  writer.writeBytes(ZIGZAG.map(index => luminanceTable[index]!))
+  writer.writeByte(1)
+  writer.writeBytes(ZIGZAG.map(index => chrominanceTable[index]!))
+
+  // Baseline frame with three components and no subsampling
+  writer.writeWord(0xFFC0)
+  writer.writeWord(17)
+  writer.writeByte(8)
+  writer.writeWord(image.height)
+  writer.writeWord(image.width)
+  writer.writeByte(3)
+  writer.writeBytes([1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1])
+
+  // Huffman tables
+  const tables: Array<[number, HuffmanSpec]> = [
+    [0x00, DC_LUMINANCE],
+    [0x10, AC_LUMINANCE],
+    [0x01, DC_CHROMINANCE],
+    [0x11, AC_CHROMINANCE],
+  ]
+  writer.writeWord(0xFFC4)
+  writer.writeWord(2 + tables.reduce((total, [, spec]) => total + 17 + spec.values.length, 0))
+  for (const [id, spec] of tables) {
+    writer.writeByte(id)
+    writer.writeBytes(spec.bits)
+    writer.writeBytes(spec.values)
+  }
+
+  // Start of scan
+  writer.writeWord(0xFFDA)
+  writer.writeWord(12)
+  writer.writeByte(3)
+  writer.writeBytes([1, 0x00, 2, 0x11, 3, 0x11])
+  writer.writeBytes([0, 63, 0])
+}
+
+/**
+ * Convert an 8x8 block to level-shifted YCbCr, repeating edge pixels past the image bounds
+ */
+function loadBlock(image: RGBAImage, blockX: number, blockY: number, y: Float32Array, cb: Float32Array, cr: Float32Array): void {
+  for (let row = 0; row < 8; row++) {
+    const pixelY = Math.min(blockY + row, image.height - 1)
+    for (let column = 0; column < 8; column++) {
+      const pixelX = Math.min(blockX + column, image.width - 1)
+      const offset = (pixelY * image.width + pixelX) * 4
+      const alpha = image.data[offset + 3]! / 255
+      const background = 255 * (1 - alpha)
+      const r = image.data[offset]! * alpha + background
+      const g = image.data[offset + 1]! * alpha + background
+      const b = image.data[offset + 2]! * alpha + background
+
+      const index = row * 8 + column
+      y[index] = 0.299 * r + 0.587 * g + 0.114 * b - 128
+      cb[index] = -0.168736 * r - 0.331264 * g + 0.5 * b
+      cr[index] = 0.5 * r - 0.418688 * g - 0.081312 * b
+    }
+  }
+}
+
+/**
+ * Forward DCT (AAN algorithm) followed by quantization
+ */
+function quantizeBlock(data: Float32Array, divisors: Float32Array, output: Int32Array): void {
+  for (let pass = 0; pass < 2; pass++) {
+    const step = pass === 0 ? 1 : 8
+    const stride = pass === 0 ? 8 : 1
+
+    for (let i = 0; i < 8; i++) {
+      const o = i * stride
+      const d0 = data[o]!
+      const d1 = data[o + step]!
+      const d2 = data[o + 2 * step]!
+      const d3 = data[o + 3 * step]!
+      const d4 = data[o + 4 * step]!
+      const d5 = data[o + 5 * step]!
+      const d6 = data[o + 6 * step]!
+      const d7 = data[o + 7 * step]!
+
+      const tmp0 = d0 + d7
+      const tmp7 = d0 - d7
+      const tmp1 = d1 + d6
+      const tmp6 = d1 - d6
+      const tmp2 = d2 + d5
+      const tmp5 = d2 - d5
+      const tmp3 = d3 + d4
+      const tmp4 = d3 - d4
+
+      // Even part
+      let tmp10 = tmp0 + tmp3
+      const tmp13 = tmp0 - tmp3
+      let tmp11 = tmp1 + tmp2
+      let tmp12 = tmp1 - tmp2
+
+      data[o] = tmp10 + tmp11
+      data[o + 4 * step] = tmp10 - tmp11
+
+      const z1 = (tmp12 + tmp13) * 0.707106781
+      data[o + 2 * step] = tmp13 + z1
+      data[o + 6 * step] = tmp13 - z1
+
+      // Odd part
+      tmp10 = tmp4 + tmp5
+      tmp11 = tmp5 + tmp6
+      tmp12 = tmp6 + tmp7
+
+      const z5 = (tmp10 - tmp12) * 0.382683433
+      const z2 = 0.5411961 * tmp10 + z5
+      const z4 = 1.306562965 * tmp12 + z5
+      const z3 = tmp11 * 0.707106781
+
+      const z11 = tmp7 + z3
+      const z13 = tmp7 - z3
+
+      data[o + 5 * step] = z13 + z2
+      data[o + 3 * step] = z13 - z2
+      data[o + step] = z11 + z4
+      data[o + 7 * step] = z11 - z4
+    }
+  }
+
+  for (let i = 0; i < 64; i++) {
+    output[i] = Math.round(data[i]! * divisors[i]!)
+  }
+}
+
+/**
+ * Entropy-code a quantized block
+ *
+ * @returns The DC coefficient of the block, used to predict the next block
+ */
+function encodeBlock(writer: JPEGWriter, coefficients: Int32Array, previousDC: number, dc: HuffmanTable, ac: HuffmanTable): number {
+  const dcValue = coefficients[0]!
+  const difference = dcValue - previousDC
+  const dcCategory = bitLength(difference)
+  writer.writeBits(dc.codes[dcCategory]!, dc.lengths[dcCategory]!)
+  if (dcCategory > 0) {
+    writer.writeBits(encodeMagnitude(difference, dcCategory), dcCategory)
+  }
+
+  let run = 0
+  for (let k = 1; k < 64; k++) {
+    const value = coefficients[ZIGZAG[k]!]!
+    if (value === 0) {
+      run++
+      continue
+    }
+    while (run > 15) {
+      writer.writeBits(ac.codes[0xF0]!, ac.lengths[0xF0]!)
+      run -= 16
+    }
+    const category = bitLength(value)
+    const symbol = (run << 4) | category
+    writer.writeBits(ac.codes[symbol]!, ac.lengths[symbol]!)
+    writer.writeBits(encodeMagnitude(value, category), category)
+    run = 0
+  }
+  if (run > 0) {
+    writer.writeBits(ac.codes[0x00]!, ac.lengths[0x00]!)
+  }
+
+  return dcValue
+}
+
+function bitLength(value: number): number {
+  let magnitude = Math.abs(value)
+  let length = 0
+  while (magnitude > 0) {
+    length++
+    magnitude >>= 1
+  }
+  return length
+}
+
+function encodeMagnitude(value: number, category: number): number {
+  return value < 0 ? value + (1 << category) - 1 : value
+}
@@ -0,0 +1,86 @@
+import { Buffer } from "node:buffer"
+import { deflateSync } from "node:zlib"
+
+import { describe, expect, it } from "vitest"
+
+import { crc32 } from "../utils/ZipWriter.js"
+
+import { decodePNG, encodePNG } from "./png-codec.js"
+import { createRGBAImage, pasteImage } from "./raster.js"
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data])
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const checksum = Buffer.alloc(4)
+  checksum.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, checksum])
+}
+
+function buildPNG(width: number, height: number, colorType: number, scanlines: number[][]): Buffer {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8
+  header[9] = colorType
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(Buffer.from(scanlines.flat()))),
+    chunk("IEND", Buffer.alloc(0)),
+  ])
+}
+
+describe("png codec", () => {
+  it("should round-trip RGBA pixels", () => {
+    const image = createRGBAImage(5, 3)
+    for (let i = 0; i < image.data.length; i++) {
+      image.data[i] = (i * 37) & 0xFF
+    }
+
+    const decoded = decodePNG(encodePNG(image))
+
+    expect(decoded.width).toBe(5)
+    expect(decoded.height).toBe(3)
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data))
+  })
+
+  it("should decode truecolor scanlines using each filter type", () => {
+    // Two RGB pixels per row: (10, 20, 30) then (40, 60, 80) on every row
+    const png = buildPNG(2, 5, 2, [
+      [0, 10, 20, 30, 40, 60, 80],
+      [1, 10, 20, 30, 30, 40, 50],
+      [2, 0, 0, 0, 0, 0, 0],
+      [3, 5, 10, 15, 15, 20, 25],
+      [4, 0, 0, 0, 0, 0, 0],
+    ])
+
+    const decoded = decodePNG(png)
+
+    for (let y = 0; y < 5; y++) {
+      expect(Array.from(decoded.data.subarray(y * 8, y * 8 + 8))).toEqual([10, 20, 30, 255, 40, 60, 80, 255])
+    }
+  })
+
+  it("should expand grayscale with alpha", () => {
+    const decoded = decodePNG(buildPNG(1, 1, 4, [[0, 128, 64]]))
+
+    expect(Array.from(decoded.data)).toEqual([128, 128, 128, 64])
+  })
+
+  it("should reject data that is not a PNG", () => {
+    expect(() => decodePNG(Buffer.from("not a png"))).toThrow("Invalid PNG signature")
+  })
+})
+
+describe("pasteImage", () => {
+  it("should clip rows and columns to the target", () => {
+    const target = createRGBAImage(2, 3)
+    const source = createRGBAImage(3, 2)
+    source.data.fill(255)
+
+    expect(pasteImage(target, source, 2)).toBe(1)
+    expect(Array.from(target.data.subarray(0, 16)).every(value => value === 0)).toBe(true)
+    expect(Array.from(target.data.subarray(16)).every(value => value === 255)).toBe(true)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * PNG Codec
+ *
+ * Decodes and encodes 8-bit PNG images to and from RGBA pixel buffers.
+ * Decoding covers the non-interlaced images produced by Chrome screenshots.
+ */
+
+import { Buffer } from "node:buffer"
+import { deflateSync, inflateSync } from "node:zlib"
+
+import { crc32 } from "../utils/ZipWriter.js"
+
+import type { RGBAImage } from "./raster.js"
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])
+
+/**
+ * Samples per pixel for each supported PNG color type
+ */
+const CHANNELS: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // Truecolor
+  4: 2, // Grayscale with alpha
+  6: 4, // Truecolor with alpha
+}
+
+/**
+ * Decode a PNG image to RGBA pixels
+ *
+ * @param data - PNG file bytes
+ * @returns Decoded image
+ * @throws Error if the image is not an 8-bit, non-interlaced grayscale or truecolor PNG
+ */
+export function decodePNG(data: Uint8Array): RGBAImage {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Invalid PNG signature")
+  }
+
+  let width = 0
+  let height = 0
+  let channels = 0
+  const compressed: Buffer[] = []
+
+  let offset = 8
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString("latin1", offset + 4, offset + 8)
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length)
+
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0)
+      height = chunk.readUInt32BE(4)
+      const bitDepth = chunk[8]!
+      const colorType = chunk[9]!
+      const interlace = chunk[12]!
+      channels = CHANNELS[colorType] ?? 0
+      if (bitDepth !== 8 || channels === 0 || interlace !== 0) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`)
+      }
+    } else if (type === "IDAT") {
+      compressed.push(chunk)
+    } else if (type === "IEND") {
+      break
+    }
+
+    offset += 12 + length
+  }
+
+  if (width === 0 || height === 0) {
+    throw new Error("PNG image has no header")
+  }
+
+  const raw = inflateSync(Buffer.concat(compressed))
+  const stride = width * channels
+  if (raw.length < (stride + 1) * height) {
+    throw new Error("PNG image data is truncated")
+  }
+
+  const pixels = new Uint8Array(width * height * 4)
+  let previous = new Uint8Array(stride)
+  let current = new Uint8Array(stride)
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1)
+    unfilterRow(raw[rowStart]!, raw.subarray(rowStart + 1, rowStart + 1 + stride), previous, current, channels)
+
+    const target = y * width * 4
+    for (let x = 0; x < width; x++) {
+      const source = x * channels
+      const pixel = target + x * 4
+      if (channels >= 3) {
+        pixels[pixel] = current[source]!
+        pixels[pixel + 1] = current[source + 1]!
+        pixels[pixel + 2] = current[source + 2]!
+        pixels[pixel + 3] = channels === 4 ? current[source + 3]! : 255
+      } else {
+        pixels[pixel] = pixels[pixel + 1] = pixels[pixel + 2] = current[source]!
+        pixels[pixel + 3] = channels === 2 ? current[source + 1]! : 255
+      }
+    }
+
+    [previous, current] = [current, previous]
+  }
+
+  return { width, height, data: pixels }
+}
+
+/**
+ * Encode RGBA pixels as a PNG image
+ *
+ * @param image - Image to encode
+ * @returns PNG file bytes
+ */
+export function encodePNG(image: RGBAImage): Buffer {
+  const stride = image.width * 4
+  const filtered = Buffer.alloc((stride + 1) * image.height)
+
+  // The Up filter compresses screenshots well and is cheap to compute
+  for (let y = 0; y < image.height; y++) {
+    const rowStart = y * (stride + 1)
+    const source = y * stride
+    filtered[rowStart] = y === 0 ? 0 : 2
+    for (let i = 0; i < stride; i++) {
+      const above = y === 0 ? 0 : image.data[source - stride + i]!
+      filtered[rowStart + 1 + i] = (image.data[source + i]! - above) & 0xFF
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(image.width, 0)
+  header.writeUInt32BE(image.height, 4)
+  header[8] = 8 // Bit depth
+  header[9] = 6 // Truecolor with alpha
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk("IHDR", header),
+    createChunk("IDAT", deflateSync(filtered)),
+    createChunk("IEND", Buffer.alloc(0)),
+  ])
+}
+
+/**
+ * Reverse the PNG filter applied to a scanline
+ */
+function unfilterRow(filter: number, row: Uint8Array, previous: Uint8Array, current: Uint8Array, bytesPerPixel: number): void {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bytesPerPixel ? current[i - bytesPerPixel]! : 0
+    const above = previous[i]!
+    const upperLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel]! : 0
+
+    let predictor: number
+    switch (filter) {
+      case 0:
+        predictor = 0
+        break
+      case 1:
+        predictor = left
+        break
+      case 2:
+        predictor = above
+        break
+      case 3:
+        predictor = (left + above) >> 1
+        break
+      case 4: {
+        const estimate = left + above - upperLeft
+        const distanceLeft = Math.abs(estimate - left)
+        const distanceAbove = Math.abs(estimate - above)
+        const distanceUpperLeft = Math.abs(estimate - upperLeft)
+        predictor = distanceLeft <= distanceAbove && distanceLeft <= distanceUpperLeft
+          ? left
+          : distanceAbove <= distanceUpperLeft ? above : upperLeft
+        break
+      }
+      default:
+        throw new Error(`Invalid PNG filter type: ${filter}`)
+    }
+
+    current[i] = (row[i]! + predictor) & 0xFF
+  }
+}
+
+function createChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length)
+  chunk.writeUInt32BE(data.length, 0)
+  chunk.write(type, 4, "latin1")
+  data.copy(chunk, 8)
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length)
+  return chunk
+}
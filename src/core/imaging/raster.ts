@@ -0,0 +1,96 @@
+/**
+ * Raster Images
+ *
+ * In-memory RGBA pixel buffers and the operations used to assemble screenshots.
+ */
+
+/**
+ * Image stored as 8-bit RGBA pixels in row-major order
+ */
+export interface RGBAImage {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+/**
+ * Create a transparent RGBA image
+ *
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns Image with all pixels set to transparent black
+ */
+export function createRGBAImage(width: number, height: number): RGBAImage {
+  return { width, height, data: new Uint8Array(width * height * 4) }
+}
+
+/**
+ * Copy an image into a larger image at the given row and column
+ *
+ * The source is clipped to the bounds of the target.
+ *
+ * @param target - Image to draw into
+ * @param source - Image to copy
+ * @param top - Row of the target where the first source row is placed
+ * @param left - Column of the target where the first source column is placed (default: 0)
+ * @returns Number of rows copied
+ */
+export function pasteImage(target: RGBAImage, source: RGBAImage, top: number, left = 0): number {
+  const rows = Math.max(0, Math.min(source.height, target.height - top))
+  const width = Math.max(0, Math.min(source.width, target.width - left))
+  const sourceStride = source.width * 4
+  const targetStride = target.width * 4
+
+  if (left === 0 && width === target.width && width === source.width) {
+    target.data.set(source.data.subarray(0, rows * sourceStride), top * targetStride)
+    return rows
+  }
+
+  for (let y = 0; y < rows; y++) {
+    const start = y * sourceStride
+    target.data.set(source.data.subarray(start, start + width * 4), (top + y) * targetStride + left * 4)
+  }
+  return rows
+}
+
+/**
+ * Shrink an image by averaging the source pixels covered by each target pixel
+ *
+ * @param source - Image to shrink
+ * @param width - Target width, at most the source width
+ * @param height - Target height, at most the source height
+ * @returns New image of the target size
+ */
+export function downscaleImage(source: RGBAImage, width: number, height: number): RGBAImage {
+  const target = createRGBAImage(Math.max(1, Math.min(width, source.width)), Math.max(1, Math.min(height, source.height)))
+  const ratioX = source.width / target.width
+  const ratioY = source.height / target.height
+
+  for (let y = 0; y < target.height; y++) {
+    const top = Math.floor(y * ratioY)
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * ratioY))
+    for (let x = 0; x < target.width; x++) {
+      const left = Math.floor(x * ratioX)
+      const right = Math.max(left + 1, Math.floor((x + 1) * ratioX))
+      let red = 0
+      let green = 0
+      let blue = 0
+      let alpha = 0
+      for (let sy = top; sy < bottom; sy++) {
+        for (let offset = (sy * source.width + left) * 4, end = (sy * source.width + right) * 4; offset < end; offset += 4) {
+          red += source.data[offset]!
+          green += source.data[offset + 1]!
+          blue += source.data[offset + 2]!
+          alpha += source.data[offset + 3]!
+        }
+      }
+      const count = (bottom - top) * (right - left)
+      const offset = (y * target.width + x) * 4
+      target.data[offset] = Math.round(red / count)
+      target.data[offset + 1] = Math.round(green / count)
+      target.data[offset + 2] = Math.round(blue / count)
+      target.data[offset + 3] = Math.round(alpha / count)
+    }
+  }
+  return target
+}
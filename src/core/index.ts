@@ -35,6 +35,12 @@ export { createErrorHandler, defaultErrorHandler, ErrorHandler, handleError } fr
 export type { ErrorHandlerConfig, ErrorMetrics, ErrorNormalizationResult, ErrorSource } from "./errors/error-handler.js"
 export { defaultRecoveryManager, RecoveryManager } from "./errors/error-recovery.js"
 export type { CircuitBreakerConfig, ContextEnhancementConfig, RateLimiterConfig, RecoveryResult, RecoveryStrategy as RecoveryStrategyType, RetryConfig } from "./errors/error-recovery.js"
+// Imaging exports
+export * from "./imaging/index.js"
+
+// PDF exports
+export * from "./pdf/index.js"
+
 // Performance exports
 export * from "./performance/index.js"
 
@@ -0,0 +1,25 @@
+/**
+ * PDF Module - Post-processing of printed PDF files
+ * Reads Chrome's PDF output, appends incremental updates such as document outlines and metadata, and merges files
+ */
+
+export {
+  createPDFFile,
+  formatPDFDictionary,
+  formatPDFRef,
+  formatPDFTextString,
+  mapPDFRefs,
+  parsePDFArray,
+  parsePDFDictionary,
+  parsePDFRefs,
+  parsePDFTextString,
+  PDFFile,
+  readPDFValue,
+} from "./pdf-file.js"
+export type { PDFObjectRef, PDFUpdateObject } from "./pdf-file.js"
+export { mergePDFs } from "./pdf-merge.js"
+export type { MergedPDF, MergedPDFItem, PDFMergeItem } from "./pdf-merge.js"
+export { createXMPPacket, DEFAULT_PDF_PRODUCER, formatPDFDate, setPDFMetadata } from "./pdf-metadata.js"
+export type { PDFDocumentMetadata } from "./pdf-metadata.js"
+export { addPDFOutline, hasPDFOutline, OUTLINE_DESTINATION_PREFIX, OUTLINE_HEADINGS_SCRIPT } from "./pdf-outline.js"
+export type { PDFOutlineHeading } from "./pdf-outline.js"
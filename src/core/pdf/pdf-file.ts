@@ -0,0 +1,599 @@
+/**
+ * PDF File
+ *
+ * Minimal reader and incremental-update writer for PDF files.
+ * Reads the cross-reference table of the documents Chrome prints and appends
+ * new or replaced objects without rewriting the original bytes.
+ */
+
+import { Buffer } from "node:buffer"
+
+/**
+ * Reference to an indirect object
+ */
+export interface PDFObjectRef {
+  num: number
+  gen: number
+}
+
+/**
+ * Object written in an incremental update
+ */
+export interface PDFUpdateObject {
+  /** Object number (an existing number replaces that object) */
+  num: number
+  /** Object source between "obj" and "endobj" */
+  source: string
+}
+
+/**
+ * Location of an object in the file
+ */
+interface XRefEntry {
+  offset: number
+  gen: number
+}
+
+const WHITESPACE = /[\0\t\n\f\r ]/
+const DELIMITERS = /[\0\t\n\f\r ()<>[\]{}/%]/
+
+/**
+ * Trailer entries describing a cross-reference section rather than the document
+ */
+const SECTION_TRAILER_KEYS = new Set(["Prev", "XRefStm", "Type", "W", "Index", "Filter", "DecodeParms", "Length", "Size"])
+
+/**
+ * Find the end of the PDF value starting at or after a position
+ *
+ * @param source - PDF source text (latin1)
+ * @param start - Position to start reading at
+ * @returns Start and end of the value, or undefined at the end of a container or the source
+ */
+export function readPDFValue(source: string, start: number): { start: number, end: number } | undefined {
+  let pos = skipWhitespace(source, start)
+  if (pos >= source.length) {
+    return undefined
+  }
+
+  const char = source[pos]!
+  const begin = pos
+
+  if (char === "]" || (char === ">" && source[pos + 1] === ">")) {
+    return undefined
+  }
+
+  if (char === "<" && source[pos + 1] === "<") {
+    pos += 2
+    for (let value = readPDFValue(source, pos); value; value = readPDFValue(source, pos)) {
+      pos = value.end
+    }
+    pos = skipWhitespace(source, pos)
+    return { start: begin, end: Math.min(source.length, pos + 2) }
+  }
+
+  if (char === "[") {
+    pos += 1
+    for (let value = readPDFValue(source, pos); value; value = readPDFValue(source, pos)) {
+      pos = value.end
+    }
+    pos = skipWhitespace(source, pos)
+    return { start: begin, end: Math.min(source.length, pos + 1) }
+  }
+
+  if (char === "<") {
+    const close = source.indexOf(">", pos)
+    return { start: begin, end: close < 0 ? source.length : close + 1 }
+  }
+
+  if (char === "(") {
+    let depth = 0
+    for (; pos < source.length; pos++) {
+      const current = source[pos]
+      if (current === "\\") {
+        pos++
+      } else if (current === "(") {
+        depth++
+      } else if (current === ")" && --depth === 0) {
+        return { start: begin, end: pos + 1 }
+      }
+    }
+    return { start: begin, end: source.length }
+  }
+
+  if (char === "/") {
+    pos += 1
+  }
+  while (pos < source.length && !DELIMITERS.test(source[pos]!)) {
+    pos++
+  }
+  if (pos === begin) {
+    // Stray delimiter: skip it so callers always make progress
+    pos++
+  }
+
+  // An indirect reference ("12 0 R") is one value
+  const reference = /^\s+\d+\s+R(?![^\0\t\n\f\r ()<>[\]{}/%])/.exec(source.slice(pos, pos + 24))
+  if (reference && /^\d+$/.test(source.slice(begin, pos))) {
+    pos += reference[0].length
+  }
+
+  return { start: begin, end: pos }
+}
+
+/**
+ * Parse the entries of a PDF dictionary
+ *
+ * @param source - Dictionary source starting with "<<" (leading whitespace allowed)
+ * @returns Raw value source keyed by name without the slash
+ */
+export function parsePDFDictionary(source: string): Map<string, string> {
+  const entries = new Map<string, string>()
+  const start = source.indexOf("<<")
+  if (start < 0) {
+    return entries
+  }
+
+  let pos = start + 2
+  for (let key = readPDFValue(source, pos); key; key = readPDFValue(source, pos)) {
+    const value = readPDFValue(source, key.end)
+    if (!value) {
+      break
+    }
+    entries.set(source.slice(key.start + 1, key.end), source.slice(value.start, value.end))
+    pos = value.end
+  }
+  return entries
+}
+
+/**
+ * Serialize dictionary entries
+ *
+ * @param entries - Raw value source keyed by name without the slash
+ * @returns Dictionary source
+ */
+export function formatPDFDictionary(entries: Map<string, string>): string {
+  return `<<${Array.from(entries, ([key, value]) => `/${key} ${value}`).join(" ")}>>`
+}
+
+/**
+ * Parse the indirect references of a value such as "3 0 R" or "[3 0 R 4 0 R]"
+ *
+ * @param source - Value source
+ * @returns References in order
+ */
+export function parsePDFRefs(source: string): PDFObjectRef[] {
+  return Array.from(source.matchAll(/(\d+)\s+(\d+)\s+R\b/g), match => ({ num: Number(match[1]), gen: Number(match[2]) }))
+}
+
+/**
+ * Format an indirect reference
+ */
+export function formatPDFRef(ref: PDFObjectRef | number): string {
+  return typeof ref === "number" ? `${ref} 0 R` : `${ref.num} ${ref.gen} R`
+}
+
+/**
+ * Split an array source into its element sources
+ *
+ * @param source - Array source starting with "[" (leading whitespace allowed)
+ * @returns Element value sources in order
+ */
+export function parsePDFArray(source: string): string[] {
+  const values: string[] = []
+  const start = source.indexOf("[")
+  if (start < 0) {
+    return values
+  }
+
+  let pos = start + 1
+  for (let value = readPDFValue(source, pos); value; value = readPDFValue(source, pos)) {
+    values.push(source.slice(value.start, value.end))
+    pos = value.end
+  }
+  return values
+}
+
+/**
+ * Replace the indirect references of an object or value source
+ *
+ * Strings, comments and stream data are copied unchanged.
+ *
+ * @param source - Object source (as returned by PDFFile.getObject) or value source
+ * @param replace - Returns the replacement source of a reference
+ * @returns Source with replaced references
+ */
+export function mapPDFRefs(source: string, replace: (ref: PDFObjectRef) => string): string {
+  const value = readPDFValue(source, 0)
+  const end = value?.end ?? source.length
+  const parts: string[] = []
+
+  let copied = 0
+  for (let pos = 0; pos < end;) {
+    const char = source[pos]!
+    if (char === "<" && source[pos + 1] === "<") {
+      pos += 2
+      continue
+    }
+    if (char === "(" || char === "<") {
+      pos = readPDFValue(source, pos)!.end
+      continue
+    }
+    if (char === "%") {
+      pos = skipWhitespace(source, pos)
+      continue
+    }
+
+    const ref = pos === 0 || DELIMITERS.test(source[pos - 1]!)
+      ? /^(\d+)\s+(\d+)\s+R(?![^\0\t\n\f\r ()<>[\]{}/%])/.exec(source.slice(pos, pos + 32))
+      : null
+    if (ref) {
+      parts.push(source.slice(copied, pos), replace({ num: Number(ref[1]), gen: Number(ref[2]) }))
+      pos += ref[0].length
+      copied = pos
+    } else {
+      pos++
+    }
+  }
+
+  parts.push(source.slice(copied))
+  return parts.join("")
+}
+
+/**
+ * Encode text as a PDF text string (UTF-16BE with byte order mark)
+ *
+ * @param text - Text to encode
+ * @returns Hexadecimal string source
+ */
+export function formatPDFTextString(text: string): string {
+  const bytes = Buffer.from(text, "utf16le").swap16()
+  return `<FEFF${bytes.toString("hex").toUpperCase()}>`
+}
+
+/**
+ * Decode a PDF text string
+ *
+ * @param source - Literal or hexadecimal string source
+ * @returns Text (UTF-16BE strings with byte order mark, otherwise PDFDocEncoding read as latin1)
+ */
+export function parsePDFTextString(source: string): string {
+  const value = source.trim()
+  let bytes: Buffer
+  if (value.startsWith("<")) {
+    const hex = value.slice(1, -1).replace(/\s+/g, "")
+    bytes = Buffer.from(hex.length % 2 === 0 ? hex : `${hex}0`, "hex")
+  } else {
+    bytes = Buffer.from(unescapePDFString(value.slice(1, -1)), "latin1")
+  }
+
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return Buffer.from(bytes.subarray(2)).swap16().toString("utf16le")
+  }
+  return bytes.toString("latin1")
+}
+
+/**
+ * Create a complete PDF file
+ *
+ * @param objects - Objects to write
+ * @param trailer - Trailer entries (Size is set from the objects)
+ * @returns PDF file bytes
+ */
+export function createPDFFile(objects: PDFUpdateObject[], trailer: Map<string, string>): Buffer {
+  const parts: string[] = ["%PDF-1.7\n%\xE2\xE3\xCF\xD3\n"]
+  let offset = parts[0]!.length
+  const offsets = new Map<number, number>()
+
+  for (const object of [...objects].sort((a, b) => a.num - b.num)) {
+    const text = `${object.num} 0 obj\n${object.source}\nendobj\n`
+    offsets.set(object.num, offset)
+    parts.push(text)
+    offset += Buffer.byteLength(text, "latin1")
+  }
+
+  // One section from object 0; unused numbers are free entries
+  const size = Math.max(0, ...offsets.keys()) + 1
+  parts.push(`xref\n0 ${size}\n0000000000 65535 f\r\n`)
+  for (let num = 1; num < size; num++) {
+    const entry = offsets.get(num)
+    parts.push(entry === undefined ? "0000000000 00001 f\r\n" : `${String(entry).padStart(10, "0")} 00000 n\r\n`)
+  }
+
+  const entries = new Map(trailer)
+  entries.set("Size", String(size))
+  parts.push(`trailer\n${formatPDFDictionary(entries)}\nstartxref\n${offset}\n%%EOF\n`)
+  return Buffer.from(parts.join(""), "latin1")
+}
+
+/**
+ * Parsed PDF file
+ */
+export class PDFFile {
+  /** Raw file bytes */
+  readonly data: Buffer
+  /** Trailer dictionary entries of the latest cross-reference section */
+  readonly trailer: Map<string, string>
+  /** Offset of the latest cross-reference section */
+  readonly startXRef: number
+
+  private source: string
+  private xref = new Map<number, XRefEntry>()
+
+  private constructor(data: Buffer) {
+    this.data = data
+    this.source = data.toString("latin1")
+
+    const match = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(this.source.slice(-1024))
+    if (!this.source.startsWith("%PDF-") || !match) {
+      throw new Error("Invalid PDF: missing header or startxref")
+    }
+
+    this.startXRef = Number(match[1])
+    this.trailer = this.readXRefSections(this.startXRef)
+    if (!this.trailer.has("Root")) {
+      throw new Error("Invalid PDF: trailer has no document catalog")
+    }
+  }
+
+  /**
+   * Parse a PDF file
+   *
+   * @param data - PDF file bytes
+   * @returns Parsed file
+   * @throws Error if the file has no readable cross-reference table
+   */
+  static parse(data: Uint8Array): PDFFile {
+    return new PDFFile(Buffer.from(data.buffer, data.byteOffset, data.byteLength))
+  }
+
+  /**
+   * Number one greater than the highest object number in use
+   */
+  get size(): number {
+    let size = Number(this.trailer.get("Size") ?? 0)
+    for (const num of this.xref.keys()) {
+      size = Math.max(size, num + 1)
+    }
+    return size
+  }
+
+  /**
+   * Get the document catalog reference
+   */
+  getRootRef(): PDFObjectRef {
+    return parsePDFRefs(this.trailer.get("Root")!)[0]!
+  }
+
+  /**
+   * Get the source of an indirect object
+   *
+   * @param ref - Object reference or number
+   * @returns Source between "obj" and "endobj" (including any stream data)
+   * @throws Error if the object does not exist
+   */
+  getObject(ref: PDFObjectRef | number): string {
+    const num = typeof ref === "number" ? ref : ref.num
+    const entry = this.xref.get(num)
+    if (!entry) {
+      throw new Error(`PDF object ${num} not found`)
+    }
+
+    const header = new RegExp(`^\\s*${num}\\s+${entry.gen}\\s+obj\\b`).exec(this.source.slice(entry.offset, entry.offset + 64))
+    if (!header) {
+      throw new Error(`PDF object ${num} not found at offset ${entry.offset}`)
+    }
+
+    const start = entry.offset + header[0].length
+    const value = readPDFValue(this.source, start)
+    let end = value?.end ?? start
+    const stream = /^\s*stream\r?\n/.exec(this.source.slice(end, end + 16))
+    if (stream) {
+      // Stream data may contain "endstream"; skip over its declared length first
+      const length = Number(this.resolve(parsePDFDictionary(this.source.slice(start, end)).get("Length") ?? ""))
+      const data = end + stream[0].length
+      const declared = this.source.indexOf("endstream", data + (Number.isInteger(length) && length > 0 ? length : 0))
+      const close = declared < 0 ? this.source.indexOf("endstream", data) : declared
+      end = close < 0 ? this.source.length : close + "endstream".length
+    }
+    return this.source.slice(start, end).trim()
+  }
+
+  /**
+   * Get the dictionary of an indirect object (the stream dictionary for streams)
+   *
+   * @param ref - Object reference or number
+   * @returns Dictionary entries
+   */
+  getDictionary(ref: PDFObjectRef | number): Map<string, string> {
+    return parsePDFDictionary(this.getObject(ref))
+  }
+
+  /**
+   * Resolve a dictionary value that may be an indirect reference
+   *
+   * @param value - Value source
+   * @returns Direct value source
+   */
+  resolve(value: string): string {
+    const ref = /^(\d+)\s+\d+\s+R$/.exec(value.trim())
+    return ref ? this.getObject(Number(ref[1])) : value
+  }
+
+  /**
+   * Get the page objects in document order
+   *
+   * @returns Page references
+   */
+  getPageRefs(): PDFObjectRef[] {
+    const pages: PDFObjectRef[] = []
+    const visited = new Set<number>()
+
+    const visit = (ref: PDFObjectRef) => {
+      if (visited.has(ref.num)) {
+        return
+      }
+      visited.add(ref.num)
+
+      const node = this.getDictionary(ref)
+      if (node.get("Type") === "/Pages" || node.has("Kids")) {
+        parsePDFRefs(this.resolve(node.get("Kids") ?? "[]")).forEach(visit)
+      } else {
+        pages.push(ref)
+      }
+    }
+
+    const catalog = this.getDictionary(this.getRootRef())
+    parsePDFRefs(catalog.get("Pages") ?? "").forEach(visit)
+    return pages
+  }
+
+  /**
+   * Append an incremental update with new and replaced objects
+   *
+   * @param objects - Objects to write
+   * @param trailer - Trailer entries to set (a value of undefined removes the entry)
+   * @returns Updated PDF file bytes
+   */
+  appendUpdate(objects: PDFUpdateObject[], trailer: Record<string, string | undefined> = {}): Buffer {
+    const parts: string[] = [this.source.endsWith("\n") ? "" : "\n"]
+    let offset = this.data.length + parts[0]!.length
+    const offsets = new Map<number, { offset: number, gen: number }>()
+
+    for (const object of [...objects].sort((a, b) => a.num - b.num)) {
+      const gen = this.xref.get(object.num)?.gen ?? 0
+      const text = `${object.num} ${gen} obj\n${object.source}\nendobj\n`
+      offsets.set(object.num, { offset, gen })
+      parts.push(text)
+      offset += Buffer.byteLength(text, "latin1")
+    }
+
+    // Consecutive object numbers share a subsection
+    const xref: string[] = ["xref\n"]
+    const nums = Array.from(offsets.keys())
+    for (let i = 0; i < nums.length;) {
+      let j = i
+      while (j + 1 < nums.length && nums[j + 1] === nums[j]! + 1) {
+        j++
+      }
+      xref.push(`${nums[i]} ${j - i + 1}\n`)
+      for (let k = i; k <= j; k++) {
+        const entry = offsets.get(nums[k]!)!
+        xref.push(`${String(entry.offset).padStart(10, "0")} ${String(entry.gen).padStart(5, "0")} n\r\n`)
+      }
+      i = j + 1
+    }
+
+    const entries = new Map(Array.from(this.trailer).filter(([key]) => !SECTION_TRAILER_KEYS.has(key)))
+    entries.set("Size", String(Math.max(this.size, (nums[nums.length - 1] ?? 0) + 1)))
+    entries.set("Prev", String(this.startXRef))
+    for (const [key, value] of Object.entries(trailer)) {
+      if (value === undefined) {
+        entries.delete(key)
+      } else {
+        entries.set(key, value)
+      }
+    }
+
+    parts.push(...xref, `trailer\n${formatPDFDictionary(entries)}\nstartxref\n${offset}\n%%EOF\n`)
+    return Buffer.concat([this.data, Buffer.from(parts.join(""), "latin1")])
+  }
+
+  // Private helper methods
+
+  /**
+   * Read a cross-reference section and the sections it updates
+   *
+   * @returns Trailer of the section at the given offset
+   */
+  private readXRefSections(offset: number): Map<string, string> {
+    let trailer: Map<string, string> | undefined
+    const seen = new Set<number>()
+
+    for (let next: number | undefined = offset; next !== undefined && !seen.has(next);) {
+      seen.add(next)
+      const section = this.readXRefSection(next)
+      trailer ??= section
+      next = section.has("Prev") ? Number(section.get("Prev")) : undefined
+    }
+
+    return trailer!
+  }
+
+  /**
+   * Read one cross-reference table, keeping entries already read from later sections
+   */
+  private readXRefSection(offset: number): Map<string, string> {
+    const table = /^\s*xref\s*/.exec(this.source.slice(offset, offset + 16))
+    if (!table) {
+      throw new Error("Unsupported PDF: cross-reference streams are not supported")
+    }
+
+    let pos = offset + table[0].length
+    const subsection = /(\d+)\s+(\d+)\s*\n/y
+    for (;;) {
+      subsection.lastIndex = pos
+      const header = subsection.exec(this.source)
+      if (!header) {
+        break
+      }
+
+      const first = Number(header[1])
+      const count = Number(header[2])
+      pos = subsection.lastIndex
+      const entry = /\s*(\d{10})\s(\d{5})\s([fn])/y
+      for (let i = 0; i < count; i++) {
+        entry.lastIndex = pos
+        const match = entry.exec(this.source)
+        if (!match) {
+          throw new Error("Invalid PDF: malformed cross-reference table")
+        }
+        pos = entry.lastIndex
+        if (match[3] === "n" && !this.xref.has(first + i)) {
+          this.xref.set(first + i, { offset: Number(match[1]), gen: Number(match[2]) })
+        }
+      }
+      pos = skipWhitespace(this.source, pos)
+    }
+
+    const trailer = /^\s*trailer\s*/.exec(this.source.slice(pos, pos + 32))
+    if (!trailer) {
+      throw new Error("Invalid PDF: missing trailer")
+    }
+    return parsePDFDictionary(this.source.slice(pos + trailer[0].length))
+  }
+}
+
+/**
+ * Skip whitespace and comments
+ */
+function skipWhitespace(source: string, start: number): number {
+  let pos = start
+  while (pos < source.length) {
+    if (WHITESPACE.test(source[pos]!)) {
+      pos++
+    } else if (source[pos] === "%") {
+      while (pos < source.length && source[pos] !== "\n" && source[pos] !== "\r") {
+        pos++
+      }
+    } else {
+      break
+    }
+  }
+  return pos
+}
+
+/**
+ * Resolve the escape sequences of a literal string
+ */
+function unescapePDFString(text: string): string {
+  const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" }
+  return text.replace(/\\(\r\n?|\n|[0-7]{1,3}|.)/g, (_, escape: string) => {
+    if (escape.startsWith("\r") || escape === "\n") {
+      return ""
+    }
+    if (/^[0-7]/.test(escape)) {
+      return String.fromCharCode(Number.parseInt(escape, 8) & 0xFF)
+    }
+    return escapes[escape] ?? escape
+  })
+}
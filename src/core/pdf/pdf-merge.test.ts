@@ -0,0 +1,134 @@
+import { Buffer } from "node:buffer"
+
+import { describe, expect, it } from "vitest"
+
+import { createPDFFile, formatPDFRef, formatPDFTextString, parsePDFArray, parsePDFDictionary, parsePDFTextString, PDFFile } from "./pdf-file.js"
+import { mergePDFs } from "./pdf-merge.js"
+
+const CONTENT = "BT (see 3 0 R) Tj ET"
+
+/**
+ * Build a PDF from object sources numbered from 1
+ */
+function buildPDF(objects: string[], info?: number): Buffer {
+  const trailer = new Map([["Root", "1 0 R"]])
+  if (info) {
+    trailer.set("Info", formatPDFRef(info))
+  }
+  return createPDFFile(objects.map((source, index) => ({ num: index + 1, source })), trailer)
+}
+
+// Two pages inheriting their resources and media box, with a link to a named destination
+const REPORT = buildPDF([
+  "<</Type /Catalog /Pages 2 0 R /Dests 8 0 R>>",
+  "<</Type /Pages /Count 2 /Kids [3 0 R 4 0 R] /MediaBox [0 0 612 792] /Resources 5 0 R>>",
+  "<</Type /Page /Parent 2 0 R /Contents 6 0 R>>",
+  "<</Type /Page /Parent 2 0 R /Contents 6 0 R /Annots [7 0 R]>>",
+  "<</Font <<>>>>",
+  `<</Length ${CONTENT.length}>>\nstream\n${CONTENT}\nendstream`,
+  "<</Type /Annot /Subtype /Link /Rect [0 0 10 10] /Dest /intro>>",
+  "<</intro [3 0 R /XYZ 0 792 0]>>",
+  "<</Title (Report \\(A\\))>>",
+], 9)
+
+const SUMMARY = buildPDF([
+  "<</Type /Catalog /Pages 2 0 R>>",
+  "<</Type /Pages /Count 1 /Kids [3 0 R]>>",
+  "<</Type /Page /Parent 2 0 R /MediaBox [0 0 595 842]>>",
+])
+
+/**
+ * Get the content stream data of a page
+ */
+function getContent(file: PDFFile, page: string): string {
+  const stream = file.resolve(parsePDFDictionary(file.resolve(page)).get("Contents")!)
+  return stream.slice(stream.indexOf("stream\n") + 7, stream.lastIndexOf("\nendstream"))
+}
+
+describe("pdf merge", () => {
+  it("should place the parts in order after the table of contents", () => {
+    const merged = mergePDFs([
+      { pdf: REPORT },
+      { title: "Unreachable", errorCode: "NETWORK_TIMEOUT" },
+      { title: "Summary", pdf: SUMMARY },
+    ])
+
+    expect(merged.pageCount).toBe(4)
+    expect(merged.tocPageCount).toBe(1)
+    expect(merged.items).toEqual([
+      { title: "Report (A)", firstPage: 1, pageCount: 2 },
+      { title: "Unreachable", pageCount: 0, errorCode: "NETWORK_TIMEOUT" },
+      { title: "Summary", firstPage: 3, pageCount: 1 },
+    ])
+  })
+
+  it("should copy pages with their inherited attributes and unchanged content", () => {
+    const file = PDFFile.parse(mergePDFs([{ pdf: REPORT }, { pdf: SUMMARY }]).pdf)
+    const pages = file.getPageRefs().map(ref => formatPDFRef(ref))
+    const second = parsePDFDictionary(file.resolve(pages[2]!))
+
+    expect(pages).toHaveLength(4)
+    expect(second.get("MediaBox")).toBe("[0 0 612 792]")
+    expect(file.resolve(second.get("Resources")!)).toBe("<</Font <<>>>>")
+    expect(second.get("Parent")).toBe(file.getDictionary(file.getRootRef()).get("Pages"))
+    expect(getContent(file, pages[1]!)).toBe(CONTENT)
+    expect(parsePDFDictionary(file.resolve(pages[3]!)).get("MediaBox")).toBe("[0 0 595 842]")
+  })
+
+  it("should point links to named destinations at the copied pages", () => {
+    const file = PDFFile.parse(mergePDFs([{ pdf: REPORT }]).pdf)
+    const pages = file.getPageRefs().map(ref => formatPDFRef(ref))
+    const [link] = parsePDFArray(parsePDFDictionary(file.resolve(pages[2]!)).get("Annots")!)
+
+    expect(parsePDFDictionary(file.resolve(link!)).get("Dest")).toBe(`[${pages[1]} /XYZ 0 792 0]`)
+  })
+
+  it("should link the table of contents to the first page of every part", () => {
+    const file = PDFFile.parse(mergePDFs([
+      { pdf: REPORT },
+      { title: "Unreachable", errorCode: "NETWORK_TIMEOUT" },
+      { title: "Summary", pdf: SUMMARY },
+    ]).pdf)
+    const pages = file.getPageRefs().map(ref => formatPDFRef(ref))
+    const toc = parsePDFDictionary(file.resolve(pages[0]!))
+    const links = parsePDFArray(toc.get("Annots")!).map(link => parsePDFDictionary(file.resolve(link)).get("Dest"))
+    const content = getContent(file, pages[0]!)
+
+    expect(toc.get("MediaBox")).toBe("[0 0 612 792]")
+    expect(links).toEqual([`[${pages[1]} /Fit]`, `[${pages[3]} /Fit]`])
+    expect(content).toContain("(Contents) Tj")
+    expect(content).toContain("(Report \\(A\\)) Tj")
+    expect(content).toContain("(Failed: NETWORK_TIMEOUT) Tj")
+    expect(content).toContain("(3) Tj")
+  })
+
+  it("should add bookmarks, page labels and document information", () => {
+    const file = PDFFile.parse(mergePDFs([{ pdf: REPORT }, { title: "Summary", pdf: SUMMARY }]).pdf)
+    const pages = file.getPageRefs().map(ref => formatPDFRef(ref))
+    const catalog = file.getDictionary(file.getRootRef())
+    const outlines = parsePDFDictionary(file.resolve(catalog.get("Outlines")!))
+    const last = parsePDFDictionary(file.resolve(outlines.get("Last")!))
+
+    expect(catalog.get("PageLabels")).toBe("<</Nums [0 <</S /r>> 1 <</S /D>>]>>")
+    expect(outlines.get("Count")).toBe("2")
+    expect(last.get("Title")).toBe(formatPDFTextString("Summary"))
+    expect(last.get("Dest")).toBe(`[${pages[3]} /Fit]`)
+    expect(parsePDFTextString(file.getDictionary(Number(file.trailer.get("Info")!.split(" ")[0])).get("Producer")!)).toBe("html-converter-cdt")
+  })
+
+  it("should list unreadable PDFs as failed", () => {
+    const merged = mergePDFs([{ title: "Broken", pdf: Buffer.from("not a pdf") }])
+
+    expect(merged.items).toEqual([{ title: "Broken", pageCount: 0, errorCode: "CONVERSION_CORRUPTED" }])
+    expect(merged.pageCount).toBe(1)
+  })
+
+  it("should continue the table of contents on further pages", () => {
+    const items = Array.from({ length: 60 }, (_, index) => ({ title: `Part ${index + 1}`, pdf: SUMMARY }))
+    const merged = mergePDFs(items)
+
+    expect(merged.tocPageCount).toBe(2)
+    expect(merged.pageCount).toBe(62)
+    expect(merged.items[59]!.firstPage).toBe(60)
+  })
+})
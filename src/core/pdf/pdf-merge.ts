@@ -0,0 +1,601 @@
+/**
+ * PDF Merge
+ *
+ * Combines printed PDF files into one document that starts with a generated
+ * table of contents, with a bookmark for every part and page labels numbering
+ * the combined pages continuously.
+ */
+
+import type { Buffer } from "node:buffer"
+
+import { ErrorCode } from "../errors/conversion-error.js"
+
+import {
+  createPDFFile,
+  formatPDFDictionary,
+  formatPDFRef,
+  formatPDFTextString,
+  mapPDFRefs,
+  parsePDFArray,
+  parsePDFDictionary,
+  parsePDFTextString,
+  PDFFile,
+} from "./pdf-file.js"
+import type { PDFObjectRef, PDFUpdateObject } from "./pdf-file.js"
+import { DEFAULT_PDF_PRODUCER, formatPDFDate } from "./pdf-metadata.js"
+
+/**
+ * Part of a combined PDF
+ */
+export interface PDFMergeItem {
+  /** Title listed in the table of contents (default: the title of the PDF) */
+  title?: string
+  /** PDF file of a successful conversion */
+  pdf?: Uint8Array
+  /** Error code of a failed conversion, listed instead of a page number */
+  errorCode?: string
+}
+
+/**
+ * Part of a combined PDF as placed in the document
+ */
+export interface MergedPDFItem {
+  /** Title listed in the table of contents */
+  title: string
+  /** Page number of the first page, counting from the first page after the table of contents */
+  firstPage?: number
+  /** Number of pages */
+  pageCount: number
+  /** Error code of a failed part */
+  errorCode?: string
+}
+
+/**
+ * Combined PDF
+ */
+export interface MergedPDF {
+  /** PDF file bytes */
+  pdf: Buffer
+  /** Total number of pages including the table of contents */
+  pageCount: number
+  /** Number of table of contents pages */
+  tocPageCount: number
+  /** Parts in order */
+  items: MergedPDFItem[]
+}
+
+/**
+ * Heading of the table of contents
+ */
+const TOC_TITLE = "Contents"
+
+/**
+ * Table of contents page size in points when no part has pages (A4)
+ */
+const DEFAULT_PAGE_SIZE = { width: 595.28, height: 841.89 }
+
+/**
+ * Table of contents layout in points
+ */
+const TOC_MARGIN = 56
+const TOC_TITLE_SIZE = 20
+const TOC_FONT_SIZE = 11
+const TOC_LINE_HEIGHT = 20
+
+/**
+ * Page attributes inherited from the page tree
+ */
+const INHERITED_PAGE_ATTRIBUTES = ["Resources", "MediaBox", "CropBox", "Rotate"]
+
+/**
+ * Helvetica glyph widths (1/1000 em) of the printable ASCII characters, from space (32) to tilde (126)
+ */
+const HELVETICA_WIDTHS = [
+  "278 278 355 556 556 889 667 191 333 333 389 584 278 333 278 278",
+  "556 556 556 556 556 556 556 556 556 556 278 278 584 584 584 556",
+  "1015 667 667 722 722 667 611 778 722 278 500 667 556 833 722 778",
+  "667 778 722 667 611 722 667 944 667 667 611 278 278 278 469 556",
+  "333 556 556 500 556 556 278 556 556 222 222 500 222 833 556 556",
+  "556 556 333 500 278 556 500 722 500 500 500 334 260 334 584",
+].join(" ").split(" ").map(Number)
+
+/**
+ * WinAnsiEncoding bytes of the characters outside latin1 used in titles
+ */
+const WIN_ANSI_CHARACTERS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+}
+
+/**
+ * Combine PDF files into one document
+ *
+ * The combined document starts with a table of contents listing every part in
+ * order with the number of its first page, linked to that page; failed parts
+ * are listed with their error code. Each part gets a bookmark, and page labels
+ * number the table of contents in roman numerals and the parts from 1.
+ *
+ * @param items - Parts in order
+ * @returns Combined PDF
+ * @throws Error if no part is given
+ */
+export function mergePDFs(items: PDFMergeItem[]): MergedPDF {
+  if (items.length === 0) {
+    throw new Error("No PDF files to merge")
+  }
+
+  const objects: PDFUpdateObject[] = []
+  let next = 1
+  const allocate = () => next++
+  const catalogNum = allocate()
+  const pagesNum = allocate()
+
+  // Copy the pages of every part, keeping failed and unreadable parts for the table of contents
+  const placed: Array<MergedPDFItem & { pages: number[] }> = []
+  const contentPages: number[] = []
+  let pageSize: { width: number, height: number } | undefined
+  items.forEach((item, index) => {
+    let errorCode = item.errorCode
+    let copy: CopiedDocument | undefined
+    if (!errorCode && item.pdf) {
+      try {
+        copy = copyDocument(PDFFile.parse(item.pdf), allocate, formatPDFRef(pagesNum))
+        objects.push(...copy.objects)
+      } catch {
+        errorCode = ErrorCode.CONVERSION_CORRUPTED
+      }
+    }
+
+    const title = normalizeTitle(item.title) || normalizeTitle(copy?.title) || `Document ${index + 1}`
+    if (!copy || copy.pages.length === 0) {
+      placed.push({ title, pageCount: 0, errorCode: errorCode ?? ErrorCode.CONVERSION_FAILED, pages: [] })
+      return
+    }
+
+    pageSize ??= copy.pageSize
+    placed.push({ title, firstPage: contentPages.length + 1, pageCount: copy.pages.length, pages: copy.pages })
+    contentPages.push(...copy.pages)
+  })
+
+  const tocPages = writeTableOfContents(placed, pageSize ?? DEFAULT_PAGE_SIZE, allocate, objects, formatPDFRef(pagesNum))
+  const outlinesNum = writeOutline(placed, allocate, objects)
+  const infoNum = allocate()
+
+  objects.push({
+    num: pagesNum,
+    source: formatPDFDictionary(new Map([
+      ["Type", "/Pages"],
+      ["Kids", `[${[...tocPages, ...contentPages].map(num => formatPDFRef(num)).join(" ")}]`],
+      ["Count", String(tocPages.length + contentPages.length)],
+    ])),
+  })
+  objects.push({
+    num: catalogNum,
+    source: formatPDFDictionary(new Map([
+      ["Type", "/Catalog"],
+      ["Pages", formatPDFRef(pagesNum)],
+      ["Outlines", formatPDFRef(outlinesNum)],
+      ["PageMode", "/UseOutlines"],
+      ["PageLabels", `<</Nums [0 <</S /r>> ${tocPages.length} <</S /D>>]>>`],
+    ])),
+  })
+  objects.push({
+    num: infoNum,
+    source: formatPDFDictionary(new Map([
+      ["Producer", formatPDFTextString(DEFAULT_PDF_PRODUCER)],
+      ["CreationDate", `(${formatPDFDate(new Date())})`],
+    ])),
+  })
+
+  return {
+    pdf: createPDFFile(objects, new Map([["Root", formatPDFRef(catalogNum)], ["Info", formatPDFRef(infoNum)]])),
+    pageCount: tocPages.length + contentPages.length,
+    tocPageCount: tocPages.length,
+    items: placed.map(({ pages: _pages, ...item }) => item),
+  }
+}
+
+// Private helper functions
+
+/**
+ * Pages copied from a part
+ */
+interface CopiedDocument {
+  /** Copied objects */
+  objects: PDFUpdateObject[]
+  /** New object numbers of the pages in order */
+  pages: number[]
+  /** Size of the first page in points */
+  pageSize?: { width: number, height: number }
+  /** Document title from the information dictionary */
+  title?: string
+}
+
+/**
+ * Copy the pages of a document and every object they use under new object numbers
+ *
+ * Page tree nodes and the catalog are not copied; pages get the new page tree
+ * as parent, and links to named destinations are replaced by the destinations.
+ */
+function copyDocument(file: PDFFile, allocate: () => number, parentRef: string): CopiedDocument {
+  const objects: PDFUpdateObject[] = []
+  const pageRefs = file.getPageRefs()
+  const pageNums = new Set(pageRefs.map(ref => ref.num))
+  const destinations = collectDestinations(file)
+  const mapping = new Map<number, number>()
+  const queue: number[] = []
+
+  const map = (ref: PDFObjectRef): string => {
+    let num = mapping.get(ref.num)
+    if (num === undefined) {
+      if (!isCopied(file, ref.num)) {
+        return "null"
+      }
+      num = allocate()
+      mapping.set(ref.num, num)
+      queue.push(ref.num)
+    }
+    return formatPDFRef(num)
+  }
+
+  const pages = pageRefs.map((ref) => {
+    map(ref)
+    return mapping.get(ref.num)!
+  })
+
+  for (let index = 0; index < queue.length; index++) {
+    const num = queue[index]!
+    let source = file.getObject(num)
+
+    if (pageNums.has(num)) {
+      const entries = parsePDFDictionary(mapPDFRefs(formatPDFDictionary(getPageEntries(file, num)), map))
+      entries.set("Parent", parentRef)
+      source = formatPDFDictionary(entries)
+    } else {
+      const entries = source.startsWith("<<") ? parsePDFDictionary(source) : undefined
+      if (entries?.get("Subtype") === "/Link" && !source.endsWith("endstream") && resolveLinkDestination(entries, destinations)) {
+        source = formatPDFDictionary(entries)
+      }
+      source = mapPDFRefs(source, map)
+    }
+
+    objects.push({ num: mapping.get(num)!, source })
+  }
+
+  const info = file.trailer.get("Info")
+  const title = info ? parsePDFDictionary(file.resolve(info)).get("Title") : undefined
+  const firstPage = pageRefs.length > 0 ? getPageEntries(file, pageRefs[0]!.num).get("MediaBox") : undefined
+  const mediaBox = firstPage ? parseNumbers(file.resolve(firstPage)) : []
+
+  return {
+    objects,
+    pages,
+    pageSize: mediaBox.length === 4 ? { width: mediaBox[2]! - mediaBox[0]!, height: mediaBox[3]! - mediaBox[1]! } : undefined,
+    title: title ? parsePDFTextString(title) : undefined,
+  }
+}
+
+/**
+ * Check whether an object is copied with the pages (page tree nodes and the catalog are not)
+ */
+function isCopied(file: PDFFile, num: number): boolean {
+  try {
+    const type = file.getDictionary(num).get("Type")
+    return type !== "/Pages" && type !== "/Catalog"
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the entries of a page with inherited attributes and without its parent
+ */
+function getPageEntries(file: PDFFile, num: number): Map<string, string> {
+  const entries = file.getDictionary(num)
+  const visited = new Set<number>([num])
+
+  for (let parent = entries.get("Parent"); parent;) {
+    const ref = /^(\d+)\s+\d+\s+R$/.exec(parent.trim())
+    if (!ref || visited.has(Number(ref[1]))) {
+      break
+    }
+    visited.add(Number(ref[1]))
+
+    const node = file.getDictionary(Number(ref[1]))
+    for (const key of INHERITED_PAGE_ATTRIBUTES) {
+      if (!entries.has(key) && node.has(key)) {
+        entries.set(key, node.get(key)!)
+      }
+    }
+    parent = node.get("Parent")
+  }
+
+  entries.delete("Parent")
+  return entries
+}
+
+/**
+ * Collect the named destinations of a document
+ *
+ * @returns Destination array source keyed by destination name
+ */
+function collectDestinations(file: PDFFile): Map<string, string> {
+  const destinations = new Map<string, string>()
+  const catalog = file.getDictionary(file.getRootRef())
+
+  const add = (name: string, value: string) => {
+    let destination = file.resolve(value).trim()
+    if (destination.startsWith("<<")) {
+      destination = file.resolve(parsePDFDictionary(destination).get("D") ?? "").trim()
+    }
+    if (destination.startsWith("[")) {
+      destinations.set(name, destination)
+    }
+  }
+
+  try {
+    // PDF 1.1 destinations dictionary, keyed by name
+    const dests = catalog.get("Dests")
+    if (dests) {
+      for (const [name, value] of parsePDFDictionary(file.resolve(dests))) {
+        add(name, value)
+      }
+    }
+
+    // Destinations name tree, keyed by string
+    const names = catalog.get("Names")
+    const tree = names ? parsePDFDictionary(file.resolve(names)).get("Dests") : undefined
+    const visited = new Set<string>()
+    const visit = (node: string) => {
+      if (visited.has(node)) {
+        return
+      }
+      visited.add(node)
+
+      const entries = parsePDFDictionary(file.resolve(node))
+      const values = parsePDFArray(file.resolve(entries.get("Names") ?? "[]"))
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        add(parsePDFTextString(values[i]!), values[i + 1]!)
+      }
+      parsePDFArray(file.resolve(entries.get("Kids") ?? "[]")).forEach(visit)
+    }
+    if (tree) {
+      visit(tree)
+    }
+  } catch {
+    // Links to unreadable destinations stay unresolved
+  }
+
+  return destinations
+}
+
+/**
+ * Replace the named destination of a link annotation by the destination itself
+ *
+ * @returns True if the entries were changed
+ */
+function resolveLinkDestination(entries: Map<string, string>, destinations: Map<string, string>): boolean {
+  const resolve = (value: string | undefined) => {
+    const name = value?.trim()
+    if (!name || name.startsWith("[") || /\sR$/.test(name)) {
+      return undefined
+    }
+    return destinations.get(name.startsWith("/") ? name.slice(1) : parsePDFTextString(name))
+  }
+
+  const destination = resolve(entries.get("Dest"))
+  if (destination) {
+    entries.set("Dest", destination)
+    return true
+  }
+
+  const action = entries.get("A")?.trim()
+  if (action?.startsWith("<<")) {
+    const entriesOfAction = parsePDFDictionary(action)
+    const target = entriesOfAction.get("S") === "/GoTo" ? resolve(entriesOfAction.get("D")) : undefined
+    if (target) {
+      entriesOfAction.set("D", target)
+      entries.set("A", formatPDFDictionary(entriesOfAction))
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Write the table of contents pages
+ *
+ * @returns Object numbers of the pages
+ */
+function writeTableOfContents(
+  items: Array<MergedPDFItem & { pages: number[] }>,
+  size: { width: number, height: number },
+  allocate: () => number,
+  objects: PDFUpdateObject[],
+  parentRef: string,
+): number[] {
+  const regularFont = allocate()
+  const boldFont = allocate()
+  objects.push(
+    { num: regularFont, source: "<</Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding>>" },
+    { num: boldFont, source: "<</Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding>>" },
+  )
+  const resources = `<</Font <</F1 ${formatPDFRef(regularFont)} /F2 ${formatPDFRef(boldFont)}>>>>`
+
+  const top = size.height - TOC_MARGIN
+  const firstCapacity = Math.max(1, Math.floor((top - TOC_MARGIN - TOC_TITLE_SIZE * 2) / TOC_LINE_HEIGHT))
+  const capacity = Math.max(1, Math.floor((top - TOC_MARGIN) / TOC_LINE_HEIGHT))
+  const right = size.width - TOC_MARGIN
+
+  const pages: number[] = []
+  for (let start = 0; start === 0 || start < items.length;) {
+    const count = pages.length === 0 ? firstCapacity : capacity
+    const operators: string[] = []
+    const annotations: number[] = []
+    let y = top - TOC_FONT_SIZE
+
+    if (pages.length === 0) {
+      operators.push(`BT /F2 ${TOC_TITLE_SIZE} Tf ${TOC_MARGIN} ${formatNumber(top - TOC_TITLE_SIZE)} Td (${escapeText(encodeWinAnsi(TOC_TITLE))}) Tj ET`)
+      y -= TOC_TITLE_SIZE * 2
+    }
+
+    for (const item of items.slice(start, start + count)) {
+      const label = encodeWinAnsi(item.errorCode ? `Failed: ${item.errorCode}` : String(item.firstPage))
+      const labelWidth = measureText(label, TOC_FONT_SIZE)
+      const title = truncateText(encodeWinAnsi(item.title), right - TOC_MARGIN - labelWidth - TOC_FONT_SIZE)
+
+      operators.push(
+        item.errorCode ? "0.45 g" : "0 g",
+        `BT /F1 ${TOC_FONT_SIZE} Tf ${TOC_MARGIN} ${formatNumber(y)} Td (${escapeText(title)}) Tj ET`,
+        `BT /F1 ${TOC_FONT_SIZE} Tf ${formatNumber(right - labelWidth)} ${formatNumber(y)} Td (${escapeText(label)}) Tj ET`,
+      )
+
+      if (item.pages.length > 0) {
+        const annotation = allocate()
+        const rect = [TOC_MARGIN, y - 4, right, y + TOC_FONT_SIZE + 2].map(formatNumber).join(" ")
+        objects.push({
+          num: annotation,
+          source: `<</Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] /Dest [${formatPDFRef(item.pages[0]!)} /Fit]>>`,
+        })
+        annotations.push(annotation)
+      }
+      y -= TOC_LINE_HEIGHT
+    }
+
+    const content = operators.join("\n")
+    const contentNum = allocate()
+    objects.push({ num: contentNum, source: `<</Length ${content.length}>>\nstream\n${content}\nendstream` })
+
+    const page = allocate()
+    const entries = new Map([
+      ["Type", "/Page"],
+      ["Parent", parentRef],
+      ["MediaBox", `[0 0 ${formatNumber(size.width)} ${formatNumber(size.height)}]`],
+      ["Resources", resources],
+      ["Contents", formatPDFRef(contentNum)],
+    ])
+    if (annotations.length > 0) {
+      entries.set("Annots", `[${annotations.map(num => formatPDFRef(num)).join(" ")}]`)
+    }
+    objects.push({ num: page, source: formatPDFDictionary(entries) })
+    pages.push(page)
+    start += count
+  }
+
+  return pages
+}
+
+/**
+ * Write the outline with a bookmark at the first page of every part
+ *
+ * @returns Object number of the outline dictionary
+ */
+function writeOutline(items: Array<MergedPDFItem & { pages: number[] }>, allocate: () => number, objects: PDFUpdateObject[]): number {
+  const root = allocate()
+  const bookmarks = items.filter(item => item.pages.length > 0).map(item => ({ item, num: allocate() }))
+
+  bookmarks.forEach(({ item, num }, index) => {
+    const entries = new Map([
+      ["Title", formatPDFTextString(item.title)],
+      ["Parent", formatPDFRef(root)],
+      ["Dest", `[${formatPDFRef(item.pages[0]!)} /Fit]`],
+    ])
+    if (index > 0) {
+      entries.set("Prev", formatPDFRef(bookmarks[index - 1]!.num))
+    }
+    if (index < bookmarks.length - 1) {
+      entries.set("Next", formatPDFRef(bookmarks[index + 1]!.num))
+    }
+    objects.push({ num, source: formatPDFDictionary(entries) })
+  })
+
+  const outlines = new Map([["Type", "/Outlines"]])
+  if (bookmarks.length > 0) {
+    outlines.set("First", formatPDFRef(bookmarks[0]!.num))
+    outlines.set("Last", formatPDFRef(bookmarks[bookmarks.length - 1]!.num))
+    outlines.set("Count", String(bookmarks.length))
+  }
+  objects.push({ num: root, source: formatPDFDictionary(outlines) })
+
+  return root
+}
+
+/**
+ * Collapse whitespace in a title
+ */
+function normalizeTitle(title: string | undefined): string | undefined {
+  return title?.replace(/\s+/g, " ").trim() || undefined
+}
+
+/**
+ * Encode text in WinAnsiEncoding, replacing characters it cannot represent
+ *
+ * @returns Encoded bytes as a latin1 string
+ */
+function encodeWinAnsi(text: string): string {
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0)!
+    if (WIN_ANSI_CHARACTERS[char] !== undefined) {
+      return String.fromCharCode(WIN_ANSI_CHARACTERS[char])
+    }
+    return code < 0x80 || (code >= 0xA0 && code <= 0xFF) ? char : "?"
+  }).join("")
+}
+
+/**
+ * Measure encoded text set in Helvetica
+ *
+ * @returns Width in points
+ */
+function measureText(text: string, fontSize: number): number {
+  let width = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    width += code === 0x85 || code === 0x97 ? 1000 : HELVETICA_WIDTHS[code - 32] ?? 556
+  }
+  return width * fontSize / 1000
+}
+
+/**
+ * Shorten encoded text to a width, ending it with an ellipsis
+ */
+function truncateText(text: string, maxWidth: number): string {
+  if (measureText(text, TOC_FONT_SIZE) <= maxWidth) {
+    return text
+  }
+
+  let end = text.length
+  while (end > 0 && measureText(`${text.slice(0, end)}\x85`, TOC_FONT_SIZE) > maxWidth) {
+    end--
+  }
+  return `${text.slice(0, end).trimEnd()}\x85`
+}
+
+/**
+ * Escape encoded text for a literal string
+ */
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, char => `\\${char}`)
+}
+
+/**
+ * Format a coordinate with at most two decimals
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/**
+ * Parse the numbers of an array source such as a rectangle
+ */
+function parseNumbers(source: string): number[] {
+  return parsePDFArray(source).map(Number).filter(Number.isFinite)
+}
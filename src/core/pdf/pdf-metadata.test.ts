@@ -0,0 +1,94 @@
+import { Buffer } from "node:buffer"
+
+import { describe, expect, it } from "vitest"
+
+import { createPDFFile, formatPDFRef, formatPDFTextString, parsePDFDictionary, PDFFile } from "./pdf-file.js"
+import { createXMPPacket, formatPDFDate, setPDFMetadata } from "./pdf-metadata.js"
+import type { PDFDocumentMetadata } from "./pdf-metadata.js"
+
+/**
+ * Build a PDF from object sources numbered from 1
+ */
+function buildPDF(objects: string[], info?: number): Buffer {
+  const trailer = new Map([["Root", "1 0 R"]])
+  if (info) {
+    trailer.set("Info", formatPDFRef(info))
+  }
+  return createPDFFile(objects.map((source, index) => ({ num: index + 1, source })), trailer)
+}
+
+const createPDF = (): Buffer => buildPDF([
+  "<</Type /Catalog /Pages 2 0 R>>",
+  "<</Type /Pages /Count 1 /Kids [3 0 R]>>",
+  "<</Type /Page /Parent 2 0 R /MediaBox [0 0 612 792]>>",
+  "<</Creator (Chromium) /Producer (Skia/PDF m120) /CreationDate (D:20240101000000+00'00')>>",
+], 4)
+
+const METADATA: PDFDocumentMetadata = {
+  title: "Quarterly <Report>",
+  subject: "Résumé of the quarter",
+  author: "Finance",
+  keywords: ["finance", " report ", ""],
+  source: "https://example.com/report?a=1&b=2",
+  creationDate: new Date("2026-03-04T05:06:07.890Z"),
+  modificationDate: new Date("2026-03-04T05:06:09Z"),
+}
+
+describe("pdf metadata", () => {
+  it("should format dates in the PDF date form", () => {
+    expect(formatPDFDate(new Date("2026-03-04T05:06:07.890Z"))).toBe("D:20260304050607Z")
+  })
+
+  it("should update the information dictionary and keep other entries", () => {
+    const file = PDFFile.parse(setPDFMetadata(createPDF(), METADATA))
+    const info = parsePDFDictionary(file.resolve(file.trailer.get("Info")!))
+
+    expect(file.trailer.get("Info")).toBe("4 0 R")
+    expect(info.get("Title")).toBe(formatPDFTextString("Quarterly <Report>"))
+    expect(info.get("Keywords")).toBe(formatPDFTextString("finance, report"))
+    expect(info.get("Producer")).toBe(formatPDFTextString("html-converter-cdt"))
+    expect(info.get("Creator")).toBe("(Chromium)")
+    expect(info.get("CreationDate")).toBe("(D:20260304050607Z)")
+    expect(info.get("ModDate")).toBe("(D:20260304050609Z)")
+  })
+
+  it("should reference an XMP metadata stream from the catalog", () => {
+    const file = PDFFile.parse(setPDFMetadata(createPDF(), METADATA))
+    const catalog = file.getDictionary(file.getRootRef())
+    const stream = file.resolve(catalog.get("Metadata")!)
+    const dictionary = parsePDFDictionary(stream)
+    const data = Buffer.from(stream.slice(stream.indexOf("stream\n") + 7, stream.lastIndexOf("\nendstream")), "latin1")
+
+    expect(catalog.get("Pages")).toBe("2 0 R")
+    expect(dictionary.get("Subtype")).toBe("/XML")
+    expect(Number(dictionary.get("Length"))).toBe(data.length)
+    expect(data.toString("utf8")).toContain("<dc:description><rdf:Alt><rdf:li xml:lang=\"x-default\">Résumé of the quarter</rdf:li></rdf:Alt></dc:description>")
+  })
+
+  it("should add an information dictionary when the PDF has none", () => {
+    const pdf = buildPDF([
+      "<</Type /Catalog /Pages 2 0 R>>",
+      "<</Type /Pages /Count 0 /Kids []>>",
+    ])
+    const file = PDFFile.parse(setPDFMetadata(pdf, { title: "Title" }))
+    const info = parsePDFDictionary(file.resolve(file.trailer.get("Info")!))
+
+    expect(file.trailer.get("Info")).toBe("3 0 R")
+    expect(file.getDictionary(file.getRootRef()).get("Metadata")).toBe("4 0 R")
+    expect(file.trailer.get("Size")).toBe("5")
+    expect(info.has("Title")).toBe(true)
+  })
+
+  it("should escape XMP values and describe every field", () => {
+    const xmp = createXMPPacket(METADATA)
+
+    expect(xmp.startsWith("<?xpacket begin=\"\uFEFF\"")).toBe(true)
+    expect(xmp).toContain("<rdf:li xml:lang=\"x-default\">Quarterly &lt;Report&gt;</rdf:li>")
+    expect(xmp).toContain("<dc:creator><rdf:Seq><rdf:li>Finance</rdf:li></rdf:Seq></dc:creator>")
+    expect(xmp).toContain("<dc:subject><rdf:Bag><rdf:li>finance</rdf:li><rdf:li>report</rdf:li></rdf:Bag></dc:subject>")
+    expect(xmp).toContain("<dc:source>https://example.com/report?a=1&amp;b=2</dc:source>")
+    expect(xmp).toContain("<xmp:CreateDate>2026-03-04T05:06:07Z</xmp:CreateDate>")
+    expect(xmp).toContain("<pdf:Producer>html-converter-cdt</pdf:Producer>")
+    expect(xmp.endsWith("<?xpacket end=\"w\"?>")).toBe(true)
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * PDF Metadata
+ *
+ * Sets the document information dictionary and the XMP metadata stream of a
+ * printed PDF, replacing the producer and empty fields Chrome writes.
+ */
+
+import { Buffer } from "node:buffer"
+
+import { formatPDFDictionary, formatPDFRef, formatPDFTextString, parsePDFRefs, PDFFile } from "./pdf-file.js"
+import type { PDFUpdateObject } from "./pdf-file.js"
+
+/**
+ * Document metadata written into a PDF
+ */
+export interface PDFDocumentMetadata {
+  /** Document title */
+  title?: string
+  /** Document author */
+  author?: string
+  /** Document subject or description */
+  subject?: string
+  /** Keywords */
+  keywords?: string[]
+  /** Application that created the original content */
+  creator?: string
+  /** Application that produced the PDF */
+  producer?: string
+  /** URL of the source document */
+  source?: string
+  /** Creation date (the capture time of the source document) */
+  creationDate?: Date
+  /** Last modification date */
+  modificationDate?: Date
+}
+
+/**
+ * Producer written when none is given
+ */
+export const DEFAULT_PDF_PRODUCER = "html-converter-cdt"
+
+/**
+ * Format a date as a PDF date string
+ *
+ * @param date - Date to format
+ * @returns Date in the D:YYYYMMDDHHmmSSZ form (UTC)
+ */
+export function formatPDFDate(date: Date): string {
+  return `D:${formatXMPDate(date).replace(/[-:T]/g, "")}`
+}
+
+/**
+ * Create an XMP metadata packet
+ *
+ * Uses the Dublin Core, XMP basic and Adobe PDF schemas, mirroring the
+ * entries of the document information dictionary.
+ *
+ * @param metadata - Document metadata
+ * @returns XMP packet (XML text)
+ */
+export function createXMPPacket(metadata: PDFDocumentMetadata): string {
+  const properties: string[] = ["<dc:format>application/pdf</dc:format>"]
+  const keywords = getKeywords(metadata)
+
+  if (metadata.title) {
+    properties.push(`<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(metadata.title)}</rdf:li></rdf:Alt></dc:title>`)
+  }
+  if (metadata.author) {
+    properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXML(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`)
+  }
+  if (metadata.subject) {
+    properties.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(metadata.subject)}</rdf:li></rdf:Alt></dc:description>`)
+  }
+  if (keywords.length > 0) {
+    properties.push(`<dc:subject><rdf:Bag>${keywords.map(keyword => `<rdf:li>${escapeXML(keyword)}</rdf:li>`).join("")}</rdf:Bag></dc:subject>`)
+    properties.push(`<pdf:Keywords>${escapeXML(keywords.join(", "))}</pdf:Keywords>`)
+  }
+  if (metadata.source) {
+    properties.push(`<dc:source>${escapeXML(metadata.source)}</dc:source>`)
+  }
+  properties.push(`<pdf:Producer>${escapeXML(metadata.producer || DEFAULT_PDF_PRODUCER)}</pdf:Producer>`)
+  if (metadata.creator) {
+    properties.push(`<xmp:CreatorTool>${escapeXML(metadata.creator)}</xmp:CreatorTool>`)
+  }
+  if (metadata.creationDate) {
+    properties.push(`<xmp:CreateDate>${formatXMPDate(metadata.creationDate)}</xmp:CreateDate>`)
+  }
+  if (metadata.modificationDate) {
+    properties.push(`<xmp:ModifyDate>${formatXMPDate(metadata.modificationDate)}</xmp:ModifyDate>`)
+    properties.push(`<xmp:MetadataDate>${formatXMPDate(metadata.modificationDate)}</xmp:MetadataDate>`)
+  }
+
+  return [
+    "<?xpacket begin=\"\uFEFF\" id=\"W5M0MpCehiHzreSzNTczkc9d\"?>",
+    "<x:xmpmeta xmlns:x=\"adobe:ns:meta/\">",
+    "<rdf:RDF xmlns:rdf=\"http://www.w3.org/1999/02/22-rdf-syntax-ns#\">",
+    "<rdf:Description rdf:about=\"\" xmlns:dc=\"http://purl.org/dc/elements/1.1/\" xmlns:xmp=\"http://ns.adobe.com/xap/1.0/\" xmlns:pdf=\"http://ns.adobe.com/pdf/1.3/\">",
+    ...properties,
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    "<?xpacket end=\"w\"?>",
+  ].join("\n")
+}
+
+/**
+ * Set the document metadata of a PDF
+ *
+ * Writes the document information dictionary, keeping the entries that are
+ * not given, and an XMP metadata stream referenced from the catalog. Both are
+ * appended as an incremental update.
+ *
+ * @param pdf - PDF file bytes
+ * @param metadata - Document metadata
+ * @returns Updated PDF file bytes
+ * @throws Error if the PDF cannot be read
+ */
+export function setPDFMetadata(pdf: Uint8Array, metadata: PDFDocumentMetadata): Buffer {
+  const file = PDFFile.parse(pdf)
+  const rootRef = file.getRootRef()
+  const catalog = file.getDictionary(rootRef)
+  const keywords = getKeywords(metadata)
+
+  // Existing objects are replaced in place; otherwise new objects are added
+  let next = file.size
+  const infoRef = parsePDFRefs(file.trailer.get("Info") ?? "")[0]
+  const infoNum = infoRef?.num ?? next++
+  const metadataRef = parsePDFRefs(catalog.get("Metadata") ?? "")[0]
+  const metadataNum = metadataRef?.num ?? next++
+
+  const info = infoRef ? file.getDictionary(infoRef) : new Map<string, string>()
+  const entries: Array<[string, string | undefined]> = [
+    ["Title", metadata.title],
+    ["Author", metadata.author],
+    ["Subject", metadata.subject],
+    ["Keywords", keywords.length > 0 ? keywords.join(", ") : undefined],
+    ["Creator", metadata.creator],
+    ["Producer", metadata.producer || DEFAULT_PDF_PRODUCER],
+  ]
+  for (const [key, value] of entries) {
+    if (value) {
+      info.set(key, formatPDFTextString(value))
+    }
+  }
+  if (metadata.creationDate) {
+    info.set("CreationDate", `(${formatPDFDate(metadata.creationDate)})`)
+  }
+  if (metadata.modificationDate) {
+    info.set("ModDate", `(${formatPDFDate(metadata.modificationDate)})`)
+  }
+
+  // Stream data is UTF-8; the update is written byte for byte as latin1
+  const xmp = Buffer.from(createXMPPacket(metadata), "utf8")
+  const stream = `<</Type /Metadata /Subtype /XML /Length ${xmp.length}>>\nstream\n${xmp.toString("latin1")}\nendstream`
+
+  catalog.set("Metadata", formatPDFRef(metadataRef ?? metadataNum))
+  const objects: PDFUpdateObject[] = [
+    { num: infoNum, source: formatPDFDictionary(info) },
+    { num: metadataNum, source: stream },
+    { num: rootRef.num, source: formatPDFDictionary(catalog) },
+  ]
+
+  return file.appendUpdate(objects, { Info: formatPDFRef(infoRef ?? infoNum) })
+}
+
+// Private helper functions
+
+/**
+ * Get the non-empty, trimmed keywords
+ */
+function getKeywords(metadata: PDFDocumentMetadata): string[] {
+  return (metadata.keywords ?? []).map(keyword => keyword.trim()).filter(Boolean)
+}
+
+/**
+ * Format a date as an XMP date (ISO 8601 without milliseconds)
+ */
+function formatXMPDate(date: Date): string {
+  return date.toISOString().replace(/\.\d+Z$/, "Z")
+}
+
+/**
+ * Escape text for XML content and attributes
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
@@ -0,0 +1,119 @@
+import { Buffer } from "node:buffer"
+
+import { describe, expect, it } from "vitest"
+
+import { createPDFFile, parsePDFDictionary, PDFFile } from "./pdf-file.js"
+import { addPDFOutline, hasPDFOutline } from "./pdf-outline.js"
+import type { PDFOutlineHeading } from "./pdf-outline.js"
+
+/**
+ * Build a PDF from object sources numbered from 1
+ */
+function buildPDF(objects: string[]): Buffer {
+  const trailer = new Map([["Root", "1 0 R"], ["Info", "6 0 R"]])
+  return createPDFFile(objects.map((source, index) => ({ num: index + 1, source })), trailer)
+}
+
+const PAGE = "<</Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 5 0 R>>"
+
+const createPDF = (catalog = "<</Type /Catalog /Pages 2 0 R /Dests 7 0 R>>"): Buffer => buildPDF([
+  catalog,
+  "<</Type /Pages /Count 2 /Kids [3 0 R 4 0 R]>>",
+  PAGE,
+  PAGE,
+  "<</Length 11>>\nstream\nendstream )\nendstream",
+  "<</Producer (Skia/PDF m120) /Title (A \\(nested\\) title)>>",
+  "<</html-converter-outline-1 [3 0 R /XYZ 0 760 0] /html-converter-outline-3 [4 0 R /XYZ 0 500 0]>>",
+])
+
+const HEADINGS: PDFOutlineHeading[] = [
+  { level: 1, title: "Intro", destination: "html-converter-outline-1", position: 0 },
+  { level: 2, title: "Détails", destination: "html-converter-outline-2", position: 0.6 },
+  { level: 2, title: "More", destination: "html-converter-outline-3", position: 0.8 },
+  { level: 1, title: "End", position: 0.9 },
+]
+
+describe("pdf outline", () => {
+  it("should read objects, pages and the trailer", () => {
+    const file = PDFFile.parse(createPDF())
+
+    expect(file.size).toBe(8)
+    expect(file.getRootRef()).toEqual({ num: 1, gen: 0 })
+    expect(file.getPageRefs().map(ref => ref.num)).toEqual([3, 4])
+    expect(file.getObject(5)).toBe("<</Length 11>>\nstream\nendstream )\nendstream")
+    expect(file.getDictionary(6).get("Title")).toBe("(A \\(nested\\) title)")
+  })
+
+  it("should nest bookmarks following the heading levels", () => {
+    const file = PDFFile.parse(addPDFOutline(createPDF(), HEADINGS))
+    const catalog = file.getDictionary(file.getRootRef())
+    const outlines = parsePDFDictionary(file.resolve(catalog.get("Outlines")!))
+
+    expect(catalog.get("PageMode")).toBe("/UseOutlines")
+    expect(catalog.get("Dests")).toBe("7 0 R")
+    expect(outlines.get("Count")).toBe("4")
+
+    const intro = parsePDFDictionary(file.resolve(outlines.get("First")!))
+    const end = parsePDFDictionary(file.resolve(outlines.get("Last")!))
+    expect(intro.get("Title")).toBe("<FEFF0049006E00740072006F>")
+    expect(intro.get("Count")).toBe("2")
+    expect(intro.get("Dest")).toBe("/html-converter-outline-1")
+    expect(intro.get("Next")).toBe(outlines.get("Last"))
+    expect(end.get("Prev")).toBe(outlines.get("First"))
+
+    const details = parsePDFDictionary(file.resolve(intro.get("First")!))
+    const more = parsePDFDictionary(file.resolve(intro.get("Last")!))
+    expect(details.get("Title")).toBe("<FEFF004400E9007400610069006C0073>")
+    expect(details.get("Parent")).toBe(outlines.get("First"))
+    expect(more.get("Dest")).toBe("/html-converter-outline-3")
+  })
+
+  it("should point at the estimated page when a heading has no named destination", () => {
+    const file = PDFFile.parse(addPDFOutline(createPDF(), HEADINGS))
+    const outlines = parsePDFDictionary(file.resolve(file.getDictionary(file.getRootRef()).get("Outlines")!))
+    const intro = parsePDFDictionary(file.resolve(outlines.get("First")!))
+
+    expect(parsePDFDictionary(file.resolve(intro.get("First")!)).get("Dest")).toBe("[4 0 R /XYZ null null null]")
+    expect(parsePDFDictionary(file.resolve(outlines.get("Last")!)).get("Dest")).toBe("[4 0 R /XYZ null null null]")
+  })
+
+  it("should use destinations from the names tree", () => {
+    const pdf = buildPDF([
+      "<</Type /Catalog /Pages 2 0 R /Names <</Dests 7 0 R>>>>",
+      "<</Type /Pages /Count 2 /Kids [3 0 R 4 0 R]>>",
+      PAGE,
+      PAGE,
+      "<</Length 0>>\nstream\n\nendstream",
+      "<<>>",
+      "<</Names [(html-converter-outline-1) [3 0 R /Fit]]>>",
+    ])
+
+    const file = PDFFile.parse(addPDFOutline(pdf, HEADINGS.slice(0, 1)))
+    const outlines = parsePDFDictionary(file.resolve(file.getDictionary(file.getRootRef()).get("Outlines")!))
+
+    expect(parsePDFDictionary(file.resolve(outlines.get("First")!)).get("Dest")).toBe("(html-converter-outline-1)")
+  })
+
+  it("should append an incremental update that keeps the original bytes", () => {
+    const original = createPDF()
+    const updated = addPDFOutline(original, HEADINGS)
+    const file = PDFFile.parse(updated)
+
+    expect(updated.subarray(0, original.length).equals(original)).toBe(true)
+    expect(file.trailer.get("Prev")).toBe(String(original.toString("latin1").match(/startxref\n(\d+)/)![1]))
+    expect(file.trailer.get("Info")).toBe("6 0 R")
+    expect(file.trailer.get("Size")).toBe("13")
+    expect(updated.toString("latin1").endsWith("%%EOF\n")).toBe(true)
+  })
+
+  it("should detect existing outlines", () => {
+    expect(hasPDFOutline(createPDF())).toBe(false)
+    expect(hasPDFOutline(addPDFOutline(createPDF(), HEADINGS))).toBe(true)
+    expect(hasPDFOutline(Buffer.from("not a pdf"))).toBe(false)
+  })
+
+  it("should reject files without a cross-reference table", () => {
+    expect(() => addPDFOutline(Buffer.from("%PDF-1.7\n1 0 obj\n<<>>\nendobj\nstartxref\n9\n%%EOF"), HEADINGS))
+      .toThrow("cross-reference streams are not supported")
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * PDF Outline
+ *
+ * Adds a bookmark outline built from the document's heading hierarchy to a
+ * printed PDF, for renderers that do not generate one themselves.
+ */
+
+import type { Buffer } from "node:buffer"
+
+import { formatPDFDictionary, formatPDFRef, formatPDFTextString, parsePDFArray, parsePDFDictionary, PDFFile } from "./pdf-file.js"
+import type { PDFObjectRef, PDFUpdateObject } from "./pdf-file.js"
+
+/**
+ * Heading collected from the rendered document
+ */
+export interface PDFOutlineHeading {
+  /** Heading level (1-6) */
+  level: number
+  /** Heading text */
+  title: string
+  /** Named destination placed at the heading by the renderer */
+  destination?: string
+  /** Top of the heading relative to the document height (0-1), used when the destination is missing */
+  position?: number
+}
+
+/**
+ * Prefix of the named destinations placed at headings
+ */
+export const OUTLINE_DESTINATION_PREFIX = "html-converter-outline-"
+
+/**
+ * Expression evaluated in the page before printing to collect the headings.
+ * An empty anchor is placed at every visible heading and linked from a hidden
+ * element, so Chrome writes a named destination for each heading into the PDF.
+ * Evaluates to the collected PDFOutlineHeading list.
+ */
+export const OUTLINE_HEADINGS_SCRIPT = `(() => {
+  const headings = []
+  const links = document.createElement("div")
+  links.style.display = "none"
+  const height = Math.max(document.documentElement.scrollHeight, 1)
+
+  for (const heading of document.body ? document.body.querySelectorAll("h1, h2, h3, h4, h5, h6") : []) {
+    const title = heading.textContent.replace(/\\s+/g, " ").trim()
+    if (!title || heading.getClientRects().length === 0) {
+      continue
+    }
+
+    const destination = ${JSON.stringify(OUTLINE_DESTINATION_PREFIX)} + (headings.length + 1)
+    const anchor = document.createElement("a")
+    anchor.id = destination
+    heading.prepend(anchor)
+    const link = document.createElement("a")
+    link.href = "#" + destination
+    links.append(link)
+
+    const top = heading.getBoundingClientRect().top + window.scrollY
+    headings.push({ level: Number(heading.tagName[1]), title, destination, position: Math.min(1, Math.max(0, top / height)) })
+  }
+
+  if (headings.length > 0) {
+    document.body.append(links)
+  }
+  return headings
+})()`
+
+/**
+ * Outline item being built
+ */
+interface OutlineItem {
+  num: number
+  level: number
+  heading?: PDFOutlineHeading
+  children: OutlineItem[]
+}
+
+/**
+ * Check whether a PDF already has a document outline
+ *
+ * @param pdf - PDF file bytes
+ * @returns True if the catalog references an outline with items
+ */
+export function hasPDFOutline(pdf: Uint8Array): boolean {
+  try {
+    const file = PDFFile.parse(pdf)
+    const outlines = file.getDictionary(file.getRootRef()).get("Outlines")
+    return outlines !== undefined && parsePDFDictionary(file.resolve(outlines)).has("First")
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Add a document outline built from a heading hierarchy
+ *
+ * Headings become nested bookmarks following their levels. Each bookmark points
+ * at the heading's named destination when the PDF has it, and otherwise at the
+ * page estimated from the heading position. The outline is appended as an
+ * incremental update, replacing any existing outline.
+ *
+ * @param pdf - PDF file bytes
+ * @param headings - Headings in document order
+ * @returns Updated PDF file bytes
+ * @throws Error if the PDF cannot be read
+ */
+export function addPDFOutline(pdf: Uint8Array, headings: PDFOutlineHeading[]): Buffer {
+  const file = PDFFile.parse(pdf)
+  const rootRef = file.getRootRef()
+  const catalog = file.getDictionary(rootRef)
+  const pages = file.getPageRefs()
+  const destinations = collectNamedDestinations(file, catalog)
+
+  let next = file.size
+  const root: OutlineItem = { num: next++, level: 0, children: [] }
+  const stack: OutlineItem[] = [root]
+  for (const heading of headings) {
+    while (stack.length > 1 && stack[stack.length - 1]!.level >= heading.level) {
+      stack.pop()
+    }
+    const item: OutlineItem = { num: next++, level: heading.level, heading, children: [] }
+    stack[stack.length - 1]!.children.push(item)
+    stack.push(item)
+  }
+
+  const objects: PDFUpdateObject[] = []
+  const writeItems = (parent: OutlineItem): number => {
+    let count = 0
+    parent.children.forEach((item, index) => {
+      const descendants = writeItems(item)
+      const entries = new Map<string, string>([
+        ["Title", formatPDFTextString(item.heading!.title)],
+        ["Parent", formatPDFRef(parent.num)],
+      ])
+      if (index > 0) {
+        entries.set("Prev", formatPDFRef(parent.children[index - 1]!.num))
+      }
+      if (index < parent.children.length - 1) {
+        entries.set("Next", formatPDFRef(parent.children[index + 1]!.num))
+      }
+      if (item.children.length > 0) {
+        entries.set("First", formatPDFRef(item.children[0]!.num))
+        entries.set("Last", formatPDFRef(item.children[item.children.length - 1]!.num))
+        entries.set("Count", String(descendants))
+      }
+      entries.set("Dest", getDestination(item.heading!, destinations, pages))
+      objects.push({ num: item.num, source: formatPDFDictionary(entries) })
+      count += 1 + descendants
+    })
+    return count
+  }
+
+  const count = writeItems(root)
+  const outlines = new Map<string, string>([["Type", "/Outlines"]])
+  if (root.children.length > 0) {
+    outlines.set("First", formatPDFRef(root.children[0]!.num))
+    outlines.set("Last", formatPDFRef(root.children[root.children.length - 1]!.num))
+    outlines.set("Count", String(count))
+  }
+  objects.push({ num: root.num, source: formatPDFDictionary(outlines) })
+
+  catalog.set("Outlines", formatPDFRef(root.num))
+  catalog.set("PageMode", "/UseOutlines")
+  objects.push({ num: rootRef.num, source: formatPDFDictionary(catalog) })
+
+  return file.appendUpdate(objects)
+}
+
+// Private helper functions
+
+/**
+ * Collect the named destinations of a document
+ *
+ * @returns Destination value source (a name or a string) keyed by destination name
+ */
+function collectNamedDestinations(file: PDFFile, catalog: Map<string, string>): Map<string, string> {
+  const destinations = new Map<string, string>()
+
+  // PDF 1.1 destinations dictionary, keyed by name
+  const dests = catalog.get("Dests")
+  if (dests) {
+    for (const name of parsePDFDictionary(file.resolve(dests)).keys()) {
+      destinations.set(name, `/${name}`)
+    }
+  }
+
+  // Destinations name tree, keyed by string
+  const names = catalog.get("Names")
+  const tree = names ? parsePDFDictionary(file.resolve(names)).get("Dests") : undefined
+  const visited = new Set<string>()
+  const visit = (node: string) => {
+    if (visited.has(node)) {
+      return
+    }
+    visited.add(node)
+
+    const entries = parsePDFDictionary(file.resolve(node))
+    const values = parsePDFArray(file.resolve(entries.get("Names") ?? "[]"))
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      const key = values[i]!
+      if (key.startsWith("(") && !key.includes("\\")) {
+        destinations.set(key.slice(1, -1), key)
+      }
+    }
+    parsePDFArray(file.resolve(entries.get("Kids") ?? "[]")).forEach(visit)
+  }
+  if (tree) {
+    visit(tree)
+  }
+
+  return destinations
+}
+
+/**
+ * Get the destination of a bookmark
+ */
+function getDestination(heading: PDFOutlineHeading, destinations: Map<string, string>, pages: PDFObjectRef[]): string {
+  const named = heading.destination ? destinations.get(heading.destination) : undefined
+  if (named) {
+    return named
+  }
+
+  const index = Math.min(pages.length - 1, Math.max(0, Math.floor((heading.position ?? 0) * pages.length)))
+  return pages.length > 0 ? `[${formatPDFRef(pages[index]!)} /XYZ null null null]` : "null"
+}
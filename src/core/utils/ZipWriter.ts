@@ -0,0 +1,176 @@
+/**
+ * ZIP Writer
+ *
+ * Minimal in-memory ZIP archive writer used to build OOXML and EPUB packages.
+ * Entries are written in insertion order with DEFLATE compression unless stored
+ * entries are requested.
+ */
+
+import { Buffer } from "node:buffer"
+import { deflateRawSync } from "node:zlib"
+
+/**
+ * Options for a single archive entry
+ */
+export interface ZipEntryOptions {
+  /** Compress the entry with DEFLATE (default: true) */
+  compress?: boolean
+  /** Modification date recorded for the entry (default: now) */
+  date?: Date
+}
+
+interface ZipEntry {
+  name: Buffer
+  data: Buffer
+  compressed: Buffer
+  method: number
+  crc: number
+  time: number
+  date: number
+  offset: number
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034B50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014B50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054B50
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+const VERSION_NEEDED = 20
+const UTF8_FILENAME_FLAG = 0x0800
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * Compute the CRC-32 checksum of the given data
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]!) & 0xFF]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+/**
+ * In-memory ZIP archive builder
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = []
+  private names = new Set<string>()
+  private offset = 0
+
+  /**
+   * Add a file to the archive
+   *
+   * @param name - Path of the entry inside the archive
+   * @param content - Entry content; strings are encoded as UTF-8
+   * @param options - Entry options
+   */
+  addFile(name: string, content: string | Uint8Array, options: ZipEntryOptions = {}): void {
+    if (this.names.has(name)) {
+      throw new Error(`Duplicate ZIP entry: ${name}`)
+    }
+
+    const data = typeof content === "string" ? Buffer.from(content, "utf8") : Buffer.from(content)
+    const compress = options.compress !== false
+    const compressed = compress ? deflateRawSync(data) : data
+    const { time, date } = toDOSDateTime(options.date ?? new Date())
+
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      data,
+      compressed,
+      method: compress ? METHOD_DEFLATE : METHOD_STORED,
+      crc: crc32(data),
+      time,
+      date,
+      offset: this.offset,
+    }
+
+    this.entries.push(entry)
+    this.names.add(name)
+    this.offset += 30 + entry.name.length + compressed.length
+  }
+
+  /**
+   * Check whether an entry with the given name has been added
+   */
+  has(name: string): boolean {
+    return this.names.has(name)
+  }
+
+  /**
+   * Serialize the archive
+   *
+   * @returns ZIP archive bytes
+   */
+  toBuffer(): Buffer {
+    const parts: Buffer[] = []
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(30)
+      header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+      header.writeUInt16LE(VERSION_NEEDED, 4)
+      header.writeUInt16LE(UTF8_FILENAME_FLAG, 6)
+      header.writeUInt16LE(entry.method, 8)
+      header.writeUInt16LE(entry.time, 10)
+      header.writeUInt16LE(entry.date, 12)
+      header.writeUInt32LE(entry.crc, 14)
+      header.writeUInt32LE(entry.compressed.length, 18)
+      header.writeUInt32LE(entry.data.length, 22)
+      header.writeUInt16LE(entry.name.length, 26)
+      header.writeUInt16LE(0, 28)
+      parts.push(header, entry.name, entry.compressed)
+    }
+
+    let centralDirectorySize = 0
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46)
+      header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0)
+      header.writeUInt16LE(VERSION_NEEDED, 4)
+      header.writeUInt16LE(VERSION_NEEDED, 6)
+      header.writeUInt16LE(UTF8_FILENAME_FLAG, 8)
+      header.writeUInt16LE(entry.method, 10)
+      header.writeUInt16LE(entry.time, 12)
+      header.writeUInt16LE(entry.date, 14)
+      header.writeUInt32LE(entry.crc, 16)
+      header.writeUInt32LE(entry.compressed.length, 20)
+      header.writeUInt32LE(entry.data.length, 24)
+      header.writeUInt16LE(entry.name.length, 28)
+      header.writeUInt32LE(entry.offset, 42)
+      parts.push(header, entry.name)
+      centralDirectorySize += header.length + entry.name.length
+    }
+
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+    end.writeUInt16LE(this.entries.length, 8)
+    end.writeUInt16LE(this.entries.length, 10)
+    end.writeUInt32LE(centralDirectorySize, 12)
+    end.writeUInt32LE(this.offset, 16)
+    parts.push(end)
+
+    return Buffer.concat(parts)
+  }
+}
+
+/**
+ * Encode a date in the MS-DOS format used by ZIP headers
+ */
+function toDOSDateTime(value: Date): { time: number, date: number } {
+  const year = Math.min(Math.max(value.getFullYear(), 1980), 2107)
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  }
+}
@@ -39,3 +39,10 @@ export {
   type StreamResult,
   type TempFileOptions,
 } from "./SecureFileManager.js"
+
+// ZIP archive writer
+export {
+  crc32,
+  type ZipEntryOptions,
+  ZipWriter,
+} from "./ZipWriter.js"
@@ -1,4 +1,4 @@
-import type { ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
+import type { ConversionRequest, ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
 
 /**
  * Canvas Tier configuration options
@@ -137,19 +137,29 @@ export class CanvasTier implements ConverterStrategy {
    * Convert HTML document to image using canvas rendering
    *
    * @param input - HTML document to convert
+   * @param request - Target image format and options (defaults to the configured image format)
    * @returns Promise resolving to conversion result
    */
-  async convert(input: HTMLDocument): Promise<ConversionResult> {
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
     const startTime = Date.now()
     const inputHTML = this.serializeHTMLDocument(input)
+    const format = request?.format ?? this.config.imageOptions.format ?? "png"
+    // Request options use 0-100 quality; canvas encoders expect 0-1
+    const quality = request?.options?.quality !== undefined
+      ? request.options.quality / 100
+      : this.config.imageOptions.quality
 
     this.logger.info("Starting Canvas conversion", {
       inputSize: inputHTML.length,
       timeout: this.config.timeout,
-      format: this.config.imageOptions.format,
+      format,
     })
 
     try {
+      if (!["png", "jpeg", "webp"].includes(format)) {
+        throw new Error(`Unsupported format for canvas rendering: ${format}`)
+      }
+
       // Validate input size
       if (inputHTML.length > this.config.maxFileSize) {
         throw new Error(`Input exceeds maximum file size: ${inputHTML.length} > ${this.config.maxFileSize}`)
@@ -162,7 +172,7 @@ export class CanvasTier implements ConverterStrategy {
       await this.renderHTMLToCanvas(canvas, ctx, input)
 
       // Convert canvas to image data URL
-      const imageDataURL = this.canvasToDataURL(canvas, this.config.imageOptions.format || "png")
+      const imageDataURL = this.canvasToDataURL(canvas, format, quality)
 
       // Convert data URL to base64 content
       const base64Content = this.dataURLToBase64(imageDataURL)
@@ -172,10 +182,10 @@ export class CanvasTier implements ConverterStrategy {
 
       const result: ConversionResult = {
         content: base64Content,
-        mimeType: `image/${this.config.imageOptions.format || "png"}`,
+        mimeType: `image/${format}`,
         metadata: {
           sourceType: "text/html",
-          targetFormat: this.config.imageOptions.format || "png",
+          targetFormat: format,
           timestamp: new Date(),
           size: contentSize,
           executionTime,
@@ -190,7 +200,7 @@ export class CanvasTier implements ConverterStrategy {
       }
 
       this.logger.info("Canvas conversion completed", {
-        format: this.config.imageOptions.format,
+        format,
         size: contentSize,
         executionTime,
         canvasSize: `${this.config.canvasOptions.width}x${this.config.canvasOptions.height}`,
@@ -852,12 +862,12 @@ export class CanvasTier implements ConverterStrategy {
   /**
    * Convert canvas to data URL
    */
-  private canvasToDataURL(canvas: HTMLCanvasElement, format: string): string {
+  private canvasToDataURL(canvas: HTMLCanvasElement, format: string, quality = this.config.imageOptions.quality): string {
     switch (format) {
       case "jpeg":
-        return canvas.toDataURL("image/jpeg", this.config.imageOptions.quality)
+        return canvas.toDataURL("image/jpeg", quality)
       case "webp":
-        return canvas.toDataURL("image/webp", this.config.imageOptions.quality)
+        return canvas.toDataURL("image/webp", quality)
       case "png":
       default:
         return canvas.toDataURL("image/png")
@@ -1,6 +1,11 @@
+import { Buffer } from "node:buffer"
+
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 
 import type { Logger } from "../architecture/strategies/types"
+import { buildConversionOptions } from "../cli/options"
+import { DEFAULT_CONFIG } from "../config/defaults"
+import { createRGBAImage, decodePNG, encodePNG } from "../core/imaging"
 
 import { ChromeCDPTier } from "./ChromeCDPTier"
 import type { ChromeCDPTierConfig } from "./ChromeCDPTier"
@@ -18,12 +23,37 @@ const mockChromeManager = {
 
 // Mock MHTMLProcessor
 const mockMHTMLProcessor = {
+  setRequestHeaders: vi.fn(),
   navigate: vi.fn(),
   setContent: vi.fn(),
   waitForLoad: vi.fn(),
   printToPDF: vi.fn(),
   screenshot: vi.fn(),
+  getLayoutMetrics: vi.fn(),
   captureSnapshot: vi.fn(),
+  setViewport: vi.fn(),
+  evaluate: vi.fn(),
+  getPageMetadata: vi.fn(),
+  getElementBoxes: vi.fn(),
+  clearViewport: vi.fn(),
+}
+
+const SHORT_PAGE_METRICS = {
+  contentWidth: 1920,
+  contentHeight: 1080,
+  viewportWidth: 1920,
+  viewportHeight: 1080,
+  deviceScaleFactor: 1,
+}
+
+/**
+ * Create a minimal one-page PDF with a cross-reference table, as printed by Chrome
+ */
+function createPrintedPDF(): Buffer {
+  const body = "%PDF-1.4\n1 0 obj\n<</Type /Catalog /Pages 2 0 R>>\nendobj\n2 0 obj\n<</Type /Pages /Count 1 /Kids [3 0 R]>>\nendobj\n3 0 obj\n<</Type /Page /Parent 2 0 R>>\nendobj\n"
+  const offsets = [9, body.indexOf("2 0 obj"), body.indexOf("3 0 obj")]
+  const xref = `xref\n1 3\n${offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n\r\n`).join("")}`
+  return Buffer.from(`${body}${xref}trailer\n<</Size 4 /Root 1 0 R>>\nstartxref\n${body.length}\n%%EOF`, "latin1")
 }
 
 describe("chromeCDPTier", () => {
@@ -58,6 +88,7 @@ describe("chromeCDPTier", () => {
     mockMHTMLProcessor.waitForLoad.mockResolvedValue(undefined)
     mockMHTMLProcessor.printToPDF.mockResolvedValue(new Uint8Array([112, 100, 102, 45, 99, 111, 110, 116, 101, 110, 116]))
     mockMHTMLProcessor.screenshot.mockResolvedValue(new Uint8Array([105, 109, 97, 103, 101, 45, 99, 111, 110, 116, 101, 110, 116]))
+    mockMHTMLProcessor.getLayoutMetrics.mockResolvedValue(SHORT_PAGE_METRICS)
     mockMHTMLProcessor.captureSnapshot.mockResolvedValue(new Uint8Array([109, 104, 116, 109, 108, 45, 99, 111, 110, 116, 101, 110, 116]))
   })
 
@@ -192,14 +223,7 @@ describe("chromeCDPTier", () => {
       customTier.convert = customTier.convert.bind(customTier)
       mockChromeManager.getMHTMLProcessor.mockResolvedValue(mockMHTMLProcessor)
 
-      const pngDoc = {
-        documentElement: {
-          outerHTML: "<html><head><title>Test</title></head><body data-export=\"image\"><p>Test content</p></body></html>",
-        },
-        body: { innerHTML: "<p data-export=\"image\">Test content</p>" },
-      } as HTMLDocument
-
-      const result = await customTier.convert(pngDoc)
+      const result = await customTier.convert(mockHTMLDocument, { format: "png" })
 
       expect(mockMHTMLProcessor.screenshot).toHaveBeenCalledWith({
         format: "png",
@@ -213,14 +237,7 @@ describe("chromeCDPTier", () => {
     })
 
     it("should convert HTML to MHTML successfully", async () => {
-      const mhtmlDoc = {
-        documentElement: {
-          outerHTML: "<html><head><title>Test</title></head><body data-export=\"mhtml\"><p>Test content</p></body></html>",
-        },
-        body: { innerHTML: "<p data-export=\"mhtml\">Test content</p>" },
-      } as HTMLDocument
-
-      const result = await tier.convert(mhtmlDoc)
+      const result = await tier.convert(mockHTMLDocument, { format: "mhtml" })
 
       expect(mockMHTMLProcessor.captureSnapshot).toHaveBeenCalledWith({
         format: "mhtml",
@@ -297,6 +314,530 @@ describe("chromeCDPTier", () => {
     })
   })
 
+  describe("conversion requests", () => {
+    it("should load the page with the request headers, credentials and user agent", async () => {
+      const document = { ...mockHTMLDocument, URL: "https://example.com/private" } as HTMLDocument
+      const options = { headers: { "X-Tenant": "acme" }, auth: { token: "abc" }, userAgent: "IndexBot/1.0" }
+
+      await tier.convert(document, { format: "pdf", options })
+
+      expect(mockMHTMLProcessor.setRequestHeaders).toHaveBeenCalledWith(options)
+      expect(mockMHTMLProcessor.navigate).toHaveBeenCalledWith("https://example.com/private")
+      expect(mockMHTMLProcessor.setRequestHeaders.mock.invocationCallOrder[0])
+        .toBeLessThan(mockMHTMLProcessor.navigate.mock.invocationCallOrder[0]!)
+    })
+
+    it("should reset the request headers of earlier conversions", async () => {
+      await tier.convert(mockHTMLDocument, { format: "pdf" })
+
+      expect(mockMHTMLProcessor.setRequestHeaders).toHaveBeenCalledWith({ headers: undefined, auth: undefined, userAgent: undefined })
+    })
+
+    it("should clear the viewport of the previous conversion", async () => {
+      await tier.convert(mockHTMLDocument, { format: "png", options: { viewport: { width: 390, height: 844 } } })
+      await tier.convert(mockHTMLDocument, { format: "png" })
+
+      expect(mockMHTMLProcessor.setViewport).toHaveBeenCalledTimes(1)
+      expect(mockMHTMLProcessor.setViewport).toHaveBeenCalledWith({ width: 390, height: 844, mobile: false, userAgent: undefined })
+      expect(mockMHTMLProcessor.clearViewport).toHaveBeenCalledTimes(1)
+      expect(mockMHTMLProcessor.clearViewport.mock.invocationCallOrder[0])
+        .toBeLessThan(mockMHTMLProcessor.navigate.mock.invocationCallOrder[1]!)
+    })
+
+    it("should render the same document to different formats", async () => {
+      const pdf = await tier.convert(mockHTMLDocument, { format: "pdf" })
+      const jpeg = await tier.convert(mockHTMLDocument, { format: "jpeg" })
+
+      expect(pdf.mimeType).toBe("application/pdf")
+      expect(jpeg.mimeType).toBe("image/jpeg")
+      expect(jpeg.metadata.targetFormat).toBe("jpeg")
+    })
+
+    it("should apply PDF options from the request over the configuration", async () => {
+      await tier.convert(mockHTMLDocument, {
+        format: "pdf",
+        options: { format: "Letter", orientation: "landscape", margin: 1, printBackground: false },
+      })
+
+      expect(mockMHTMLProcessor.printToPDF).toHaveBeenCalledWith(expect.objectContaining({
+        format: "Letter",
+        landscape: true,
+        printBackground: false,
+        margin: { top: 1, right: 1, bottom: 1, left: 1 },
+      }))
+    })
+
+    it("should print with CLI margins converted to inches", async () => {
+      await tier.convert(mockHTMLDocument, {
+        format: "pdf",
+        options: buildConversionOptions("pdf", { margin: "72pt" }, DEFAULT_CONFIG),
+      })
+      await tier.convert(mockHTMLDocument, { format: "pdf", options: buildConversionOptions("pdf", {}, DEFAULT_CONFIG) })
+
+      const [[pointOptions], [defaultOptions]] = mockMHTMLProcessor.printToPDF.mock.calls
+      expect(pointOptions.margin).toEqual({ top: 1, right: 1, bottom: 1, left: 1 })
+      // The CLI default margin is 20px
+      expect(defaultOptions.margin.top).toBeCloseTo(20 / 96)
+      expect(defaultOptions.margin.left).toBeCloseTo(20 / 96)
+    })
+
+    it("should print in landscape with the header and footer given on the command line", async () => {
+      await tier.convert(mockHTMLDocument, {
+        format: "pdf",
+        options: buildConversionOptions("pdf", {
+          landscape: true,
+          headerTemplate: "<span class=\"title\"></span>",
+          footerTemplate: "<span class=\"pageNumber\"></span>",
+        }, DEFAULT_CONFIG),
+      })
+      await tier.convert(mockHTMLDocument, { format: "pdf", options: buildConversionOptions("pdf", {}, DEFAULT_CONFIG) })
+
+      const [[landscapeOptions], [defaultOptions]] = mockMHTMLProcessor.printToPDF.mock.calls
+      expect(landscapeOptions).toMatchObject({
+        landscape: true,
+        displayHeaderFooter: true,
+        headerTemplate: "<span class=\"title\"></span>",
+        footerTemplate: "<span class=\"pageNumber\"></span>",
+      })
+      expect(defaultOptions).toMatchObject({ landscape: false, displayHeaderFooter: false })
+    })
+
+    describe("single-page PDF layout", () => {
+      it("should print one page sized to the rendered document", async () => {
+        mockMHTMLProcessor.getLayoutMetrics.mockResolvedValue({ ...SHORT_PAGE_METRICS, contentWidth: 960, contentHeight: 4800 })
+
+        const result = await tier.convert(mockHTMLDocument, {
+          format: "pdf",
+          options: { layout: "single-page", margin: 0.5, orientation: "landscape", preferCSSPageSize: true },
+        })
+
+        expect(mockMHTMLProcessor.printToPDF).toHaveBeenCalledWith(expect.objectContaining({
+          paperWidth: 11,
+          paperHeight: 51,
+          landscape: false,
+          preferCSSPageSize: false,
+        }))
+        expect(result.metadata.pageLayout).toBe("single-page")
+      })
+
+      it("should size the page with margins given on the command line", async () => {
+        mockMHTMLProcessor.getLayoutMetrics.mockResolvedValue({ ...SHORT_PAGE_METRICS, contentWidth: 960, contentHeight: 4800 })
+
+        const result = await tier.convert(mockHTMLDocument, {
+          format: "pdf",
+          options: buildConversionOptions("pdf", { layout: "single-page", margin: "48px" }, DEFAULT_CONFIG),
+        })
+
+        expect(mockMHTMLProcessor.printToPDF).toHaveBeenCalledWith(expect.objectContaining({
+          paperWidth: 11,
+          paperHeight: 51,
+          margin: { top: 0.5, right: 0.5, bottom: 0.5, left: 0.5 },
+        }))
+        expect(result.metadata.pageLayout).toBe("single-page")
+      })
+
+      it("should size the page for the PDF scale", async () => {
+        mockMHTMLProcessor.getLayoutMetrics.mockResolvedValue({ ...SHORT_PAGE_METRICS, contentWidth: 1000, contentHeight: 1001 })
+
+        await tier.convert(mockHTMLDocument, { format: "pdf", options: { layout: "single-page", margin: 0, scale: 0.5 } })
+
+        expect(mockMHTMLProcessor.printToPDF).toHaveBeenCalledWith(expect.objectContaining({
+          paperWidth: 5.21,
+          paperHeight: 5.22,
+        }))
+      })
+
+      it("should fall back to standard pagination above the maximum height", async () => {
+        mockMHTMLProcessor.getLayoutMetrics.mockResolvedValue({ ...SHORT_PAGE_METRICS, contentHeight: 12000 })
+
+        const result = await tier.convert(mockHTMLDocument, {
+          format: "pdf",
+          options: { layout: "single-page", maxHeight: 10000, format: "Letter" },
+        })
+
+        const [pdfOptions] = mockMHTMLProcessor.printToPDF.mock.calls[0]!
+        expect(pdfOptions.format).toBe("Letter")
+        expect(pdfOptions.paperHeight).toBeUndefined()
+        expect(result.metadata.pageLayout).toBe("standard")
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          expect.stringContaining("maximum single page height"),
+          expect.objectContaining({ contentHeight: 12000, maxHeight: 10000 }),
+        )
+      })
+
+      it("should not measure the page for standard layout", async () => {
+        const result = await tier.convert(mockHTMLDocument, { format: "pdf" })
+
+        expect(mockMHTMLProcessor.getLayoutMetrics).not.toHaveBeenCalled()
+        expect(result.metadata.pageLayout).toBeUndefined()
+      })
+    })
+
+    describe("tagged PDF and document outline", () => {
+      const HEADINGS = [{ level: 1, title: "Intro", destination: "html-converter-outline-1", position: 0 }]
+
+      it("should request tagged PDFs and document outlines from Chrome", async () => {
+        mockMHTMLProcessor.evaluate.mockResolvedValue([])
+
+        await tier.convert(mockHTMLDocument, {
+          format: "pdf",
+          options: buildConversionOptions("pdf", { taggedPdf: true, outline: true }, DEFAULT_CONFIG),
+        })
+
+        expect(mockMHTMLProcessor.printToPDF).toHaveBeenCalledWith(expect.objectContaining({
+          generateTaggedPDF: true,
+          generateDocumentOutline: true,
+        }))
+        expect(mockMHTMLProcessor.evaluate).toHaveBeenCalledWith(expect.stringContaining("h1, h2, h3, h4, h5, h6"))
+      })
+
+      it("should add an outline when Chrome does not generate one", async () => {
+        mockMHTMLProcessor.printToPDF.mockResolvedValue(createPrintedPDF())
+        mockMHTMLProcessor.evaluate.mockResolvedValue(HEADINGS)
+
+        const result = await tier.convert(mockHTMLDocument, { format: "pdf", options: { generateDocumentOutline: true } })
+
+        const pdf = Buffer.from(result.content, "base64").toString("latin1")
+        expect(pdf).toContain("/Outlines 4 0 R")
+        expect(pdf).toContain("/Dest [3 0 R /XYZ null null null]")
+      })
+
+      it("should keep the printed PDF when the outline cannot be added", async () => {
+        mockMHTMLProcessor.evaluate.mockResolvedValue(HEADINGS)
+
+        const result = await tier.convert(mockHTMLDocument, { format: "pdf", options: { generateDocumentOutline: true } })
+
+        expect(Buffer.from(result.content, "base64").toString()).toBe("pdf-content")
+        expect(mockLogger.warn).toHaveBeenCalledWith("Failed to add document outline to PDF", expect.objectContaining({
+          error: expect.stringContaining("Invalid PDF"),
+        }))
+      })
+
+      it("should not collect headings without an outline request", async () => {
+        await tier.convert(mockHTMLDocument, { format: "pdf" })
+
+        expect(mockMHTMLProcessor.evaluate).not.toHaveBeenCalled()
+      })
+    })
+
+    describe("document metadata", () => {
+      const PAGE_METADATA = {
+        title: "Quarterly Report",
+        url: "https://example.com/report",
+        description: "Results of the quarter",
+        keywords: ["finance"],
+        resourceCount: 0,
+        totalSize: 0,
+        chromeVersion: "HeadlessChrome",
+        captureTimestamp: new Date("2026-03-04T05:06:07Z"),
+      }
+
+      beforeEach(() => {
+        mockMHTMLProcessor.printToPDF.mockResolvedValue(createPrintedPDF())
+        mockMHTMLProcessor.getPageMetadata.mockResolvedValue(PAGE_METADATA)
+      })
+
+      it("should take the title, description and source from the page", async () => {
+        const result = await tier.convert(mockHTMLDocument, { format: "pdf" })
+
+        const pdf = Buffer.from(result.content, "base64").toString("latin1")
+        expect(pdf).toContain("/Info 4 0 R")
+        expect(pdf).toContain("/Metadata 5 0 R")
+        expect(pdf).toContain("/CreationDate (D:20260304050607Z)")
+        expect(pdf).toContain("<rdf:li xml:lang=\"x-default\">Quarterly Report</rdf:li>")
+        expect(pdf).toContain("<dc:description><rdf:Alt><rdf:li xml:lang=\"x-default\">Results of the quarter</rdf:li>")
+        expect(pdf).toContain("<dc:source>https://example.com/report</dc:source>")
+        expect(pdf).toContain("<pdf:Producer>html-converter-cdt</pdf:Producer>")
+      })
+
+      it("should prefer the requested metadata over the page", async () => {
+        const result = await tier.convert(mockHTMLDocument, {
+          format: "pdf",
+          options: buildConversionOptions("pdf", { title: "Annual Report", keywords: "a, b" }, DEFAULT_CONFIG),
+        })
+
+        const pdf = Buffer.from(result.content, "base64").toString("latin1")
+        expect(pdf).toContain("<rdf:li xml:lang=\"x-default\">Annual Report</rdf:li>")
+        expect(pdf).toContain("<pdf:Keywords>a, b</pdf:Keywords>")
+        expect(pdf).toContain("Results of the quarter")
+      })
+
+      it("should not read the page when page metadata is disabled", async () => {
+        const result = await tier.convert(mockHTMLDocument, { format: "pdf", options: { metadata: { fromPage: false, author: "Finance" } } })
+
+        expect(mockMHTMLProcessor.getPageMetadata).not.toHaveBeenCalled()
+        expect(Buffer.from(result.content, "base64").toString("latin1")).toContain("<dc:creator><rdf:Seq><rdf:li>Finance</rdf:li>")
+      })
+
+      it("should keep Chrome's metadata when metadata is turned off", async () => {
+        const result = await tier.convert(mockHTMLDocument, {
+          format: "pdf",
+          options: buildConversionOptions("pdf", { metadata: false }, DEFAULT_CONFIG),
+        })
+
+        expect(Buffer.from(result.content, "base64").equals(createPrintedPDF())).toBe(true)
+        expect(mockMHTMLProcessor.getPageMetadata).not.toHaveBeenCalled()
+      })
+
+      it("should keep the printed PDF when the metadata cannot be written", async () => {
+        mockMHTMLProcessor.getPageMetadata.mockRejectedValue(new Error("Runtime.evaluate failed"))
+
+        const result = await tier.convert(mockHTMLDocument, { format: "pdf" })
+
+        expect(Buffer.from(result.content, "base64").equals(createPrintedPDF())).toBe(true)
+        expect(mockLogger.warn).toHaveBeenCalledWith("Failed to add document metadata to PDF", expect.objectContaining({
+          error: "Runtime.evaluate failed",
+        }))
+      })
+    })
+
+    describe("auto-page PDF layout", () => {
+      it("should apply page break markers before printing", async () => {
+        mockMHTMLProcessor.evaluate.mockResolvedValue(2)
+
+        const result = await tier.convert(mockHTMLDocument, {
+          format: "pdf",
+          options: { layout: "auto-page", pageBreaks: { selector: ".chapter", comment: false } },
+        })
+
+        const [script] = mockMHTMLProcessor.evaluate.mock.calls[0]!
+        expect(script).toContain(JSON.stringify("hr.page-break, .chapter"))
+        expect(script).toContain("const comments = false")
+        expect(mockMHTMLProcessor.evaluate.mock.invocationCallOrder[0]!)
+          .toBeLessThan(mockMHTMLProcessor.printToPDF.mock.invocationCallOrder[0]!)
+        expect(result.metadata.pageLayout).toBe("auto-page")
+      })
+
+      it("should not apply page break markers for standard layout", async () => {
+        await tier.convert(mockHTMLDocument, { format: "pdf", options: { pageBreaks: { selector: ".chapter" } } })
+
+        expect(mockMHTMLProcessor.evaluate).not.toHaveBeenCalled()
+      })
+    })
+
+    it("should apply image options from the request", async () => {
+      await tier.convert(mockHTMLDocument, {
+        format: "webp",
+        options: { quality: 60, fullPage: true, waitTime: 250 },
+      })
+
+      expect(mockMHTMLProcessor.waitForLoad).toHaveBeenCalledWith({ timeout: undefined, waitTime: 250 })
+      expect(mockMHTMLProcessor.screenshot).toHaveBeenLastCalledWith({
+        format: "webp",
+        quality: 60,
+        fullPage: true,
+        clip: undefined,
+      })
+    })
+
+    it("should capture WebP with the quality given on the command line", async () => {
+      const result = await tier.convert(mockHTMLDocument, {
+        format: "webp",
+        options: buildConversionOptions("webp", { quality: "75" }, DEFAULT_CONFIG),
+      })
+
+      expect(mockMHTMLProcessor.screenshot).toHaveBeenLastCalledWith(expect.objectContaining({ format: "webp", quality: 75 }))
+      expect(result.mimeType).toBe("image/webp")
+    })
+
+    describe("tall pages", () => {
+      let imageTier: ChromeCDPTier
+
+      beforeEach(() => {
+        imageTier = new ChromeCDPTier(mockLogger, mockChromeManager as any, { captureScreenshot: false })
+        mockMHTMLProcessor.getLayoutMetrics.mockResolvedValue({
+          contentWidth: 8,
+          contentHeight: 20000,
+          viewportWidth: 8,
+          viewportHeight: 6000,
+          deviceScaleFactor: 1,
+        })
+        mockMHTMLProcessor.screenshot.mockImplementation(async ({ clip }) =>
+          encodePNG(createRGBAImage(clip.width, clip.height)))
+      })
+
+      it("should stitch pages taller than the texture limit from viewport tiles", async () => {
+        const result = await imageTier.convert(mockHTMLDocument, { format: "png", options: { fullPage: true } })
+
+        const clips = mockMHTMLProcessor.screenshot.mock.calls.map(([options]) => options.clip)
+        expect(clips).toEqual([
+          { x: 0, y: 0, width: 8, height: 6000 },
+          { x: 0, y: 6000, width: 8, height: 6000 },
+          { x: 0, y: 12000, width: 8, height: 6000 },
+          { x: 0, y: 18000, width: 8, height: 2000 },
+        ])
+
+        const image = decodePNG(Buffer.from(result.content, "base64"))
+        expect(image.width).toBe(8)
+        expect(image.height).toBe(20000)
+        expect(result.metadata.additionalImages).toBeUndefined()
+      })
+
+      it("should crop the output to maxHeight", async () => {
+        const result = await imageTier.convert(mockHTMLDocument, { format: "png", options: { fullPage: true, maxHeight: 9000 } })
+
+        expect(decodePNG(Buffer.from(result.content, "base64")).height).toBe(9000)
+        expect(mockMHTMLProcessor.screenshot).toHaveBeenCalledTimes(2)
+      })
+
+      it("should split the page into numbered images", async () => {
+        const result = await imageTier.convert(mockHTMLDocument, { format: "png", options: { fullPage: true, maxHeight: 8000, split: true } })
+
+        const additional = result.metadata.additionalImages as string[]
+        expect(result.metadata.imageCount).toBe(3)
+        expect(additional).toHaveLength(2)
+        expect(decodePNG(Buffer.from(result.content, "base64")).height).toBe(8000)
+        expect(decodePNG(Buffer.from(additional[1]!, "base64")).height).toBe(4000)
+      })
+
+      it("should keep a single capture for WebP", async () => {
+        mockMHTMLProcessor.screenshot.mockResolvedValue(new Uint8Array([1, 2, 3]))
+
+        await imageTier.convert(mockHTMLDocument, { format: "webp", options: { fullPage: true } })
+
+        expect(mockMHTMLProcessor.screenshot).toHaveBeenCalledTimes(1)
+        expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining("WebP"), expect.any(Object))
+      })
+    })
+  })
+
+  describe("element capture", () => {
+    let elementTier: ChromeCDPTier
+
+    beforeEach(() => {
+      elementTier = new ChromeCDPTier(mockLogger, mockChromeManager as any, { captureScreenshot: false })
+    })
+
+    it("should capture one padded image per matching element", async () => {
+      mockMHTMLProcessor.getElementBoxes.mockResolvedValue([
+        { x: 100.5, y: 2000, width: 300, height: 200.2 },
+        { x: 4, y: 2400, width: 300, height: 200 },
+      ])
+      mockMHTMLProcessor.screenshot
+        .mockResolvedValueOnce(new Uint8Array([1]))
+        .mockResolvedValueOnce(new Uint8Array([2]))
+
+      const result = await elementTier.convert(mockHTMLDocument, {
+        format: "jpeg",
+        options: { selector: ".chart", selectorPadding: 8, quality: 70, clip: { x: 0, y: 0, width: 10, height: 10 } },
+      })
+
+      expect(mockMHTMLProcessor.getElementBoxes).toHaveBeenCalledWith(".chart")
+      expect(mockMHTMLProcessor.screenshot.mock.calls.map(([options]) => options)).toEqual([
+        { format: "jpeg", quality: 70, clip: { x: 92, y: 1992, width: 317, height: 217 } },
+        { format: "jpeg", quality: 70, clip: { x: 0, y: 2392, width: 312, height: 216 } },
+      ])
+      expect(result.content).toBe(Buffer.from([1]).toString("base64"))
+      expect(result.metadata.additionalImages).toEqual([Buffer.from([2]).toString("base64")])
+      expect(result.metadata.imageCount).toBe(2)
+    })
+
+    it("should fail when no rendered element matches the selector", async () => {
+      mockMHTMLProcessor.getElementBoxes.mockResolvedValue([])
+
+      await expect(elementTier.convert(mockHTMLDocument, { format: "png", options: { selector: ".missing" } }))
+        .rejects
+        .toThrow("No rendered element matches selector: .missing")
+      expect(mockMHTMLProcessor.screenshot).not.toHaveBeenCalled()
+    })
+
+    it("should print each matching element in isolation", async () => {
+      mockMHTMLProcessor.evaluate
+        .mockResolvedValueOnce({ matches: 3, width: 600, height: 400 })
+        .mockResolvedValueOnce({ matches: 3, width: 0, height: 0 })
+        .mockResolvedValueOnce({ matches: 3, width: 480, height: 960 })
+      mockMHTMLProcessor.printToPDF
+        .mockResolvedValueOnce(new Uint8Array([1]))
+        .mockResolvedValueOnce(new Uint8Array([2]))
+
+      const result = await elementTier.convert(mockHTMLDocument, {
+        format: "pdf",
+        options: { selector: ".card", layout: "single-page", margin: 0, metadata: false },
+      })
+
+      const scripts = mockMHTMLProcessor.evaluate.mock.calls.map(([script]) => script as string)
+      expect(scripts).toHaveLength(3)
+      expect(scripts[0]).toContain("document.querySelectorAll(\".card\")")
+      expect(scripts[2]).toContain("matches[2]")
+      expect(scripts[0]).toContain("@media print")
+      expect(mockMHTMLProcessor.printToPDF.mock.calls.map(([options]) => [options.paperWidth, options.paperHeight]))
+        .toEqual([[6.25, 4.17], [5, 10]])
+      expect(mockMHTMLProcessor.getLayoutMetrics).not.toHaveBeenCalled()
+      expect(result.content).toBe(Buffer.from([1]).toString("base64"))
+      expect(result.metadata.additionalPDFs).toEqual([Buffer.from([2]).toString("base64")])
+      expect(result.metadata.pageLayout).toBe("single-page")
+    })
+  })
+
+  describe("device capture", () => {
+    let deviceTier: ChromeCDPTier
+
+    beforeEach(() => {
+      deviceTier = new ChromeCDPTier(mockLogger, mockChromeManager as any, { captureScreenshot: false })
+    })
+
+    it("should capture the page once per device and restore the viewport", async () => {
+      mockMHTMLProcessor.screenshot
+        .mockResolvedValueOnce(new Uint8Array([1]))
+        .mockResolvedValueOnce(new Uint8Array([2]))
+
+      const result = await deviceTier.convert(mockHTMLDocument, {
+        format: "png",
+        options: { devices: ["phone", "800x600@2"], fullPage: false, selector: ".card" },
+      })
+
+      expect(mockMHTMLProcessor.navigate).toHaveBeenCalledTimes(1)
+      expect(mockMHTMLProcessor.setViewport.mock.calls.map(([options]) => options)).toEqual([
+        { width: 390, height: 844, deviceScaleFactor: 3, mobile: true, userAgent: undefined },
+        { width: 800, height: 600, deviceScaleFactor: 2, mobile: false, userAgent: undefined },
+      ])
+      expect(mockMHTMLProcessor.evaluate).toHaveBeenCalledWith(expect.stringContaining("requestAnimationFrame"))
+      expect(mockMHTMLProcessor.screenshot.mock.calls.map(([options]) => options.clip)).toEqual([
+        { x: 0, y: 0, width: 390, height: 844 },
+        { x: 0, y: 0, width: 800, height: 600 },
+      ])
+      expect(mockMHTMLProcessor.getElementBoxes).not.toHaveBeenCalled()
+      expect(mockMHTMLProcessor.clearViewport.mock.invocationCallOrder.at(-1))
+        .toBeGreaterThan(mockMHTMLProcessor.screenshot.mock.invocationCallOrder.at(-1)!)
+      expect(result.content).toBe(Buffer.from([1]).toString("base64"))
+      expect(result.metadata.additionalImages).toEqual([Buffer.from([2]).toString("base64")])
+      expect(result.metadata.devices).toEqual(["phone", "800x600@2"])
+      expect(result.metadata.contactSheet).toBe(false)
+    })
+
+    it("should append a contact sheet of all devices", async () => {
+      mockMHTMLProcessor.screenshot
+        .mockResolvedValueOnce(encodePNG(createRGBAImage(40, 20)))
+        .mockResolvedValueOnce(encodePNG(createRGBAImage(30, 15)))
+
+      const result = await deviceTier.convert(mockHTMLDocument, {
+        format: "png",
+        options: { devices: ["20x10@2", { name: "kiosk", width: 30, height: 15 }], contactSheet: true, fullPage: false },
+      })
+
+      const images = [result.content, ...result.metadata.additionalImages].map(image => decodePNG(Buffer.from(image, "base64")))
+      expect(images.map(image => [image.width, image.height])).toEqual([[40, 20], [30, 15], [32 + 20 + 32 + 30 + 32, 32 + 15 + 32]])
+      expect(result.metadata.devices).toEqual(["20x10@2", "kiosk"])
+      expect(result.metadata.contactSheet).toBe(true)
+    })
+
+    it("should restore the viewport when a capture fails", async () => {
+      mockMHTMLProcessor.screenshot.mockRejectedValueOnce(new Error("Target closed"))
+
+      await expect(deviceTier.convert(mockHTMLDocument, { format: "jpeg", options: { devices: ["tablet"] } }))
+        .rejects
+        .toThrow("Target closed")
+      expect(mockMHTMLProcessor.clearViewport.mock.invocationCallOrder.at(-1))
+        .toBeGreaterThan(mockMHTMLProcessor.setViewport.mock.invocationCallOrder.at(-1)!)
+    })
+
+    it("should reject unknown devices", async () => {
+      await expect(deviceTier.convert(mockHTMLDocument, { format: "png", options: { devices: ["watch"] } }))
+        .rejects
+        .toThrow("Unknown device: watch")
+    })
+  })
+
   describe("strategy interface", () => {
     it("should return correct strategy name", () => {
       expect(tier.getName()).toBe("Chrome CDP Tier")
@@ -1,7 +1,29 @@
 import { Buffer } from "node:buffer"
 
-import type { ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
+import type { ConversionRequest, ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
 import type { ChromeCDPManager } from "../core/engine/chrome-cdp-manager"
+import { createViewportSettleScript, resolveDevices } from "../core/engine/device-presets"
+import { createElementIsolationScript, padElementBox } from "../core/engine/element-capture"
+import type { ElementBox, ElementIsolation } from "../core/engine/element-capture"
+import type { PageCaptureMetadata, PageLayoutMetrics } from "../core/engine/mhtml-processor"
+import { createPageBreakScript } from "../core/engine/page-breaks"
+import { captureTiledScreenshot, MAX_TEXTURE_SIZE } from "../core/engine/tiled-screenshot"
+import { composeContactSheet, decodePNG, encodeJPEG, encodePNG } from "../core/imaging"
+import type { ContactSheetImage } from "../core/imaging"
+import { setPDFMetadata } from "../core/pdf/pdf-metadata"
+import type { PDFDocumentMetadata } from "../core/pdf/pdf-metadata"
+import { addPDFOutline, hasPDFOutline, OUTLINE_HEADINGS_SCRIPT } from "../core/pdf/pdf-outline"
+import type { PDFOutlineHeading } from "../core/pdf/pdf-outline"
+
+/**
+ * CSS pixels per inch, the unit of PDF paper sizes and margins
+ */
+const CSS_PIXELS_PER_INCH = 96
+
+/**
+ * Tallest single PDF page in CSS pixels (the 200 inch page limit of PDF viewers)
+ */
+export const MAX_PDF_PAGE_HEIGHT = 200 * CSS_PIXELS_PER_INCH
 
 /**
  * Chrome CDP Tier configuration options
@@ -72,6 +94,8 @@ export type ConversionFormat = "pdf" | "png" | "jpeg" | "webp" | "mhtml"
  * Provides high-fidelity HTML conversion using Chrome DevTools Protocol with:
  * - PDF generation using Page.printToPDF
  * - Image generation using Page.screenshot
+ * - Capture of single elements matched by a CSS selector
+ * - Responsive screenshots across device presets
  * - MHTML creation using Page.captureSnapshot
  * - Error handling and timeout management
  * - Resource cleanup and performance optimization
@@ -134,12 +158,14 @@ export class ChromeCDPTier implements ConverterStrategy {
    * Convert HTML document to the target format using Chrome CDP
    *
    * @param input - HTML document to convert
+   * @param request - Target format and format-specific options (defaults to PDF)
    * @returns Promise resolving to conversion result
    */
-  async convert(input: HTMLDocument): Promise<ConversionResult> {
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
     const startTime = Date.now()
     const inputHTML = this.serializeHTMLDocument(input)
-    const format = this.detectTargetFormat(inputHTML)
+    const format = (request?.format ?? "pdf") as ConversionFormat
+    const options = request?.options ?? {}
 
     this.logger.info("Starting Chrome CDP conversion", {
       format,
@@ -157,7 +183,8 @@ export class ChromeCDPTier implements ConverterStrategy {
       const mhtmlProcessor = await this.chromeManager.getMHTMLProcessor()
 
       // Set up the HTML document in Chrome
-      const { targetId } = await this.setupDocumentInChrome(mhtmlProcessor, inputHTML)
+      const sourceURL = this.getNavigableURL(input)
+      const { targetId } = await this.setupDocumentInChrome(mhtmlProcessor, inputHTML, sourceURL, options)
 
       // Capture pre-conversion screenshot if requested
       let preConversionScreenshot: string | undefined
@@ -168,11 +195,17 @@ export class ChromeCDPTier implements ConverterStrategy {
       // Convert based on target format
       let content: string
       let mimeType: string
+      let additionalImages: string[] | undefined
+      let additionalPDFs: string[] | undefined
+      let devices: { names: string[], contactSheet: boolean } | undefined
+      let pageLayout: string | undefined
 
       switch (format) {
         case "pdf": {
-          const pdfResult = await this.convertToPDF(mhtmlProcessor, targetId)
+          const pdfResult = await this.convertToPDF(mhtmlProcessor, targetId, options, sourceURL)
           content = pdfResult.content
+          additionalPDFs = pdfResult.additionalPDFs
+          pageLayout = pdfResult.layout
           mimeType = "application/pdf"
           break
         }
@@ -180,8 +213,12 @@ export class ChromeCDPTier implements ConverterStrategy {
         case "png":
         case "jpeg":
         case "webp": {
-          const imageResult = await this.convertToImage(mhtmlProcessor, targetId, format)
+          const imageResult: { content: string, additionalImages?: string[], devices?: typeof devices } = options.devices?.length
+            ? await this.captureDevices(mhtmlProcessor, targetId, format, options)
+            : await this.convertToImage(mhtmlProcessor, targetId, format, options)
           content = imageResult.content
+          additionalImages = imageResult.additionalImages
+          devices = imageResult.devices
           mimeType = `image/${format}`
           break
         }
@@ -210,9 +247,17 @@ export class ChromeCDPTier implements ConverterStrategy {
           size: contentSize,
           executionTime,
           tier: 1,
+          encoding: "base64",
           preConversionScreenshot,
           conversionMethod: "chrome-cdp",
           targetId,
+          ...(pageLayout && { pageLayout }),
+          ...(additionalImages && {
+            additionalImages,
+            imageCount: additionalImages.length + 1,
+          }),
+          ...(additionalPDFs && { additionalPDFs }),
+          ...(devices && { devices: devices.names, contactSheet: devices.contactSheet }),
         },
       }
 
@@ -359,22 +404,11 @@ export class ChromeCDPTier implements ConverterStrategy {
   }
 
   /**
-   * Detect the target conversion format based on document content or configuration
+   * Get the document URL when Chrome can load it directly (http, https or file)
    */
-  private detectTargetFormat(htmlContent: string): ConversionFormat {
-    // Check for format hints in the HTML
-    if (htmlContent.includes("data-export=\"pdf\"") || htmlContent.includes("export-pdf")) {
-      return "pdf"
-    }
-    if (htmlContent.includes("data-export=\"image\"") || htmlContent.includes("export-image")) {
-      return this.config.imageOptions.format as ConversionFormat
-    }
-    if (htmlContent.includes("data-export=\"mhtml\"") || htmlContent.includes("export-mhtml")) {
-      return "mhtml"
-    }
-
-    // Default to PDF for documents with significant content
-    return "pdf"
+  private getNavigableURL(document: HTMLDocument): string | undefined {
+    const url = document.URL
+    return typeof url === "string" && /^(?:https?|file):/i.test(url) ? url : undefined
   }
 
   /**
@@ -383,16 +417,39 @@ export class ChromeCDPTier implements ConverterStrategy {
   private async setupDocumentInChrome(
     mhtmlProcessor: any,
     htmlContent: string,
+    sourceURL?: string,
+    options: Record<string, any> = {},
   ): Promise<{ targetId: string }> {
     try {
-      // Navigate to about:blank first to get a clean state
-      const { targetId } = await mhtmlProcessor.navigate("about:blank")
+      let targetId: string
+
+      // Send the credentials used to fetch the input (and reset those of the previous conversion)
+      await mhtmlProcessor.setRequestHeaders({ headers: options.headers, auth: options.auth, userAgent: options.userAgent })
+
+      // Apply viewport emulation before the document is laid out (and clear that of the previous conversion)
+      if (options.viewport) {
+        await mhtmlProcessor.setViewport({
+          ...options.viewport,
+          mobile: options.emulateMobile ?? false,
+          userAgent: options.userAgent,
+        })
+      } else {
+        await mhtmlProcessor.clearViewport()
+      }
 
-      // Set the HTML content
-      await mhtmlProcessor.setContent(htmlContent)
+      if (sourceURL) {
+        // Load the page from its origin so relative resources resolve
+        ({ targetId } = await mhtmlProcessor.navigate(sourceURL))
+      } else {
+        // Navigate to about:blank first to get a clean state
+        ({ targetId } = await mhtmlProcessor.navigate("about:blank"))
+
+        // Set the HTML content
+        await mhtmlProcessor.setContent(htmlContent)
+      }
 
       // Wait for the page to load
-      await mhtmlProcessor.waitForLoad()
+      await mhtmlProcessor.waitForLoad({ timeout: options.timeout, waitTime: options.waitTime })
 
       this.logger.debug("Document set up in Chrome", { targetId, contentLength: htmlContent.length })
 
@@ -406,35 +463,234 @@ export class ChromeCDPTier implements ConverterStrategy {
   /**
    * Convert document to PDF using Page.printToPDF
    */
-  private async convertToPDF(mhtmlProcessor: any, targetId: string): Promise<{ content: string }> {
+  private async convertToPDF(
+    mhtmlProcessor: any,
+    targetId: string,
+    options: Record<string, any> = {},
+    sourceURL?: string,
+  ): Promise<{ content: string, additionalPDFs?: string[], layout?: string }> {
     try {
       this.logger.debug("Converting to PDF", { targetId })
 
-      const pdfOptions = {
-        format: this.config.pdfOptions.format,
-        printBackground: this.config.pdfOptions.printBackground,
+      // Request options (PDFOptions) take precedence over the tier configuration
+      const margin = typeof options.margin === "number"
+        ? { top: options.margin, right: options.margin, bottom: options.margin, left: options.margin }
+        : { ...this.config.pdfOptions.margin, ...options.margin }
+
+      const pdfOptions: Record<string, any> = {
+        format: options.format ?? this.config.pdfOptions.format,
+        printBackground: options.printBackground ?? this.config.pdfOptions.printBackground,
         margin: {
-          top: this.config.pdfOptions.margin?.top ?? 0.4,
-          right: this.config.pdfOptions.margin?.right ?? 0.4,
-          bottom: this.config.pdfOptions.margin?.bottom ?? 0.4,
-          left: this.config.pdfOptions.margin?.left ?? 0.4,
+          top: margin.top ?? 0.4,
+          right: margin.right ?? 0.4,
+          bottom: margin.bottom ?? 0.4,
+          left: margin.left ?? 0.4,
         },
-        landscape: this.config.pdfOptions.landscape,
-        pageRanges: this.config.pdfOptions.pageRanges,
-        displayHeaderFooter: false,
-        preferCSSPageSize: true,
+        landscape: options.orientation ? options.orientation === "landscape" : this.config.pdfOptions.landscape,
+        pageRanges: options.pageRanges ?? this.config.pdfOptions.pageRanges,
+        // Templates only render when Chrome is asked to display them
+        displayHeaderFooter: options.displayHeaderFooter ?? Boolean(options.headerTemplate || options.footerTemplate),
+        headerTemplate: options.headerTemplate,
+        footerTemplate: options.footerTemplate,
+        scale: options.scale,
+        preferCSSPageSize: options.preferCSSPageSize ?? true,
+        generateTaggedPDF: options.generateTaggedPDF,
+        generateDocumentOutline: options.generateDocumentOutline,
       }
 
-      const pdfData = await mhtmlProcessor.printToPDF(pdfOptions)
-      const base64Content = Buffer.from(pdfData).toString("base64")
+      let layout: string | undefined
+      if (options.layout === "single-page" && !options.selector) {
+        const paperSize = await this.measureSinglePage(mhtmlProcessor, targetId, pdfOptions, options.maxHeight)
+        if (paperSize) {
+          Object.assign(pdfOptions, { ...paperSize, landscape: false, preferCSSPageSize: false })
+        }
+        layout = paperSize ? "single-page" : "standard"
+      } else if (options.layout === "auto-page") {
+        // Author-placed markers become CSS page breaks before printing
+        const pageBreaks: number = await mhtmlProcessor.evaluate(createPageBreakScript(options.pageBreaks))
+        this.logger.debug("Applied page break markers", { targetId, pageBreaks })
+        layout = "auto-page"
+      }
 
-      return { content: base64Content }
+      if (options.selector) {
+        return await this.printElements(mhtmlProcessor, targetId, pdfOptions, options, sourceURL)
+      }
+
+      // Headings are marked before printing in case Chrome does not generate the outline itself
+      const headings: PDFOutlineHeading[] | undefined = pdfOptions.generateDocumentOutline
+        ? await mhtmlProcessor.evaluate(OUTLINE_HEADINGS_SCRIPT)
+        : undefined
+
+      const content = await this.printDocument(mhtmlProcessor, targetId, pdfOptions, options, sourceURL, headings)
+
+      return { content, layout }
     } catch (error) {
       this.logger.error("Failed to convert to PDF", error as Error, { targetId })
       throw new Error(`PDF conversion failed: ${(error as Error).message}`)
     }
   }
 
+  /**
+   * Print each element matched by the selector as its own PDF
+   *
+   * The rest of the page is hidden with print CSS, one element at a time. In the
+   * single-page layout each page is sized to its element.
+   */
+  private async printElements(
+    mhtmlProcessor: any,
+    targetId: string,
+    pdfOptions: Record<string, any>,
+    options: Record<string, any>,
+    sourceURL?: string,
+  ): Promise<{ content: string, additionalPDFs?: string[], layout?: string }> {
+    const selector: string = options.selector
+    const pdfs: string[] = []
+    let layout: string | undefined = options.layout === "auto-page" ? "auto-page" : undefined
+
+    let matches = 1
+    for (let index = 0; index < matches; index++) {
+      const element: ElementIsolation = await mhtmlProcessor.evaluate(createElementIsolationScript(selector, index))
+      matches = element.matches
+      if (!element.width || !element.height) {
+        continue
+      }
+
+      const elementOptions = { ...pdfOptions }
+      if (options.layout === "single-page") {
+        const paperSize = await this.measureSinglePage(mhtmlProcessor, targetId, pdfOptions, options.maxHeight, element)
+        Object.assign(elementOptions, paperSize && { ...paperSize, landscape: false, preferCSSPageSize: false })
+        // Reported as standard pagination once any element is too tall for a single page
+        layout = paperSize && layout !== "standard" ? "single-page" : "standard"
+      }
+      pdfs.push(await this.printDocument(mhtmlProcessor, targetId, elementOptions, options, sourceURL))
+    }
+
+    if (pdfs.length === 0) {
+      throw new Error(`No rendered element matches selector: ${selector}`)
+    }
+    this.logger.info("Printed elements matching selector", { targetId, selector, elements: pdfs.length })
+
+    const [content, ...rest] = pdfs
+    return {
+      content: content!,
+      additionalPDFs: rest.length > 0 ? rest : undefined,
+      layout,
+    }
+  }
+
+  /**
+   * Print the page, adding the document outline and metadata
+   *
+   * @returns Base64 encoded PDF
+   */
+  private async printDocument(
+    mhtmlProcessor: any,
+    targetId: string,
+    pdfOptions: Record<string, any>,
+    options: Record<string, any>,
+    sourceURL?: string,
+    headings?: PDFOutlineHeading[],
+  ): Promise<string> {
+    let pdfData = Buffer.from(await mhtmlProcessor.printToPDF(pdfOptions))
+    if (headings && headings.length > 0 && !hasPDFOutline(pdfData)) {
+      pdfData = this.addOutline(pdfData, headings, targetId)
+    }
+    if (options.metadata !== false) {
+      pdfData = await this.addMetadata(mhtmlProcessor, pdfData, options.metadata ?? {}, sourceURL, targetId)
+    }
+    return pdfData.toString("base64")
+  }
+
+  /**
+   * Add a document outline built from the headings, keeping the PDF unchanged if it cannot be read
+   */
+  private addOutline(pdfData: Buffer, headings: PDFOutlineHeading[], targetId: string): Buffer {
+    try {
+      const updated = addPDFOutline(pdfData, headings)
+      this.logger.debug("Added document outline to PDF", { targetId, headings: headings.length })
+      return updated
+    } catch (error) {
+      this.logger.warn("Failed to add document outline to PDF", { targetId, error: (error as Error).message })
+      return pdfData
+    }
+  }
+
+  /**
+   * Write the document metadata, taking unset fields from the page, keeping the PDF unchanged if it cannot be updated
+   */
+  private async addMetadata(
+    mhtmlProcessor: any,
+    pdfData: Buffer,
+    options: Record<string, any>,
+    sourceURL: string | undefined,
+    targetId: string,
+  ): Promise<Buffer> {
+    try {
+      const page: PageCaptureMetadata | undefined = options.fromPage !== false
+        ? await mhtmlProcessor.getPageMetadata()
+        : undefined
+      const pageURL = page?.url && /^(?:https?|file):/i.test(page.url) ? page.url : undefined
+
+      const metadata: PDFDocumentMetadata = {
+        title: options.title ?? (page?.title || undefined),
+        author: options.author ?? page?.author,
+        subject: options.subject ?? page?.description,
+        keywords: options.keywords ?? page?.keywords,
+        creator: options.creator,
+        producer: options.producer,
+        source: pageURL ?? sourceURL,
+        creationDate: page?.captureTimestamp ? new Date(page.captureTimestamp) : new Date(),
+        modificationDate: new Date(),
+      }
+
+      const updated = setPDFMetadata(pdfData, metadata)
+      this.logger.debug("Added document metadata to PDF", { targetId, title: metadata.title, source: metadata.source })
+      return updated
+    } catch (error) {
+      this.logger.warn("Failed to add document metadata to PDF", { targetId, error: (error as Error).message })
+      return pdfData
+    }
+  }
+
+  /**
+   * Measure the rendered document, or the given content size, for a single PDF page holding all of it
+   *
+   * @returns Paper size in inches, or undefined when the page would exceed the maximum height
+   */
+  private async measureSinglePage(
+    mhtmlProcessor: any,
+    targetId: string,
+    pdfOptions: Record<string, any>,
+    maxHeight: number = MAX_PDF_PAGE_HEIGHT,
+    content?: { width: number, height: number },
+  ): Promise<{ paperWidth: number, paperHeight: number } | undefined> {
+    const metrics: Pick<PageLayoutMetrics, "contentWidth" | "contentHeight"> = content
+      ? { contentWidth: content.width, contentHeight: content.height }
+      : await mhtmlProcessor.getLayoutMetrics()
+    const scale = pdfOptions.scale ?? 1
+    const { top, right, bottom, left } = pdfOptions.margin
+
+    // Content is printed at the PDF scale; margins are added around it
+    const width = metrics.contentWidth * scale + (left + right) * CSS_PIXELS_PER_INCH
+    const height = metrics.contentHeight * scale + (top + bottom) * CSS_PIXELS_PER_INCH
+    const limit = Math.min(maxHeight, MAX_PDF_PAGE_HEIGHT)
+
+    if (height > limit) {
+      this.logger.warn("Document is taller than the maximum single page height; using standard pagination", {
+        targetId,
+        contentHeight: metrics.contentHeight,
+        maxHeight: limit,
+      })
+      return undefined
+    }
+
+    // Round up to whole hundredths of an inch so the content never spills onto a second page
+    return {
+      paperWidth: Math.ceil(width / CSS_PIXELS_PER_INCH * 100) / 100,
+      paperHeight: Math.ceil(height / CSS_PIXELS_PER_INCH * 100) / 100,
+    }
+  }
+
   /**
    * Convert document to image using Page.screenshot
    */
@@ -442,22 +698,64 @@ export class ChromeCDPTier implements ConverterStrategy {
     mhtmlProcessor: any,
     targetId: string,
     format: ConversionFormat,
-  ): Promise<{ content: string }> {
+    options: Record<string, any> = {},
+  ): Promise<{ content: string, additionalImages?: string[] }> {
     try {
       this.logger.debug("Converting to image", { targetId, format })
 
+      // Request options (ImageOptions) use 0-100 quality; the tier configuration uses 0-1
+      const quality = options.quality ?? Math.round((this.config.imageOptions.quality ?? 0.9) * 100)
+      const fullPage = options.fullPage ?? this.config.imageOptions.fullPage
+      const dimensions = options.dimensions ?? this.config.imageOptions.dimensions
+
+      if (options.selector) {
+        return await this.captureElements(mhtmlProcessor, targetId, format, quality, options.selector, options.selectorPadding)
+      }
+
+      if (fullPage && !options.clip) {
+        const metrics: PageLayoutMetrics = await mhtmlProcessor.getLayoutMetrics()
+        const exceedsTexture = metrics.contentHeight * metrics.deviceScaleFactor > MAX_TEXTURE_SIZE
+        const tiled = Boolean(options.maxHeight || options.split || exceedsTexture)
+
+        if (tiled && (format === "png" || format === "jpeg")) {
+          const images = await captureTiledScreenshot(mhtmlProcessor, {
+            format,
+            quality,
+            maxHeight: options.maxHeight,
+            split: options.split,
+          }, metrics)
+
+          this.logger.info("Captured full page in tiles", {
+            targetId,
+            contentHeight: metrics.contentHeight,
+            images: images.length,
+          })
+
+          const [first, ...rest] = images.map(image => image.toString("base64"))
+          return { content: first ?? "", additionalImages: rest.length > 0 ? rest : undefined }
+        }
+
+        if (tiled) {
+          this.logger.warn("WebP screenshots cannot be stitched; tall pages may be truncated", {
+            targetId,
+            contentHeight: metrics.contentHeight,
+            maxTextureSize: MAX_TEXTURE_SIZE,
+          })
+        }
+      }
+
       const screenshotOptions = {
-        format: this.config.imageOptions.format,
-        quality: format === "jpeg" ? Math.round((this.config.imageOptions.quality ?? 0.9) * 100) : undefined,
-        fullPage: this.config.imageOptions.fullPage,
-        clip: this.config.imageOptions.dimensions
+        format,
+        quality: format === "png" ? undefined : quality,
+        fullPage,
+        clip: options.clip ?? (dimensions && !fullPage
           ? {
               x: 0,
               y: 0,
-              width: this.config.imageOptions.dimensions.width,
-              height: this.config.imageOptions.dimensions.height,
+              width: dimensions.width,
+              height: dimensions.height,
             }
-          : undefined,
+          : undefined),
       }
 
       const imageData = await mhtmlProcessor.screenshot(screenshotOptions)
@@ -470,6 +768,105 @@ export class ChromeCDPTier implements ConverterStrategy {
     }
   }
 
+  /**
+   * Capture the loaded page once per device, changing the emulated device metrics between captures
+   *
+   * The page is loaded once, so only its client-side responsive behavior follows
+   * the device. For a contact sheet the devices are captured as PNG, composed
+   * side by side and encoded in the requested format.
+   */
+  private async captureDevices(
+    mhtmlProcessor: any,
+    targetId: string,
+    format: ConversionFormat,
+    options: Record<string, any>,
+  ): Promise<{ content: string, additionalImages?: string[], devices: { names: string[], contactSheet: boolean } }> {
+    const devices = resolveDevices(options.devices)
+    const quality = options.quality ?? Math.round((this.config.imageOptions.quality ?? 0.9) * 100)
+    const contactSheet = Boolean(options.contactSheet) && format !== "webp"
+    if (options.contactSheet && !contactSheet) {
+      this.logger.warn("WebP screenshots cannot be composed; skipping the contact sheet", { targetId })
+    }
+
+    const images: string[] = []
+    const sheetImages: ContactSheetImage[] = []
+    try {
+      for (const device of devices) {
+        await mhtmlProcessor.setViewport({
+          width: device.width,
+          height: device.height,
+          deviceScaleFactor: device.deviceScaleFactor,
+          mobile: device.mobile,
+          userAgent: device.userAgent,
+        })
+        await mhtmlProcessor.evaluate(createViewportSettleScript())
+
+        // One image per device: tall pages are cropped rather than split or cut into elements
+        const { content } = await this.convertToImage(mhtmlProcessor, targetId, contactSheet ? "png" : format, {
+          ...options,
+          split: false,
+          selector: undefined,
+          dimensions: { width: device.width, height: device.height },
+        })
+        if (contactSheet) {
+          const image = decodePNG(Buffer.from(content, "base64"))
+          sheetImages.push({ image, scale: device.deviceScaleFactor })
+          images.push(format === "jpeg" ? encodeJPEG(image, quality).toString("base64") : content)
+        } else {
+          images.push(content)
+        }
+        this.logger.debug("Captured device", { targetId, device: device.name, width: device.width, height: device.height })
+      }
+    } finally {
+      // Later conversions on this page start from the window's own metrics
+      await mhtmlProcessor.clearViewport()
+    }
+
+    if (contactSheet) {
+      const sheet = composeContactSheet(sheetImages)
+      images.push((format === "jpeg" ? encodeJPEG(sheet, quality) : encodePNG(sheet)).toString("base64"))
+    }
+    this.logger.info("Captured page on devices", { targetId, devices: devices.length, contactSheet })
+
+    const [content, ...rest] = images
+    return {
+      content: content!,
+      additionalImages: rest.length > 0 ? rest : undefined,
+      devices: { names: devices.map(device => device.name), contactSheet },
+    }
+  }
+
+  /**
+   * Capture each element matched by the selector as its own image, clipped to its border box and padding
+   */
+  private async captureElements(
+    mhtmlProcessor: any,
+    targetId: string,
+    format: ConversionFormat,
+    quality: number,
+    selector: string,
+    padding?: number,
+  ): Promise<{ content: string, additionalImages?: string[] }> {
+    const boxes: ElementBox[] = await mhtmlProcessor.getElementBoxes(selector)
+    if (boxes.length === 0) {
+      throw new Error(`No rendered element matches selector: ${selector}`)
+    }
+
+    const images: string[] = []
+    for (const box of boxes) {
+      const imageData = await mhtmlProcessor.screenshot({
+        format,
+        quality: format === "png" ? undefined : quality,
+        clip: padElementBox(box, padding),
+      })
+      images.push(Buffer.from(imageData).toString("base64"))
+    }
+    this.logger.info("Captured elements matching selector", { targetId, selector, elements: images.length })
+
+    const [content, ...rest] = images
+    return { content: content!, additionalImages: rest.length > 0 ? rest : undefined }
+  }
+
   /**
    * Convert document to MHTML using Page.captureSnapshot
    */
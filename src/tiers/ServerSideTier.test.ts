@@ -381,13 +381,7 @@ describe("serverSideTier", () => {
       // Clear the default mock and set up specific behavior for image format
       vi.clearAllMocks()
 
-      // Create document with proper data-export attribute without HTML wrapper
       const doc = document.implementation.createHTMLDocument("Test")
-      Object.defineProperty(doc.documentElement, "outerHTML", {
-        value: "<div data-export=\"image\">Test Image</div>",
-        writable: false,
-        configurable: true,
-      })
 
       // Mock image service response
       ;(globalThis.fetch as any).mockResolvedValue({
@@ -409,7 +403,7 @@ describe("serverSideTier", () => {
         text: () => Promise.resolve("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="),
       })
 
-      const result = await serverSideTier.convert(doc)
+      const result = await serverSideTier.convert(doc, { format: "png" })
 
       expect(result.mimeType).toBe("image/png")
       expect(result.metadata?.targetFormat).toBe("png")
@@ -974,38 +968,30 @@ describe("serverSideTier", () => {
     })
   })
 
-  describe("request format detection", () => {
+  describe("conversion requests", () => {
     const createMockDocument = (content: string): HTMLDocument => {
       const doc = document.implementation.createHTMLDocument("Test")
       doc.body.innerHTML = content
-
-      // Mock outerHTML for documentElement to match browser behavior
-      if (doc.documentElement && !doc.documentElement.outerHTML) {
-        Object.defineProperty(doc.documentElement, "outerHTML", {
-          value: `<!DOCTYPE html><html><head><title>Test</title></head><body>${content}</body></html>`,
-          writable: false,
-          configurable: true,
-        })
-      }
-
       return doc
     }
 
-    it("should detect PDF format from data-export attribute", async () => {
-      const doc = createMockDocument("<div data-export=\"pdf\">PDF content</div>")
-
-      // Mock the conversion to succeed
+    const mockJSONResponse = (content: string, mimeType: string) => {
       ;(globalThis.fetch as any).mockResolvedValue({
         ok: true,
         status: 200,
         headers: new Headers({ "content-type": "application/json" }),
         json: () => Promise.resolve({
           success: true,
-          data: { content: "pdf-content", mimeType: "application/pdf" },
+          data: { content, mimeType },
         }),
+        text: () => Promise.resolve(content),
       })
+    }
 
-      await serverSideTier.convert(doc)
+    it("should use the requested PDF format", async () => {
+      mockJSONResponse("pdf-content", "application/pdf")
+
+      await serverSideTier.convert(createMockDocument("<div>PDF content</div>"), { format: "pdf" })
 
       expect(mockLogger.info).toHaveBeenCalledWith(
         "Starting Server Side conversion",
@@ -1013,82 +999,58 @@ describe("serverSideTier", () => {
       )
     })
 
-    it("should detect image format from data-export attribute", async () => {
-      // Use the existing serverSideTier which already has image services configured
-      // Clear mock and set up specific behavior for image format detection
+    it("should route image formats to image services", async () => {
       vi.clearAllMocks()
+      mockJSONResponse("image-content", "image/jpeg")
 
-      // Create document with proper data-export attribute without HTML wrapper
-      const doc = document.implementation.createHTMLDocument("Test")
-      Object.defineProperty(doc.documentElement, "outerHTML", {
-        value: "<div data-export=\"image\">Image content</div>",
-        writable: false,
-        configurable: true,
-      })
+      const result = await serverSideTier.convert(createMockDocument("<div>Image content</div>"), { format: "jpeg" })
 
-      // Mock image service response
-      ;(globalThis.fetch as any).mockResolvedValue({
-        ok: true,
-        status: 200,
-        headers: new Headers({ "content-type": "application/json" }),
-        json: () => Promise.resolve({
-          success: true,
-          data: { content: "image-content", mimeType: "image/png" },
-        }),
-        text: () => Promise.resolve("image-content"),
-      })
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        "Starting Server Side conversion",
+        expect.objectContaining({ format: "jpeg" }),
+      )
+      expect(result.metadata.serviceUsed).toBe("test-image-service")
+      expect(result.metadata.targetFormat).toBe("jpeg")
+    })
 
-      await serverSideTier.convert(doc)
+    it("should use the requested MHTML format", async () => {
+      mockJSONResponse("mhtml-content", "multipart/related")
+
+      await serverSideTier.convert(createMockDocument("<div>MHTML content</div>"), { format: "mhtml" })
 
       expect(mockLogger.info).toHaveBeenCalledWith(
         "Starting Server Side conversion",
-        expect.objectContaining({ format: "image" }),
+        expect.objectContaining({ format: "mhtml" }),
       )
     })
 
-    it("should detect MHTML format from data-export attribute", async () => {
-      // Create document with proper data-export attribute without HTML wrapper
-      const doc = document.implementation.createHTMLDocument("Test")
-      Object.defineProperty(doc.documentElement, "outerHTML", {
-        value: "<div data-export=\"mhtml\">MHTML content</div>",
-        writable: false,
-        configurable: true,
-      })
-
-      // Mock MHTML service response
-      ;(globalThis.fetch as any).mockResolvedValue({
-        ok: true,
-        status: 200,
-        headers: new Headers({ "content-type": "application/json" }),
-        json: () => Promise.resolve({
-          success: true,
-          data: { content: "mhtml-content", mimeType: "multipart/related" },
-        }),
-      })
+    it("should ignore format hints in the markup", async () => {
+      mockJSONResponse("pdf-content", "application/pdf")
 
-      await serverSideTier.convert(doc)
+      await serverSideTier.convert(createMockDocument("<div data-export=\"image\">Content</div>"), { format: "pdf" })
 
       expect(mockLogger.info).toHaveBeenCalledWith(
         "Starting Server Side conversion",
-        expect.objectContaining({ format: "mhtml" }),
+        expect.objectContaining({ format: "pdf" }),
       )
     })
 
-    it("should default to PDF format when no format hint is found", async () => {
-      const doc = createMockDocument("<div>Regular content</div>")
+    it("should forward request options to the service", async () => {
+      mockJSONResponse("pdf-content", "application/pdf")
 
-      // Mock default PDF response
-      ;(globalThis.fetch as any).mockResolvedValue({
-        ok: true,
-        status: 200,
-        headers: new Headers({ "content-type": "application/json" }),
-        json: () => Promise.resolve({
-          success: true,
-          data: { content: "default-pdf", mimeType: "application/pdf" },
-        }),
+      await serverSideTier.convert(createMockDocument("<div>Content</div>"), {
+        format: "pdf",
+        options: { pageFormat: "Letter" },
       })
 
-      await serverSideTier.convert(doc)
+      const body = JSON.parse((globalThis.fetch as any).mock.calls.at(-1)[1].body)
+      expect(body.options).toEqual({ pageFormat: "Letter" })
+    })
+
+    it("should default to PDF format when no request is given", async () => {
+      mockJSONResponse("default-pdf", "application/pdf")
+
+      await serverSideTier.convert(createMockDocument("<div>Regular content</div>"))
 
       expect(mockLogger.info).toHaveBeenCalledWith(
         "Starting Server Side conversion",
@@ -1,4 +1,4 @@
-import type { ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
+import type { ConversionRequest, ConversionResult, ConverterStrategy, Logger, ValidationResult } from "../architecture/strategies/types"
 
 /**
  * Server-side conversion service configuration
@@ -237,12 +237,13 @@ export class ServerSideTier implements ConverterStrategy {
    * Convert HTML document using external services
    *
    * @param input - HTML document to convert
+   * @param request - Target format and format-specific options (defaults to PDF)
    * @returns Promise resolving to conversion result
    */
-  async convert(input: HTMLDocument): Promise<ConversionResult> {
+  async convert(input: HTMLDocument, request?: ConversionRequest): Promise<ConversionResult> {
     const startTime = Date.now()
     const inputHTML = this.serializeHTMLDocument(input)
-    const format = this.detectTargetFormat(inputHTML)
+    const format = request?.format ?? "pdf"
     const requestId = this.generateRequestId()
 
     this.logger.info("Starting Server Side conversion", {
@@ -259,7 +260,7 @@ export class ServerSideTier implements ConverterStrategy {
       }
 
       // Get available services for the target format
-      const services = this.getAvailableServices(format)
+      const services = this.getAvailableServices(this.getServiceCategory(format))
       if (services.length === 0) {
         throw new Error(`No available services for format: ${format}`)
       }
@@ -268,13 +269,11 @@ export class ServerSideTier implements ConverterStrategy {
       const context: ConversionContext = {
         format,
         htmlContent: inputHTML,
+        options: request?.options,
         timestamp: new Date(),
         requestId,
       }
 
-      // Map service category to actual output format for metadata
-      const outputFormat = this.mapServiceCategoryToFormat(format)
-
       // Try services in order of priority and health
       let lastError: Error | null = null
       for (const service of services) {
@@ -298,7 +297,7 @@ export class ServerSideTier implements ConverterStrategy {
             mimeType: result.mimeType,
             metadata: {
               sourceType: "text/html",
-              targetFormat: outputFormat,
+              targetFormat: format,
               timestamp: new Date(),
               size: contentSize,
               executionTime,
@@ -313,7 +312,7 @@ export class ServerSideTier implements ConverterStrategy {
           }
 
           this.logger.info("Server Side conversion completed", {
-            format: outputFormat,
+            format,
             size: contentSize,
             executionTime,
             serviceUsed: service.id,
@@ -503,25 +502,6 @@ export class ServerSideTier implements ConverterStrategy {
     throw new Error("Cannot serialize HTML document: unsupported environment")
   }
 
-  /**
-   * Detect the target conversion format based on document content
-   */
-  private detectTargetFormat(htmlContent: string): string {
-    // Check for format hints in the HTML
-    if (htmlContent.includes("data-export=\"pdf\"") || htmlContent.includes("export-pdf")) {
-      return "pdf"
-    }
-    if (htmlContent.includes("data-export=\"image\"") || htmlContent.includes("export-image")) {
-      return "image" // Use service category key
-    }
-    if (htmlContent.includes("data-export=\"mhtml\"") || htmlContent.includes("export-mhtml")) {
-      return "mhtml"
-    }
-
-    // Default to PDF for documents with significant content
-    return "pdf"
-  }
-
   /**
    * Get available services for a specific format
    */
@@ -540,18 +520,16 @@ export class ServerSideTier implements ConverterStrategy {
   }
 
   /**
-   * Map service category to actual output format
+   * Map a requested output format to its service category
    */
-  private mapServiceCategoryToFormat(category: string): string {
-    switch (category) {
-      case "image":
-        return "png" // Default image format
-      case "pdf":
-        return "pdf"
-      case "mhtml":
-        return "mhtml"
+  private getServiceCategory(format: string): string {
+    switch (format) {
+      case "png":
+      case "jpeg":
+      case "webp":
+        return "image"
       default:
-        return "pdf"
+        return format
     }
   }
 
@@ -779,13 +757,11 @@ export class ServerSideTier implements ConverterStrategy {
           if (!jsonResponse.success) {
             throw new Error(jsonResponse.error?.message || "Service returned error")
           }
-          const outputFormat = this.mapServiceCategoryToFormat(context.format)
-
           // Handle different response structures
           let content, mimeType
           if (jsonResponse.data) {
             content = jsonResponse.data.content
-            mimeType = jsonResponse.data.mimeType || this.getDefaultMimeType(outputFormat)
+            mimeType = jsonResponse.data.mimeType || this.getDefaultMimeType(context.format)
           } else {
             // Handle cases where data is missing (error responses)
             throw new Error("Service response missing data field")
@@ -800,10 +776,9 @@ export class ServerSideTier implements ConverterStrategy {
 
         case "base64": {
           const base64Content = await response.text()
-          const outputFormat = this.mapServiceCategoryToFormat(context.format)
           return {
             content: base64Content,
-            mimeType: this.getDefaultMimeType(outputFormat),
+            mimeType: this.getDefaultMimeType(context.format),
           }
         }
 
@@ -9,10 +9,24 @@
 import type { Buffer } from "node:buffer"
 
 import type { ConversionResult, ValidationResult } from "../architecture/strategies/types.js"
+import type { MarkdownCustomRule } from "../converters/markdown/types.js"
+import type { DeviceDescriptor } from "../core/engine/device-presets.js"
+import type { PageBreakMarkers } from "../core/engine/page-breaks.js"
 import type { ConversionError } from "../core/errors/conversion-error.js"
 
 // Re-export ValidationResult for public API
 export type { ValidationResult } from "../architecture/strategies/types.js"
+export type {
+  ExtractedDocument,
+  ExtractedHeading,
+  ExtractedImage,
+  ExtractedLink,
+  ExtractedMetadata,
+  ExtractedTable,
+} from "../converters/json/types.js"
+export type { MarkdownCustomRule, MarkdownRuleElement } from "../converters/markdown/types.js"
+export type { DeviceDescriptor } from "../core/engine/device-presets.js"
+export type { PageBreakMarkers } from "../core/engine/page-breaks.js"
 
 /**
  * Supported conversion formats
@@ -22,15 +36,22 @@ export type ConversionFormat
     | "pdf"
     | "png"
     | "jpeg"
+    | "webp"
     | "markdown"
     | "docx"
+    | "epub"
+    | "html"
+    | "json"
 
 /**
  * Input types for conversion
+ *
+ * MHTML archives are recognized by their .mhtml/.mht extension or their
+ * `multipart/related` message headers and rendered from the archive offline.
  */
 export type ConversionInput
-  = | string // URL or file path
-    | Buffer // Raw HTML content
+  = | string // URL, file path, HTML markup or MHTML archive content
+    | Buffer // Raw HTML content or MHTML archive
     | ArrayBuffer // Binary content
     | HTMLDocument // DOM document
 
@@ -109,13 +130,47 @@ export interface PDFOptions extends BaseConversionOptions {
   scale?: number
   /** Whether to prefer CSS page size over specified size (default: false) */
   preferCSSPageSize?: boolean
+  /** Page layout: paginated pages, one page sized to the whole rendered document, or pages broken at explicit markers (default: standard) */
+  layout?: "standard" | "single-page" | "auto-page"
+  /** Tallest single page in CSS pixels before falling back to standard pagination (default and limit: 19200) */
+  maxHeight?: number
+  /** Page break markers recognized by the auto-page layout (default: hr.page-break and pagebreak comments) */
+  pageBreaks?: PageBreakMarkers
+  /** Whether to generate a tagged (accessible) PDF (default: false) */
+  generateTaggedPDF?: boolean
+  /** Whether to add bookmarks built from the h1-h6 heading hierarchy (default: false) */
+  generateDocumentOutline?: boolean
+  /** Document information and XMP metadata written into the PDF, or false to keep Chrome's (default: from the page) */
+  metadata?: PDFMetadataOptions | false
+  /** CSS selector of elements printed on their own, one PDF per match; the rest of the page is hidden */
+  selector?: string
+}
+
+/**
+ * Document metadata written into generated PDFs
+ */
+export interface PDFMetadataOptions {
+  /** Whether to take title, description, author and keywords from the page metadata (default: true) */
+  fromPage?: boolean
+  /** Document title (default: page title) */
+  title?: string
+  /** Document author (default: author meta tag) */
+  author?: string
+  /** Document subject (default: description meta tag) */
+  subject?: string
+  /** Keywords (default: keywords meta tag) */
+  keywords?: string[]
+  /** Application that created the original content (default: Chrome's) */
+  creator?: string
+  /** Application that produced the PDF (default: html-converter-cdt) */
+  producer?: string
 }
 
 /**
- * Image-specific conversion options (PNG/JPEG)
+ * Image-specific conversion options (PNG/JPEG/WebP)
  */
 export interface ImageOptions extends BaseConversionOptions {
-  /** Image quality for JPEG (0-100, default: 80) */
+  /** Image quality for JPEG and WebP (0-100, default: 80) */
   quality?: number
   /** Whether to capture full page screenshot (default: true) */
   fullPage?: boolean
@@ -133,25 +188,76 @@ export interface ImageOptions extends BaseConversionOptions {
     width?: number
     height?: number
   }
+  /** Maximum height of the output image in CSS pixels for full-page captures */
+  maxHeight?: number
+  /** Split full-page captures taller than maxHeight into numbered images instead of cropping (default: false) */
+  split?: boolean
+  /** CSS selector of elements captured on their own, one image per match; takes precedence over clip */
+  selector?: string
+  /** Space around each element captured by selector in CSS pixels (default: 0) */
+  selectorPadding?: number
+  /** Devices to capture the page on, one image per device in the given order: "phone", "tablet", "desktop", "WIDTHxHEIGHT[@scale]" or a device descriptor */
+  devices?: Array<string | DeviceDescriptor>
+  /** Add an image of all device captures side by side after the device images (PNG and JPEG only) */
+  contactSheet?: boolean
 }
 
 /**
  * Markdown-specific conversion options
  */
 export interface MarkdownOptions extends BaseConversionOptions {
+  /** Markdown flavor (default: gfm) */
+  flavor?: "gfm" | "commonmark" | "original"
+  /** Heading style; setext applies to levels 1 and 2 (default: atx) */
+  headingStyle?: "atx" | "setext"
+  /** Marker for unordered list items (default: -) */
+  bulletMarker?: "-" | "*" | "+"
+  /** Code block style (default: fenced) */
+  codeBlockStyle?: "fenced" | "indented"
+  /** Fence used for fenced code blocks (default: ```) */
+  fence?: string
+  /** Delimiter for emphasis (default: *) */
+  emDelimiter?: string
+  /** Delimiter for strong emphasis (default: **) */
+  strongDelimiter?: string
+  /** Link style (default: inlined) */
+  linkStyle?: "inlined" | "referenced"
+  /** Whether to keep source whitespace instead of collapsing it (default: false) */
+  preserveWhitespace?: boolean
+  /** Whether to use GFM strikethrough (default: true) */
+  strikethrough?: boolean
+  /** Whether to use GFM tables (default: true) */
+  tables?: boolean
+  /** Whether to use GFM task lists (default: true) */
+  tasklists?: boolean
   /** Whether to preserve HTML comments (default: false) */
   preserveComments?: boolean
+  /** Whether to keep image URLs instead of extracting images to asset files (default: true) */
+  embedImages?: boolean
+  /** Directory of extracted images, relative to the Markdown document (default: ./assets) */
+  imageAssetPath?: string
   /** Whether to preserve inline styles (default: false) */
   preserveStyles?: boolean
   /** Maximum line length for text wrapping (default: 80) */
   maxLineLength?: number
-  /** Whether to include metadata as frontmatter (default: true) */
+  /** Whether to prepend front matter built from the page metadata (default: false) */
   includeFrontmatter?: boolean
-  /** Custom rules for HTML to Markdown conversion */
-  customRules?: Array<{
-    selector: string
-    replacement: string
-  }>
+  /** Front matter format, fields and custom keys */
+  frontmatter?: MarkdownFrontmatterOptions
+  /** Rules overriding the Markdown of elements matched by CSS selectors; the first matching rule applies */
+  customRules?: MarkdownCustomRule[]
+}
+
+/**
+ * Front matter prepended to generated Markdown
+ */
+export interface MarkdownFrontmatterOptions {
+  /** Front matter syntax: YAML between --- lines or TOML between +++ lines (default: yaml) */
+  format?: "yaml" | "toml"
+  /** Page metadata fields to include, in output order (default: all) */
+  fields?: Array<"title" | "url" | "description" | "author" | "date" | "headline" | "og" | "captured">
+  /** Custom keys added after the page metadata, replacing fields of the same name */
+  static?: Record<string, string | number | boolean | string[]>
 }
 
 /**
@@ -179,6 +285,72 @@ export interface DOCXOptions extends BaseConversionOptions {
   includeTables?: boolean
   /** Whether to preserve hyperlinks (default: true) */
   preserveLinks?: boolean
+  /** Whether to carry the page's CSS into run and paragraph formatting (default: true) */
+  preserveStyle?: boolean
+  /** Page layout: flowing pages, or pages also broken at explicit markers (default: standard) */
+  layout?: "standard" | "auto-page"
+  /** Page break markers recognized by the auto-page layout (default: hr.page-break and pagebreak comments) */
+  pageBreaks?: PageBreakMarkers
+  /** Running header: a template for every page, or per-page variants */
+  header?: string | DOCXHeaderFooterOptions
+  /** Running footer: a template for every page, or per-page variants */
+  footer?: string | DOCXHeaderFooterOptions
+}
+
+/**
+ * DOCX header or footer templates
+ *
+ * Templates are small HTML fragments or plain text. `{title}`, `{url}` and `{date}`
+ * are replaced with the document title, URL and conversion date; `{page}` and
+ * `{pages}` become Word page number fields.
+ */
+export interface DOCXHeaderFooterOptions {
+  /** Template used on every page without a variant of its own */
+  default?: string
+  /** First page template; enables a different first page ("" leaves it blank) */
+  first?: string
+  /** Even page template; enables different odd and even pages */
+  even?: string
+}
+
+/**
+ * EPUB-specific conversion options
+ */
+export interface EPUBOptions extends BaseConversionOptions {
+  /** Publication title (default: document title) */
+  title?: string
+  /** Publication author (default: author meta tag) */
+  author?: string
+  /** Publication language as a BCP 47 tag (default: "en") */
+  language?: string
+  /** Unique publication identifier (default: generated UUID) */
+  identifier?: string
+  /** Deepest heading level listed in the table of contents (default: 3) */
+  tocDepth?: number
+  /** Whether to package images (default: true) */
+  includeImages?: boolean
+  /** Whether to package document stylesheets (default: true) */
+  includeStyles?: boolean
+}
+
+/**
+ * Self-contained HTML conversion options
+ */
+export interface HTMLOptions extends BaseConversionOptions {
+  /** Maximum size of a single inlined resource in bytes (default: 10MB) */
+  maxResourceSize?: number
+  /** Timeout for loading a single resource in milliseconds (default: 10000) */
+  timeoutPerResource?: number
+}
+
+/**
+ * Structured JSON extraction options
+ *
+ * The output is an ExtractedDocument serialized as JSON.
+ */
+export interface JSONOptions extends BaseConversionOptions {
+  /** Spaces of indentation, 0 for compact output (default: 2) */
+  indent?: number
 }
 
 /**
@@ -190,11 +362,16 @@ export type ConversionOptions
     | ImageOptions
     | MarkdownOptions
     | DOCXOptions
+    | EPUBOptions
+    | HTMLOptions
+    | JSONOptions
 
 /**
  * Enhanced conversion result with additional metadata
  */
-export interface EnhancedConversionResult extends ConversionResult {
+export interface EnhancedConversionResult extends Omit<ConversionResult, "content"> {
+  /** The converted content: a Buffer for binary formats (PDF, images, DOCX), a string for text formats */
+  content: string | Buffer
   /** The format that was converted to */
   format: ConversionFormat
   /** File name suggestion for the result */
@@ -212,8 +389,36 @@ export interface EnhancedConversionResult extends ConversionResult {
     /** Number of resources processed */
     resourcesProcessed: number
   }
-  /** Validation warnings if any */
+  /** Warnings about the input, or content the output could not represent faithfully */
   validationWarnings?: string[]
+  /** Further output files produced by the conversion, such as the remaining images of a split screenshot or the outputs of further selector matches */
+  additionalFiles?: AdditionalOutputFile[]
+  /** Asset files the content links to, to be written relative to the converted document */
+  assets?: ConversionAsset[]
+}
+
+/**
+ * Asset file referenced by the converted content, such as an image extracted from a Markdown document
+ */
+export interface ConversionAsset {
+  /** Path of the asset file relative to the converted document, as linked from its content */
+  path: string
+  /** File content */
+  content: Buffer
+  /** Media type of the asset */
+  mediaType: string
+  /** URL the asset was loaded from */
+  source: string
+}
+
+/**
+ * Output file produced alongside the main conversion content
+ */
+export interface AdditionalOutputFile {
+  /** File content */
+  content: Buffer
+  /** File name suggestion, numbered after the main result */
+  suggestedFileName: string
 }
 
 /**
@@ -230,6 +435,8 @@ export interface BatchConversionItem {
   options?: ConversionOptions
   /** Output file path (optional) */
   outputPath?: string
+  /** Title listed in the table of contents of a merged PDF (default: the document title) */
+  title?: string
 }
 
 /**
@@ -242,6 +449,8 @@ export interface BatchConversionOptions {
   continueOnError?: boolean
   /** Progress callback function */
   onProgress?: (progress: ConversionProgress) => void
+  /** Combine the PDF results in item order into one PDF with a table of contents */
+  mergeInto?: "single-pdf"
 }
 
 /**
@@ -270,6 +479,10 @@ export interface BatchConversionResult {
     /** Average conversion time */
     averageTime: number
   }
+  /** Combined PDF of a batch merged into a single PDF */
+  merged?: EnhancedConversionResult
+  /** Why the batch could not be merged into a single PDF; the item results are still returned */
+  mergeError?: ConversionError
 }
 
 /**
@@ -425,11 +638,7 @@ export interface IHTMLConverter {
    */
   convertBatch(
     items: BatchConversionItem[],
-    options?: {
-      maxConcurrency?: number
-      continueOnError?: boolean
-      onProgress?: (progress: ConversionProgress) => void
-    }
+    options?: BatchConversionOptions
   ): Promise<BatchConversionResult>
 
   /**
@@ -2,6 +2,8 @@
  * Unit tests for MHTML Processor
  */
 
+import { Buffer } from "node:buffer"
+
 import { beforeEach, describe, expect, it, vi } from "vitest"
 
 import type { CDPClient } from "../../../../src/architecture/adapters/cdp/CDPClient"
@@ -251,6 +253,104 @@ describe("mHTMLProcessor", () => {
         .rejects.toThrow("External dependency analysis failed: Detection failed")
     })
   })
+
+  describe("page operations", () => {
+    let sendCommand: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      sendCommand = vi.fn(async (method: string) => {
+        switch (method) {
+          case "Page.navigate":
+            return { success: true, result: { frameId: "frame-1" }, executionTime: 1 }
+          case "Page.getFrameTree":
+            return { success: true, result: { frameTree: { frame: { id: "frame-1" } } }, executionTime: 1 }
+          case "Page.getLayoutMetrics":
+            return { success: true, result: { cssContentSize: { width: 800, height: 2400.5 } }, executionTime: 1 }
+          case "Runtime.evaluate":
+            return { success: true, result: { result: { value: true } }, executionTime: 1 }
+          default:
+            return { success: true, result: { data: "cGRm" }, executionTime: 1 }
+        }
+      })
+      mockCDPClient.sendCommand = sendCommand as any
+      mhtmlProcessor.setCDPClient(mockCDPClient)
+    })
+
+    it("should navigate and return the frame id", async () => {
+      const result = await mhtmlProcessor.navigate("https://example.com")
+
+      expect(result).toEqual({ targetId: "frame-1" })
+      expect(sendCommand).toHaveBeenCalledWith("Page.navigate", { url: "https://example.com" })
+    })
+
+    it("should set document content on the main frame", async () => {
+      await mhtmlProcessor.setContent("<html><body>Hi</body></html>")
+
+      expect(sendCommand).toHaveBeenCalledWith("Page.setDocumentContent", {
+        frameId: "frame-1",
+        html: "<html><body>Hi</body></html>",
+      })
+    })
+
+    it("should capture the rendered DOM snapshot", async () => {
+      const snapshot = { type: 1, tag: "html", attributes: {}, children: [] }
+      sendCommand.mockResolvedValueOnce({ success: true, result: { result: { value: snapshot } }, executionTime: 1 })
+
+      await expect(mhtmlProcessor.captureDOMSnapshot()).resolves.toEqual(snapshot)
+      expect(sendCommand).toHaveBeenCalledWith("Runtime.evaluate", expect.objectContaining({ returnByValue: true }))
+    })
+
+    it("should translate named paper formats for printToPDF", async () => {
+      const pdf = await mhtmlProcessor.printToPDF({ format: "Letter", landscape: true, margin: { top: 1 } })
+
+      expect(pdf.toString()).toBe("pdf")
+      expect(sendCommand).toHaveBeenCalledWith("Page.printToPDF", expect.objectContaining({
+        paperWidth: 8.5,
+        paperHeight: 11,
+        landscape: true,
+        marginTop: 1,
+        marginLeft: 0.4,
+      }))
+    })
+
+    it("should clip full page screenshots to the content size", async () => {
+      await mhtmlProcessor.screenshot({ format: "png", fullPage: true })
+
+      expect(sendCommand).toHaveBeenCalledWith("Page.captureScreenshot", {
+        format: "png",
+        quality: undefined,
+        clip: { x: 0, y: 0, width: 800, height: 2401, scale: 1 },
+        captureBeyondViewport: true,
+      })
+    })
+
+    it("should send request headers, credentials and the user agent with page requests", async () => {
+      await mhtmlProcessor.setRequestHeaders({
+        headers: { "X-Tenant": "acme" },
+        auth: { username: "user", password: "secret" },
+        userAgent: "IndexBot/1.0",
+      })
+
+      expect(sendCommand).toHaveBeenCalledWith("Network.enable", {})
+      expect(sendCommand).toHaveBeenCalledWith("Network.setExtraHTTPHeaders", {
+        headers: { "X-Tenant": "acme", "Authorization": `Basic ${Buffer.from("user:secret").toString("base64")}` },
+      })
+      expect(sendCommand).toHaveBeenCalledWith("Network.setUserAgentOverride", { userAgent: "IndexBot/1.0" })
+    })
+
+    it("should restore the default headers and user agent without options", async () => {
+      await mhtmlProcessor.setRequestHeaders()
+
+      expect(sendCommand).toHaveBeenCalledWith("Network.setExtraHTTPHeaders", { headers: {} })
+      expect(sendCommand).toHaveBeenCalledWith("Network.setUserAgentOverride", { userAgent: "" })
+    })
+
+    it("should surface failed CDP commands", async () => {
+      sendCommand.mockResolvedValueOnce({ success: false, result: null, error: "Target closed", executionTime: 1 })
+
+      await expect(mhtmlProcessor.navigate("https://example.com")).rejects.toThrow("Page.navigate failed: Target closed")
+    })
+  })
 })
 
 describe("externalDependencyDetector", () => {
@@ -0,0 +1,95 @@
+/**
+ * Converter Test Fixtures
+ *
+ * Provides the mock logger, parsed HTML documents and package readers shared by the converter unit tests.
+ */
+
+import { Buffer } from "node:buffer"
+import { inflateRawSync } from "node:zlib"
+
+import { JSDOM } from "jsdom"
+import type { Mock } from "vitest"
+import { vi } from "vitest"
+
+/**
+ * 1x1 transparent PNG
+ */
+export const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+export const PNG_DATA_URI = `data:image/png;base64,${PNG_BASE64}`
+
+/**
+ * Logger whose methods record their calls
+ */
+export type MockLogger = Record<"debug" | "error" | "info" | "warn", Mock>
+
+/**
+ * ZIP archive entry with its compression method (0 stored, 8 deflated)
+ */
+export interface ZipEntry {
+  data: Buffer
+  method: number
+}
+
+/**
+ * Create a logger whose methods record their calls
+ */
+export function createMockLogger(): MockLogger {
+  return {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }
+}
+
+/**
+ * Parse an HTML page with the given body
+ *
+ * @param body - Body markup
+ * @param options - Document options
+ * @param options.head - Markup added to the head after the title
+ * @param options.lang - Language of the document element
+ * @param options.title - Document title, left out when empty (default: Test Page)
+ * @param options.url - Page URL (default: https://example.com/docs/page.html)
+ */
+export function createTestDocument(
+  body: string,
+  { head = "", lang, title = "Test Page", url = "https://example.com/docs/page.html" }: {
+    head?: string
+    lang?: string
+    title?: string
+    url?: string
+  } = {},
+): HTMLDocument {
+  const html = lang ? `<html lang="${lang}">` : "<html>"
+  const titleElement = title ? `<title>${title}</title>` : ""
+  return new JSDOM(`<!DOCTYPE html>${html}<head>${titleElement}${head}</head><body>${body}</body></html>`, { url }).window.document
+}
+
+/**
+ * Read the entries of a ZIP archive through its central directory, in archive order
+ */
+export function unzip(archive: Buffer): Map<string, ZipEntry> {
+  const entries = new Map<string, ZipEntry>()
+  const end = archive.length - 22
+  const count = archive.readUInt16LE(end + 10)
+  let offset = archive.readUInt32LE(end + 16)
+
+  for (let i = 0; i < count; i++) {
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localOffset = archive.readUInt32LE(offset + 42)
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength)
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28)
+    const data = archive.subarray(dataStart, dataStart + compressedSize)
+    entries.set(name, { data: method === 8 ? inflateRawSync(data) : Buffer.from(data), method })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}